@@ -0,0 +1,228 @@
+/**
+ * Stand-in for the live collaboration endpoint, for trying multi-user editing locally.
+ *
+ *   npm run collab-server            # ws://localhost:8787
+ *   VITE_COLLAB_URL=ws://localhost:8787 npm run dev
+ *
+ * Relays the messages described in src/lib/collaboration.ts between the clients of a project room
+ * (`?project=<id>`), keeps presence and enforces selection locks. It stores nothing: assemblies are
+ * still saved through the REST API. No dependencies, so the WebSocket framing is done by hand.
+ */
+import { createServer } from "node:http";
+import { createHash, randomUUID } from "node:crypto";
+
+const PORT = Number(process.env.COLLAB_PORT || 8787);
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/** project id -> Map<clientId, client> */
+const rooms = new Map();
+
+// --- WebSocket framing (RFC 6455, text frames only) ---
+
+function encodeFrame(text, opcode = 0x1) {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Pull complete frames off the front of `buffer`; returns the frames and what is left over
+ */
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset];
+    const second = buffer[offset + 1];
+    let length = second & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length - cursor < 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length - cursor < 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    const masked = (second & 0x80) !== 0;
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length - cursor < maskLength + length) break;
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    cursor += maskLength;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+// --- Rooms ---
+
+function peersOf(room) {
+  return Array.from(room.values())
+    .filter((c) => c.joined)
+    .map(({ clientId, name, selection, readonly }) => ({ clientId, name, selection, readonly }));
+}
+
+function locksOf(room) {
+  const locks = {};
+  for (const client of room.values()) {
+    if (client.readonly) continue;
+    for (const id of client.selection) locks[id] = client.clientId;
+  }
+  return locks;
+}
+
+function send(client, message) {
+  if (!client.socket.destroyed) client.socket.write(encodeFrame(JSON.stringify(message)));
+}
+
+function broadcastPresence(room) {
+  const message = { type: "presence", peers: peersOf(room), locks: locksOf(room) };
+  for (const client of room.values()) if (client.joined) send(client, message);
+}
+
+function opIds(op) {
+  return op.type === "remove" ? op.ids : op.components.map((c) => c.id);
+}
+
+function handleMessage(room, client, message) {
+  switch (message.type) {
+    case "join": {
+      client.name = String(message.name || "Guest").slice(0, 64);
+      client.readonly = !!message.readonly;
+      client.joined = true;
+      send(client, { type: "welcome", clientId: client.clientId, peers: peersOf(room), locks: locksOf(room) });
+      broadcastPresence(room);
+      console.log(`👋 ${client.name} joined project ${client.projectId} (${room.size} connected)`);
+      break;
+    }
+    case "select": {
+      if (client.readonly || !Array.isArray(message.ids)) return;
+      const locks = locksOf(room);
+      const granted = [];
+      const denied = new Map(); // owner name -> ids
+      for (const id of message.ids) {
+        const owner = locks[id];
+        if (!owner || owner === client.clientId) {
+          granted.push(id);
+        } else {
+          const name = room.get(owner)?.name ?? "Someone";
+          denied.set(name, [...(denied.get(name) ?? []), id]);
+        }
+      }
+      client.selection = granted;
+      denied.forEach((ids, owner) => send(client, { type: "denied", ids, owner }));
+      broadcastPresence(room);
+      break;
+    }
+    case "op": {
+      if (client.readonly || !message.op) return;
+      const locks = locksOf(room);
+      const blocked = opIds(message.op).filter((id) => locks[id] && locks[id] !== client.clientId);
+      if (blocked.length > 0) {
+        // Roll the sender back: the owners resend their version of the components
+        const owners = new Set(blocked.map((id) => locks[id]));
+        const ownerName = room.get([...owners][0])?.name ?? "Someone";
+        send(client, { type: "rejected", ids: blocked, owner: ownerName });
+        owners.forEach((ownerId) => {
+          const owner = room.get(ownerId);
+          if (owner) send(owner, { type: "resync", ids: blocked.filter((id) => locks[id] === ownerId) });
+        });
+        return;
+      }
+      for (const other of room.values()) {
+        if (other !== client && other.joined) send(other, { type: "op", from: client.clientId, op: message.op });
+      }
+      break;
+    }
+  }
+}
+
+function leave(room, client) {
+  if (!room.delete(client.clientId)) return;
+  if (room.size === 0) rooms.delete(client.projectId);
+  else broadcastPresence(room);
+  if (client.joined) console.log(`👋 ${client.name} left project ${client.projectId}`);
+}
+
+// --- Server ---
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { "Content-Type": "text/plain" });
+  res.end("Collaboration stand-in: connect with a WebSocket\n");
+});
+
+server.on("upgrade", (req, socket) => {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const projectId = url.searchParams.get("project");
+  const key = req.headers["sec-websocket-key"];
+  if (!projectId || !key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+
+  const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  if (!rooms.has(projectId)) rooms.set(projectId, new Map());
+  const room = rooms.get(projectId);
+  const client = { clientId: randomUUID(), projectId, socket, name: "Guest", selection: [], readonly: false, joined: false };
+  room.set(client.clientId, client);
+
+  let buffered = Buffer.alloc(0);
+  let fragments = [];
+  socket.on("data", (chunk) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([buffered, chunk]));
+    buffered = Buffer.from(rest);
+    for (const frame of frames) {
+      if (frame.opcode === 0x8) {
+        socket.end(encodeFrame("", 0x8));
+        return;
+      }
+      if (frame.opcode === 0x9) {
+        socket.write(encodeFrame(frame.payload.toString(), 0xa));
+        continue;
+      }
+      if (frame.opcode !== 0x1 && frame.opcode !== 0x0) continue;
+      fragments.push(frame.payload);
+      if (!frame.fin) continue;
+      const text = Buffer.concat(fragments).toString("utf8");
+      fragments = [];
+      try {
+        handleMessage(room, client, JSON.parse(text));
+      } catch (error) {
+        console.error("❌ Bad message:", error.message);
+      }
+    }
+  });
+  socket.on("close", () => leave(room, client));
+  socket.on("error", () => leave(room, client));
+});
+
+server.listen(PORT, () => {
+  console.log(`🤝 Collaboration stand-in listening on ws://localhost:${PORT}`);
+});
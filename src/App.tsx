@@ -36,6 +36,7 @@ const App = () => (
               <Route path="/projects" element={<Projects />} />
               <Route path="/builder/:id" element={<Builder />} />
               <Route path="/builder/demo" element={<Builder />} />
+              <Route path="/share/:token" element={<Builder />} />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
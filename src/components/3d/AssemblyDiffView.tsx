@@ -0,0 +1,148 @@
+import { useMemo, useState } from "react";
+import { Canvas, ThreeEvent } from "@react-three/fiber";
+import { Grid, Html, Line, OrbitControls } from "@react-three/drei";
+import * as THREE from "three";
+import { componentExtent } from "@/lib/assemblyCompare";
+import { CHANGE_COLORS, ComponentChange, SnapshotComponent, SnapshotDiff } from "@/lib/versionHistory";
+
+const UNCHANGED_COLOR = "#94a3b8";
+
+interface DiffShape {
+  key: string;
+  diffId: string | null; // id of the ComponentDiff this shape belongs to
+  component: SnapshotComponent;
+  change: ComponentChange | null;
+  ghost: boolean; // where the part used to be
+}
+
+interface AssemblyDiffViewProps {
+  after: SnapshotComponent[];
+  diff: SnapshotDiff;
+  selectedId?: string | null;
+  onSelect?: (id: string | null) => void;
+}
+
+/**
+ * Parts of the compared assembly drawn as their bounding boxes, coloured by change.
+ * Removed parts and the old pose of moved parts are drawn as outlines.
+ */
+function DiffBox({ shape, selected, onSelect }: { shape: DiffShape; selected: boolean; onSelect?: (id: string | null) => void }) {
+  const [hovered, setHovered] = useState(false);
+  const { component, change, ghost } = shape;
+  const [sx, sy, sz] = componentExtent(component);
+  const color = change ? CHANGE_COLORS[change] : UNCHANGED_COLOR;
+  const [x, y, z] = component.position;
+  const rotation = (component.rotation ?? [0, 0, 0]) as [number, number, number];
+  const edges = useMemo(() => new THREE.EdgesGeometry(new THREE.BoxGeometry(sx, sy, sz)), [sx, sy, sz]);
+
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    event.stopPropagation();
+    onSelect?.(shape.diffId);
+  };
+
+  return (
+    <group position={[x, y + sy / 2, z]} rotation={rotation}>
+      <mesh
+        onClick={handleClick}
+        onPointerOver={(e) => {
+          e.stopPropagation();
+          setHovered(true);
+        }}
+        onPointerOut={() => setHovered(false)}
+      >
+        <boxGeometry args={[sx, sy, sz]} />
+        <meshStandardMaterial
+          color={color}
+          transparent
+          opacity={ghost ? 0.12 : selected || hovered ? 0.95 : 0.75}
+          depthWrite={!ghost}
+          emissive={selected ? color : "#000000"}
+          emissiveIntensity={selected ? 0.4 : 0}
+        />
+      </mesh>
+      <lineSegments geometry={edges}>
+        <lineBasicMaterial color={color} transparent opacity={ghost ? 0.8 : 1} />
+      </lineSegments>
+      {(hovered || selected) && (
+        <Html position={[0, sy / 2 + 0.2, 0]} center style={{ pointerEvents: "none" }}>
+          <div className="px-2 py-1 rounded bg-background/90 border text-xs whitespace-nowrap shadow">
+            {component.name}
+            {change && <span className="ml-1 text-muted-foreground">({ghost ? "was here" : change})</span>}
+          </div>
+        </Html>
+      )}
+    </group>
+  );
+}
+
+/**
+ * Read-only 3D view of a comparison: the newer assembly coloured by what changed since the older one
+ */
+export function AssemblyDiffView({ after, diff, selectedId = null, onSelect }: AssemblyDiffViewProps) {
+  const shapes = useMemo(() => {
+    const byId = new Map(diff.components.filter((d) => d.after).map((d) => [d.after!.id, d]));
+    const list: DiffShape[] = after.map((component) => {
+      const d = byId.get(component.id);
+      return { key: `after-${component.id}`, diffId: d?.id ?? null, component, change: d?.change ?? null, ghost: false };
+    });
+    for (const d of diff.components) {
+      if (d.change === "removed" && d.before) {
+        list.push({ key: `removed-${d.id}`, diffId: d.id, component: d.before, change: "removed", ghost: true });
+      } else if ((d.change === "moved" || d.change === "changed") && d.before && d.after) {
+        list.push({ key: `before-${d.id}`, diffId: d.id, component: d.before, change: d.change, ghost: true });
+      }
+    }
+    return list;
+  }, [after, diff]);
+
+  // Frame everything that is drawn
+  const { target, distance } = useMemo(() => {
+    const box = new THREE.Box3();
+    shapes.forEach(({ component }) => {
+      const [sx, sy, sz] = componentExtent(component);
+      const [x, y, z] = component.position;
+      box.expandByPoint(new THREE.Vector3(x - sx / 2, y, z - sz / 2));
+      box.expandByPoint(new THREE.Vector3(x + sx / 2, y + sy, z + sz / 2));
+    });
+    if (box.isEmpty()) return { target: new THREE.Vector3(), distance: 10 };
+    const size = box.getSize(new THREE.Vector3());
+    return { target: box.getCenter(new THREE.Vector3()), distance: Math.max(size.x, size.y, size.z, 4) * 1.4 };
+  }, [shapes]);
+
+  const moves = diff.components.filter((d) => d.before && d.after && (d.change === "moved" || d.change === "changed"));
+
+  return (
+    <Canvas
+      camera={{ position: [target.x + distance, target.y + distance * 0.8, target.z + distance], fov: 45 }}
+      onPointerMissed={() => onSelect?.(null)}
+    >
+      <color attach="background" args={["#0f172a"]} />
+      <ambientLight intensity={0.7} />
+      <directionalLight position={[10, 15, 10]} intensity={0.8} />
+      <Grid
+        args={[200, 200]}
+        cellSize={1}
+        sectionSize={10}
+        cellColor="#334155"
+        sectionColor="#475569"
+        fadeDistance={distance * 4}
+        infiniteGrid
+      />
+      {shapes.map((shape) => (
+        <DiffBox key={shape.key} shape={shape} selected={!!selectedId && shape.diffId === selectedId} onSelect={onSelect} />
+      ))}
+      {moves.map((d) => (
+        <Line
+          key={`move-${d.id}`}
+          points={[d.before!.position, d.after!.position]}
+          color={CHANGE_COLORS[d.change]}
+          lineWidth={1.5}
+          dashed
+          dashSize={0.2}
+          gapSize={0.1}
+        />
+      ))}
+      <OrbitControls target={target} makeDefault />
+    </Canvas>
+  );
+}
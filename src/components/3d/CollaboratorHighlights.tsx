@@ -0,0 +1,98 @@
+import { useMemo, useRef, useState } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import * as THREE from "three";
+import { useCollabStore } from "@/state/store";
+import { computePartBox, findComponentRoots } from "@/lib/collision";
+import { peerColor } from "@/lib/collaboration";
+
+const UPDATE_INTERVAL = 0.1; // s between box updates, so moves by others are followed
+
+interface Claim {
+  componentId: string;
+  peerId: string;
+  peerName: string;
+}
+
+interface ClaimBox extends Claim {
+  center: [number, number, number];
+  size: [number, number, number];
+}
+
+function boxesKey(boxes: ClaimBox[]): string {
+  return boxes
+    .map((b) => `${b.componentId}:${b.peerId}:${[...b.center, ...b.size].map((v) => v.toFixed(3)).join(",")}`)
+    .join("|");
+}
+
+function ClaimOutline({ box }: { box: ClaimBox }) {
+  const color = peerColor(box.peerId);
+  const [sx, sy, sz] = box.size;
+  const edges = useMemo(() => new THREE.EdgesGeometry(new THREE.BoxGeometry(sx, sy, sz)), [sx, sy, sz]);
+
+  return (
+    <group position={box.center}>
+      <lineSegments geometry={edges} renderOrder={999}>
+        <lineBasicMaterial color={color} depthTest={false} transparent opacity={0.9} />
+      </lineSegments>
+      <Html position={[0, sy / 2 + 0.15, 0]} center style={{ pointerEvents: "none" }}>
+        <div
+          className="px-1.5 py-0.5 rounded text-[10px] font-medium text-white whitespace-nowrap shadow"
+          style={{ backgroundColor: color }}
+        >
+          {box.peerName}
+        </div>
+      </Html>
+    </group>
+  );
+}
+
+/**
+ * Outlines the components other people in the live session have selected, labelled with their name
+ */
+export function CollaboratorHighlights() {
+  const { scene } = useThree();
+  const peers = useCollabStore((state) => state.peers);
+  const clientId = useCollabStore((state) => state.clientId);
+  const [boxes, setBoxes] = useState<ClaimBox[]>([]);
+  const timerRef = useRef(UPDATE_INTERVAL);
+
+  const claims = useMemo<Claim[]>(
+    () =>
+      peers
+        .filter((p) => p.clientId !== clientId && !p.readonly)
+        .flatMap((p) => p.selection.map((componentId) => ({ componentId, peerId: p.clientId, peerName: p.name }))),
+    [peers, clientId]
+  );
+
+  useFrame((_, delta) => {
+    timerRef.current += delta;
+    if (timerRef.current < UPDATE_INTERVAL) return;
+    timerRef.current = 0;
+
+    if (claims.length === 0) {
+      if (boxes.length > 0) setBoxes([]);
+      return;
+    }
+    const roots = findComponentRoots(scene);
+    const next: ClaimBox[] = [];
+    claims.forEach((claim) => {
+      const root = roots.get(claim.componentId);
+      if (!root) return;
+      const box = computePartBox(root);
+      if (box.isEmpty()) return;
+      const center = box.getCenter(new THREE.Vector3());
+      const size = box.getSize(new THREE.Vector3()).addScalar(0.04); // just outside the part
+      next.push({ ...claim, center: center.toArray(), size: size.toArray() });
+    });
+    if (boxesKey(next) !== boxesKey(boxes)) setBoxes(next);
+  });
+
+  return (
+    <group userData={{ isHelper: true }}>
+      {boxes.map((box) => (
+        <ClaimOutline key={`${box.peerId}-${box.componentId}`} box={box} />
+      ))}
+    </group>
+  );
+}
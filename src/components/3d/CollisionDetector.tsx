@@ -0,0 +1,118 @@
+import { useMemo, useRef, useState } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import { useCollisionStore } from "@/state/store";
+import { CollisionPart, clashesKey, findClashes, findComponentRoots, getPartMeshes, transformKey } from "@/lib/collision";
+
+const CHECK_INTERVAL = 0.2; // s between checks while the parts are at rest
+const MOVING_CHECK_INTERVAL = 0.5; // s between checks while a part is being dragged
+const MAX_MESH_CHECKS = 2; // new mesh-level pair checks per tick; the rest follow on later ticks
+const MAX_CACHED_PAIRS = 500;
+const CLASH_COLOR = "#ef4444";
+
+interface CollisionComponent {
+  id: string;
+  linkedTo?: string;
+  isLocked?: boolean;
+}
+
+/**
+ * Red overlay drawn over every mesh of a clashing part, following it while it moves
+ */
+function ClashTint({ root, active }: { root: THREE.Object3D; active: boolean }) {
+  const meshes = useMemo(() => getPartMeshes(root), [root]);
+  const overlays = useRef<Array<THREE.Mesh | null>>([]);
+
+  useFrame(() => {
+    meshes.forEach((mesh, i) => overlays.current[i]?.matrix.copy(mesh.matrixWorld));
+  });
+
+  return (
+    <>
+      {meshes.map((mesh, i) => (
+        <mesh
+          key={mesh.uuid}
+          ref={(el) => {
+            overlays.current[i] = el;
+          }}
+          geometry={mesh.geometry}
+          matrix={mesh.matrixWorld.clone()}
+          matrixAutoUpdate={false}
+          renderOrder={998}
+        >
+          <meshBasicMaterial
+            color={CLASH_COLOR}
+            transparent
+            opacity={active ? 0.6 : 0.35}
+            depthWrite={false}
+            polygonOffset
+            polygonOffsetFactor={-1}
+          />
+        </mesh>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Checks the free-placed components for interference a few times a second and tints the ones that clash.
+ * While a part moves only bounding boxes are compared; meshes are checked once it comes to rest.
+ * While `paused` (parts displaced for an exploded view) the clashes of the assembled layout are kept.
+ */
+export function CollisionDetector({ components, paused = false }: { components: CollisionComponent[]; paused?: boolean }) {
+  const { scene } = useThree();
+  const { enabled, activeClashId, setClashes } = useCollisionStore();
+  const [tinted, setTinted] = useState<Array<{ id: string; root: THREE.Object3D }>>([]);
+  const timerRef = useRef(CHECK_INTERVAL);
+  const cacheRef = useRef(new Map<string, boolean | null>());
+  const transformsRef = useRef("");
+  const movingRef = useRef(false);
+
+  // Locked links are attached on purpose, so their overlap is not a clash
+  const allowed = useMemo(() => {
+    const map = new Map<string, string[]>();
+    components.forEach((c) => {
+      if (c.isLocked && c.linkedTo) map.set(c.id, [c.linkedTo]);
+    });
+    return map;
+  }, [components]);
+
+  useFrame((_, delta) => {
+    if (!enabled || paused) {
+      if (tinted.length > 0) setTinted([]);
+      return;
+    }
+    timerRef.current += delta;
+    if (timerRef.current < (movingRef.current ? MOVING_CHECK_INTERVAL : CHECK_INTERVAL)) return;
+    timerRef.current = 0;
+
+    const roots = findComponentRoots(scene);
+    const parts: CollisionPart[] = Array.from(roots, ([id, object]) => ({ id, object, allowed: allowed.get(id) }));
+    const transforms = parts.map((part) => `${part.id}:${transformKey(part.object)}`).join(";");
+    movingRef.current = transforms !== transformsRef.current;
+    transformsRef.current = transforms;
+
+    if (cacheRef.current.size > MAX_CACHED_PAIRS) cacheRef.current.clear();
+    const clashes = findClashes(parts, cacheRef.current, movingRef.current ? 0 : MAX_MESH_CHECKS);
+
+    if (clashesKey(clashes) !== clashesKey(useCollisionStore.getState().clashes)) {
+      setClashes(clashes);
+    }
+
+    const ids = Array.from(new Set(clashes.flatMap((c) => [c.a, c.b])));
+    const next = ids.map((id) => ({ id, root: roots.get(id)! }));
+    if (next.length !== tinted.length || next.some((t, i) => t.root !== tinted[i]?.root)) {
+      setTinted(next);
+    }
+  });
+
+  const active = useCollisionStore((state) => state.clashes.find((c) => c.id === activeClashId));
+
+  return (
+    <group userData={{ isHelper: true }}>
+      {tinted.map(({ id, root }) => (
+        <ClashTint key={id} root={root} active={!!active && (active.a === id || active.b === id)} />
+      ))}
+    </group>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import * as THREE from "three";
+import { MessageSquare } from "lucide-react";
+import { useReviewStore } from "@/state/store";
+import { findComponentRoots } from "@/lib/collision";
+import { findPartRoot, isPickable } from "@/lib/measurement";
+import { EXPORT_COMPONENT_KEY } from "@/lib/sceneExport";
+import { CommentAnchor, buildThreads } from "@/lib/reviewComments";
+
+type Point = [number, number, number];
+
+const UPDATE_INTERVAL = 0.1; // s between pin updates, so pins follow moved components
+const CLICK_TOLERANCE = 4; // px a press may move and still count as a click (not an orbit)
+const GROUND_PLANE = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+
+interface Pin {
+  threadId: number;
+  number: number;
+  position: Point;
+  resolved: boolean;
+  replies: number;
+  preview: string;
+}
+
+function pinsKey(pins: Pin[]): string {
+  return pins.map((p) => `${p.threadId}:${p.resolved}:${p.replies}:${p.position.map((v) => v.toFixed(3)).join(",")}`).join("|");
+}
+
+/**
+ * Current world position of an anchor; component anchors move with their component
+ */
+function anchorPosition(anchor: CommentAnchor, roots: Map<string, THREE.Object3D>): Point {
+  if (anchor.kind === "component") {
+    const root = roots.get(anchor.componentId);
+    if (root) return root.localToWorld(new THREE.Vector3(...anchor.local)).toArray() as Point;
+  }
+  return anchor.point;
+}
+
+interface CommentPinsProps {
+  activeTool: string;
+  onOpenComment?: (threadId: number) => void;
+}
+
+/**
+ * Review comment pins, and placing a new one with the 'comment' tool: clicking a component
+ * pins the comment to it, clicking elsewhere pins it to the point on the ground.
+ */
+export function CommentPins({ activeTool, onOpenComment }: CommentPinsProps) {
+  const { camera, gl, scene, raycaster } = useThree();
+  const { comments, draft, activeThreadId, showResolved, setDraft } = useReviewStore();
+  const [pins, setPins] = useState<Pin[]>([]);
+  const timerRef = useRef(UPDATE_INTERVAL);
+
+  const threads = useMemo(
+    () => buildThreads(comments).filter((t) => t.root.anchor && (showResolved || !t.root.resolved)),
+    [comments, showResolved]
+  );
+
+  useEffect(() => {
+    if (activeTool !== "comment") return;
+    const element = gl.domElement;
+    const pointer = new THREE.Vector2();
+    let pressedAt: { x: number; y: number } | null = null;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      pressedAt = event.button === 0 ? { x: event.clientX, y: event.clientY } : null;
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (!pressedAt) return;
+      const moved = Math.hypot(event.clientX - pressedAt.x, event.clientY - pressedAt.y);
+      pressedAt = null;
+      if (moved > CLICK_TOLERANCE) return; // orbiting, not pinning
+
+      const rect = element.getBoundingClientRect();
+      pointer.set(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
+
+      const hit = raycaster.intersectObjects(scene.children, true).find((i) => isPickable(i.object));
+      const root = hit ? findPartRoot(hit.object) : null;
+      const componentId = root?.userData[EXPORT_COMPONENT_KEY];
+      if (hit && root && typeof componentId === "string") {
+        const local = root.worldToLocal(hit.point.clone());
+        setDraft({ kind: "component", componentId, point: hit.point.toArray() as Point, local: local.toArray() as Point });
+        return;
+      }
+      const point = hit?.point ?? raycaster.ray.intersectPlane(GROUND_PLANE, new THREE.Vector3());
+      if (point) setDraft({ kind: "point", point: point.toArray() as Point });
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setDraft(null);
+    };
+
+    element.addEventListener("pointerdown", handlePointerDown);
+    element.addEventListener("pointerup", handlePointerUp);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      element.removeEventListener("pointerdown", handlePointerDown);
+      element.removeEventListener("pointerup", handlePointerUp);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [activeTool, camera, gl, scene, raycaster, setDraft]);
+
+  useFrame((_, delta) => {
+    timerRef.current += delta;
+    if (timerRef.current < UPDATE_INTERVAL) return;
+    timerRef.current = 0;
+
+    const roots = findComponentRoots(scene);
+    const next: Pin[] = threads.map((thread) => ({
+      threadId: thread.root.id,
+      number: thread.number,
+      position: anchorPosition(thread.root.anchor!, roots),
+      resolved: thread.root.resolved,
+      replies: thread.replies.length,
+      preview: thread.root.body,
+    }));
+    if (pinsKey(next) !== pinsKey(pins)) setPins(next);
+  });
+
+  return (
+    <group userData={{ isHelper: true }}>
+      {pins.map((pin) => {
+        const active = pin.threadId === activeThreadId;
+        return (
+          <Html key={pin.threadId} position={pin.position} zIndexRange={[40, 0]} style={{ pointerEvents: "auto" }}>
+            <button
+              type="button"
+              title={pin.preview}
+              onClick={() => onOpenComment?.(pin.threadId)}
+              className={`-translate-x-1/2 -translate-y-full flex items-center gap-1 rounded-full rounded-bl-none border px-1.5 py-0.5 text-[10px] font-semibold shadow-lg transition-transform hover:scale-110 ${
+                active
+                  ? "bg-primary text-primary-foreground border-primary scale-110"
+                  : pin.resolved
+                    ? "bg-muted text-muted-foreground border-border opacity-70"
+                    : "bg-amber-500 text-white border-amber-600"
+              }`}
+            >
+              <MessageSquare className="h-3 w-3" />
+              {pin.number}
+              {pin.replies > 0 && <span className="font-normal opacity-80">+{pin.replies}</span>}
+            </button>
+          </Html>
+        );
+      })}
+
+      {draft && (
+        <Html position={draft.point} style={{ pointerEvents: "none" }}>
+          <div className="-translate-x-1/2 -translate-y-full flex items-center rounded-full rounded-bl-none border border-primary bg-primary/80 px-1.5 py-0.5 text-primary-foreground shadow-lg animate-pulse">
+            <MessageSquare className="h-3 w-3" />
+          </div>
+        </Html>
+      )}
+    </group>
+  );
+}
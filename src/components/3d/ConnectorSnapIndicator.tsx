@@ -0,0 +1,39 @@
+import { useMemo } from "react";
+import { Html } from "@react-three/drei";
+import * as THREE from "three";
+import { ConnectorSnap } from "@/lib/connectors";
+
+const INDICATOR_COLOR = "#22c55e";
+const MARKER_RADIUS = 0.04;
+
+/**
+ * Marks the connector a dragged part is snapped onto; it locks to that part when released
+ */
+export function ConnectorSnapIndicator({ snap }: { snap: ConnectorSnap | null }) {
+  // Ring faces along the target connector's direction
+  const quaternion = useMemo(() => {
+    const direction = snap?.to.direction;
+    if (!direction || direction.lengthSq() === 0) return new THREE.Quaternion();
+    return new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), direction);
+  }, [snap]);
+
+  if (!snap) return null;
+
+  return (
+    <group userData={{ isHelper: true }} position={snap.to.position} quaternion={quaternion}>
+      <mesh renderOrder={999}>
+        <sphereGeometry args={[MARKER_RADIUS, 16, 16]} />
+        <meshBasicMaterial color={INDICATOR_COLOR} depthTest={false} transparent opacity={0.9} />
+      </mesh>
+      <mesh renderOrder={999}>
+        <torusGeometry args={[MARKER_RADIUS * 2, MARKER_RADIUS / 4, 8, 32]} />
+        <meshBasicMaterial color={INDICATOR_COLOR} depthTest={false} transparent opacity={0.9} />
+      </mesh>
+      <Html center position={[0, 0, MARKER_RADIUS * 4]} style={{ pointerEvents: "none" }}>
+        <div className="whitespace-nowrap rounded bg-green-600 px-2 py-0.5 text-xs text-white shadow">
+          {snap.from.type} → {snap.to.type}
+        </div>
+      </Html>
+    </group>
+  );
+}
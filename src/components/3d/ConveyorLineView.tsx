@@ -0,0 +1,129 @@
+import { useMemo } from "react";
+import { ThreeEvent } from "@react-three/fiber";
+import * as THREE from "three";
+import { LineSection } from "@/lib/types";
+import { DEFAULT_CURVE_RADIUS, sectionComponentToWorld, sectionPointToWorld } from "@/lib/line";
+import { GLOBAL_SCALE_FACTOR } from "@/lib/slots";
+import { usePlacementStore } from "@/state/store";
+
+const SECTION_THICKNESS = 0.02;
+
+/**
+ * Outline of every section in a multi-section line.
+ * Clicking a section makes it the one edited by the configurator.
+ */
+export function ConveyorLineView() {
+  const { sections, activeSectionId, setActiveSection } = usePlacementStore();
+
+  // A single conveyor is shown by the regular scene, only lines need outlines
+  if (sections.length < 2) return null;
+
+  return (
+    <group>
+      {sections.map((section) => (
+        <SectionOutline
+          key={section.id}
+          section={section}
+          active={section.id === activeSectionId}
+          onSelect={() => setActiveSection(section.id)}
+        />
+      ))}
+    </group>
+  );
+}
+
+function SectionOutline({
+  section,
+  active,
+  onSelect,
+}: {
+  section: LineSection;
+  active: boolean;
+  onSelect: () => void;
+}) {
+  const color = active ? 0x00b4d8 : section.kind === "TRANSFER" ? 0xffa500 : 0x888888;
+
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    event.stopPropagation();
+    onSelect();
+  };
+
+  return (
+    <group>
+      {section.kind === "CURVE" ? (
+        <CurveMesh section={section} color={color} active={active} onClick={handleClick} />
+      ) : (
+        <StraightMesh section={section} color={color} active={active} onClick={handleClick} />
+      )}
+
+      {/* Components placed on inactive sections; the active one is drawn by the slot system */}
+      {!active &&
+        section.components.map((component) => {
+          const { position, rotation } = sectionComponentToWorld(section, component);
+          return (
+            <mesh
+              key={component.id}
+              position={position}
+              rotation={rotation}
+              userData={{ placedComponentId: component.id, name: component.name }}
+            >
+              <boxGeometry args={[0.05, 0.05, 0.05]} />
+              <meshStandardMaterial color={0x666666} />
+            </mesh>
+          );
+        })}
+    </group>
+  );
+}
+
+interface SectionMeshProps {
+  section: LineSection;
+  color: number;
+  active: boolean;
+  onClick: (event: ThreeEvent<MouseEvent>) => void;
+}
+
+function StraightMesh({ section, color, active, onClick }: SectionMeshProps) {
+  const centre = sectionPointToWorld(section, 0, 0);
+
+  return (
+    <mesh
+      position={[centre.x * GLOBAL_SCALE_FACTOR, -SECTION_THICKNESS / 2, centre.z * GLOBAL_SCALE_FACTOR]}
+      rotation={[0, centre.heading, 0]}
+      onClick={onClick}
+    >
+      <boxGeometry args={[section.params.D * GLOBAL_SCALE_FACTOR, SECTION_THICKNESS, section.params.R * GLOBAL_SCALE_FACTOR]} />
+      <meshStandardMaterial color={color} transparent opacity={active ? 0.5 : 0.3} />
+    </mesh>
+  );
+}
+
+function CurveMesh({ section, color, active, onClick }: SectionMeshProps) {
+  const { entry, params } = section;
+
+  const { centre, thetaStart } = useMemo(() => {
+    const s = section.turn === "RIGHT" ? -1 : 1;
+    const r = section.curveRadius ?? DEFAULT_CURVE_RADIUS;
+
+    // Turn centre sits on the inside of the curve; ring angles run from +X towards -Z
+    const inside = { x: -Math.sin(entry.heading), z: -Math.cos(entry.heading) };
+    const c = { x: entry.x + s * r * inside.x, z: entry.z + s * r * inside.z };
+    const start = Math.atan2(s * inside.z, -s * inside.x);
+    return { centre: c, thetaStart: s > 0 ? start : start - Math.PI / 2 };
+  }, [entry.x, entry.z, entry.heading, section.turn, section.curveRadius]);
+
+  const r = section.curveRadius ?? DEFAULT_CURVE_RADIUS;
+  const inner = Math.max(r - params.R / 2, 1) * GLOBAL_SCALE_FACTOR;
+  const outer = (r + params.R / 2) * GLOBAL_SCALE_FACTOR;
+
+  return (
+    <mesh
+      position={[centre.x * GLOBAL_SCALE_FACTOR, -SECTION_THICKNESS / 2, centre.z * GLOBAL_SCALE_FACTOR]}
+      rotation={[-Math.PI / 2, 0, 0]}
+      onClick={onClick}
+    >
+      <ringGeometry args={[inner, outer, 32, 1, thetaStart, Math.PI / 2]} />
+      <meshStandardMaterial color={color} transparent opacity={active ? 0.5 : 0.3} side={THREE.DoubleSide} />
+    </mesh>
+  );
+}
@@ -0,0 +1,49 @@
+import { ReactNode, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+
+type Vec3 = [number, number, number];
+
+const DAMPING = 8; // higher settles faster; ~0.6 s to arrive at 8
+
+interface DisplacedGroupProps {
+  offset?: Vec3;
+  hidden?: boolean;
+  enterFrom?: Vec3; // start here, relative to `offset`, whenever the group is shown again
+  children: ReactNode;
+}
+
+/**
+ * Moves its children smoothly to `offset` without touching their own transforms, for exploded views
+ * and assembly playback
+ */
+export function DisplacedGroup({ offset, hidden = false, enterFrom, children }: DisplacedGroupProps) {
+  const groupRef = useRef<THREE.Group>(null);
+  const wasHiddenRef = useRef(hidden);
+  const target = useRef(new THREE.Vector3());
+
+  useFrame((_, delta) => {
+    const group = groupRef.current;
+    if (!group) return;
+    group.visible = !hidden;
+    if (hidden) {
+      wasHiddenRef.current = true;
+      return;
+    }
+
+    target.current.set(...(offset ?? [0, 0, 0]));
+    if (wasHiddenRef.current) {
+      wasHiddenRef.current = false;
+      group.position.copy(target.current);
+      if (enterFrom) group.position.add(new THREE.Vector3(...enterFrom));
+    }
+    if (group.position.distanceToSquared(target.current) < 1e-8) return;
+    group.position.lerp(target.current, 1 - Math.exp(-DAMPING * delta));
+  });
+
+  return (
+    <group ref={groupRef} visible={!hidden}>
+      {children}
+    </group>
+  );
+}
@@ -0,0 +1,356 @@
+import { useEffect, useMemo, useState } from "react";
+import { useThree } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import * as THREE from "three";
+import { StickyNote, X } from "lucide-react";
+import { useMeasureStore, usePlacementStore } from "@/state/store";
+import { sectionSlotsToWorld } from "@/lib/line";
+import { EXPORT_COMPONENT_KEY, EXPORT_PLACED_KEY } from "@/lib/sceneExport";
+import {
+  MEASURE_POINT_COUNT,
+  Measurement,
+  SNAP_RADIUS_FACTOR,
+  SnapKind,
+  SnapPoint,
+  createMeasurement,
+  formatMeasurement,
+  isPickable,
+  snapIntersection,
+} from "@/lib/measurement";
+import { Annotation, createAnnotation } from "@/lib/annotations";
+
+type Point = [number, number, number];
+
+const SNAP_COLORS: Record<SnapKind, string> = {
+  vertex: "#22c55e",
+  edge: "#eab308",
+  slot: "#a855f7",
+  surface: "#00b4d8",
+};
+const LINE_COLOR = "#ff6b35";
+const NOTE_COLOR = "#3b82f6";
+const MARKER_RADIUS = 0.04;
+const CLICK_TOLERANCE = 4; // px a press may move and still count as a click (not an orbit)
+
+const GROUND_PLANE = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+
+function toPoint(v: THREE.Vector3): Point {
+  return [v.x, v.y, v.z];
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, (a[2] + b[2]) / 2];
+}
+
+function findPart(scene: THREE.Object3D, partId: string): THREE.Object3D | null {
+  let found: THREE.Object3D | null = null;
+  scene.traverse((object) => {
+    if (!found && (object.userData[EXPORT_COMPONENT_KEY] === partId || object.userData[EXPORT_PLACED_KEY] === partId)) {
+      found = object;
+    }
+  });
+  return found;
+}
+
+/**
+ * Overlay line drawn on top of the model
+ */
+function Segments({ points, color }: { points: Point[]; color: string }) {
+  const geometry = useMemo(
+    () => new THREE.BufferGeometry().setFromPoints(points.map((p) => new THREE.Vector3(...p))),
+    [points]
+  );
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <lineSegments geometry={geometry} renderOrder={999}>
+      <lineBasicMaterial color={color} depthTest={false} transparent />
+    </lineSegments>
+  );
+}
+
+function Marker({ position, color }: { position: Point; color: string }) {
+  return (
+    <mesh position={position} renderOrder={999}>
+      <sphereGeometry args={[MARKER_RADIUS, 12, 12]} />
+      <meshBasicMaterial color={color} depthTest={false} transparent />
+    </mesh>
+  );
+}
+
+/**
+ * Pairs of points for a polyline, as lineSegments expects them
+ */
+function polyline(points: Point[]): Point[] {
+  return points.slice(1).flatMap((p, i) => [points[i], p]);
+}
+
+function MeasurementView({ measurement }: { measurement: Measurement }) {
+  const { points, mode } = measurement;
+  const labelPosition = mode === "angle" ? points[1] : midpoint(points[0], points[1]);
+  const segments = mode === "angle" ? [points[1], points[0], points[1], points[2]] : points;
+
+  return (
+    <>
+      <Segments points={segments} color={LINE_COLOR} />
+      {points.map((p, i) => (
+        <Marker key={i} position={p} color={LINE_COLOR} />
+      ))}
+      <Html position={labelPosition} center style={{ pointerEvents: "none" }}>
+        <div className="bg-card/90 border border-border rounded px-1.5 py-0.5 text-xs font-medium shadow whitespace-nowrap">
+          {formatMeasurement(measurement)}
+        </div>
+      </Html>
+    </>
+  );
+}
+
+interface MeasureToolProps {
+  activeTool: string;
+}
+
+/**
+ * Measure tool ('measure') and annotation placement ('annotate'). Picks points on the model,
+ * snapping to slots, vertices and edges, and draws the session's measurements.
+ */
+export function MeasureTool({ activeTool }: MeasureToolProps) {
+  const { camera, gl, scene, raycaster } = useThree();
+  const { slots, sections, activeSectionId } = usePlacementStore();
+  const { mode, measurements, addMeasurement, addAnnotation } = useMeasureStore();
+
+  const [hover, setHover] = useState<SnapPoint | null>(null);
+  const [picked, setPicked] = useState<SnapPoint[]>([]);
+  const [draft, setDraft] = useState<SnapPoint | null>(null); // annotation anchor waiting for its text
+  const [draftText, setDraftText] = useState("");
+
+  const active = activeTool === "measure" || activeTool === "annotate";
+  const activeSection = sections.find((s) => s.id === activeSectionId);
+  const worldSlots = useMemo(
+    () => (activeSection ? sectionSlotsToWorld(activeSection, slots) : slots),
+    [activeSection, slots]
+  );
+
+  // Start a fresh pick sequence whenever the tool or mode changes
+  useEffect(() => {
+    setPicked([]);
+    setDraft(null);
+    setHover(null);
+  }, [activeTool, mode]);
+
+  useEffect(() => {
+    if (!active) return;
+    const element = gl.domElement;
+    const pointer = new THREE.Vector2();
+    let pressedAt: { x: number; y: number } | null = null;
+
+    const pick = (event: PointerEvent): SnapPoint | null => {
+      const rect = element.getBoundingClientRect();
+      pointer.set(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
+
+      const hit = raycaster.intersectObjects(scene.children, true).find((i) => isPickable(i.object));
+      if (hit) {
+        const radius = camera.position.distanceTo(hit.point) * SNAP_RADIUS_FACTOR;
+        return snapIntersection(hit, worldSlots, radius);
+      }
+      const ground = raycaster.ray.intersectPlane(GROUND_PLANE, new THREE.Vector3());
+      return ground ? { position: ground, kind: "surface" } : null;
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!draft) setHover(pick(event));
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      pressedAt = event.button === 0 ? { x: event.clientX, y: event.clientY } : null;
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (!pressedAt || draft) return;
+      const moved = Math.hypot(event.clientX - pressedAt.x, event.clientY - pressedAt.y);
+      pressedAt = null;
+      if (moved > CLICK_TOLERANCE) return; // orbiting, not picking
+
+      const point = pick(event);
+      if (!point) return;
+
+      if (activeTool === "annotate") {
+        setDraft(point);
+        setDraftText("");
+        return;
+      }
+
+      // Box distance needs a part under each click
+      if (mode === "bbox" && !point.partId) return;
+
+      const next = [...picked, point];
+      if (next.length < MEASURE_POINT_COUNT[mode]) {
+        setPicked(next);
+        return;
+      }
+
+      let boxes: [THREE.Box3, THREE.Box3] | undefined;
+      if (mode === "bbox") {
+        const [a, b] = next.map((p) => findPart(scene, p.partId!));
+        if (a && b) {
+          boxes = [new THREE.Box3().setFromObject(a), new THREE.Box3().setFromObject(b)];
+        }
+      }
+
+      const measurement = createMeasurement(mode, next.map((p) => p.position), boxes);
+      if (measurement) {
+        addMeasurement(measurement);
+        console.log("📏 Measured:", formatMeasurement(measurement));
+      }
+      setPicked([]);
+    };
+
+    const handlePointerLeave = () => setHover(null);
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        setPicked([]);
+        setDraft(null);
+      }
+    };
+
+    element.addEventListener("pointermove", handlePointerMove);
+    element.addEventListener("pointerdown", handlePointerDown);
+    element.addEventListener("pointerup", handlePointerUp);
+    element.addEventListener("pointerleave", handlePointerLeave);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      element.removeEventListener("pointermove", handlePointerMove);
+      element.removeEventListener("pointerdown", handlePointerDown);
+      element.removeEventListener("pointerup", handlePointerUp);
+      element.removeEventListener("pointerleave", handlePointerLeave);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [active, activeTool, mode, picked, draft, worldSlots, camera, gl, scene, raycaster, addMeasurement]);
+
+  const saveDraft = () => {
+    if (draft && draftText.trim()) {
+      addAnnotation(createAnnotation(toPoint(draft.position), draftText.trim(), draft.partId));
+    }
+    setDraft(null);
+  };
+
+  // Rubber band from the picked points to the point under the cursor
+  const pending = picked.map((p) => toPoint(p.position));
+  const rubberBand = hover && pending.length > 0 && mode !== "bbox" ? [...pending, toPoint(hover.position)] : pending;
+
+  return (
+    <group userData={{ isHelper: true }}>
+      {measurements.map((measurement) => (
+        <MeasurementView key={measurement.id} measurement={measurement} />
+      ))}
+
+      {active && (
+        <>
+          {rubberBand.length > 1 && <Segments points={polyline(rubberBand)} color={LINE_COLOR} />}
+          {pending.map((p, i) => (
+            <Marker key={i} position={p} color={LINE_COLOR} />
+          ))}
+          {hover && <Marker position={toPoint(hover.position)} color={SNAP_COLORS[hover.kind]} />}
+        </>
+      )}
+
+      {draft && (
+        <>
+          <Marker position={toPoint(draft.position)} color={NOTE_COLOR} />
+          <Html position={toPoint(draft.position)} style={{ pointerEvents: "auto" }}>
+            <input
+              autoFocus
+              value={draftText}
+              placeholder="Add a note…"
+              onChange={(e) => setDraftText(e.target.value)}
+              onKeyDown={(e) => {
+                e.stopPropagation();
+                if (e.key === "Enter") e.currentTarget.blur(); // saves on blur
+                if (e.key === "Escape") setDraft(null);
+              }}
+              onBlur={saveDraft}
+              className="w-48 rounded border border-primary bg-card px-2 py-1 text-xs shadow-lg outline-none"
+            />
+          </Html>
+        </>
+      )}
+    </group>
+  );
+}
+
+function AnnotationLabel({ annotation, editable }: { annotation: Annotation; editable: boolean }) {
+  const { updateAnnotation, removeAnnotation } = useMeasureStore();
+  const [editing, setEditing] = useState(false);
+  const [text, setText] = useState(annotation.text);
+
+  const { anchor, offset } = annotation;
+  const labelPosition: Point = [anchor[0] + offset[0], anchor[1] + offset[1], anchor[2] + offset[2]];
+
+  const finishEditing = () => {
+    if (text.trim()) updateAnnotation(annotation.id, { text: text.trim() });
+    setEditing(false);
+  };
+
+  return (
+    <>
+      <Segments points={[anchor, labelPosition]} color={NOTE_COLOR} />
+      <Marker position={anchor} color={NOTE_COLOR} />
+      <Html position={labelPosition} center style={{ pointerEvents: editable ? "auto" : "none" }}>
+        {editing ? (
+          <input
+            autoFocus
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (e.key === "Enter") e.currentTarget.blur();
+              if (e.key === "Escape") setEditing(false);
+            }}
+            onBlur={finishEditing}
+            className="w-48 rounded border border-primary bg-card px-2 py-1 text-xs shadow-lg outline-none"
+          />
+        ) : (
+          <div
+            className="group flex max-w-[14rem] items-start gap-1.5 rounded-md border border-blue-500/60 bg-card/95 px-2 py-1 text-xs shadow-lg"
+            onDoubleClick={() => {
+              if (!editable) return;
+              setText(annotation.text);
+              setEditing(true);
+            }}
+          >
+            <StickyNote className="mt-0.5 h-3 w-3 shrink-0 text-blue-500" />
+            <span className="break-words">{annotation.text}</span>
+            {editable && (
+              <button
+                className="ml-1 opacity-0 transition-opacity group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                onClick={() => removeAnnotation(annotation.id)}
+                title="Remove note"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        )}
+      </Html>
+    </>
+  );
+}
+
+/**
+ * Project annotations as leader lines with overlay labels; editable while the annotate tool is active
+ */
+export function AnnotationLabels({ editable }: { editable: boolean }) {
+  const annotations = useMeasureStore((state) => state.annotations);
+
+  return (
+    <group userData={{ isHelper: true }}>
+      {annotations.map((annotation) => (
+        <AnnotationLabel key={annotation.id} annotation={annotation} editable={editable} />
+      ))}
+    </group>
+  );
+}
@@ -10,7 +10,7 @@ interface PlacementHighlightsProps {
 }
 
 export function PlacementHighlights({ slots }: PlacementHighlightsProps) {
-  const { draggingType, hoveredSlotId, params, components } = usePlacementStore();
+  const { draggingType, hoveredSlotId, params, components, highlightedSlotIds } = usePlacementStore();
   const markerRefs = useRef<Map<string, THREE.Mesh>>(new Map());
 
   // Get valid slots for the current drag type
@@ -20,7 +20,7 @@ export function PlacementHighlights({ slots }: PlacementHighlightsProps) {
   }, [draggingType, slots, params, components]);
 
   // Create marker geometries and materials
-  const { ringGeometry, capGeometry, validMaterial, invalidMaterial, occupiedMaterial, hoverMaterial } = useMemo(() => {
+  const { ringGeometry, capGeometry, validMaterial, invalidMaterial, occupiedMaterial, hoverMaterial, problemMaterial } = useMemo(() => {
     const ring = new THREE.RingGeometry(0.015, 0.025, 16);
     const cap = new THREE.ConeGeometry(0.01, 0.02, 8);
     
@@ -56,11 +56,23 @@ export function PlacementHighlights({ slots }: PlacementHighlightsProps) {
       opacity: 1.0,
     });
 
-    return { ringGeometry: ring, capGeometry: cap, validMaterial: valid, invalidMaterial: invalid, occupiedMaterial: occupied, hoverMaterial: hover };
+    // Slots flagged by the problems panel
+    const problem = new THREE.MeshStandardMaterial({
+      color: 0xffa500,
+      emissive: 0xffa500,
+      emissiveIntensity: 0.8,
+      transparent: true,
+      opacity: 1.0,
+    });
+
+    return { ringGeometry: ring, capGeometry: cap, validMaterial: valid, invalidMaterial: invalid, occupiedMaterial: occupied, hoverMaterial: hover, problemMaterial: problem };
   }, []);
 
   // Update marker visibility and materials
-  useFrame(() => {
+  useFrame(({ clock }) => {
+    // Pulse problem markers so they stand out
+    problemMaterial.opacity = 0.55 + 0.45 * Math.sin(clock.elapsedTime * 5);
+
     slots.forEach((slot) => {
       const marker = markerRefs.current.get(slot.id);
       if (!marker) return;
@@ -68,8 +80,12 @@ export function PlacementHighlights({ slots }: PlacementHighlightsProps) {
       const isValid = validSlots.some((s) => s.id === slot.id);
       const isHovered = hoveredSlotId === slot.id;
       const isOccupied = !!slot.occupiedBy;
+      const isProblem = highlightedSlotIds.includes(slot.id);
 
-      if (draggingType) {
+      if (isProblem && !(draggingType && isHovered)) {
+        marker.visible = true;
+        marker.material = problemMaterial;
+      } else if (draggingType) {
         marker.visible = true;
         if (isHovered && isValid && !isOccupied) {
           marker.material = hoverMaterial;
@@ -103,9 +119,9 @@ export function PlacementHighlights({ slots }: PlacementHighlightsProps) {
           {/* Cap marker */}
           <mesh
             geometry={capGeometry}
-            material={validMaterial}
+            material={highlightedSlotIds.includes(slot.id) ? problemMaterial : validMaterial}
             position={[0, 0.01, 0]}
-            visible={draggingType !== null}
+            visible={draggingType !== null || highlightedSlotIds.includes(slot.id)}
           />
           {/* Lock icon for occupied slots */}
           {slot.occupiedBy && (
@@ -0,0 +1,92 @@
+import { useEffect, useMemo, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { usePlacementStore, useSimulationStore } from "@/state/store";
+import { getDriveSettings } from "@/lib/driveSizing";
+import { sectionPointToWorld } from "@/lib/line";
+import { beltTopHeight } from "@/lib/modelCatalogue";
+import { GLOBAL_SCALE_FACTOR } from "@/lib/slots";
+import {
+  MAX_SIMULATED_ITEMS,
+  createSimulationLayout,
+  createSimulationState,
+  stepSimulation,
+  summarizeSimulation,
+} from "@/lib/simulation";
+
+const STATS_INTERVAL = 0.25; // s between stats updates pushed to the panel
+const MAX_STEP = 0.05; // s, keeps stop/queue handling stable on slow frames
+
+const MOVING_COLOR = new THREE.Color(0x00b4d8);
+const WAITING_COLOR = new THREE.Color(0xff6b35);
+
+/**
+ * Products running along the active conveyor section while the simulation is on
+ */
+export function ProductSimulation() {
+  const { params, components, sections, activeSectionId } = usePlacementStore();
+  const { running, settings, resetCount, setSimulationStats } = useSimulationStore();
+
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const stateRef = useRef(createSimulationState());
+  const statsTimerRef = useRef(0);
+
+  const section = sections.find((s) => s.id === activeSectionId);
+  const beltTop = section ? beltTopHeight(section.params) : 0; // mm, products ride on the belt surface
+  const layout = useMemo(
+    () => createSimulationLayout(params, components, getDriveSettings(params).beltSpeed),
+    [params, components]
+  );
+
+  // Start over on reset and whenever the conveyor changes under the simulation
+  useEffect(() => {
+    stateRef.current = createSimulationState();
+    statsTimerRef.current = 0;
+    setSimulationStats(null);
+  }, [resetCount, layout, setSimulationStats]);
+
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+
+  useFrame((_, delta) => {
+    const mesh = meshRef.current;
+    if (!mesh || !section) return;
+    const state = stateRef.current;
+
+    if (running) {
+      let remaining = delta * settings.timeScale;
+      while (remaining > 0) {
+        const dt = Math.min(remaining, MAX_STEP);
+        stepSimulation(state, layout, settings, dt);
+        remaining -= dt;
+      }
+
+      statsTimerRef.current += delta;
+      if (statsTimerRef.current >= STATS_INTERVAL) {
+        statsTimerRef.current = 0;
+        setSimulationStats(summarizeSimulation(state, layout, settings));
+      }
+    }
+
+    state.items.forEach((item, index) => {
+      const pose = sectionPointToWorld(section, item.x - layout.travel / 2, 0);
+      dummy.position.set(pose.x * GLOBAL_SCALE_FACTOR, (beltTop + item.height / 2) * GLOBAL_SCALE_FACTOR, pose.z * GLOBAL_SCALE_FACTOR);
+      dummy.rotation.set(0, pose.heading, 0);
+      dummy.scale.set(item.length * GLOBAL_SCALE_FACTOR, item.height * GLOBAL_SCALE_FACTOR, item.width * GLOBAL_SCALE_FACTOR);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(index, dummy.matrix);
+      mesh.setColorAt(index, item.waiting ? WAITING_COLOR : MOVING_COLOR);
+    });
+    mesh.count = state.items.length;
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  if (!section) return null;
+
+  return (
+    <instancedMesh ref={meshRef} args={[undefined, undefined, MAX_SIMULATED_ITEMS]} castShadow frustumCulled={false}>
+      <boxGeometry args={[1, 1, 1]} />
+      <meshStandardMaterial roughness={0.6} />
+    </instancedMesh>
+  );
+}
@@ -9,6 +9,15 @@ import * as THREE from 'three';
 import { useTheme } from 'next-themes';
 import { Lock } from 'lucide-react';
 import { SlotPlacementSystem } from './SlotPlacementSystem';
+import { ProductSimulation } from './ProductSimulation';
+import { AnnotationLabels, MeasureTool } from './MeasureTool';
+import { CollisionDetector } from './CollisionDetector';
+import { CollaboratorHighlights } from './CollaboratorHighlights';
+import { CommentPins } from './CommentPins';
+import { DisplacedGroup } from './DisplacedGroup';
+import { CameraView } from '@/lib/cameraView';
+import { ExplodedDisplay } from '@/lib/explodedView';
+import { ConnectorSnapIndicator } from './ConnectorSnapIndicator';
 import { FPSCounter } from './FPSCounter';
 import { CameraPreviewCube } from './CameraPreviewCube';
 import { FloatingLockUI } from './FloatingLockUI';
@@ -18,6 +27,7 @@ import { FixedLegGhostPreview } from './FixedLegGhostPreview';
 import { DraggedGhostPreview } from './DraggedGhostPreview';
 import { DraggedComponentPreview } from './DraggedComponentPreview';
 import { API_BASE } from '@/lib/config';
+import { ConnectorSnap, ConnectorSpec, collectSceneConnectors, connectorsFromSpecs, findConnectorSnap, getPartConnectors } from '@/lib/connectors';
 
 // Smooth camera animation helper using lerp
 function lerp(start: number, end: number, factor: number): number {
@@ -120,6 +130,7 @@ type SceneComponent = {
   linkedTo?: string; // ID of the component this is linked/merged with
   isLocked?: boolean; // Whether this link is locked (merged)
   groupId?: string | null; // ID of the group this component belongs to
+  connectors?: ConnectorSpec[]; // Typed attach points declared by the library component
 };
 
 // Drop handler component that exposes the camera and gl to the parent via a callback
@@ -315,6 +326,10 @@ export interface SceneControls {
   disablePanMode: () => void;
   clearSelection: () => void;
   clearHighlights: () => void;
+  getScene: () => THREE.Scene | null; // Live scene graph, e.g. for model export
+  getCameraView: () => CameraView | null; // Current camera, e.g. for bookmarking it
+  flyTo: (view: CameraView, duration?: number) => void; // Animate the camera to a bookmarked view (duration in s)
+  captureImage: () => Promise<Blob | null>; // PNG of the current frame, e.g. for assembly instructions
 }
 
 type ComponentGroup = {
@@ -333,8 +348,11 @@ interface SceneProps {
   onLockComponents?: (id1: string, id2: string) => void;
   onUnlockComponents?: (id1: string, id2: string) => void;
   onFindPairedComponent?: (id: string) => SceneComponent | null;
-  activeTool?: string; // Tool from toolbar: 'select', 'move', 'rotate', 'pan'
+  activeTool?: string; // Tool from toolbar: 'select', 'move', 'rotate', 'pan', 'measure', 'annotate', 'comment'
   controlsRef?: React.MutableRefObject<SceneControls | null>; // Ref to expose camera controls
+  canSelectComponent?: (id: string) => boolean; // e.g. false while a collaborator has it selected
+  onOpenComment?: (threadId: number) => void; // a review comment pin was clicked
+  explodedView?: ExplodedDisplay; // displaced/hidden components for the exploded view and assembly playback
   sceneSettings?: {
     viewMode?: 'realistic' | 'orthographic' | 'wireframe';
     levelOfDetail?: 'high' | 'medium' | 'low';
@@ -1217,7 +1235,9 @@ function TransformControlWrapper({
   showCoordinateSystem,
   orbitControlsRef,
   allComponents,
-  onUpdateComponent
+  onUpdateComponent,
+  onConnectorSnap,
+  onConnectorSnapEnd
 }: { 
   component: SceneComponent;
   transformMode: 'translate' | 'rotate' | 'scale';
@@ -1228,6 +1248,8 @@ function TransformControlWrapper({
   orbitControlsRef?: React.RefObject<any>;
   allComponents?: SceneComponent[];
   onUpdateComponent?: (id: string, update: Partial<SceneComponent>) => void;
+  onConnectorSnap?: (object: THREE.Object3D) => boolean; // moves the object onto a nearby connector, true when it did
+  onConnectorSnapEnd?: () => boolean; // joins the parts snapped at drag end, true when it did
 }) {
   const GRID_OFFSET = 0; // Components sit exactly on grid lines (Y = 0)
   const groupRef = useRef<THREE.Group>(null);
@@ -1349,6 +1371,9 @@ function TransformControlWrapper({
     const handleDraggingChanged = (e: any) => {
       isDraggingRef.current = e.value;
       
+      // A connector join already fixed the position, so the placement rules below don't apply
+      if (!e.value && onConnectorSnapEnd?.()) return;
+      
       // When dragging ends, enforce position constraints
       if (!e.value && group) {
         const componentCategory = (component.category || '').toLowerCase();
@@ -1927,7 +1952,7 @@ function TransformControlWrapper({
         }
       };
     }
-  }, [component.name, component.category, component.isLocked, component.linkedTo, allComponents]);
+  }, [component.name, component.category, component.isLocked, component.linkedTo, allComponents, onConnectorSnapEnd]);
   
   // Custom drag handling for move tool - allows dragging by clicking anywhere on component
   const isDraggingComponentRef = useRef(false);
@@ -2037,14 +2062,15 @@ function TransformControlWrapper({
         
         groupRef.current.position.set(snappedX, constrainedY, snappedZ);
         groupRef.current.updateMatrixWorld();
+        onConnectorSnap?.(groupRef.current);
         
         // Update TransformControls if they exist
         if (controlsRef.current) {
           controlsRef.current.updateMatrixWorld();
         }
         
-        // Update component position
-        const pos: [number, number, number] = [snappedX, constrainedY, snappedZ];
+        // Update component position (exact when snapped onto a connector)
+        const pos = groupRef.current.position.toArray() as [number, number, number];
         const rot: [number, number, number] = [
           groupRef.current.rotation.x,
           groupRef.current.rotation.y,
@@ -2065,6 +2091,7 @@ function TransformControlWrapper({
         dragStartPosRef.current = null;
         dragStartIntersectionRef.current = null;
         dragPlaneRef.current = null;
+        onConnectorSnapEnd?.();
         
         // Re-enable OrbitControls after dragging
         if (orbitControlsRef?.current) {
@@ -2086,7 +2113,7 @@ function TransformControlWrapper({
       canvas.removeEventListener('pointermove', handlePointerMove);
       canvas.removeEventListener('pointerup', handlePointerUp);
     };
-  }, [transformMode, component, snap, onUpdate, gl, camera]);
+  }, [transformMode, component, snap, onUpdate, gl, camera, onConnectorSnap, onConnectorSnapEnd]);
   
   // drei's TransformControls automatically coordinates with OrbitControls
   // Use object prop to directly attach to the group
@@ -2095,6 +2122,7 @@ function TransformControlWrapper({
     <>
       <group 
         ref={groupRef}
+        userData={{ componentId: component.id }}
         position={[
           component.position[0],
           (() => {
@@ -2236,11 +2264,13 @@ function TransformControlWrapper({
           }
         }
         
-        const pos = [
+        // Snapped onto a connector: keep the joined position exact
+        const snappedToConnector = transformMode === 'translate' && !!onConnectorSnap?.(obj);
+        const pos = (snappedToConnector ? obj.position.toArray() : [
           Math.round(obj.position.x / snap.translate) * snap.translate,
           yPos,
           Math.round(obj.position.z / snap.translate) * snap.translate
-        ] as [number, number, number];
+        ]) as [number, number, number];
         
         // Constrain rotation based on component type
         // isFixedWheel is already declared in the IIFE scope above, reuse it
@@ -2328,7 +2358,7 @@ function CameraControlsExposer({
   mousePosition: THREE.Vector2 | null;
   sceneRef: React.MutableRefObject<THREE.Scene | null>;
 }) {
-  const { camera, scene } = useThree();
+  const { camera, scene, gl } = useThree();
   
   // Animation state for smooth camera movement
   const isAnimatingRef = useRef(false);
@@ -2337,6 +2367,7 @@ function CameraControlsExposer({
   const animationStartTarget = useRef(new THREE.Vector3());
   const animationEndTarget = useRef(new THREE.Vector3());
   const animationProgress = useRef(0);
+  const animationSpeed = useRef(2); // Progress per second (2 = ~0.5 seconds)
   
   // Update camera ref when camera changes
   useEffect(() => {
@@ -2348,7 +2379,7 @@ function CameraControlsExposer({
   // Smooth camera animation loop
   useFrame((state, delta) => {
     if (isAnimatingRef.current && controlsRef.current) {
-      animationProgress.current += delta * 2; // Animation speed (2 = ~0.5 seconds)
+      animationProgress.current += delta * animationSpeed.current;
       
       if (animationProgress.current >= 1) {
         // Animation complete
@@ -2459,6 +2490,7 @@ function CameraControlsExposer({
           animationStartTarget.current.copy(controlsRef.current.target);
           animationEndTarget.current.set(0, 0, 0);
           animationProgress.current = 0;
+          animationSpeed.current = 2;
           isAnimatingRef.current = true;
           return;
         }
@@ -2503,6 +2535,7 @@ function CameraControlsExposer({
       animationStartTarget.current.copy(controlsRef.current.target);
       animationEndTarget.current.copy(center);
       animationProgress.current = 0;
+      animationSpeed.current = 2;
       isAnimatingRef.current = true;
       
       // Also set immediately for instant feedback (animation will smooth it)
@@ -2581,8 +2614,34 @@ function CameraControlsExposer({
     clearHighlights: () => {
       // This can be extended to clear any visual highlights
       onClearSelection();
+    },
+    getScene: () => scene,
+    getCameraView: () => {
+      if (!controlsRef.current || !camera) return null;
+      return {
+        position: camera.position.toArray() as [number, number, number],
+        target: controlsRef.current.target.toArray() as [number, number, number],
+      };
+    },
+    flyTo: (view: CameraView, duration = 0.5) => {
+      if (!controlsRef.current || !camera) {
+        console.warn('⚠️ Camera or controls not ready');
+        return;
+      }
+      animationStartPos.current.copy(camera.position);
+      animationEndPos.current.set(...view.position);
+      animationStartTarget.current.copy(controlsRef.current.target);
+      animationEndTarget.current.set(...view.target);
+      animationProgress.current = 0;
+      animationSpeed.current = 1 / Math.max(duration, 0.05);
+      isAnimatingRef.current = true;
+    },
+    captureImage: () => {
+      // Render right before reading, the drawing buffer is not preserved between frames
+      gl.render(scene, camera);
+      return new Promise<Blob | null>((resolve) => gl.domElement.toBlob(resolve, 'image/png'));
     }
-  }), [controlsRef, camera, components, viewMode, onClearSelection, getZoomTarget, zoomTarget]);
+  }), [controlsRef, camera, scene, gl, components, viewMode, onClearSelection, getZoomTarget, zoomTarget]);
 
   useEffect(() => {
     onControlsReady(controls);
@@ -2604,7 +2663,10 @@ export const Scene = ({
   onFindPairedComponent,
   activeTool = 'select',
   controlsRef: externalControlsRef,
-  sceneSettings
+  sceneSettings,
+  canSelectComponent,
+  onOpenComment,
+  explodedView
 }: SceneProps) => {
   const { theme } = useTheme();
   const [mounted, setMounted] = useState(false);
@@ -2789,6 +2851,52 @@ export const Scene = ({
   // Reduced snap values for easier, more precise movement
   const [snap, setSnap] = useState({ translate: 0.01, rotate: Math.PI / 180, scale: 0.05 });
   
+  // Measure and annotate tools pick points with a click and keep orbiting on drag
+  const isMeasuring = activeTool === 'measure' || activeTool === 'annotate' || activeTool === 'comment'; // clicks pick points
+
+  // Typed connectors: a dragged part snaps onto a compatible connector nearby and locks to it on release
+  const connectorSpecs = useMemo(
+    () => new Map(components.map(c => [c.id, c.connectors ?? []])),
+    [components]
+  );
+  const connectorSnapRef = useRef<ConnectorSnap | null>(null);
+  const [connectorPreview, setConnectorPreview] = useState<ConnectorSnap | null>(null);
+
+  const snapToConnectors = useCallback((componentId: string, object: THREE.Object3D) => {
+    // Group members move along with the part, so they are never snap targets
+    const groupId = components.find(c => c.id === componentId)?.groupId;
+    const exclude = [componentId, ...components.filter(c => groupId && c.groupId === groupId).map(c => c.id)];
+
+    const moving = getPartConnectors(componentId, object, connectorSpecs.get(componentId));
+    const snap = sceneRef.current && moving.length > 0
+      ? findConnectorSnap(moving, collectSceneConnectors(sceneRef.current, connectorSpecs, exclude))
+      : null;
+
+    if (snap) {
+      const target = object.getWorldPosition(new THREE.Vector3()).add(snap.offset);
+      object.position.copy(object.parent ? object.parent.worldToLocal(target) : target);
+      object.updateMatrixWorld();
+    }
+
+    const previous = connectorSnapRef.current;
+    if (snap?.to.partId !== previous?.to.partId || snap?.to.connectorId !== previous?.to.connectorId) {
+      setConnectorPreview(snap);
+    }
+    connectorSnapRef.current = snap;
+    return !!snap;
+  }, [components, connectorSpecs]);
+
+  const finishConnectorSnap = useCallback((componentId: string) => {
+    const snap = connectorSnapRef.current;
+    connectorSnapRef.current = null;
+    setConnectorPreview(null);
+    if (!snap) return false;
+
+    console.log('🔗 Connector joined:', `${componentId}:${snap.from.connectorId}`, '→', `${snap.to.partId}:${snap.to.connectorId}`);
+    onLockComponents?.(componentId, snap.to.partId);
+    return true;
+  }, [onLockComponents]);
+
   // Map activeTool to transform mode
   const transformMode: 'translate' | 'rotate' | 'scale' = 
     activeTool === 'move' ? 'translate' :
@@ -3940,6 +4048,30 @@ export const Scene = ({
           initialRotation = [-180 * Math.PI / 180, 0, -3 * Math.PI / 180] as [number, number, number];
         }
         
+        // Declared connectors join the drop onto a compatible part nearby, ahead of the name-based rules above
+        const dropConnectors: ConnectorSpec[] = Array.isArray(component.connectors) ? component.connectors : [];
+        let connectorLinkId: string | null = null;
+        if (dropConnectors.length > 0 && sceneRef.current) {
+          const dropMatrix = new THREE.Matrix4().compose(
+            new THREE.Vector3(...finalPosition),
+            new THREE.Quaternion().setFromEuler(new THREE.Euler(...initialRotation)),
+            new THREE.Vector3(1, 1, 1)
+          );
+          const dropSnap = findConnectorSnap(
+            connectorsFromSpecs('drop', dropConnectors, dropMatrix),
+            collectSceneConnectors(sceneRef.current, connectorSpecs)
+          );
+          if (dropSnap) {
+            finalPosition = [
+              finalPosition[0] + dropSnap.offset.x,
+              finalPosition[1] + dropSnap.offset.y,
+              finalPosition[2] + dropSnap.offset.z
+            ];
+            connectorLinkId = dropSnap.to.partId;
+            console.log('🔗 Dropped onto connector:', `${dropSnap.to.partId}:${dropSnap.to.connectorId}`);
+          }
+        }
+
         const componentToAdd = {
           componentId: component.id || component.componentId,
           name: component.name || 'Unnamed Component',
@@ -3959,7 +4091,9 @@ export const Scene = ({
           ...(shouldAutoLockFixedLeg && nearbyBedForLock ? {
             linkedTo: nearbyBedForLock.id,
             isLocked: true
-          } : {})
+          } : {}),
+          connectors: dropConnectors,
+          ...(connectorLinkId ? { linkedTo: connectorLinkId, isLocked: true } : {})
         };
         
         
@@ -3994,9 +4128,11 @@ export const Scene = ({
     } catch (err) {
       console.error('Error handling drop:', err);
     }
-  }, [onAddComponent, components]);
+  }, [onAddComponent, components, connectorSpecs]);
 
   const handleSelect = (id: string) => {
+    if (isMeasuring) return; // Clicks pick measure, annotation or comment points instead
+    if (canSelectComponent && !canSelectComponent(id)) return;
     setSelectedId(id);
     onSelectComponent(id);
   };
@@ -4290,9 +4426,9 @@ export const Scene = ({
         <PerspectiveCamera makeDefault position={cameraPosition} fov={50} />
         <OrbitControls 
           ref={controlsRef}
-          enablePan={activeTool === 'select' || activeTool === 'pan'}
+          enablePan={activeTool === 'select' || activeTool === 'pan' || isMeasuring}
           enableZoom={true}
-          enableRotate={activeTool === 'select'}
+          enableRotate={activeTool === 'select' || isMeasuring}
           minDistance={1}  // Allow much closer zoom
           maxDistance={1000}  // Much increased max distance for better zoom out
           zoomSpeed={(sceneSettings?.invertZoom ? -1 : 1) * 1.5}  // Increased zoom speed for more responsive zooming
@@ -4443,6 +4579,23 @@ export const Scene = ({
         {/* Slot-based placement system */}
         <SlotPlacementSystem />
 
+        {/* Throughput simulation products */}
+        <ProductSimulation />
+
+        {/* Measurements and project annotations */}
+        <MeasureTool activeTool={activeTool} />
+        <AnnotationLabels editable={activeTool === 'annotate'} />
+
+        {/* Review comment pins */}
+        <CommentPins activeTool={activeTool} onOpenComment={onOpenComment} />
+
+        {/* Interference between free-placed components */}
+        <CollisionDetector components={components} paused={!!explodedView} />
+
+        {/* What other people in the live session have selected */}
+        <CollaboratorHighlights />
+        <ConnectorSnapIndicator snap={connectorPreview} />
+
         {/* Render dynamic components from backend */}
         {components.length > 0 && (
           <>
@@ -4590,7 +4743,7 @@ export const Scene = ({
           // Add TransformControls if selected and tool is not 'select'
           // Use a separate component to handle refs properly
           // Components in groups can still be moved - the group movement logic in handleUpdateComponent will handle moving all group members
-          if (selectedId === comp.id && onUpdateComponent && activeTool !== 'select') {
+          if (selectedId === comp.id && onUpdateComponent && activeTool !== 'select' && !isMeasuring) {
             return (
               <TransformControlWrapper
                 key={key}
@@ -4762,6 +4915,8 @@ export const Scene = ({
                 orbitControlsRef={controlsRef}
                 allComponents={components}
                 onUpdateComponent={onUpdateComponent}
+                onConnectorSnap={(object) => snapToConnectors(comp.id, object)}
+                onConnectorSnapEnd={() => finishConnectorSnap(comp.id)}
               >
                 {content}
               </TransformControlWrapper>
@@ -4850,80 +5005,87 @@ export const Scene = ({
           }
           
           return (
-            <group 
-              key={key} 
-              position={[comp.position[0], constrainedY, comp.position[2]]} 
-              rotation={finalRotation}
-              scale={comp.scale || [1, 1, 1]}
+            <DisplacedGroup
+              key={key}
+              offset={explodedView?.offsets.get(comp.id)}
+              hidden={explodedView?.hidden?.has(comp.id)}
+              enterFrom={explodedView?.entering?.has(comp.id) ? explodedView.enterFrom : undefined}
             >
-              {content}
-              {/* Show coordinate system for selected component if setting is enabled */}
-              {isSelected && sceneSettings?.coordinateSystem === true && (
-                <axesHelper args={[2]} />
-              )}
-              {/* Show lock UI when components are close enough to link and not already locked */}
-              {/* Only show on rod component to avoid duplication */}
-              {linkableComponent && lockPosition && onUpdateComponent && !comp.isLocked && !linkableComponent.isLocked && isRod && (
-                <LockUI
-                  position={lockPosition}
-                  onLock={() => {
-                    // Lock/merge the components
-                    const rodComp = comp;
-                    const wheelComp = linkableComponent;
-                    
-                    // Calculate relative position offset
-                    const relativePos: [number, number, number] = [
-                      rodComp.position[0] - wheelComp.position[0],
-                      rodComp.position[1] - wheelComp.position[1],
-                      rodComp.position[2] - wheelComp.position[2]
-                    ];
+              <group 
+                position={[comp.position[0], constrainedY, comp.position[2]]} 
+                rotation={finalRotation}
+                scale={comp.scale || [1, 1, 1]}
+                userData={{ componentId: comp.id }}
+              >
+                {content}
+                {/* Show coordinate system for selected component if setting is enabled */}
+                {isSelected && sceneSettings?.coordinateSystem === true && (
+                  <axesHelper args={[2]} />
+                )}
+                {/* Show lock UI when components are close enough to link and not already locked */}
+                {/* Only show on rod component to avoid duplication */}
+                {linkableComponent && lockPosition && onUpdateComponent && !comp.isLocked && !linkableComponent.isLocked && isRod && (
+                  <LockUI
+                    position={lockPosition}
+                    onLock={() => {
+                      // Lock/merge the components
+                      const rodComp = comp;
+                      const wheelComp = linkableComponent;
                     
-                    // Link rod to wheel (rod follows wheel)
-                    // Store relative position in the linked component for maintaining offset
-                    onUpdateComponent(rodComp.id, {
-                      linkedTo: wheelComp.id,
-                      isLocked: true
-                    });
-                    onUpdateComponent(wheelComp.id, {
-                      linkedTo: rodComp.id,
-                      isLocked: true
-                    });
+                      // Calculate relative position offset
+                      const relativePos: [number, number, number] = [
+                        rodComp.position[0] - wheelComp.position[0],
+                        rodComp.position[1] - wheelComp.position[1],
+                        rodComp.position[2] - wheelComp.position[2]
+                      ];
                     
-                    console.log('🔒 Components locked:', {
-                      rod: rodComp.id,
-                      wheel: wheelComp.id,
-                      relativePos
-                    });
-                  }}
-                  isLocked={false}
-                />
-              )}
-              {/* Show locked indicator if already locked - only show on rod component */}
-              {comp.isLocked && comp.linkedTo && lockPosition && onUpdateComponent && isRod && (
-                <LockUI
-                  position={lockPosition}
-                  onLock={() => {
-                    // Unlock the components
-                    const linkedComp = components.find(c => c.id === comp.linkedTo);
-                    if (linkedComp) {
-                      onUpdateComponent(comp.id, {
-                        linkedTo: undefined,
-                        isLocked: false
+                      // Link rod to wheel (rod follows wheel)
+                      // Store relative position in the linked component for maintaining offset
+                      onUpdateComponent(rodComp.id, {
+                        linkedTo: wheelComp.id,
+                        isLocked: true
                       });
-                      onUpdateComponent(linkedComp.id, {
-                        linkedTo: undefined,
-                        isLocked: false
+                      onUpdateComponent(wheelComp.id, {
+                        linkedTo: rodComp.id,
+                        isLocked: true
                       });
-                      console.log('🔓 Components unlocked:', {
-                        comp1: comp.id,
-                        comp2: linkedComp.id
+                    
+                      console.log('🔒 Components locked:', {
+                        rod: rodComp.id,
+                        wheel: wheelComp.id,
+                        relativePos
                       });
-                    }
-                  }}
-                  isLocked={true}
-                />
-              )}
-            </group>
+                    }}
+                    isLocked={false}
+                  />
+                )}
+                {/* Show locked indicator if already locked - only show on rod component */}
+                {comp.isLocked && comp.linkedTo && lockPosition && onUpdateComponent && isRod && (
+                  <LockUI
+                    position={lockPosition}
+                    onLock={() => {
+                      // Unlock the components
+                      const linkedComp = components.find(c => c.id === comp.linkedTo);
+                      if (linkedComp) {
+                        onUpdateComponent(comp.id, {
+                          linkedTo: undefined,
+                          isLocked: false
+                        });
+                        onUpdateComponent(linkedComp.id, {
+                          linkedTo: undefined,
+                          isLocked: false
+                        });
+                        console.log('🔓 Components unlocked:', {
+                          comp1: comp.id,
+                          comp2: linkedComp.id
+                        });
+                      }
+                    }}
+                    isLocked={true}
+                  />
+                )}
+              </group>
+            </DisplacedGroup>
           );
             })}
           </>
@@ -1,7 +1,10 @@
-import { useEffect } from "react";
+import { useEffect, useMemo } from "react";
 import { PlacementHighlights } from "./PlacementHighlights";
 import { DragController } from "./DragController";
+import { ConveyorLineView } from "./ConveyorLineView";
 import { usePlacementStore } from "@/state/store";
+import { sectionComponentToWorld, sectionSlotsToWorld } from "@/lib/line";
+import { LineSection, PlacedComponent } from "@/lib/types";
 import * as THREE from "three";
 
 /**
@@ -9,7 +12,14 @@ import * as THREE from "three";
  * Integrates with the placement store to show slots and handle drag/drop
  */
 export function SlotPlacementSystem() {
-  const { slots, components, regenerateSlots, params } = usePlacementStore();
+  const { slots, components, regenerateSlots, params, highlightedComponentIds, sections, activeSectionId } = usePlacementStore();
+  const activeSection = sections.find((s) => s.id === activeSectionId);
+
+  // Slots are generated in the active section's own frame; place them along the line
+  const worldSlots = useMemo(
+    () => (activeSection ? sectionSlotsToWorld(activeSection, slots) : slots),
+    [activeSection, slots]
+  );
 
   // Regenerate slots when params change
   useEffect(() => {
@@ -18,15 +28,23 @@ export function SlotPlacementSystem() {
 
   return (
     <>
+      {/* Outline of the other sections in the line */}
+      <ConveyorLineView />
+
       {/* Render slot highlights */}
-      <PlacementHighlights slots={slots} />
+      <PlacementHighlights slots={worldSlots} />
 
       {/* Drag controller for placement */}
-      <DragController slots={slots} />
+      <DragController slots={worldSlots} />
 
       {/* Render placed components */}
       {components.map((component) => (
-        <PlacedComponentRenderer key={component.id} component={component} />
+        <PlacedComponentRenderer
+          key={component.id}
+          component={component}
+          section={activeSection}
+          highlighted={highlightedComponentIds.includes(component.id)}
+        />
       ))}
     </>
   );
@@ -35,18 +53,18 @@ export function SlotPlacementSystem() {
 /**
  * Render a placed component at its slot position
  */
-function PlacedComponentRenderer({ component }: { component: any }) {
-  const position: [number, number, number] = [
-    component.position.x,
-    component.position.y,
-    component.position.z,
-  ];
-
-  const rotation: [number, number, number] = [
-    component.rotation.x,
-    component.rotation.y,
-    component.rotation.z,
-  ];
+function PlacedComponentRenderer({
+  component,
+  section,
+  highlighted = false,
+}: {
+  component: PlacedComponent;
+  section?: LineSection;
+  highlighted?: boolean;
+}) {
+  const world = section ? sectionComponentToWorld(section, component) : component;
+  const position: [number, number, number] = [world.position.x, world.position.y, world.position.z];
+  const rotation: [number, number, number] = [world.rotation.x, world.rotation.y, world.rotation.z];
 
   // For now, render a placeholder box
   // In the future, this could load the actual component model from component.modelUrl
@@ -62,14 +80,23 @@ function PlacedComponentRenderer({ component }: { component: any }) {
   const color = colors[component.type] || 0x00b4d8;
 
   return (
-    <mesh position={position} rotation={rotation}>
-      <boxGeometry args={[0.05, 0.05, 0.05]} />
-      <meshStandardMaterial
-        color={color}
-        emissive={color}
-        emissiveIntensity={0.3}
-      />
-    </mesh>
+    <group position={position} rotation={rotation} userData={{ placedComponentId: component.id, name: component.name }}>
+      <mesh>
+        <boxGeometry args={[0.05, 0.05, 0.05]} />
+        <meshStandardMaterial
+          color={color}
+          emissive={highlighted ? 0xffa500 : color}
+          emissiveIntensity={highlighted ? 0.9 : 0.3}
+        />
+      </mesh>
+      {/* Outline for components flagged by the problems panel */}
+      {highlighted && (
+        <mesh userData={{ isHelper: true }}>
+          <boxGeometry args={[0.07, 0.07, 0.07]} />
+          <meshBasicMaterial color={0xffa500} wireframe />
+        </mesh>
+      )}
+    </group>
   );
 }
 
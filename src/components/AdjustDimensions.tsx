@@ -5,6 +5,12 @@ import { Slider } from '@/components/ui/slider';
 import { Button } from '@/components/ui/button';
 import { ArrowUp, ArrowDown } from 'lucide-react';
 import { ConveyorComponent } from '@/types/conveyor';
+import { DIMENSION_LIMITS } from '@/lib/params';
+
+// Realistic ranges for industrial conveyor components (in mm)
+const { min: LENGTH_MIN, max: LENGTH_MAX } = DIMENSION_LIMITS.length;
+const { min: WIDTH_MIN, max: WIDTH_MAX } = DIMENSION_LIMITS.width;
+const { min: HEIGHT_MIN, max: HEIGHT_MAX } = DIMENSION_LIMITS.height;
 
 interface AdjustDimensionsProps {
   selectedComponent: ConveyorComponent;
@@ -23,13 +29,6 @@ export const AdjustDimensions = ({ selectedComponent, onUpdateComponent }: Adjus
   const isHorizontalRod = (componentName.includes('horizontal') && isRod) || (componentCategory.includes('horizontal') && isRod);
   const isRodType = isVerticalRod || isHorizontalRod;
   
-  // Realistic ranges for industrial conveyor components (in mm)
-  const LENGTH_MIN = 350;   // 0.35m minimum
-  const LENGTH_MAX = 4000;  // 4m maximum
-  const WIDTH_MIN = 450;    // 0.45m minimum
-  const WIDTH_MAX = 500;    // 0.5m maximum
-  const HEIGHT_MIN = 300;   // 0.3m minimum
-  const HEIGHT_MAX = 1500;  // 1.5m maximum
   const STEP_SIZE = 1;     // 1mm increments for precise adjustments
 
   // Helper to round and clamp values for length
@@ -0,0 +1,336 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Separator } from "@/components/ui/separator";
+import {
+  ArrowDown,
+  ArrowUp,
+  ImageDown,
+  ListPlus,
+  Pause,
+  Pencil,
+  Play,
+  SkipBack,
+  SkipForward,
+  Sparkles,
+  Square,
+  Trash2,
+  X,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { MAX_EXPLODE_FACTOR } from "@/lib/explodedView";
+import { AssemblyStep, SEQUENCE_STEP_DURATION, createAssemblyStep } from "@/lib/assemblySequence";
+import { useAssemblyStore } from "@/state/store";
+
+export interface AssemblyPlayback {
+  index: number;
+  playing: boolean;
+}
+
+interface AssemblyPanelProps {
+  steps: AssemblyStep[]; // the stored sequence without components that left the scene
+  componentNames: Record<string, string>;
+  selectedIds: string[]; // what "Record step" would add: the selection and its group
+  unsequencedIds: string[];
+  playback: AssemblyPlayback | null;
+  onPlaybackChange: (playback: AssemblyPlayback | null) => void;
+  onSuggest: () => void;
+  onExportImages: () => void;
+  exporting?: boolean;
+  isReadonly?: boolean;
+  onClose: () => void;
+}
+
+function partsLabel(ids: string[], names: Record<string, string>): string {
+  return ids.map((id) => names[id] ?? "Unknown part").join(", ");
+}
+
+/**
+ * Floating panel over the viewport for installation documentation: explosion slider,
+ * recording the assembly sequence step by step, playing it back and exporting it as images
+ */
+export function AssemblyPanel({
+  steps,
+  componentNames,
+  selectedIds,
+  unsequencedIds,
+  playback,
+  onPlaybackChange,
+  onSuggest,
+  onExportImages,
+  exporting = false,
+  isReadonly = false,
+  onClose,
+}: AssemblyPanelProps) {
+  const { explodeFactor, setExplodeFactor, addStep, updateStep, removeStep, moveStep } = useAssemblyStore();
+  const [title, setTitle] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ title: "", note: "" });
+
+  const index = playback?.index ?? -1;
+  const isLast = index >= steps.length - 1;
+  const editable = !isReadonly && !exporting; // the export walks through the steps as they are
+
+  useEffect(() => {
+    if (exporting) setEditingId(null);
+  }, [exporting]);
+
+  // Autoplay: hold each step, then fit the next one; stops on the last step
+  useEffect(() => {
+    if (!playback?.playing || exporting) return;
+    if (isLast) {
+      onPlaybackChange({ index, playing: false });
+      return;
+    }
+    const timer = setTimeout(() => onPlaybackChange({ index: index + 1, playing: true }), SEQUENCE_STEP_DURATION);
+    return () => clearTimeout(timer);
+  }, [playback?.playing, index, isLast, exporting, onPlaybackChange]);
+
+  const handleRecord = (ids: string[], fallbackTitle: string) => {
+    if (ids.length === 0) return;
+    addStep(createAssemblyStep(ids, title.trim() || fallbackTitle));
+    setTitle("");
+    console.log("🧩 Assembly step recorded:", ids.length, "parts");
+  };
+
+  const startEditing = (step: AssemblyStep) => {
+    setEditingId(step.id);
+    setDraft({ title: step.title, note: step.note });
+  };
+
+  const saveEditing = () => {
+    if (editingId) updateStep(editingId, { title: draft.title.trim(), note: draft.note.trim() });
+    setEditingId(null);
+  };
+
+  return (
+    <Card className="w-80 p-3 space-y-3" onKeyDown={(e) => e.stopPropagation()}>
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className="font-semibold">Exploded view & assembly</h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            Editing is paused while the assembly is exploded or played back.
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={onClose} disabled={exporting}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">Explosion</span>
+          <span className="font-medium">{Math.round((explodeFactor / MAX_EXPLODE_FACTOR) * 100)}%</span>
+        </div>
+        <Slider
+          value={[explodeFactor]}
+          min={0}
+          max={MAX_EXPLODE_FACTOR}
+          step={0.05}
+          disabled={exporting}
+          onValueChange={([value]) => setExplodeFactor(value)}
+        />
+      </div>
+
+      <Separator />
+
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold">Assembly sequence</h4>
+        <span className="text-xs text-muted-foreground">
+          {steps.length} steps · {unsequencedIds.length} parts left
+        </span>
+      </div>
+
+      {editable && (
+        <div className="space-y-2">
+          <Input
+            placeholder={`Step ${steps.length + 1} title`}
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleRecord(selectedIds, `Step ${steps.length + 1}`)}
+            className="h-8 text-sm"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              size="sm"
+              onClick={() => handleRecord(selectedIds, `Step ${steps.length + 1}`)}
+              disabled={selectedIds.length === 0}
+              title={selectedIds.length > 0 ? partsLabel(selectedIds, componentNames) : "Select a part or group first"}
+            >
+              <ListPlus className="h-4 w-4 mr-1" />
+              Record step
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleRecord(unsequencedIds, "Remaining parts")}
+              disabled={unsequencedIds.length === 0}
+            >
+              Add remaining
+            </Button>
+          </div>
+          {steps.length === 0 && (
+            <Button size="sm" variant="ghost" className="w-full" onClick={onSuggest}>
+              <Sparkles className="h-4 w-4 mr-1" />
+              Suggest from groups and links
+            </Button>
+          )}
+        </div>
+      )}
+
+      {steps.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Select a part or group in the order it is installed and record each as a step.
+        </p>
+      ) : (
+        <ol className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+          {steps.map((step, i) =>
+            step.id === editingId ? (
+              <li key={step.id} className="rounded-md bg-secondary p-2 space-y-2">
+                <Input
+                  autoFocus
+                  value={draft.title}
+                  placeholder="Title"
+                  onChange={(e) => setDraft((d) => ({ ...d, title: e.target.value }))}
+                  onKeyDown={(e) => e.key === "Enter" && saveEditing()}
+                  className="h-8 text-sm"
+                />
+                <Input
+                  value={draft.note}
+                  placeholder="Instruction for the manual (optional)"
+                  onChange={(e) => setDraft((d) => ({ ...d, note: e.target.value }))}
+                  onKeyDown={(e) => e.key === "Enter" && saveEditing()}
+                  className="h-8 text-sm"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={saveEditing}>
+                    Save
+                  </Button>
+                </div>
+              </li>
+            ) : (
+              <li
+                key={step.id}
+                className={cn(
+                  "group flex items-start gap-1 rounded-md transition-colors hover:bg-secondary/60",
+                  i === index && "bg-accent/40"
+                )}
+              >
+                <button
+                  type="button"
+                  disabled={exporting}
+                  onClick={() => onPlaybackChange({ index: i, playing: false })}
+                  className="flex-1 min-w-0 text-left px-2 py-1.5"
+                >
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-xs text-muted-foreground w-4">{i + 1}</span>
+                    <span className="font-medium truncate">{step.title || `Step ${i + 1}`}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground ml-6 truncate">
+                    {step.note || partsLabel(step.componentIds, componentNames)}
+                  </p>
+                </button>
+                {editable && (
+                  <div className="flex items-center py-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title="Move up"
+                      disabled={i === 0}
+                      onClick={() => moveStep(step.id, -1)}
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title="Move down"
+                      disabled={i === steps.length - 1}
+                      onClick={() => moveStep(step.id, 1)}
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" title="Edit" onClick={() => startEditing(step)}>
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 text-destructive"
+                      title="Delete"
+                      onClick={() => removeStep(step.id)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            )
+          )}
+        </ol>
+      )}
+
+      {steps.length > 0 && (
+        <div className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            title="Previous step"
+            disabled={exporting || index <= 0}
+            onClick={() => onPlaybackChange({ index: index - 1, playing: false })}
+          >
+            <SkipBack className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            className="flex-1"
+            disabled={exporting}
+            onClick={() =>
+              onPlaybackChange(
+                playback?.playing ? { index, playing: false } : { index: index < 0 || isLast ? 0 : index, playing: true }
+              )
+            }
+          >
+            {playback?.playing ? <Pause className="h-4 w-4 mr-1" /> : <Play className="h-4 w-4 mr-1" />}
+            {playback?.playing ? "Pause" : index < 0 || isLast ? "Play sequence" : "Resume"}
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            title="Next step"
+            disabled={exporting || isLast}
+            onClick={() => onPlaybackChange({ index: index + 1, playing: false })}
+          >
+            <SkipForward className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            title="Show the finished assembly"
+            disabled={exporting || !playback}
+            onClick={() => onPlaybackChange(null)}
+          >
+            <Square className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {steps.length > 0 && (
+        <Button variant="outline" size="sm" className="w-full" onClick={onExportImages} disabled={exporting}>
+          <ImageDown className="h-4 w-4 mr-1" />
+          {exporting ? "Exporting..." : "Export numbered images"}
+        </Button>
+      )}
+    </Card>
+  );
+}
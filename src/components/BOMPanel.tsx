@@ -1,15 +1,34 @@
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { Download, FileSpreadsheet } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AlertTriangle, Download, FileSpreadsheet, FileText, Sheet } from "lucide-react";
+import { toast } from "sonner";
 import { BOMItem } from "@/types/conveyor";
+import { exportBOM, getBOMTotal, BOMExportFormat } from "@/lib/bomExport";
 
 interface BOMPanelProps {
   items: BOMItem[];
+  projectName?: string;
 }
 
-export const BOMPanel = ({ items }: BOMPanelProps) => {
-  const totalCost = items.reduce((sum, item) => sum + item.totalCost, 0);
+export const BOMPanel = ({ items, projectName = "Untitled Project" }: BOMPanelProps) => {
+  const totalCost = getBOMTotal(items);
+  const unpricedCount = items.filter((item) => item.unpriced).length;
+
+  const handleExport = async (format: BOMExportFormat) => {
+    try {
+      await exportBOM(format, items, { projectName });
+    } catch (error) {
+      console.error('❌ BOM export failed:', error);
+      toast.error("Failed to export BOM");
+    }
+  };
 
   return (
     <div className="panel-glass h-full flex flex-col">
@@ -19,10 +38,28 @@ export const BOMPanel = ({ items }: BOMPanelProps) => {
             <h2 className="font-semibold text-lg">Bill of Materials</h2>
             <p className="text-sm text-muted-foreground mt-1">{items.length} components</p>
           </div>
-          <Button variant="outline" size="sm">
-            <Download className="h-4 w-4 mr-2" />
-            Export BOM
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={items.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Export BOM
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport("csv")}>
+                <FileText className="h-4 w-4 mr-2" />
+                CSV (.csv)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("xlsx")}>
+                <Sheet className="h-4 w-4 mr-2" />
+                Excel (.xlsx)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("pdf")}>
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                PDF Quote (.pdf)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
       
@@ -54,7 +91,16 @@ export const BOMPanel = ({ items }: BOMPanelProps) => {
                     <TableCell className="font-medium">{item.description}</TableCell>
                     <TableCell className="text-center">{item.quantity}</TableCell>
                     <TableCell className="text-sm text-muted-foreground">{item.material}</TableCell>
-                    <TableCell className="text-right">${item.unitCost.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">
+                      {item.unpriced ? (
+                        <span className="inline-flex items-center gap-1 text-warning" title="No price known for this part">
+                          <AlertTriangle className="h-3.5 w-3.5" />
+                          n/a
+                        </span>
+                      ) : (
+                        `$${item.unitCost.toFixed(2)}`
+                      )}
+                    </TableCell>
                     <TableCell className="text-right font-semibold">${item.totalCost.toFixed(2)}</TableCell>
                   </TableRow>
                 ))
@@ -62,6 +108,13 @@ export const BOMPanel = ({ items }: BOMPanelProps) => {
             </TableBody>
           </Table>
 
+          {unpricedCount > 0 && (
+            <p className="mt-4 flex items-center gap-1.5 text-sm text-warning">
+              <AlertTriangle className="h-4 w-4" />
+              {unpricedCount} part{unpricedCount === 1 ? " has" : "s have"} no price and {unpricedCount === 1 ? "is" : "are"} not in the total
+            </p>
+          )}
+
           {items.length > 0 && (
             <Card className="mt-4 p-4 bg-secondary/50">
               <div className="flex justify-between items-center">
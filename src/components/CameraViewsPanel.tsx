@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { ArrowDown, ArrowUp, Camera, Crosshair, Pencil, Play, Plus, Trash2 } from "lucide-react";
+import { CameraView, SavedView, createSavedView } from "@/lib/cameraView";
+import { useViewsStore } from "@/state/store";
+
+interface CameraViewsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  getCameraView: () => CameraView | null;
+  onGoTo: (view: SavedView) => void;
+  onPresent: (hidePanels: boolean) => void;
+  isReadonly?: boolean;
+}
+
+/**
+ * Inline editor for a view's name and caption
+ */
+function ViewEditor({
+  view,
+  onSave,
+  onCancel,
+}: {
+  view: SavedView;
+  onSave: (name: string, caption: string) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(view.name);
+  const [caption, setCaption] = useState(view.caption);
+
+  return (
+    <div className="space-y-2 px-3 py-2" onKeyDown={(e) => e.stopPropagation()}>
+      <Input value={name} autoFocus placeholder="View name" onChange={(e) => setName(e.target.value)} />
+      <Textarea
+        value={caption}
+        rows={2}
+        placeholder="Caption shown while presenting (optional)"
+        onChange={(e) => setCaption(e.target.value)}
+        className="text-sm resize-none"
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={() => onSave(name.trim(), caption.trim())} disabled={!name.trim()}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Named camera bookmarks of the project: save the current view, jump back to one,
+ * caption and reorder them, and present them in order as a walkthrough
+ */
+export function CameraViewsPanel({
+  open,
+  onOpenChange,
+  getCameraView,
+  onGoTo,
+  onPresent,
+  isReadonly = false,
+}: CameraViewsPanelProps) {
+  const { views, addView, updateView, removeView, moveView } = useViewsStore();
+  const [name, setName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [hidePanels, setHidePanels] = useState(true);
+
+  useEffect(() => {
+    if (!open) setEditingId(null);
+  }, [open]);
+
+  const handleSave = () => {
+    const view = getCameraView();
+    if (!view) return;
+    const saved = createSavedView(name.trim() || `View ${views.length + 1}`, view);
+    addView(saved);
+    setName("");
+    console.log("📷 Camera view saved:", saved.name);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-[400px] sm:max-w-[400px] flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Camera className="h-5 w-5" />
+            Saved Views
+          </SheetTitle>
+          <SheetDescription>
+            Bookmark camera angles to come back to, and present them in order as a walkthrough.
+          </SheetDescription>
+        </SheetHeader>
+
+        {!isReadonly && (
+          <div className="flex gap-2">
+            <Input
+              placeholder={`View name, e.g. View ${views.length + 1}`}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                e.stopPropagation();
+                if (e.key === "Enter") handleSave();
+              }}
+            />
+            <Button onClick={handleSave}>
+              <Plus className="h-4 w-4 mr-2" />
+              Save current
+            </Button>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Button className="flex-1" onClick={() => onPresent(hidePanels)} disabled={views.length === 0}>
+            <Play className="h-4 w-4 mr-2" />
+            Present
+          </Button>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            Hide panels
+            <Switch checked={hidePanels} onCheckedChange={setHidePanels} />
+          </label>
+        </div>
+
+        <Separator />
+
+        <ol className="flex-1 overflow-y-auto custom-scrollbar min-h-0 space-y-1">
+          {views.length === 0 && (
+            <li className="text-sm text-muted-foreground text-center py-8">No saved views yet</li>
+          )}
+          {views.map((view, index) =>
+            view.id === editingId ? (
+              <li key={view.id} className="rounded-md bg-secondary">
+                <ViewEditor
+                  view={view}
+                  onSave={(newName, caption) => {
+                    updateView(view.id, { name: newName, caption });
+                    setEditingId(null);
+                  }}
+                  onCancel={() => setEditingId(null)}
+                />
+              </li>
+            ) : (
+              <li key={view.id} className="group flex items-start gap-1 rounded-md hover:bg-secondary/60 transition-colors">
+                <button type="button" onClick={() => onGoTo(view)} className="flex-1 min-w-0 text-left px-3 py-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground w-4">{index + 1}</span>
+                    <span className="font-medium truncate">{view.name}</span>
+                  </div>
+                  {view.caption && <p className="text-xs text-muted-foreground ml-6 line-clamp-2">{view.caption}</p>}
+                </button>
+                {!isReadonly && (
+                  <div className="flex items-center py-1 pr-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Move up"
+                      disabled={index === 0}
+                      onClick={() => moveView(view.id, -1)}
+                    >
+                      <ArrowUp className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Move down"
+                      disabled={index === views.length - 1}
+                      onClick={() => moveView(view.id, 1)}
+                    >
+                      <ArrowDown className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Replace with current view"
+                      onClick={() => {
+                        const current = getCameraView();
+                        if (current) updateView(view.id, { view: current });
+                      }}
+                    >
+                      <Crosshair className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" title="Rename / caption" onClick={() => setEditingId(view.id)}>
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" title="Delete" onClick={() => removeView(view.id)}>
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            )
+          )}
+        </ol>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,219 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight, GitCompare } from "lucide-react";
+import { API_BASE } from "@/lib/config";
+import { CompareSide, LoadedProject, loadProjectAssembly } from "@/lib/assemblyCompare";
+import { serializePlacementState } from "@/lib/placementState";
+import { ProjectSnapshot } from "@/lib/versionHistory";
+import { defaultParams } from "@/state/store";
+import type { Project } from "@/hooks/useProjectActions";
+
+const LATEST = "latest";
+
+interface SideChoice {
+  projectId: number;
+  version: string; // snapshot id, or LATEST for the project as it is now
+}
+
+interface CompareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: number | null;
+  projectName: string;
+  snapshots: ProjectSnapshot[];
+  current: Omit<CompareSide, "label">; // this project including unsaved edits
+  onCompare: (before: CompareSide, after: CompareSide) => void;
+}
+
+function SidePicker({
+  title,
+  choice,
+  projects,
+  snapshots,
+  onChange,
+}: {
+  title: string;
+  choice: SideChoice;
+  projects: Array<Pick<Project, "id" | "name">>;
+  snapshots: ProjectSnapshot[];
+  onChange: (choice: SideChoice) => void;
+}) {
+  return (
+    <div className="flex-1 min-w-0 space-y-2">
+      <Label className="text-xs font-semibold">{title}</Label>
+      <Select
+        value={String(choice.projectId)}
+        onValueChange={(value) => onChange({ projectId: Number(value), version: LATEST })}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {projects.map((project) => (
+            <SelectItem key={project.id} value={String(project.id)}>
+              {project.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={choice.version} onValueChange={(version) => onChange({ ...choice, version })}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={LATEST}>Latest</SelectItem>
+          {snapshots.map((snapshot) => (
+            <SelectItem key={snapshot.id} value={snapshot.id}>
+              {snapshot.name} · {new Date(snapshot.createdAt).toLocaleDateString()}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+/**
+ * Pick two assemblies to compare: this project or another one, each as it is now or as one of its versions
+ */
+export function CompareDialog({
+  open,
+  onOpenChange,
+  projectId,
+  projectName,
+  snapshots,
+  current,
+  onCompare,
+}: CompareDialogProps) {
+  const [before, setBefore] = useState<SideChoice | null>(null);
+  const [after, setAfter] = useState<SideChoice | null>(null);
+  const [loaded, setLoaded] = useState<Record<number, LoadedProject>>({});
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const requestedRef = useRef(new Set<number>());
+
+  const { data: projectList = [] } = useQuery<Project[]>({
+    queryKey: ["projects", "compare"],
+    queryFn: async () => {
+      const response = await fetch(`${API_BASE}/api/projects/`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch projects");
+      const data = await response.json();
+      return Array.isArray(data) ? data : data.results || [];
+    },
+    enabled: open,
+  });
+
+  // Default to "what changed since the latest version"
+  useEffect(() => {
+    if (!open || projectId === null) return;
+    setBefore({ projectId, version: snapshots[0]?.id ?? LATEST });
+    setAfter({ projectId, version: LATEST });
+    setLoadError(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, projectId]);
+
+  // Other projects are fetched when picked
+  useEffect(() => {
+    const ids = [before?.projectId, after?.projectId].filter(
+      (id): id is number => id !== undefined && id !== projectId && !requestedRef.current.has(id)
+    );
+    ids.forEach((id) => {
+      requestedRef.current.add(id);
+      loadProjectAssembly(id)
+        .then((project) => setLoaded((prev) => ({ ...prev, [id]: project })))
+        .catch((error) => {
+          requestedRef.current.delete(id); // try again when picked again
+          setLoadError(error instanceof Error ? error.message : String(error));
+        });
+    });
+  }, [before?.projectId, after?.projectId, projectId]);
+
+  const projects = [
+    ...(projectId !== null ? [{ id: projectId, name: projectName }] : []),
+    ...projectList.filter((p) => p.id !== projectId),
+  ];
+
+  const snapshotsOf = (id: number) => (id === projectId ? snapshots : loaded[id]?.snapshots ?? []);
+
+  const resolve = (choice: SideChoice): CompareSide | null => {
+    const isCurrent = choice.projectId === projectId;
+    const project = isCurrent ? null : loaded[choice.projectId];
+    if (!isCurrent && !project) return null;
+    const name = isCurrent ? projectName : project!.name;
+
+    if (choice.version !== LATEST) {
+      const snapshot = snapshotsOf(choice.projectId).find((s) => s.id === choice.version);
+      if (!snapshot) return null;
+      return { label: `${name} — ${snapshot.name}`, components: snapshot.components, placement: snapshot.placement };
+    }
+    if (isCurrent) return { label: `${name} (current)`, ...current };
+    return {
+      label: name,
+      components: project!.components,
+      placement: project!.placement ?? serializePlacementState(defaultParams, []),
+    };
+  };
+
+  const beforeSide = before ? resolve(before) : null;
+  const afterSide = after ? resolve(after) : null;
+
+  const handleCompare = () => {
+    if (!beforeSide || !afterSide) return;
+    onCompare(beforeSide, afterSide);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Compare Assemblies</DialogTitle>
+          <DialogDescription>
+            Parts are coloured as added, removed, moved or changed going from the first assembly to the second.
+          </DialogDescription>
+        </DialogHeader>
+
+        {before && after && (
+          <div className="flex items-end gap-3 py-2">
+            <SidePicker
+              title="From"
+              choice={before}
+              projects={projects}
+              snapshots={snapshotsOf(before.projectId)}
+              onChange={setBefore}
+            />
+            <ArrowRight className="h-4 w-4 mb-10 shrink-0 text-muted-foreground" />
+            <SidePicker
+              title="To"
+              choice={after}
+              projects={projects}
+              snapshots={snapshotsOf(after.projectId)}
+              onChange={setAfter}
+            />
+          </div>
+        )}
+        {loadError && <p className="text-sm text-destructive">{loadError}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCompare} disabled={!beforeSide || !afterSide}>
+            <GitCompare className="h-4 w-4 mr-2" />
+            Compare
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,172 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { ArrowRight, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { AssemblyDiffView } from "@/components/3d/AssemblyDiffView";
+import { CompareSide, compareAssemblies } from "@/lib/assemblyCompare";
+import { CHANGE_COLORS, ComponentChange } from "@/lib/versionHistory";
+
+const CHANGES: ComponentChange[] = ["added", "removed", "moved", "changed"];
+
+interface CompareViewProps {
+  before: CompareSide;
+  after: CompareSide;
+  onClose: () => void;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function formatCost(value: number, signed = false): string {
+  const text = `$${Math.abs(value).toFixed(2)}`;
+  if (!signed || Math.abs(value) < 0.005) return text;
+  return value > 0 ? `+${text}` : `−${text}`;
+}
+
+/**
+ * Compare mode: the second assembly in 3D coloured by what changed since the first,
+ * with the component changes, ConveyorParams differences and the BOM delta alongside
+ */
+export function CompareView({ before, after, onClose }: CompareViewProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { diff, bom } = useMemo(() => compareAssemblies(before, after), [before, after]);
+
+  const counts = CHANGES.map((change) => ({
+    change,
+    count: diff.components.filter((d) => d.change === change).length,
+  }));
+
+  return (
+    <div className="absolute inset-0 z-40 flex bg-background">
+      <div className="flex-1 min-w-0 relative">
+        <AssemblyDiffView after={after.components} diff={diff} selectedId={selectedId} onSelect={setSelectedId} />
+
+        <div className="absolute top-2 left-2 panel-glass px-3 py-2 flex items-center gap-2 text-sm">
+          <span className="font-medium truncate max-w-[200px]">{before.label}</span>
+          <ArrowRight className="h-4 w-4 text-muted-foreground shrink-0" />
+          <span className="font-medium truncate max-w-[200px]">{after.label}</span>
+        </div>
+        <div className="absolute bottom-2 left-2 panel-glass px-3 py-2 flex items-center gap-3 text-xs">
+          {counts.map(({ change, count }) => (
+            <span key={change} className="flex items-center gap-1 capitalize">
+              <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: CHANGE_COLORS[change] }} />
+              {change} ({count})
+            </span>
+          ))}
+        </div>
+        <Button variant="secondary" size="sm" className="absolute top-2 right-2" onClick={onClose}>
+          <X className="h-4 w-4 mr-2" />
+          Exit compare
+        </Button>
+      </div>
+
+      <div className="w-96 shrink-0 border-l border-border overflow-y-auto custom-scrollbar p-4 space-y-4">
+        <div>
+          <h2 className="font-semibold text-lg">Changes</h2>
+          <p className="text-xs text-muted-foreground">{diff.unchanged} components unchanged</p>
+        </div>
+
+        {diff.components.length > 0 ? (
+          <ul className="space-y-1">
+            {diff.components.map((d) => (
+              <li key={`${d.change}-${d.id}`}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId((id) => (id === d.id ? null : d.id))}
+                  className={cn(
+                    "w-full text-left rounded-md px-2 py-1.5 text-sm flex items-start gap-2 hover:bg-secondary/60",
+                    selectedId === d.id && "bg-secondary"
+                  )}
+                >
+                  <span className="mt-1.5 h-2 w-2 rounded-full shrink-0" style={{ backgroundColor: CHANGE_COLORS[d.change] }} />
+                  <span className="min-w-0">
+                    <span className="font-medium capitalize">{d.change}</span> {d.name}
+                    {d.details.length > 0 && (
+                      <span className="block text-xs text-muted-foreground">{d.details.join(", ")}</span>
+                    )}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No component changes.</p>
+        )}
+
+        <Separator />
+
+        <div>
+          <h3 className="font-semibold mb-2">Conveyor parameters</h3>
+          {diff.params.length > 0 || diff.slots.length > 0 ? (
+            <table className="w-full text-xs">
+              <tbody>
+                {diff.params.map((p) => (
+                  <tr key={p.key} className="border-b border-border/50">
+                    <td className="py-1 pr-2 font-mono">{p.key}</td>
+                    <td className="py-1 pr-2 text-muted-foreground break-all">{formatValue(p.before)}</td>
+                    <td className="py-1 break-all">{formatValue(p.after)}</td>
+                  </tr>
+                ))}
+                {diff.slots.map((s) => (
+                  <tr key={s.type} className="border-b border-border/50">
+                    <td className="py-1 pr-2 font-mono">{s.type}</td>
+                    <td className="py-1 pr-2 text-muted-foreground">{s.before}</td>
+                    <td className="py-1">{s.after}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-muted-foreground">Same configuration.</p>
+          )}
+        </div>
+
+        <Separator />
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold">BOM delta</h3>
+            <Badge variant={bom.costDelta > 0.005 ? "destructive" : "secondary"}>{formatCost(bom.costDelta, true)}</Badge>
+          </div>
+          <p className="text-xs text-muted-foreground mb-2">
+            {formatCost(bom.beforeTotal)} → {formatCost(bom.afterTotal)}
+          </p>
+          {bom.lines.length > 0 ? (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-muted-foreground text-left">
+                  <th className="font-normal pb-1">Part</th>
+                  <th className="font-normal pb-1 text-right">Qty</th>
+                  <th className="font-normal pb-1 text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bom.lines.map((line) => (
+                  <tr key={line.partNumber} className="border-t border-border/50" title={line.description}>
+                    <td className="py-1 pr-2">
+                      <span className="font-mono">{line.partNumber}</span>
+                      <span className="block text-muted-foreground truncate max-w-[180px]">{line.description}</span>
+                    </td>
+                    <td className="py-1 text-right whitespace-nowrap">
+                      {line.before} → {line.after}
+                    </td>
+                    <td className={cn("py-1 text-right whitespace-nowrap", line.costDelta > 0 ? "text-destructive" : "text-green-600")}>
+                      {formatCost(line.costDelta, true)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-muted-foreground">Same parts list.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
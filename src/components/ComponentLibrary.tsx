@@ -2,9 +2,14 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { useEffect, useMemo, useState } from "react";
-import { Box, Circle, Zap, Grid3x3, Settings, ChevronLeft, ChevronRight, ChevronDown, ChevronUp } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Box, Circle, Zap, Grid3x3, Settings, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Upload, Loader2, AlertCircle, CheckCircle2, X, Search, Star, Clock } from "lucide-react";
+import { toast } from "sonner";
 import { ComponentLibraryPreview } from "@/components/ComponentLibraryPreview";
+import { UploadComponentDialog } from "@/components/UploadComponentDialog";
+import { LibraryFilters } from "@/components/LibraryFilters";
 import {
   Accordion,
   AccordionContent,
@@ -12,28 +17,348 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { API_BASE } from '@/lib/config';
+import { parseConnectors } from '@/lib/connectors';
+import { LibraryComponent, isComponentFailed, isComponentProcessing } from '@/lib/componentUpload';
+import { useComponentUploads } from '@/hooks/useComponentUploads';
+import { ComponentUpload, useLibraryStore } from '@/state/store';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  EMPTY_LIBRARY_FILTERS,
+  LibraryFilters as LibraryFilterState,
+  UNCATEGORIZED,
+  componentCategory,
+  countActiveFilters,
+  describeComponent,
+  getLibraryFacets,
+  searchLibrary,
+} from '@/lib/librarySearch';
 
-type BackendComponent = {
-  id: number;
-  name: string;
-  category_label?: string;
-  category?: string;
-  type?: string;
-  glb_url?: string | null;
-  original_url?: string | null;
+type BackendComponent = LibraryComponent & {
   bounding_box?: any;
   center?: any;
 };
 
+/**
+ * Drop payload for the scene, with absolute asset URLs and a normalized bounding box
+ */
+function toLibraryDragData(component: BackendComponent) {
+  const componentCategory = component.category || component.category_label || component.type || "";
+  // Ensure URLs are absolute
+  let glbUrl = component.glb_url || null;
+  let originalUrl = component.original_url || null;
+  
+  if (glbUrl && !glbUrl.startsWith('http')) {
+    glbUrl = `${API_BASE}${glbUrl.startsWith('/') ? glbUrl : '/' + glbUrl}`;
+  }
+  
+  if (originalUrl && !originalUrl.startsWith('http')) {
+    originalUrl = `${API_BASE}${originalUrl.startsWith('/') ? originalUrl : '/' + originalUrl}`;
+  }
+  
+  // Normalize bounding_box format if it exists
+  let normalizedBoundingBox = component.bounding_box || null;
+  if (normalizedBoundingBox) {
+    // Check if it's in the correct format {min: [x,y,z], max: [x,y,z]}
+    if (normalizedBoundingBox.min && normalizedBoundingBox.max && 
+        Array.isArray(normalizedBoundingBox.min) && Array.isArray(normalizedBoundingBox.max)) {
+      // Format is correct, use as-is
+    } else if (normalizedBoundingBox.x && normalizedBoundingBox.y && normalizedBoundingBox.z) {
+      // Convert from {x: {min, max}, y: {min, max}, z: {min, max}} format
+      normalizedBoundingBox = {
+        min: [normalizedBoundingBox.x.min || 0, normalizedBoundingBox.y.min || 0, normalizedBoundingBox.z.min || 0],
+        max: [normalizedBoundingBox.x.max || 0, normalizedBoundingBox.y.max || 0, normalizedBoundingBox.z.max || 0],
+      };
+    } else {
+      // Invalid format, treat as missing
+      normalizedBoundingBox = null;
+    }
+  }
+  
+  // Ensure all required fields are present with defaults
+  return {
+    id: component.id,
+    name: component.name || 'Unnamed Component',
+    category: componentCategory || 'unknown',
+    glb_url: glbUrl,
+    original_url: originalUrl,
+    bounding_box: normalizedBoundingBox,
+    center: component.center || [0, 0, 0],
+    connectors: parseConnectors(component.metadata),
+  };
+}
+
+/**
+ * Start dragging a library part onto the scene, with a preview image when the card has one
+ */
+function startLibraryDrag(e: React.DragEvent<HTMLElement>, component: BackendComponent) {
+  const componentCategory = component.category || component.category_label || component.type || "";
+  try {
+    const dragData = toLibraryDragData(component);
+    
+    // Set data in multiple formats for better compatibility
+    const dataString = JSON.stringify(dragData);
+    e.dataTransfer.setData('application/json', dataString);
+    e.dataTransfer.setData('text/plain', dataString);
+    e.dataTransfer.effectAllowed = 'copy';
+    e.dataTransfer.dropEffect = 'copy';
+    
+    // Store component type in a custom format that can be read during dragOver
+    // Use types array to store component category/name for detection
+    const componentName = (component.name || '').toLowerCase();
+    const isFixedLeg = [componentName, componentCategory].some((s) =>
+      s.includes('leg') || s.includes('support') || s.includes('stand')
+    );
+    
+    window.dispatchEvent(new CustomEvent('componentDragStart', { 
+      detail: { component: dragData, isFixedLeg }
+    }));
+    
+    // Create custom drag image from the 3D preview canvas
+    // Note: setDragImage must be called synchronously during dragStart
+    try {
+      // Find the canvas element in the preview
+      const cardElement = e.currentTarget;
+      const sourceCanvas = cardElement.querySelector('canvas') as HTMLCanvasElement;
+      
+      if (sourceCanvas && sourceCanvas.width > 0 && sourceCanvas.height > 0) {
+        // Create a new canvas for the drag preview
+        const dragCanvas = document.createElement('canvas');
+        dragCanvas.width = 128;
+        dragCanvas.height = 128;
+        const ctx = dragCanvas.getContext('2d', { willReadFrequently: false });
+        
+        if (ctx) {
+          // Draw semi-transparent dark background
+          ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+          ctx.fillRect(0, 0, 128, 128);
+          
+          // Draw border with accent color
+          ctx.strokeStyle = 'rgba(0, 180, 216, 0.6)';
+          ctx.lineWidth = 2;
+          ctx.strokeRect(1, 1, 126, 126);
+          
+          // Draw the 3D model from source canvas, scaled and centered
+          const padding = 10;
+          const drawWidth = 128 - (padding * 2);
+          const drawHeight = 128 - (padding * 2);
+          
+          // Use high-quality scaling
+          ctx.imageSmoothingEnabled = true;
+          ctx.imageSmoothingQuality = 'high';
+          
+          // Draw the canvas content
+          ctx.drawImage(
+            sourceCanvas,
+            0,
+            0,
+            sourceCanvas.width,
+            sourceCanvas.height,
+            padding,
+            padding,
+            drawWidth,
+            drawHeight
+          );
+          
+          // Create a wrapper div to hold the canvas (some browsers need an element, not canvas directly)
+          const dragImageWrapper = document.createElement('div');
+          dragImageWrapper.style.width = '128px';
+          dragImageWrapper.style.height = '128px';
+          dragImageWrapper.style.position = 'absolute';
+          dragImageWrapper.style.top = '-2000px';
+          dragImageWrapper.style.left = '-2000px';
+          dragImageWrapper.style.pointerEvents = 'none';
+          dragImageWrapper.appendChild(dragCanvas);
+          
+          // Append to body (required for setDragImage to work)
+          document.body.appendChild(dragImageWrapper);
+          
+          // Set drag image - use the wrapper div
+          e.dataTransfer.setDragImage(dragImageWrapper, 64, 64);
+          
+          // Clean up after drag operation completes
+          const cleanup = () => {
+            setTimeout(() => {
+              if (dragImageWrapper.parentNode) {
+                document.body.removeChild(dragImageWrapper);
+              }
+            }, 100);
+          };
+          
+          // Clean up on drag end
+          cardElement.addEventListener('dragend', cleanup, { once: true });
+        }
+      }
+    } catch (dragImageError) {
+      console.warn('Could not create custom drag image:', dragImageError);
+      // Continue with default drag image if custom one fails
+    }
+    
+    console.log('🚀 Drag data set, types:', e.dataTransfer.types);
+  } catch (error) {
+    console.error('❌ Error setting drag data:', error);
+    // Still allow drag even if data setting fails
+    e.dataTransfer.effectAllowed = 'copy';
+  }
+}
+
+export type LibraryDragData = ReturnType<typeof toLibraryDragData>;
+
+const UPLOAD_STAGE_LABELS: Record<ComponentUpload["stage"], string> = {
+  uploading: "Uploading",
+  processing: "Processing",
+  ready: "Ready",
+  failed: "Failed",
+};
+
+/**
+ * Uploads of this session with their progress and errors
+ */
+function UploadList({ uploads, onDismiss }: { uploads: ComponentUpload[]; onDismiss: (id: string) => void }) {
+  return (
+    <div className="space-y-2 mb-4">
+      {uploads.map((upload) => {
+        const busy = upload.stage === "uploading" || upload.stage === "processing";
+        // Conversion progress is only known when the backend reports it
+        const indeterminate = upload.stage === "processing" && upload.progress === 0;
+        return (
+          <Card key={upload.id} className="p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              {busy && <Loader2 className="h-4 w-4 animate-spin text-primary shrink-0" />}
+              {upload.stage === "ready" && <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />}
+              {upload.stage === "failed" && <AlertCircle className="h-4 w-4 text-destructive shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{upload.component?.name ?? upload.fileName}</p>
+                <p className="text-[10px] text-muted-foreground">
+                  {UPLOAD_STAGE_LABELS[upload.stage]}
+                  {busy && !indeterminate && ` ${Math.round(upload.progress * 100)}%`}
+                </p>
+              </div>
+              {!busy && (
+                <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={() => onDismiss(upload.id)}>
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+            {busy && <Progress value={indeterminate ? undefined : upload.progress * 100} className={`h-1.5 ${indeterminate ? "animate-pulse" : ""}`} />}
+            {upload.error && <p className="text-xs text-destructive break-words">{upload.error}</p>}
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
+
 interface ComponentLibraryProps {
   collapsed?: boolean;
   onToggleCollapse?: () => void;
+  onAddComponent?: (component: LibraryDragData) => void; // adds the highlighted part from the keyboard
+}
+
+const iconForCategory = (label?: string) => {
+  switch ((label || "").toLowerCase()) {
+    case "motor":
+      return Zap;
+    case "roller":
+      return Circle;
+    case "belt":
+    case "conveyor":
+      return Grid3x3;
+    case "frame":
+    case "base":
+      return Box;
+    default:
+      return Settings;
+  }
+};
+
+/**
+ * Parts still converting, or whose conversion failed, can't be placed yet
+ */
+const isPlaceable = (component: BackendComponent) => !isComponentProcessing(component) && !isComponentFailed(component);
+
+interface LibraryRowProps {
+  component: BackendComponent;
+  itemKey: string;
+  highlighted: boolean;
+  favourite: boolean;
+  onToggleFavourite: () => void;
 }
 
-export const ComponentLibrary = ({ collapsed = false, onToggleCollapse }: ComponentLibraryProps) => {
+/**
+ * Compact draggable row used for search results, favourites and recents
+ */
+function LibraryRow({ component, itemKey, highlighted, favourite, onToggleFavourite }: LibraryRowProps) {
+  const facts = describeComponent(component);
+  const Icon = iconForCategory(facts.category);
+  const placeable = isPlaceable(component);
+
+  return (
+    <div
+      data-library-key={itemKey}
+      draggable={placeable}
+      onDragStart={(e) => (placeable ? startLibraryDrag(e, component) : e.preventDefault())}
+      onDragEnd={(e) => e.dataTransfer.clearData()}
+      className={`flex items-center gap-2 rounded-md border px-2 py-1.5 transition-smooth ${
+        placeable ? "cursor-move hover:bg-secondary hover:border-primary" : "cursor-not-allowed opacity-60"
+      } ${highlighted ? "ring-2 ring-primary border-primary" : "border-border"}`}
+    >
+      <Icon className="h-4 w-4 text-primary shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{component.name}</p>
+        <p className="text-[10px] text-muted-foreground truncate">
+          {[facts.partNumber, facts.category, facts.unitCost !== undefined ? `$${facts.unitCost.toFixed(2)}` : null]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+      </div>
+      <FavouriteButton favourite={favourite} onToggle={onToggleFavourite} />
+    </div>
+  );
+}
+
+function FavouriteButton({ favourite, onToggle }: { favourite: boolean; onToggle: () => void }) {
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-6 w-6 shrink-0"
+      title={favourite ? "Remove from favourites" : "Add to favourites"}
+      onClick={(e) => {
+        e.stopPropagation();
+        onToggle();
+      }}
+    >
+      <Star className={`h-3.5 w-3.5 ${favourite ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"}`} />
+    </Button>
+  );
+}
+
+export const ComponentLibrary = ({ collapsed = false, onToggleCollapse, onAddComponent }: ComponentLibraryProps) => {
   const [items, setItems] = useState<BackendComponent[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showUpload, setShowUpload] = useState(false);
+  const [query, setQuery] = useState("");
+  const [filters, setFilters] = useState<LibraryFilterState>(EMPTY_LIBRARY_FILTERS);
+  const [highlight, setHighlight] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const { user } = useAuth();
+  const { favourites, recents, loadPrefs, toggleFavourite } = useLibraryStore();
+
+  useEffect(() => {
+    loadPrefs(user?.username ?? null);
+  }, [user?.username, loadPrefs]);
+
+  // Converted uploads join the library as soon as their GLB is ready
+  const handleUploadReady = useCallback((component: LibraryComponent) => {
+    setItems((prev) =>
+      prev.some((item) => item.id === component.id)
+        ? prev.map((item) => (item.id === component.id ? { ...item, ...component } : item))
+        : [...prev, component]
+    );
+  }, []);
+  const { uploads, startUpload, trackComponent, dismissUpload } = useComponentUploads(handleUploadReady);
 
   useEffect(() => {
     let cancelled = false;
@@ -46,40 +371,23 @@ export const ComponentLibrary = ({ collapsed = false, onToggleCollapse }: Compon
       })
       .then((data) => {
         if (cancelled) return;
-        const results = Array.isArray(data) ? data : data.results || [];
+        const results: BackendComponent[] = Array.isArray(data) ? data : data.results || [];
         setItems(results);
+        results.filter(isComponentProcessing).forEach(trackComponent);
       })
       .catch((e) => !cancelled && setError(String(e)))
       .finally(() => !cancelled && setLoading(false));
     return () => {
       cancelled = true;
     };
-  }, []);
-
-  const iconForCategory = (label?: string) => {
-    switch ((label || "").toLowerCase()) {
-      case "motor":
-        return Zap;
-      case "roller":
-        return Circle;
-      case "belt":
-      case "conveyor":
-        return Grid3x3;
-      case "frame":
-      case "base":
-        return Box;
-      default:
-        return Settings;
-    }
-  };
+  }, [trackComponent]);
 
   // Group components by category
   const groupedComponents = useMemo(() => {
     const groups: Record<string, BackendComponent[]> = {};
     
     items.forEach((component) => {
-      const category = component.category || component.category_label || component.type || "Uncategorized";
-      const normalizedCategory = category.trim() || "Uncategorized";
+      const normalizedCategory = componentCategory(component);
       
       if (!groups[normalizedCategory]) {
         groups[normalizedCategory] = [];
@@ -89,14 +397,82 @@ export const ComponentLibrary = ({ collapsed = false, onToggleCollapse }: Compon
     
     // Sort categories alphabetically, but put "Uncategorized" at the end
     const sortedCategories = Object.keys(groups).sort((a, b) => {
-      if (a === "Uncategorized") return 1;
-      if (b === "Uncategorized") return -1;
+      if (a === UNCATEGORIZED) return 1;
+      if (b === UNCATEGORIZED) return -1;
       return a.localeCompare(b);
     });
     
     return { groups, sortedCategories };
   }, [items]);
 
+  const facets = useMemo(() => getLibraryFacets(items), [items]);
+  const searching = query.trim().length > 0 || countActiveFilters(filters) > 0;
+  const results = useMemo(() => (searching ? searchLibrary(items, query, filters) : []), [items, query, filters, searching]);
+
+  const byId = useMemo(() => new Map(items.map((item) => [item.id, item])), [items]);
+  const favouriteItems = favourites.map((id) => byId.get(id)).filter((c): c is BackendComponent => !!c);
+  const recentItems = recents.map((id) => byId.get(id)).filter((c): c is BackendComponent => !!c);
+
+  // Everything the arrow keys step through, in display order
+  const navigable = searching
+    ? results.map((component) => ({ key: `result-${component.id}`, component }))
+    : [
+        ...favouriteItems.map((component) => ({ key: `favourite-${component.id}`, component })),
+        ...recentItems.map((component) => ({ key: `recent-${component.id}`, component })),
+        ...groupedComponents.sortedCategories.flatMap((category) =>
+          groupedComponents.groups[category].map((component) => ({ key: `item-${component.id}`, component }))
+        ),
+      ];
+  const highlightedKey = navigable[Math.min(highlight, navigable.length - 1)]?.key;
+
+  useEffect(() => {
+    setHighlight(0);
+  }, [query, filters]);
+
+  useEffect(() => {
+    if (!highlightedKey) return;
+    listRef.current
+      ?.querySelector(`[data-library-key="${highlightedKey}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [highlightedKey]);
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlight((i) => Math.min(i + 1, navigable.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlight((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Enter") {
+      const entry = navigable[Math.min(highlight, navigable.length - 1)];
+      if (!entry || !onAddComponent) return;
+      e.preventDefault();
+      if (!isPlaceable(entry.component)) {
+        toast.error(`${entry.component.name} is not ready to place yet`);
+        return;
+      }
+      console.log('⌨️ Adding from library:', entry.component.name);
+      onAddComponent(toLibraryDragData(entry.component));
+    } else if (e.key === "Escape") {
+      setQuery("");
+    }
+  };
+
+  const renderRows = (list: BackendComponent[], prefix: string) => (
+    <div className="space-y-1.5">
+      {list.map((component) => (
+        <LibraryRow
+          key={component.id}
+          component={component}
+          itemKey={`${prefix}-${component.id}`}
+          highlighted={highlightedKey === `${prefix}-${component.id}`}
+          favourite={favourites.includes(component.id)}
+          onToggleFavourite={() => toggleFavourite(component.id)}
+        />
+      ))}
+    </div>
+  );
+
   return (
     <div className={`panel-glass h-full flex flex-col transition-all ${collapsed ? 'w-12' : 'w-80'}`}>
       <div className="p-4 border-b border-border flex items-center justify-between">
@@ -104,21 +480,71 @@ export const ComponentLibrary = ({ collapsed = false, onToggleCollapse }: Compon
           <h2 className="font-semibold text-lg">Component Library</h2>
           <p className="text-sm text-muted-foreground mt-1">Drag to add to scene</p>
         </div>
-        <Button 
-          variant="ghost" 
-          size="icon" 
-          onClick={onToggleCollapse}
-          className="shrink-0"
-        >
-          {collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronLeft className="h-4 w-4" />}
-        </Button>
+        <div className="flex items-center gap-1">
+          {!collapsed && (
+            <Button variant="ghost" size="icon" onClick={() => setShowUpload(true)} title="Upload component">
+              <Upload className="h-4 w-4" />
+            </Button>
+          )}
+          <Button 
+            variant="ghost" 
+            size="icon" 
+            onClick={onToggleCollapse}
+            className="shrink-0"
+          >
+            {collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronLeft className="h-4 w-4" />}
+          </Button>
+        </div>
       </div>
+
+      {!collapsed && (
+        <div className="px-4 pt-3 flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleSearchKeyDown}
+              placeholder="Search parts…"
+              className="pl-8 h-9"
+              title="↑/↓ to move, Enter to add to the scene"
+            />
+          </div>
+          <LibraryFilters facets={facets} filters={filters} onChange={setFilters} />
+        </div>
+      )}
       
-      <div className="flex-1 overflow-y-auto overflow-x-visible">
+      <div ref={listRef} className="flex-1 overflow-y-auto overflow-x-visible">
         <div className={`p-4 ${collapsed ? 'hidden' : ''}`}>
+          {uploads.length > 0 && <UploadList uploads={uploads} onDismiss={dismissUpload} />}
           {loading && <div className="text-xs text-muted-foreground">Loading components…</div>}
           {error && <div className="text-xs text-red-500">{error}</div>}
-          {!loading && !error && (
+          {!loading && !error && searching && (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                {results.length} {results.length === 1 ? "part" : "parts"} found
+              </p>
+              {renderRows(results, "result")}
+            </div>
+          )}
+          {!loading && !error && !searching && (
+            <>
+              {favouriteItems.length > 0 && (
+                <div className="mb-4 space-y-2">
+                  <h3 className="text-xs font-semibold uppercase text-muted-foreground flex items-center gap-1">
+                    <Star className="h-3 w-3" /> Favourites
+                  </h3>
+                  {renderRows(favouriteItems, "favourite")}
+                </div>
+              )}
+              {recentItems.length > 0 && (
+                <div className="mb-4 space-y-2">
+                  <h3 className="text-xs font-semibold uppercase text-muted-foreground flex items-center gap-1">
+                    <Clock className="h-3 w-3" /> Recently used
+                  </h3>
+                  {renderRows(recentItems, "recent")}
+                </div>
+              )}
             <Accordion type="multiple" defaultValue={groupedComponents.sortedCategories} className="w-full">
               {groupedComponents.sortedCategories.map((category, categoryIndex) => {
                 const categoryComponents = groupedComponents.groups[category];
@@ -142,162 +568,17 @@ export const ComponentLibrary = ({ collapsed = false, onToggleCollapse }: Compon
                         {categoryComponents.map((component, componentIndex) => {
                           const componentCategory = component.category || component.category_label || component.type || "";
                           const ComponentIcon = iconForCategory(componentCategory);
+                          const processing = isComponentProcessing(component);
+                          const failed = isComponentFailed(component);
+                          const placeable = !processing && !failed;
                           return (
-                            <div key={component.id}>
+                            <div key={component.id} data-library-key={`item-${component.id}`}>
                               {componentIndex > 0 && <Separator className="my-2" />}
                               <Card 
                               key={component.id}
-                              className="p-3 cursor-move hover:bg-secondary transition-smooth hover:border-primary overflow-visible"
-                              draggable={true}
-                onDragStart={(e) => {
-                  try {
-                    // Ensure URLs are absolute
-                    let glbUrl = component.glb_url || null;
-                    let originalUrl = component.original_url || null;
-                    
-                    if (glbUrl && !glbUrl.startsWith('http')) {
-                      glbUrl = `${API_BASE}${glbUrl.startsWith('/') ? glbUrl : '/' + glbUrl}`;
-                    }
-                    
-                    if (originalUrl && !originalUrl.startsWith('http')) {
-                      originalUrl = `${API_BASE}${originalUrl.startsWith('/') ? originalUrl : '/' + originalUrl}`;
-                    }
-                    
-                    // Normalize bounding_box format if it exists
-                    let normalizedBoundingBox = component.bounding_box || null;
-                    if (normalizedBoundingBox) {
-                      // Check if it's in the correct format {min: [x,y,z], max: [x,y,z]}
-                      if (normalizedBoundingBox.min && normalizedBoundingBox.max && 
-                          Array.isArray(normalizedBoundingBox.min) && Array.isArray(normalizedBoundingBox.max)) {
-                        // Format is correct, use as-is
-                      } else if (normalizedBoundingBox.x && normalizedBoundingBox.y && normalizedBoundingBox.z) {
-                        // Convert from {x: {min, max}, y: {min, max}, z: {min, max}} format
-                        normalizedBoundingBox = {
-                          min: [normalizedBoundingBox.x.min || 0, normalizedBoundingBox.y.min || 0, normalizedBoundingBox.z.min || 0],
-                          max: [normalizedBoundingBox.x.max || 0, normalizedBoundingBox.y.max || 0, normalizedBoundingBox.z.max || 0],
-                        };
-                      } else {
-                        // Invalid format, treat as missing
-                        normalizedBoundingBox = null;
-                      }
-                    }
-                    
-                    // Ensure all required fields are present with defaults
-                    const dragData = {
-                      id: component.id,
-                      name: component.name || 'Unnamed Component',
-                      category: componentCategory || 'unknown',
-                      glb_url: glbUrl,
-                      original_url: originalUrl,
-                      bounding_box: normalizedBoundingBox,
-                      center: component.center || [0, 0, 0],
-                    };
-                    
-                    // Set data in multiple formats for better compatibility
-                    const dataString = JSON.stringify(dragData);
-                    e.dataTransfer.setData('application/json', dataString);
-                    e.dataTransfer.setData('text/plain', dataString);
-                    e.dataTransfer.effectAllowed = 'copy';
-                    e.dataTransfer.dropEffect = 'copy';
-                    
-                    // Store component type in a custom format that can be read during dragOver
-                    // Use types array to store component category/name for detection
-                    const componentName = (component.name || '').toLowerCase();
-                    const isFixedLeg = [componentName, componentCategory].some((s) =>
-                      s.includes('leg') || s.includes('support') || s.includes('stand')
-                    );
-                    
-                    window.dispatchEvent(new CustomEvent('componentDragStart', { 
-                      detail: { component: dragData, isFixedLeg }
-                    }));
-                    
-                    // Create custom drag image from the 3D preview canvas
-                    // Note: setDragImage must be called synchronously during dragStart
-                    try {
-                      // Find the canvas element in the preview
-                      const cardElement = e.currentTarget;
-                      const sourceCanvas = cardElement.querySelector('canvas') as HTMLCanvasElement;
-                      
-                      if (sourceCanvas && sourceCanvas.width > 0 && sourceCanvas.height > 0) {
-                        // Create a new canvas for the drag preview
-                        const dragCanvas = document.createElement('canvas');
-                        dragCanvas.width = 128;
-                        dragCanvas.height = 128;
-                        const ctx = dragCanvas.getContext('2d', { willReadFrequently: false });
-                        
-                        if (ctx) {
-                          // Draw semi-transparent dark background
-                          ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
-                          ctx.fillRect(0, 0, 128, 128);
-                          
-                          // Draw border with accent color
-                          ctx.strokeStyle = 'rgba(0, 180, 216, 0.6)';
-                          ctx.lineWidth = 2;
-                          ctx.strokeRect(1, 1, 126, 126);
-                          
-                          // Draw the 3D model from source canvas, scaled and centered
-                          const padding = 10;
-                          const drawWidth = 128 - (padding * 2);
-                          const drawHeight = 128 - (padding * 2);
-                          
-                          // Use high-quality scaling
-                          ctx.imageSmoothingEnabled = true;
-                          ctx.imageSmoothingQuality = 'high';
-                          
-                          // Draw the canvas content
-                          ctx.drawImage(
-                            sourceCanvas,
-                            0,
-                            0,
-                            sourceCanvas.width,
-                            sourceCanvas.height,
-                            padding,
-                            padding,
-                            drawWidth,
-                            drawHeight
-                          );
-                          
-                          // Create a wrapper div to hold the canvas (some browsers need an element, not canvas directly)
-                          const dragImageWrapper = document.createElement('div');
-                          dragImageWrapper.style.width = '128px';
-                          dragImageWrapper.style.height = '128px';
-                          dragImageWrapper.style.position = 'absolute';
-                          dragImageWrapper.style.top = '-2000px';
-                          dragImageWrapper.style.left = '-2000px';
-                          dragImageWrapper.style.pointerEvents = 'none';
-                          dragImageWrapper.appendChild(dragCanvas);
-                          
-                          // Append to body (required for setDragImage to work)
-                          document.body.appendChild(dragImageWrapper);
-                          
-                          // Set drag image - use the wrapper div
-                          e.dataTransfer.setDragImage(dragImageWrapper, 64, 64);
-                          
-                          // Clean up after drag operation completes
-                          const cleanup = () => {
-                            setTimeout(() => {
-                              if (dragImageWrapper.parentNode) {
-                                document.body.removeChild(dragImageWrapper);
-                              }
-                            }, 100);
-                          };
-                          
-                          // Clean up on drag end
-                          cardElement.addEventListener('dragend', cleanup, { once: true });
-                        }
-                      }
-                    } catch (dragImageError) {
-                      console.warn('Could not create custom drag image:', dragImageError);
-                      // Continue with default drag image if custom one fails
-                    }
-                    
-                    console.log('🚀 Drag data set, types:', e.dataTransfer.types);
-                  } catch (error) {
-                    console.error('❌ Error setting drag data:', error);
-                    // Still allow drag even if data setting fails
-                    e.dataTransfer.effectAllowed = 'copy';
-                  }
-                }}
+                              className={`p-3 overflow-visible ${placeable ? 'cursor-move hover:bg-secondary transition-smooth hover:border-primary' : 'cursor-not-allowed opacity-60'} ${highlightedKey === `item-${component.id}` ? 'ring-2 ring-primary' : ''}`}
+                              draggable={placeable}
+                onDragStart={(e) => (placeable ? startLibraryDrag(e, component) : e.preventDefault())}
                 onDragEnd={(e) => {
                   // Clean up any drag-related state
                   e.dataTransfer.clearData();
@@ -342,8 +623,20 @@ export const ComponentLibrary = ({ collapsed = false, onToggleCollapse }: Compon
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center justify-between gap-2">
                         <h3 className="font-medium text-sm truncate">{component.name}</h3>
+                        <FavouriteButton
+                          favourite={favourites.includes(component.id)}
+                          onToggle={() => toggleFavourite(component.id)}
+                        />
                       </div>
-                      {component.glb_url && (
+                      {processing ? (
+                        <p className="text-[10px] text-muted-foreground mt-1 flex items-center gap-1">
+                          <Loader2 className="h-3 w-3 animate-spin" /> Processing…
+                        </p>
+                      ) : failed ? (
+                        <p className="text-[10px] text-destructive mt-1 truncate" title={component.processing_error}>
+                          Processing failed{component.processing_error ? `: ${component.processing_error}` : ''}
+                        </p>
+                      ) : component.glb_url && (
                         <p className="text-[10px] text-muted-foreground mt-1 truncate">GLB ready</p>
                       )}
                     </div>
@@ -360,9 +653,17 @@ export const ComponentLibrary = ({ collapsed = false, onToggleCollapse }: Compon
                 );
               })}
             </Accordion>
+            </>
           )}
         </div>
       </div>
+
+      <UploadComponentDialog
+        open={showUpload}
+        onOpenChange={setShowUpload}
+        categories={groupedComponents.sortedCategories.filter((c) => c !== UNCATEGORIZED)}
+        onUpload={startUpload}
+      />
     </div>
   );
 };
@@ -0,0 +1,70 @@
+import { useMemo } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { FileImage, FileText } from "lucide-react";
+import { usePlacementStore } from "@/state/store";
+import { createConveyorDrawing } from "@/lib/drawing";
+import { DrawingExportFormat, drawingToSVG, exportDrawing } from "@/lib/drawingExport";
+
+interface DrawingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectName: string;
+}
+
+/**
+ * Preview and download the dimensioned top/side/end drawing of the configured conveyor
+ */
+export function DrawingDialog({ open, onOpenChange, projectName }: DrawingDialogProps) {
+  const { params, slots, components } = usePlacementStore();
+
+  const drawing = useMemo(
+    () => (open ? createConveyorDrawing({ params, slots, components, projectName }) : null),
+    [open, params, slots, components, projectName]
+  );
+  const previewUrl = useMemo(
+    () => (drawing ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(drawingToSVG(drawing))}` : ""),
+    [drawing]
+  );
+
+  const handleExport = (format: DrawingExportFormat) => {
+    if (drawing) exportDrawing(format, drawing, projectName);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Dimensioned Drawing</DialogTitle>
+          <DialogDescription>
+            Top, side and end views of the configured conveyor{drawing ? ` at 1:${drawing.scale}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {previewUrl && (
+          <div className="rounded-md border border-border bg-white">
+            <img src={previewUrl} alt="Conveyor drawing" className="w-full h-auto" />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleExport("svg")}>
+            <FileImage className="h-4 w-4 mr-2" />
+            Download SVG
+          </Button>
+          <Button onClick={() => handleExport("pdf")}>
+            <FileText className="h-4 w-4 mr-2" />
+            Download PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
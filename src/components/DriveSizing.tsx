@@ -0,0 +1,127 @@
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import { useDriveSizing } from "@/hooks/useDriveSizing";
+import { MOTOR_CATALOGUE, SERVICE_FACTOR, isMotorUndersized } from "@/lib/driveSizing";
+import { DriveSettings } from "@/lib/types";
+import { usePlacementStore } from "@/state/store";
+
+const INPUTS: Array<{ field: keyof Omit<DriveSettings, "motorId">; label: string; step: number; min?: number }> = [
+  { field: "loadPerMetre", label: "Load (kg/m)", step: 1, min: 0 },
+  { field: "beltSpeed", label: "Belt Speed (m/s)", step: 0.1, min: 0 },
+  { field: "inclineDeg", label: "Incline (°)", step: 1 },
+  { field: "frictionCoefficient", label: "Friction Coefficient", step: 0.01, min: 0 },
+];
+
+/**
+ * Drive sizing inputs and results for the configured conveyor,
+ * with a warning when the motor on the engine mount is too small.
+ */
+export function DriveSizingCalculator() {
+  const params = usePlacementStore((state) => state.params);
+  const { settings, requirements, motor, recommended, undersized, updateDrive } = useDriveSizing();
+
+  const handleChange = (field: keyof DriveSettings, value: string) => {
+    const number = parseFloat(value);
+    if (isNaN(number)) return;
+    if (field !== "inclineDeg" && number < 0) return;
+    updateDrive({ [field]: number });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label>Drive Sizing</Label>
+        <p className="text-xs text-muted-foreground mt-1">
+          {params.model}, L = {params.L} mm, N = {params.N} mm
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {INPUTS.map(({ field, label, step, min }) => (
+          <div key={field} className="space-y-1">
+            <Label className="text-xs">{label}</Label>
+            <Input
+              type="number"
+              value={settings[field]}
+              step={step}
+              min={min}
+              onChange={(e) => handleChange(field, e.target.value)}
+              className="bg-secondary"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <span className="text-muted-foreground">Effective tension</span>
+        <span className="text-right">{requirements.effectiveTension.toFixed(0)} N</span>
+        <span className="text-muted-foreground">Drum torque</span>
+        <span className="text-right">{requirements.torque.toFixed(1)} Nm</span>
+        <span className="text-muted-foreground">Drum speed</span>
+        <span className="text-right">{requirements.drumSpeed.toFixed(0)} RPM</span>
+        <span className="text-muted-foreground">Required power (×{SERVICE_FACTOR})</span>
+        <span className="text-right font-medium">{requirements.requiredPower.toFixed(2)} kW</span>
+      </div>
+
+      <div className="space-y-1 text-xs">
+        <p>
+          Fitted: <span className="font-medium">{motor.name}</span> ({motor.powerKw} kW)
+        </p>
+        <p className="text-muted-foreground">
+          Recommended: {recommended ? `${recommended.name} (${recommended.powerKw} kW)` : "none in catalogue"}
+        </p>
+      </div>
+
+      {undersized && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Motor undersized</AlertTitle>
+          <AlertDescription className="text-xs">
+            {motor.name} delivers {motor.powerKw} kW but {requirements.requiredPower.toFixed(2)} kW is required.
+            {recommended && ` Switch to ${recommended.name} under Options.`}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Motors from the catalogue that can be fitted on the engine mount
+ */
+export function MotorOptions() {
+  const { requirements, motor, recommended, updateDrive } = useDriveSizing();
+
+  return (
+    <div className="space-y-2">
+      {MOTOR_CATALOGUE.map((option) => {
+        const isCurrent = option.id === motor.id;
+        const tooSmall = isMotorUndersized(option, requirements);
+        return (
+          <Card
+            key={option.id}
+            className={`p-3 cursor-pointer hover:border-primary transition-smooth ${isCurrent ? "border-primary" : ""}`}
+            onClick={() => updateDrive({ motorId: option.id })}
+          >
+            <div className="flex items-start justify-between">
+              <div>
+                <h4 className="font-medium text-sm">{option.name}</h4>
+                <p className="text-xs text-muted-foreground mt-1">{option.description}</p>
+                <Badge variant="outline" className="mt-2">${option.unitCost}</Badge>
+              </div>
+              <div className="flex flex-col items-end gap-1">
+                {isCurrent && <Badge className="bg-primary">Current</Badge>}
+                {option.id === recommended?.id && <Badge variant="secondary">Recommended</Badge>}
+                {tooSmall && <Badge variant="destructive">Undersized</Badge>}
+              </div>
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Download, Loader2 } from "lucide-react";
+import { ExportUnits, ModelExportFormat, ModelExportOptions } from "@/lib/sceneExport";
+
+const FORMATS: Array<{ value: ModelExportFormat; label: string; hint: string }> = [
+  { value: "glb", label: "GLB", hint: "Single binary file for web viewers" },
+  { value: "gltf", label: "glTF", hint: "JSON with embedded buffers" },
+  { value: "stl", label: "STL", hint: "Mesh only, for CAD import" },
+  { value: "obj", label: "OBJ", hint: "Mesh with part names, for CAD import" },
+];
+
+interface ExportModelDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onExport: (options: ModelExportOptions) => Promise<void>;
+}
+
+/**
+ * Choose format, units and mesh merging for exporting the assembled conveyor
+ */
+export function ExportModelDialog({ open, onOpenChange, onExport }: ExportModelDialogProps) {
+  const [format, setFormat] = useState<ModelExportFormat>("glb");
+  const [units, setUnits] = useState<ExportUnits>("mm");
+  const [mergeMeshes, setMergeMeshes] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await onExport({ format, units, mergeMeshes });
+      onOpenChange(false);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Export 3D Model</DialogTitle>
+          <DialogDescription>
+            Export the complete assembly as one file
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup value={format} onValueChange={(value) => setFormat(value as ModelExportFormat)}>
+              {FORMATS.map((option) => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option.value} id={`export-${option.value}`} />
+                  <Label htmlFor={`export-${option.value}`} className="cursor-pointer">
+                    {option.label}
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">{option.hint}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Units</Label>
+            <RadioGroup value={units} onValueChange={(value) => setUnits(value as ExportUnits)} className="flex gap-4">
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="mm" id="export-units-mm" />
+                <Label htmlFor="export-units-mm" className="cursor-pointer">Millimetres</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="scene" id="export-units-scene" />
+                <Label htmlFor="export-units-scene" className="cursor-pointer">Scene units (1 = 100 mm)</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="export-merge">Merge meshes</Label>
+              <p className="text-sm text-muted-foreground">
+                One mesh per material instead of the part hierarchy
+              </p>
+            </div>
+            <Switch id="export-merge" checked={mergeMeshes} onCheckedChange={setMergeMeshes} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={exporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting}>
+            {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,305 @@
+import { useEffect, useMemo, useState } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Clock, GitCompare, GitFork, History, RotateCcw, Save } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { componentExtent } from "@/lib/assemblyCompare";
+import {
+  CHANGE_COLORS,
+  ComponentChange,
+  ProjectSnapshot,
+  SnapshotComponent,
+  SnapshotDiff,
+  diffSnapshots,
+  isEmptyDiff,
+} from "@/lib/versionHistory";
+
+const PREVIEW_SIZE = 280;
+const PREVIEW_PADDING = 12;
+
+interface HistoryPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  snapshots: ProjectSnapshot[];
+  current: Pick<ProjectSnapshot, "components" | "placement">; // the assembly as it is now
+  onSaveVersion: (name: string) => void;
+  onRestore: (snapshot: ProjectSnapshot) => Promise<void> | void;
+  onFork: (snapshot: ProjectSnapshot) => void;
+  onCompare: (snapshot: ProjectSnapshot) => void;
+  isReadonly?: boolean;
+  isForking?: boolean;
+}
+
+function formatTimestamp(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString();
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Footprint of a component on the floor, in scene units
+ */
+function footprint(component: SnapshotComponent): { width: number; depth: number } {
+  const [width, , depth] = componentExtent(component);
+  return { width, depth };
+}
+
+/**
+ * Top-down plan of the snapshot, coloured by what restoring it would change.
+ * Components that restoring would remove are drawn dashed.
+ */
+function SnapshotPreview({ snapshot, diff }: { snapshot: ProjectSnapshot; diff: SnapshotDiff }) {
+  const changes = new Map<string, ComponentChange>(diff.components.map((d) => [d.id, d.change]));
+  const removed = diff.components.filter((d) => d.change === "removed" && d.before).map((d) => d.before!);
+  const shapes = [...snapshot.components, ...removed];
+
+  if (shapes.length === 0) {
+    return (
+      <div className="h-24 flex items-center justify-center text-sm text-muted-foreground border rounded-md">
+        No free-placed components
+      </div>
+    );
+  }
+
+  let minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity;
+  for (const c of shapes) {
+    const { width, depth } = footprint(c);
+    const r = Math.max(width, depth) / 2;
+    minX = Math.min(minX, c.position[0] - r);
+    maxX = Math.max(maxX, c.position[0] + r);
+    minZ = Math.min(minZ, c.position[2] - r);
+    maxZ = Math.max(maxZ, c.position[2] + r);
+  }
+  const scale = (PREVIEW_SIZE - PREVIEW_PADDING * 2) / Math.max(maxX - minX, maxZ - minZ, 1);
+
+  return (
+    <svg
+      viewBox={`0 0 ${PREVIEW_SIZE} ${PREVIEW_SIZE}`}
+      className="w-full rounded-md border bg-muted/30"
+      role="img"
+      aria-label="Plan view of the version"
+    >
+      {shapes.map((c) => {
+        const { width, depth } = footprint(c);
+        const cx = PREVIEW_PADDING + (c.position[0] - minX) * scale;
+        const cy = PREVIEW_PADDING + (c.position[2] - minZ) * scale;
+        const angle = (-(c.rotation?.[1] ?? 0) * 180) / Math.PI;
+        const change = changes.get(c.id);
+        const isRemoved = change === "removed" && !snapshot.components.includes(c);
+        const color = change ? CHANGE_COLORS[change] : "#94a3b8";
+        return (
+          <rect
+            key={`${c.id}-${isRemoved ? "now" : "then"}`}
+            x={cx - (width * scale) / 2}
+            y={cy - (depth * scale) / 2}
+            width={width * scale}
+            height={depth * scale}
+            transform={`rotate(${angle} ${cx} ${cy})`}
+            fill={color}
+            fillOpacity={isRemoved ? 0.1 : 0.45}
+            stroke={color}
+            strokeDasharray={isRemoved ? "4 3" : undefined}
+          >
+            <title>{c.name}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
+
+const CHANGE_LABELS: Record<ComponentChange, string> = {
+  added: "Restored",
+  removed: "Removed",
+  moved: "Moved",
+  changed: "Changed",
+};
+
+function DiffSummary({ diff }: { diff: SnapshotDiff }) {
+  if (isEmptyDiff(diff)) {
+    return <p className="text-sm text-muted-foreground">Same as the current assembly.</p>;
+  }
+  return (
+    <div className="space-y-3 text-sm">
+      {diff.components.length > 0 && (
+        <ul className="space-y-1">
+          {diff.components.map((d) => (
+            <li key={`${d.change}-${d.id}`} className="flex items-start gap-2">
+              <span className="mt-1.5 h-2 w-2 rounded-full shrink-0" style={{ backgroundColor: CHANGE_COLORS[d.change] }} />
+              <span className="min-w-0">
+                <span className="font-medium">{CHANGE_LABELS[d.change]}</span> {d.name}
+                {d.details.length > 0 && <span className="text-muted-foreground"> — {d.details.join(", ")}</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {diff.params.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-muted-foreground mb-1">Conveyor parameters</p>
+          <ul className="space-y-0.5 font-mono text-xs">
+            {diff.params.map((p) => (
+              <li key={p.key}>
+                {p.key}: {formatValue(p.before)} → {formatValue(p.after)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {diff.slots.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-muted-foreground mb-1">Slot components</p>
+          <ul className="space-y-0.5 text-xs">
+            {diff.slots.map((s) => (
+              <li key={s.type}>
+                {s.type}: {s.before} → {s.after}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {diff.unchanged > 0 && <p className="text-xs text-muted-foreground">{diff.unchanged} components unchanged</p>}
+    </div>
+  );
+}
+
+/**
+ * Named and automatic snapshots of the project: save a version, preview what restoring one would change,
+ * restore it or fork it into a new project
+ */
+export function HistoryPanel({
+  open,
+  onOpenChange,
+  snapshots,
+  current,
+  onSaveVersion,
+  onRestore,
+  onFork,
+  onCompare,
+  isReadonly = false,
+  isForking = false,
+}: HistoryPanelProps) {
+  const [name, setName] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!open) setSelectedId(null);
+  }, [open]);
+
+  const selected = snapshots.find((s) => s.id === selectedId) ?? null;
+  // What restoring the selected snapshot would do to the current assembly
+  const diff = useMemo(() => (selected ? diffSnapshots(current, selected) : null), [selected, current]);
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSaveVersion(trimmed);
+    setName("");
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setRestoring(true);
+    try {
+      await onRestore(selected);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-[400px] sm:max-w-[400px] flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </SheetTitle>
+          <SheetDescription>
+            Versions are taken automatically every 30 minutes of editing. Name one to keep it.
+          </SheetDescription>
+        </SheetHeader>
+
+        {!isReadonly && (
+          <div className="flex gap-2">
+            <Input
+              placeholder="Version name, e.g. Revision B"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            />
+            <Button onClick={handleSave} disabled={!name.trim()}>
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar min-h-0 space-y-1">
+          {snapshots.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-8">No versions yet</p>
+          )}
+          {snapshots.map((snapshot) => (
+            <div key={snapshot.id}>
+              <button
+                type="button"
+                onClick={() => setSelectedId((id) => (id === snapshot.id ? null : snapshot.id))}
+                className={cn(
+                  "w-full text-left rounded-md px-3 py-2 transition-colors hover:bg-secondary/60",
+                  snapshot.id === selectedId && "bg-secondary"
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate flex-1">{snapshot.name}</span>
+                  <Badge variant={snapshot.kind === "named" ? "default" : "outline"} className="text-[10px]">
+                    {snapshot.kind === "named" ? "Named" : "Auto"}
+                  </Badge>
+                </div>
+                <div className="flex items-center gap-1 text-xs text-muted-foreground mt-0.5">
+                  <Clock className="h-3 w-3" />
+                  {formatTimestamp(snapshot.createdAt)}
+                  {snapshot.author && <span>· {snapshot.author}</span>}
+                  <span className="ml-auto">{snapshot.components.length} parts</span>
+                </div>
+              </button>
+
+              {snapshot.id === selectedId && diff && (
+                <div className="px-3 py-3 space-y-3">
+                  <SnapshotPreview snapshot={snapshot} diff={diff} />
+                  <DiffSummary diff={diff} />
+                  <div className="flex flex-wrap gap-2">
+                    {!isReadonly && (
+                      <Button size="sm" onClick={handleRestore} disabled={restoring || isEmptyDiff(diff)}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        {restoring ? "Restoring..." : "Restore"}
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => onFork(snapshot)} disabled={isForking}>
+                      <GitFork className="h-4 w-4 mr-2" />
+                      {isForking ? "Forking..." : "Fork to new project"}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => onCompare(snapshot)}>
+                      <GitCompare className="h-4 w-4 mr-2" />
+                      Compare
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,136 @@
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SlidersHorizontal } from "lucide-react";
+import { EMPTY_LIBRARY_FILTERS, LibraryFacets, LibraryFilters as Filters, countActiveFilters } from "@/lib/librarySearch";
+
+const ANY_MODEL = "any";
+
+interface LibraryFiltersProps {
+  facets: LibraryFacets;
+  filters: Filters;
+  onChange: (filters: Filters) => void;
+}
+
+function toggle(list: string[], value: string): string[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+function FacetList({ title, options, selected, onToggle }: {
+  title: string;
+  options: string[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) {
+  if (options.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-semibold">{title}</Label>
+      <div className="max-h-32 overflow-y-auto space-y-1.5">
+        {options.map((option) => (
+          <label key={option} className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox checked={selected.includes(option)} onCheckedChange={() => onToggle(option)} />
+            <span className="truncate">{option}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Facet filters for the component library: category, material, price and compatible model
+ */
+export function LibraryFilters({ facets, filters, onChange }: LibraryFiltersProps) {
+  const active = countActiveFilters(filters);
+  const [minPrice, maxPrice] = filters.price ?? facets.priceRange;
+
+  const setPrice = (min: number, max: number) => {
+    const full = min <= facets.priceRange[0] && max >= facets.priceRange[1];
+    onChange({ ...filters, price: full ? null : [min, max] });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" className="relative shrink-0" title="Filters">
+          <SlidersHorizontal className="h-4 w-4" />
+          {active > 0 && (
+            <Badge className="absolute -top-1.5 -right-1.5 h-4 min-w-4 px-1 text-[10px]">{active}</Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-4">
+        <FacetList
+          title="Category"
+          options={facets.categories}
+          selected={filters.categories}
+          onToggle={(value) => onChange({ ...filters, categories: toggle(filters.categories, value) })}
+        />
+        <FacetList
+          title="Material"
+          options={facets.materials}
+          selected={filters.materials}
+          onToggle={(value) => onChange({ ...filters, materials: toggle(filters.materials, value) })}
+        />
+
+        <div className="space-y-2">
+          <Label className="text-xs font-semibold">Price ($)</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              value={minPrice}
+              onChange={(e) => setPrice(Number(e.target.value) || 0, maxPrice)}
+              className="h-8"
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              type="number"
+              min={0}
+              value={maxPrice}
+              onChange={(e) => setPrice(minPrice, Number(e.target.value) || 0)}
+              className="h-8"
+            />
+          </div>
+        </div>
+
+        {facets.models.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold">Compatible model</Label>
+            <Select
+              value={filters.model ?? ANY_MODEL}
+              onValueChange={(value) => onChange({ ...filters, model: value === ANY_MODEL ? null : value })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_MODEL}>Any model</SelectItem>
+                {facets.models.map((model) => (
+                  <SelectItem key={model} value={model}>
+                    {model}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          disabled={active === 0}
+          onClick={() => onChange(EMPTY_LIBRARY_FILTERS)}
+        >
+          Clear filters
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,156 @@
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowRight, CornerUpLeft, CornerUpRight, GitMerge, MoveHorizontal, Trash2, Link2 } from "lucide-react";
+import { usePlacementStore } from "@/state/store";
+import { getSectionLabel } from "@/lib/line";
+import { SectionKind, TurnDirection } from "@/lib/types";
+
+const ADD_ACTIONS: Array<{ kind: SectionKind; turn?: TurnDirection; label: string; icon: typeof ArrowRight }> = [
+  { kind: "STRAIGHT", label: "Straight", icon: ArrowRight },
+  { kind: "CURVE", turn: "LEFT", label: "Curve left", icon: CornerUpLeft },
+  { kind: "CURVE", turn: "RIGHT", label: "Curve right", icon: CornerUpRight },
+  { kind: "TRANSFER", label: "Transfer", icon: MoveHorizontal },
+  { kind: "MERGE", turn: "LEFT", label: "Merge (left)", icon: GitMerge },
+  { kind: "MERGE", turn: "RIGHT", label: "Merge (right)", icon: GitMerge },
+];
+
+const toDegrees = (radians: number) => Math.round((radians * 180) / Math.PI);
+
+/**
+ * Sections of the conveyor line: add, select, remove and position them.
+ * The selected section is edited by the configuration panel.
+ */
+export function LinePanel() {
+  const { sections, activeSectionId, addSection, removeSection, setActiveSection, moveSection, updateSection } =
+    usePlacementStore();
+  const active = sections.find((s) => s.id === activeSectionId);
+
+  const handlePoseChange = (field: "x" | "z" | "heading", value: string) => {
+    if (!active) return;
+    const number = parseFloat(value);
+    if (isNaN(number)) return;
+    const entry = { ...active.entry, [field]: field === "heading" ? (number * Math.PI) / 180 : number };
+    moveSection(active.id, entry);
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div>
+        <h3 className="font-semibold text-lg">Conveyor Line</h3>
+        <p className="text-xs text-muted-foreground mt-1">
+          New sections continue from the selected one. Free sections snap to an open end within 150 mm.
+        </p>
+      </div>
+
+      <ul className="space-y-1">
+        {sections.map((section, index) => {
+          const target = sections.find((s) => s.id === section.attachedTo);
+          return (
+            <li
+              key={section.id}
+              className={`flex items-center gap-2 rounded-md border px-2 py-1.5 text-sm cursor-pointer transition-colors ${
+                section.id === activeSectionId ? "border-primary bg-primary/10" : "border-border hover:bg-secondary"
+              }`}
+              onClick={() => setActiveSection(section.id)}
+            >
+              <span className="text-muted-foreground w-5">{index + 1}.</span>
+              <div className="flex-1 min-w-0">
+                <p className="truncate">{getSectionLabel(section)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {section.params.model} · D {Math.round(section.params.D)} mm · R {Math.round(section.params.R)} mm
+                </p>
+              </div>
+              {target && (
+                <Badge variant="outline" className="gap-1 text-xs">
+                  <Link2 className="h-3 w-3" />
+                  {sections.indexOf(target) + 1}
+                </Badge>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={sections.length <= 1}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  removeSection(section.id);
+                }}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="grid grid-cols-2 gap-2">
+        {ADD_ACTIONS.map(({ kind, turn, label, icon: Icon }) => (
+          <Button key={label} variant="outline" size="sm" onClick={() => addSection(kind, { turn })}>
+            <Icon className="h-4 w-4 mr-1" />
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {active?.kind === "CURVE" && (
+        <div className="space-y-2">
+          <Label>Curve Radius (centreline) - mm</Label>
+          <Input
+            type="number"
+            value={active.curveRadius}
+            min={200}
+            onChange={(e) => {
+              const radius = parseFloat(e.target.value);
+              if (radius >= 200) updateSection(active.id, { curveRadius: radius });
+            }}
+          />
+        </div>
+      )}
+
+      {active?.kind === "MERGE" && (
+        <div className="space-y-2">
+          <Label>Merge Position (along target) - mm</Label>
+          <Input
+            type="number"
+            value={active.mergeOffset}
+            min={0}
+            onChange={(e) => {
+              const offset = parseFloat(e.target.value);
+              if (offset >= 0) updateSection(active.id, { mergeOffset: offset });
+            }}
+          />
+        </div>
+      )}
+
+      {active && !active.attachedTo && active.kind !== "MERGE" && (
+        <div className="space-y-2">
+          <Label>Entry Position</Label>
+          <div className="grid grid-cols-3 gap-2">
+            <Input
+              type="number"
+              value={Math.round(active.entry.x)}
+              onChange={(e) => handlePoseChange("x", e.target.value)}
+              aria-label="Entry X (mm)"
+            />
+            <Input
+              type="number"
+              value={Math.round(active.entry.z)}
+              onChange={(e) => handlePoseChange("z", e.target.value)}
+              aria-label="Entry Z (mm)"
+            />
+            <Input
+              type="number"
+              value={toDegrees(active.entry.heading)}
+              onChange={(e) => handlePoseChange("heading", e.target.value)}
+              aria-label="Heading (°)"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">X / Z in mm, heading in degrees</p>
+        </div>
+      )}
+    </Card>
+  );
+}
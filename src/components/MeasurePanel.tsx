@@ -0,0 +1,117 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Trash2, X } from "lucide-react";
+import { useMeasureStore } from "@/state/store";
+import { MeasureMode, formatMeasurement } from "@/lib/measurement";
+
+const MODES: Array<{ value: MeasureMode; label: string; hint: string }> = [
+  { value: "distance", label: "Distance", hint: "Click two points" },
+  { value: "bbox", label: "Part gap", hint: "Click two parts to measure between their bounding boxes" },
+  { value: "angle", label: "Angle", hint: "Click a point, the corner, then a second point" },
+];
+
+const MODE_LABELS: Record<MeasureMode, string> = { distance: "Distance", bbox: "Part gap", angle: "Angle" };
+
+interface MeasurePanelProps {
+  tool: "measure" | "annotate";
+}
+
+/**
+ * Floating panel over the viewport while the measure or annotate tool is active
+ */
+export function MeasurePanel({ tool }: MeasurePanelProps) {
+  const {
+    mode,
+    measurements,
+    annotations,
+    setMeasureMode,
+    removeMeasurement,
+    clearMeasurements,
+    removeAnnotation,
+  } = useMeasureStore();
+
+  if (tool === "annotate") {
+    return (
+      <Card className="w-72 p-3 space-y-3">
+        <div>
+          <h3 className="font-semibold">Annotations</h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            Click the model to pin a note. Double-click a note to edit it. Notes are saved with the project.
+          </p>
+        </div>
+        {annotations.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No notes yet</p>
+        ) : (
+          <ul className="space-y-1 max-h-60 overflow-y-auto">
+            {annotations.map((annotation) => (
+              <li key={annotation.id} className="flex items-start gap-2 text-sm">
+                <span className="flex-1 break-words">{annotation.text}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  onClick={() => removeAnnotation(annotation.id)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+    );
+  }
+
+  const current = MODES.find((m) => m.value === mode) ?? MODES[0];
+
+  return (
+    <Card className="w-72 p-3 space-y-3">
+      <div>
+        <h3 className="font-semibold">Measure</h3>
+        <p className="text-xs text-muted-foreground mt-1">
+          {current.hint}. Points snap to slots, vertices and edges. Esc cancels.
+        </p>
+      </div>
+
+      <ToggleGroup
+        type="single"
+        size="sm"
+        value={mode}
+        onValueChange={(value) => value && setMeasureMode(value as MeasureMode)}
+        className="justify-start"
+      >
+        {MODES.map((option) => (
+          <ToggleGroupItem key={option.value} value={option.value} className="text-xs">
+            {option.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {measurements.length > 0 && (
+        <>
+          <ul className="space-y-1 max-h-60 overflow-y-auto">
+            {measurements.map((measurement) => (
+              <li key={measurement.id} className="flex items-center gap-2 text-sm">
+                <span className="text-muted-foreground w-16">{MODE_LABELS[measurement.mode]}</span>
+                <span className="flex-1 font-medium">{formatMeasurement(measurement)}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => removeMeasurement(measurement.id)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <Button variant="outline" size="sm" className="w-full" onClick={clearMeasurements}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Clear measurements
+          </Button>
+        </>
+      )}
+    </Card>
+  );
+}
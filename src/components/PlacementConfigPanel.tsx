@@ -7,9 +7,16 @@ import { usePlacementStore } from "@/state/store";
 import { validateSideGuideHeight, validateStopButtonCount, getStopButtonLimits } from "@/lib/params";
 import { toast } from "sonner";
 import { ConveyorModel, EngineType } from "@/lib/types";
+import { getModelSpec, listConveyorModels } from "@/lib/modelCatalogue";
+
+const ENGINE_TYPE_LABELS: Record<EngineType, string> = {
+  NORMAL: "Normal",
+  REDACTOR: "Redactor",
+  CENTRAL: "Central",
+};
 
 export function PlacementConfigPanel() {
-  const { params, updateParams, components } = usePlacementStore();
+  const { params, updateParams, selectModel, components } = usePlacementStore();
 
   const handleLChange = (value: string) => {
     const L = parseFloat(value) || 0;
@@ -26,7 +33,7 @@ export function PlacementConfigPanel() {
   };
 
   const handleModelChange = (model: ConveyorModel) => {
-    updateParams({ model });
+    selectModel(model);
   };
 
   const handleEngineTypeChange = (type: EngineType) => {
@@ -77,6 +84,7 @@ export function PlacementConfigPanel() {
     updateParams({ supportingFrame: enabled });
   };
 
+  const modelSpec = getModelSpec(params.model);
   const limits = getStopButtonLimits(params.model);
   const sideGuideValidation = params.sideGuideHeight
     ? validateSideGuideHeight(params.sideGuideHeight)
@@ -95,9 +103,11 @@ export function PlacementConfigPanel() {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="DPS50">DPS50</SelectItem>
-              <SelectItem value="DPS60">DPS60</SelectItem>
-              <SelectItem value="DPS96">DPS96</SelectItem>
+              {listConveyorModels().map((model) => (
+                <SelectItem key={model.id} value={model.id}>
+                  {model.name}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -115,11 +125,13 @@ export function PlacementConfigPanel() {
           </div>
 
           <div className="space-y-2">
-            <Label>Belt Width (N) - mm</Label>
+            <Label>Belt Width (N) - mm ({modelSpec.widthLimits.min}-{modelSpec.widthLimits.max})</Label>
             <Input
               type="number"
               value={params.N}
               onChange={(e) => handleNChange(e.target.value)}
+              min={modelSpec.widthLimits.min}
+              max={modelSpec.widthLimits.max}
               placeholder="500"
             />
           </div>
@@ -133,7 +145,7 @@ export function PlacementConfigPanel() {
               className="bg-secondary"
             />
             <p className="text-xs text-muted-foreground">
-              Auto-calculated: L + {params.model === "DPS50" ? "55" : params.model === "DPS60" ? "70" : "100"}
+              Auto-calculated: L + {modelSpec.lengthOffset}
             </p>
           </div>
 
@@ -145,7 +157,7 @@ export function PlacementConfigPanel() {
               readOnly
               className="bg-secondary"
             />
-            <p className="text-xs text-muted-foreground">Auto-calculated: N + 67</p>
+            <p className="text-xs text-muted-foreground">Auto-calculated: N + {modelSpec.widthOffset}</p>
           </div>
         </div>
 
@@ -156,18 +168,14 @@ export function PlacementConfigPanel() {
             value={params.engineType || ""}
             onValueChange={handleEngineTypeChange}
           >
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="NORMAL" id="engine-normal" />
-              <Label htmlFor="engine-normal" className="cursor-pointer">Normal</Label>
-            </div>
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="REDACTOR" id="engine-redactor" />
-              <Label htmlFor="engine-redactor" className="cursor-pointer">Redactor</Label>
-            </div>
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="CENTRAL" id="engine-central" />
-              <Label htmlFor="engine-central" className="cursor-pointer">Central</Label>
-            </div>
+            {modelSpec.engineTypes.map((type) => (
+              <div key={type} className="flex items-center space-x-2">
+                <RadioGroupItem value={type} id={`engine-${type.toLowerCase()}`} />
+                <Label htmlFor={`engine-${type.toLowerCase()}`} className="cursor-pointer">
+                  {ENGINE_TYPE_LABELS[type]}
+                </Label>
+              </div>
+            ))}
           </RadioGroup>
         </div>
 
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, Maximize, Minimize, Pause, Play, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { PRESENTATION_HOLD, SavedView } from "@/lib/cameraView";
+
+interface PresentationOverlayProps {
+  views: SavedView[];
+  index: number;
+  playing: boolean;
+  onIndexChange: (index: number) => void;
+  onPlayingChange: (playing: boolean) => void;
+  onExit: () => void;
+}
+
+/**
+ * Walkthrough of the saved views for demos: caption of the current view, previous/next,
+ * autoplay and fullscreen. ←/→ step, Space plays or pauses, Esc ends the presentation.
+ */
+export function PresentationOverlay({
+  views,
+  index,
+  playing,
+  onIndexChange,
+  onPlayingChange,
+  onExit,
+}: PresentationOverlayProps) {
+  const [fullscreen, setFullscreen] = useState(!!document.fullscreenElement);
+  const view = views[index];
+  const isLast = index >= views.length - 1;
+
+  // Autoplay: hold each view, then move on; stops on the last one
+  useEffect(() => {
+    if (!playing) return;
+    if (isLast) {
+      onPlayingChange(false);
+      return;
+    }
+    const timer = setTimeout(() => onIndexChange(index + 1), PRESENTATION_HOLD);
+    return () => clearTimeout(timer);
+  }, [playing, index, isLast, onIndexChange, onPlayingChange]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "ArrowRight" || event.key === "PageDown") {
+        if (!isLast) onIndexChange(index + 1);
+      } else if (event.key === "ArrowLeft" || event.key === "PageUp") {
+        if (index > 0) onIndexChange(index - 1);
+      } else if (event.key === " ") {
+        onPlayingChange(!playing);
+      } else if (event.key === "Escape") {
+        onExit();
+      } else {
+        return;
+      }
+      event.preventDefault();
+      event.stopImmediatePropagation(); // keep the builder's shortcuts out of the presentation
+    };
+    // Capture phase, ahead of the builder's own keyboard handlers
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [index, isLast, playing, onIndexChange, onPlayingChange, onExit]);
+
+  useEffect(() => {
+    const handleChange = () => setFullscreen(!!document.fullscreenElement);
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => document.removeEventListener("fullscreenchange", handleChange);
+  }, []);
+
+  // Leave fullscreen together with the presentation
+  useEffect(
+    () => () => {
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined);
+    },
+    []
+  );
+
+  const toggleFullscreen = () => {
+    const request = document.fullscreenElement
+      ? document.exitFullscreen()
+      : document.documentElement.requestFullscreen();
+    request.catch((error) => console.warn("⚠️ Fullscreen not available:", error));
+  };
+
+  if (!view) return null;
+
+  return (
+    <div className="absolute inset-x-0 bottom-6 z-50 flex flex-col items-center gap-3 pointer-events-none">
+      <div className="panel-glass max-w-2xl rounded-lg px-6 py-4 text-center shadow-xl pointer-events-auto">
+        <h2 className="text-2xl font-semibold">{view.name}</h2>
+        {view.caption && <p className="mt-1 text-lg text-muted-foreground whitespace-pre-wrap">{view.caption}</p>}
+      </div>
+
+      <div className="panel-glass flex items-center gap-1 rounded-full px-2 py-1 shadow-lg pointer-events-auto">
+        <Button variant="ghost" size="icon" title="Previous (←)" disabled={index === 0} onClick={() => onIndexChange(index - 1)}>
+          <ChevronLeft className="h-5 w-5" />
+        </Button>
+        <Button variant="ghost" size="icon" title={playing ? "Pause (Space)" : "Play (Space)"} onClick={() => onPlayingChange(!playing)}>
+          {playing ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+        </Button>
+        <Button variant="ghost" size="icon" title="Next (→)" disabled={isLast} onClick={() => onIndexChange(index + 1)}>
+          <ChevronRight className="h-5 w-5" />
+        </Button>
+
+        <div className="flex items-center gap-1.5 px-3">
+          {views.map((v, i) => (
+            <button
+              key={v.id}
+              type="button"
+              title={v.name}
+              onClick={() => onIndexChange(i)}
+              className={cn(
+                "h-2 rounded-full transition-all",
+                i === index ? "w-6 bg-primary" : "w-2 bg-muted-foreground/40 hover:bg-muted-foreground"
+              )}
+            />
+          ))}
+        </div>
+
+        <Button variant="ghost" size="icon" title={fullscreen ? "Exit fullscreen" : "Fullscreen"} onClick={toggleFullscreen}>
+          {fullscreen ? <Minimize className="h-5 w-5" /> : <Maximize className="h-5 w-5" />}
+        </Button>
+        <Button variant="ghost" size="icon" title="End presentation (Esc)" onClick={onExit}>
+          <X className="h-5 w-5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
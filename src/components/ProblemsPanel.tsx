@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { AlertCircle, AlertTriangle, CheckCircle2, Crosshair, Layers } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { ValidationIssue, ValidationResult } from "@/lib/validation";
+import { useCollisionStore, usePlacementStore } from "@/state/store";
+
+interface ProblemsPanelProps {
+  validation: ValidationResult;
+  componentNames?: Record<string, string>; // scene component names, for listing clashes
+}
+
+export const ProblemsPanel = ({ validation, componentNames = {} }: ProblemsPanelProps) => {
+  const { errors, warnings, issues } = validation;
+  const setHighlight = usePlacementStore((state) => state.setHighlight);
+  const [activeIssueId, setActiveIssueId] = useState<string | null>(null);
+  const { clashes, activeClashId, setActiveClash } = useCollisionStore();
+
+  const handleSelect = (issue: ValidationIssue) => {
+    setActiveIssueId((current) => (current === issue.id ? null : issue.id));
+  };
+
+  // Keep the scene highlight in sync with the active problem; drop it once resolved
+  useEffect(() => {
+    const active = issues.find((issue) => issue.id === activeIssueId);
+    if (activeIssueId && !active) {
+      setActiveIssueId(null);
+    }
+    setHighlight(active ? { slotIds: active.slotIds, componentIds: active.componentIds } : null);
+  }, [issues, activeIssueId, setHighlight]);
+
+  // Don't leave highlights behind when the panel is closed
+  useEffect(() => () => setHighlight(null), [setHighlight]);
+  useEffect(() => () => setActiveClash(null), [setActiveClash]);
+
+  const nameOf = (id: string) => componentNames[id] ?? id;
+
+  return (
+    <div className="panel-glass h-full flex flex-col">
+      <div className="p-4 border-b border-border flex-shrink-0">
+        <h2 className="font-semibold text-lg">Problems</h2>
+        <div className="flex items-center gap-2 mt-1">
+          <Badge variant={errors.length > 0 ? "destructive" : "secondary"}>
+            {errors.length} error{errors.length === 1 ? "" : "s"}
+          </Badge>
+          <Badge variant="outline">
+            {warnings.length} warning{warnings.length === 1 ? "" : "s"}
+          </Badge>
+          {clashes.length > 0 && (
+            <Badge variant="destructive">
+              {clashes.length} clash{clashes.length === 1 ? "" : "es"}
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar min-h-0 p-2">
+        {clashes.length > 0 && (
+          <ul className="space-y-1 mb-1">
+            {clashes.map((clash) => (
+              <li key={clash.id}>
+                <button
+                  type="button"
+                  onClick={() => setActiveClash(activeClashId === clash.id ? null : clash.id)}
+                  className={cn(
+                    "w-full text-left flex items-start gap-2 rounded-md px-2 py-2 text-sm transition-colors hover:bg-accent/50 cursor-pointer",
+                    activeClashId === clash.id && "bg-accent"
+                  )}
+                >
+                  <Layers className="h-4 w-4 mt-0.5 flex-shrink-0 text-destructive" />
+                  <div className="flex-1 min-w-0">
+                    <p>
+                      {nameOf(clash.a)} intersects {nameOf(clash.b)}
+                    </p>
+                    <p className="text-xs text-muted-foreground font-mono mt-0.5">
+                      {clash.confirmed ? "CLASH" : "BOUNDING_BOX_OVERLAP"} · {Math.round(clash.depth)} mm
+                    </p>
+                  </div>
+                  <Crosshair className="h-3.5 w-3.5 mt-1 text-muted-foreground flex-shrink-0" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {issues.length === 0 && clashes.length === 0 ? (
+          <div className="flex flex-col items-center justify-center text-center text-sm text-muted-foreground py-8 gap-2">
+            <CheckCircle2 className="h-6 w-6 text-green-500" />
+            No problems found in the conveyor configuration
+          </div>
+        ) : (
+          <ul className="space-y-1">
+            {issues.map((issue) => {
+              const Icon = issue.severity === "error" ? AlertCircle : AlertTriangle;
+              const canHighlight = issue.slotIds.length > 0 || issue.componentIds.length > 0;
+              return (
+                <li key={issue.id}>
+                  <button
+                    type="button"
+                    onClick={() => canHighlight && handleSelect(issue)}
+                    className={cn(
+                      "w-full text-left flex items-start gap-2 rounded-md px-2 py-2 text-sm transition-colors",
+                      canHighlight ? "hover:bg-accent/50 cursor-pointer" : "cursor-default",
+                      activeIssueId === issue.id && "bg-accent"
+                    )}
+                  >
+                    <Icon
+                      className={cn(
+                        "h-4 w-4 mt-0.5 flex-shrink-0",
+                        issue.severity === "error" ? "text-destructive" : "text-yellow-500"
+                      )}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p>{issue.message}</p>
+                      <p className="text-xs text-muted-foreground font-mono mt-0.5">{issue.code}</p>
+                    </div>
+                    {canHighlight && <Crosshair className="h-3.5 w-3.5 mt-1 text-muted-foreground flex-shrink-0" />}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -11,11 +11,16 @@ import { ConveyorComponent } from "@/types/conveyor";
 import { AdjustDimensions } from "@/components/AdjustDimensions";
 import { useState, useEffect } from "react";
 import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { calculateDimensions } from "@/lib/params";
+import { DEFAULT_MODEL, isConveyorModel, listConveyorModels } from "@/lib/modelCatalogue";
+import { DriveSizingCalculator, MotorOptions } from "@/components/DriveSizing";
+import { useDriveSizing } from "@/hooks/useDriveSizing";
 
 interface PropertiesPanelProps {
   selectedComponent: ConveyorComponent | null;
   onUpdateComponent: (component: ConveyorComponent) => void;
   onDeleteComponent?: (id: string) => void;
+  readonly?: boolean; // shows the properties with every control disabled
 }
 
 // Conveyor Dimensions Component with auto-calculation
@@ -46,22 +51,13 @@ function ConveyorDimensions({
 
   // Calculate D and R based on formulas
   const calculateTotalLength = (L: number): number => {
-    if (!conveyorType || L === 0) return 0;
-    switch (conveyorType) {
-      case 'DPS50':
-        return L + 55;
-      case 'DPS60':
-        return L + 70;
-      case 'DPS96':
-        return L + 100;
-      default:
-        return 0;
-    }
+    if (!isConveyorModel(conveyorType) || L === 0) return 0;
+    return calculateDimensions(L, 0, conveyorType).D;
   };
 
   const calculateConveyorWidth = (N: number): number => {
     if (N === 0) return 0;
-    return N + 67; // Fixed for all models
+    return calculateDimensions(0, N, isConveyorModel(conveyorType) ? conveyorType : DEFAULT_MODEL).R;
   };
 
   const totalLength = calculateTotalLength(axisLength);
@@ -198,18 +194,21 @@ function ConveyorDimensions({
       <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md">
         <p className="text-xs font-semibold text-destructive mb-2">Note:</p>
         <div className="text-xs text-destructive space-y-1">
-          <p>• D = L + 55 fixed for DPS50</p>
-          <p>• D = L + 70 fixed for DPS60</p>
-          <p>• D = L + 100 fixed for DPS96</p>
-          <p>• R = N + 67 Fixed for all the models</p>
+          {listConveyorModels().map((model) => (
+            <p key={model.id}>• D = L + {model.lengthOffset} fixed for {model.name}</p>
+          ))}
+          {listConveyorModels().map((model) => (
+            <p key={`${model.id}-width`}>• R = N + {model.widthOffset} fixed for {model.name}</p>
+          ))}
         </div>
       </div>
     </div>
   );
 }
 
-export const PropertiesPanel = ({ selectedComponent, onUpdateComponent, onDeleteComponent }: PropertiesPanelProps) => {
+export const PropertiesPanel = ({ selectedComponent, onUpdateComponent, onDeleteComponent, readonly = false }: PropertiesPanelProps) => {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const driveSizing = useDriveSizing();
   if (!selectedComponent) {
     return (
       <div className="panel-glass h-full flex items-center justify-center">
@@ -228,7 +227,7 @@ export const PropertiesPanel = ({ selectedComponent, onUpdateComponent, onDelete
   }
 
   return (
-    <div className="panel-glass flex flex-col">
+    <fieldset disabled={readonly} className="panel-glass flex flex-col min-w-0">
       <div className="p-4 border-b border-border flex-shrink-0">
         <div className="flex items-center justify-between mb-2">
           <h2 className="font-semibold text-lg">Properties</h2>
@@ -290,7 +289,7 @@ export const PropertiesPanel = ({ selectedComponent, onUpdateComponent, onDelete
             <p className="text-xs text-destructive">Any one can be selected and others should be freeze.</p>
             
             <div className="grid grid-cols-3 gap-2">
-              {['DPS50', 'DPS60', 'DPS96'].map((type) => {
+              {listConveyorModels().map(({ id: type }) => {
                 const isSelected = selectedComponent.specifications?.conveyorType === type;
                 const isDisabled = selectedComponent.specifications?.conveyorType && 
                                   selectedComponent.specifications?.conveyorType !== type;
@@ -388,26 +387,7 @@ export const PropertiesPanel = ({ selectedComponent, onUpdateComponent, onDelete
 
             <Separator />
 
-            {selectedComponent.type === 'motor' && (
-              <>
-                <div className="space-y-2">
-                  <Label>Power (kW)</Label>
-                  <Input 
-                    type="number"
-                    placeholder="2.2" 
-                    className="bg-secondary"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label>RPM</Label>
-                  <Input 
-                    type="number"
-                    placeholder="1450" 
-                    className="bg-secondary"
-                  />
-                </div>
-              </>
-            )}
+            {selectedComponent.type === 'motor' && <DriveSizingCalculator />}
 
             {selectedComponent.type?.toLowerCase() === 'belt' && (
               <>
@@ -467,7 +447,13 @@ export const PropertiesPanel = ({ selectedComponent, onUpdateComponent, onDelete
                   <Label>Belt Speed (m/s)</Label>
                   <Input 
                     type="number"
-                    placeholder="1.5" 
+                    value={driveSizing.settings.beltSpeed}
+                    step={0.1}
+                    min={0}
+                    onChange={(e) => {
+                      const beltSpeed = parseFloat(e.target.value);
+                      if (beltSpeed >= 0) driveSizing.updateDrive({ beltSpeed });
+                    }}
                     className="bg-secondary"
                   />
                 </div>
@@ -480,47 +466,7 @@ export const PropertiesPanel = ({ selectedComponent, onUpdateComponent, onDelete
               <Label>Alternative Components</Label>
               <p className="text-xs text-muted-foreground">Select a different component to swap</p>
               
-              {selectedComponent.type === 'motor' && (
-                <div className="space-y-2">
-                  <Card className="p-3 cursor-pointer hover:border-primary transition-smooth">
-                    <div className="flex items-start justify-between">
-                      <div>
-                        <h4 className="font-medium text-sm">Standard Motor 1.5kW</h4>
-                        <p className="text-xs text-muted-foreground mt-1">1450 RPM, IE2 Efficiency</p>
-                        <Badge variant="outline" className="mt-2">$650</Badge>
-                      </div>
-                    </div>
-                  </Card>
-                  <Card className="p-3 cursor-pointer hover:border-primary transition-smooth border-primary">
-                    <div className="flex items-start justify-between">
-                      <div>
-                        <h4 className="font-medium text-sm">Drive Motor 2.2kW</h4>
-                        <p className="text-xs text-muted-foreground mt-1">1450 RPM, IE3 Efficiency</p>
-                        <Badge variant="outline" className="mt-2">$850</Badge>
-                      </div>
-                      <Badge className="bg-primary">Current</Badge>
-                    </div>
-                  </Card>
-                  <Card className="p-3 cursor-pointer hover:border-primary transition-smooth">
-                    <div className="flex items-start justify-between">
-                      <div>
-                        <h4 className="font-medium text-sm">High Power Motor 3.0kW</h4>
-                        <p className="text-xs text-muted-foreground mt-1">1450 RPM, IE4 Efficiency</p>
-                        <Badge variant="outline" className="mt-2">$1200</Badge>
-                      </div>
-                    </div>
-                  </Card>
-                  <Card className="p-3 cursor-pointer hover:border-primary transition-smooth">
-                    <div className="flex items-start justify-between">
-                      <div>
-                        <h4 className="font-medium text-sm">Variable Speed Motor 2.2kW</h4>
-                        <p className="text-xs text-muted-foreground mt-1">Variable RPM, VFD Ready</p>
-                        <Badge variant="outline" className="mt-2">$1500</Badge>
-                      </div>
-                    </div>
-                  </Card>
-                </div>
-              )}
+              {selectedComponent.type === 'motor' && <MotorOptions />}
 
               {selectedComponent.type?.toLowerCase() === 'belt' && (
                 <div className="space-y-2">
@@ -666,6 +612,6 @@ export const PropertiesPanel = ({ selectedComponent, onUpdateComponent, onDelete
           </Tabs>
         </div>
       </div>
-    </div>
+    </fieldset>
   );
 };
@@ -0,0 +1,237 @@
+import { useEffect, useRef, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { CheckCircle2, Crosshair, MessageSquare, MessageSquarePlus, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { CommentThread, ReviewComment, anchorLabel } from "@/lib/reviewComments";
+import { useReviewStore } from "@/state/store";
+
+interface ReviewPanelProps {
+  threads: CommentThread[];
+  componentNames?: Record<string, string>; // scene component names, for labelling pins
+  canComment: boolean;
+  onOpenThread: (thread: CommentThread) => void;
+  onSubmitDraft: (body: string) => Promise<boolean>;
+  onReply: (threadId: number, body: string) => Promise<boolean>;
+  onSetResolved: (threadId: number, resolved: boolean) => void;
+}
+
+function CommentBody({ comment }: { comment: ReviewComment }) {
+  return (
+    <div>
+      <div className="flex items-baseline gap-2 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{comment.author_username}</span>
+        <span>{formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}</span>
+      </div>
+      <p className="text-sm whitespace-pre-wrap break-words mt-0.5">{comment.body}</p>
+    </div>
+  );
+}
+
+/**
+ * Text box that posts on Ctrl/Cmd+Enter and clears itself once posted
+ */
+function Composer({
+  placeholder,
+  submitLabel,
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  submitLabel: string;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState("");
+  const [posting, setPosting] = useState(false);
+
+  const submit = async () => {
+    if (!body.trim() || posting) return;
+    setPosting(true);
+    if (await onSubmit(body)) setBody("");
+    setPosting(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        autoFocus={autoFocus}
+        placeholder={placeholder}
+        rows={2}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          e.stopPropagation(); // keep Delete, Ctrl+Z and tool keys away from the builder
+          if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) submit();
+          if (e.key === "Escape") onCancel?.();
+        }}
+        className="text-sm resize-none"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" onClick={submit} disabled={!body.trim() || posting}>
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Review comment threads pinned in the scene: open one to fly to the view it was written from,
+ * reply, and resolve or reopen it
+ */
+export const ReviewPanel = ({
+  threads,
+  componentNames = {},
+  canComment,
+  onOpenThread,
+  onSubmitDraft,
+  onReply,
+  onSetResolved,
+}: ReviewPanelProps) => {
+  const { draft, activeThreadId, showResolved, setDraft, setShowResolved } = useReviewStore();
+  const activeRef = useRef<HTMLLIElement>(null);
+  const open = threads.filter((t) => !t.root.resolved);
+  const visible = showResolved ? threads : open;
+
+  // Bring the thread opened from a pin into view
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [activeThreadId]);
+
+  return (
+    <div className="panel-glass h-full flex flex-col">
+      <div className="p-4 border-b border-border flex-shrink-0 space-y-2">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-lg">Review</h2>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            Show resolved
+            <Switch checked={showResolved} onCheckedChange={setShowResolved} />
+          </label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant={open.length > 0 ? "default" : "secondary"}>{open.length} open</Badge>
+          <Badge variant="outline">{threads.length - open.length} resolved</Badge>
+        </div>
+        {draft ? (
+          <div className="rounded-md border border-primary/50 bg-primary/5 p-2 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              New comment on <span className="font-medium text-foreground">{anchorLabel(draft, componentNames)}</span>
+            </p>
+            <Composer
+              autoFocus
+              placeholder="What should change here? (Ctrl+Enter to post)"
+              submitLabel="Post"
+              onSubmit={onSubmitDraft}
+              onCancel={() => setDraft(null)}
+            />
+          </div>
+        ) : (
+          canComment && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+              <MessageSquarePlus className="h-3.5 w-3.5" />
+              Pick the comment tool and click a component or a spot in the scene.
+            </p>
+          )
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar min-h-0 p-2">
+        {visible.length === 0 ? (
+          <div className="text-center text-sm text-muted-foreground py-8">
+            <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            {threads.length === 0 ? "No comments yet" : "All comments are resolved"}
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {visible.map((thread) => {
+              const active = thread.root.id === activeThreadId;
+              return (
+                <li
+                  key={thread.root.id}
+                  ref={active ? activeRef : undefined}
+                  className={cn(
+                    "rounded-md border border-border p-2 space-y-2",
+                    active && "border-primary bg-accent/30",
+                    thread.root.resolved && "opacity-70"
+                  )}
+                >
+                  <button
+                    type="button"
+                    onClick={() => onOpenThread(thread)}
+                    className="w-full text-left flex items-start gap-2 rounded-md hover:bg-accent/50 transition-colors"
+                  >
+                    <Badge variant={thread.root.resolved ? "outline" : "secondary"} className="mt-0.5 px-1.5">
+                      {thread.number}
+                    </Badge>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-muted-foreground truncate">
+                        {anchorLabel(thread.root.anchor, componentNames)}
+                      </p>
+                      <CommentBody comment={thread.root} />
+                    </div>
+                    {thread.root.camera && <Crosshair className="h-3.5 w-3.5 mt-1 text-muted-foreground flex-shrink-0" />}
+                  </button>
+
+                  {thread.replies.length > 0 && (
+                    <ul className="ml-7 space-y-2 border-l border-border pl-2">
+                      {thread.replies.map((reply) => (
+                        <li key={reply.id}>
+                          <CommentBody comment={reply} />
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {thread.root.resolved && thread.root.resolved_by && (
+                    <p className="ml-7 text-xs text-muted-foreground">Resolved by {thread.root.resolved_by}</p>
+                  )}
+
+                  {canComment && (
+                    <div className="ml-7 space-y-2">
+                      {active && !thread.root.resolved && (
+                        <Composer
+                          placeholder="Reply (Ctrl+Enter to post)"
+                          submitLabel="Reply"
+                          onSubmit={(body) => onReply(thread.root.id, body)}
+                        />
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => onSetResolved(thread.root.id, !thread.root.resolved)}
+                      >
+                        {thread.root.resolved ? (
+                          <>
+                            <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                            Reopen
+                          </>
+                        ) : (
+                          <>
+                            <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
+                            Resolve
+                          </>
+                        )}
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, OctagonX, Pause, Play, RotateCcw } from "lucide-react";
+import { usePlacementStore, useSimulationStore } from "@/state/store";
+import { useDriveSizing } from "@/hooks/useDriveSizing";
+import { ProductFootprint, ProductShape, calculateCapacity, getProductFootprint } from "@/lib/simulation";
+
+const TIME_SCALES = [1, 2, 5, 10];
+
+const formatNumber = (value: number | null, digits = 0) => (value === null ? "-" : value.toFixed(digits));
+
+/**
+ * Controls and live figures for the throughput simulation on the active conveyor
+ */
+export function SimulationPanel() {
+  const { params, components } = usePlacementStore();
+  const { running, settings, stats, setRunning, updateSimulationSettings, resetSimulation } = useSimulationStore();
+  const { settings: drive, updateDrive } = useDriveSizing();
+
+  const footprint = getProductFootprint(settings);
+  const capacity = calculateCapacity(drive.beltSpeed, footprint.length, settings.minGap);
+  const sensors = components.filter((c) => c.type === "SENSOR");
+  const stops = components.filter((c) => c.type === "STOP_BUTTON");
+
+  const handleNumber = (value: string, apply: (n: number) => void) => {
+    const number = parseFloat(value);
+    if (!isNaN(number) && number >= 0) apply(number);
+  };
+
+  const handleFootprint = (field: keyof ProductFootprint, value: string) =>
+    handleNumber(value, (n) => {
+      if (n > 0) updateSimulationSettings({ footprint: { ...settings.footprint, [field]: n } });
+    });
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div>
+        <h3 className="font-semibold text-lg">Throughput Simulation</h3>
+        <p className="text-xs text-muted-foreground mt-1">
+          Runs products along the selected conveyor. Sensors count them; pressing an emergency stop halts the belt.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <Button size="sm" className="flex-1" onClick={() => setRunning(!running)}>
+          {running ? <Pause className="h-4 w-4 mr-1" /> : <Play className="h-4 w-4 mr-1" />}
+          {running ? "Pause" : "Start"}
+        </Button>
+        <Button size="sm" variant="outline" onClick={resetSimulation}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Reset
+        </Button>
+        <Select
+          value={String(settings.timeScale)}
+          onValueChange={(value) => updateSimulationSettings({ timeScale: Number(value) })}
+        >
+          <SelectTrigger className="w-20 h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TIME_SCALES.map((scale) => (
+              <SelectItem key={scale} value={String(scale)}>
+                {scale}×
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Product</Label>
+        <Select
+          value={settings.shape}
+          onValueChange={(value) => updateSimulationSettings({ shape: value as ProductShape })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="BOX">Standard box (300 × 200 × 200 mm)</SelectItem>
+            <SelectItem value="CUSTOM">Custom footprint</SelectItem>
+          </SelectContent>
+        </Select>
+        {settings.shape === "CUSTOM" && (
+          <div className="grid grid-cols-3 gap-2">
+            {(["length", "width", "height"] as const).map((field) => (
+              <Input
+                key={field}
+                type="number"
+                value={settings.footprint[field]}
+                min={1}
+                onChange={(e) => handleFootprint(field, e.target.value)}
+                aria-label={`Product ${field} (mm)`}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Feed Rate (items/min)</Label>
+          <Input
+            type="number"
+            value={settings.spawnRate}
+            min={0}
+            onChange={(e) => handleNumber(e.target.value, (spawnRate) => updateSimulationSettings({ spawnRate }))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Belt Speed (m/s)</Label>
+          <Input
+            type="number"
+            value={drive.beltSpeed}
+            step={0.1}
+            min={0}
+            onChange={(e) => handleNumber(e.target.value, (beltSpeed) => updateDrive({ beltSpeed }))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Infeed Gap (mm)</Label>
+          <Input
+            type="number"
+            value={settings.minGap}
+            min={0}
+            onChange={(e) => handleNumber(e.target.value, (minGap) => updateSimulationSettings({ minGap }))}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {sensors.length} sensor{sensors.length === 1 ? "" : "s"}, {stops.length} emergency stop
+        {stops.length === 1 ? "" : "s"} placed
+      </p>
+
+      {stops.length > 0 && (
+        <div className="space-y-1">
+          <Label className="text-xs">Emergency Stops</Label>
+          <div className="flex flex-wrap gap-2">
+            {stops.map((stop) => {
+              const pressed = settings.pressedStop === stop.id;
+              return (
+                <Button
+                  key={stop.id}
+                  size="sm"
+                  variant={pressed ? "destructive" : "outline"}
+                  onClick={() => updateSimulationSettings({ pressedStop: pressed ? null : stop.id })}
+                  className="capitalize"
+                >
+                  <OctagonX className="h-4 w-4 mr-1" />
+                  {pressed ? "Release" : "Press"} {stop.slotId.replace(/_/g, " ").toLowerCase()}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {stats?.halted && (
+        <p className="flex items-center gap-1.5 text-xs text-destructive">
+          <OctagonX className="h-3.5 w-3.5" />
+          Line halted by emergency stop
+        </p>
+      )}
+
+      {footprint.width > params.N && (
+        <p className="flex items-center gap-1.5 text-xs text-destructive">
+          <AlertTriangle className="h-3.5 w-3.5" />
+          Product is wider than the {params.N} mm belt
+        </p>
+      )}
+      {settings.spawnRate > capacity && (
+        <p className="flex items-center gap-1.5 text-xs text-yellow-600">
+          <AlertTriangle className="h-3.5 w-3.5" />
+          Feed rate exceeds belt capacity of {capacity.toFixed(1)} items/min
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
+        <span className="text-muted-foreground">Elapsed</span>
+        <span className="text-right">{formatNumber(stats?.elapsed ?? 0, 1)} s</span>
+        <span className="text-muted-foreground">Throughput</span>
+        <span className="text-right font-medium">{formatNumber(stats?.throughput ?? 0, 1)} items/min</span>
+        <span className="text-muted-foreground">Belt capacity</span>
+        <span className="text-right">{capacity.toFixed(1)} items/min</span>
+        <span className="text-muted-foreground">Fed / delivered</span>
+        <span className="text-right">
+          {stats?.spawned ?? 0} / {stats?.delivered ?? 0}
+        </span>
+        <span className="text-muted-foreground">On belt</span>
+        <span className="text-right">{stats?.onBelt ?? 0}</span>
+        <span className="text-muted-foreground">Accumulated (max)</span>
+        <span className="text-right">
+          {stats?.accumulated ?? 0} ({stats?.maxAccumulation ?? 0})
+        </span>
+        <span className="text-muted-foreground">Halted</span>
+        <span className="text-right">{formatNumber(stats?.haltedTime ?? 0, 1)} s</span>
+        <span className="text-muted-foreground">Spacing avg / min</span>
+        <span className="text-right">
+          {formatNumber(stats?.averageSpacing ?? null)} / {formatNumber(stats?.minSpacing ?? null)} mm
+        </span>
+        {sensors.map((sensor) => (
+          <SensorRow key={sensor.id} label={sensor.slotId.replace(/_/g, " ")} count={stats?.sensorCounts[sensor.id] ?? 0} />
+        ))}
+      </div>
+    </Card>
+  );
+}
+
+function SensorRow({ label, count }: { label: string; count: number }) {
+  return (
+    <>
+      <span className="text-muted-foreground capitalize">{label}</span>
+      <span className="text-right">{count}</span>
+    </>
+  );
+}
@@ -0,0 +1,55 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+
+interface SyncConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pending: number;
+  serverUpdatedAt: string | null;
+  onKeepLocal: () => void;
+  onUseServer: () => void;
+}
+
+/**
+ * Shown when offline changes are about to sync but the project was saved elsewhere in the meantime
+ */
+export function SyncConflictDialog({
+  open,
+  onOpenChange,
+  pending,
+  serverUpdatedAt,
+  onKeepLocal,
+  onUseServer,
+}: SyncConflictDialogProps) {
+  const savedAt = serverUpdatedAt ? new Date(serverUpdatedAt).toLocaleString() : "recently";
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Project changed while you were offline</AlertDialogTitle>
+          <AlertDialogDescription>
+            This project was saved elsewhere ({savedAt}) after your offline edits started. Syncing your {pending}{" "}
+            pending {pending === 1 ? "change" : "changes"} will overwrite that version; discarding them reloads the
+            saved project.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Decide later</AlertDialogCancel>
+          <Button variant="destructive" onClick={onUseServer}>
+            Discard my changes
+          </Button>
+          <Button onClick={onKeepLocal}>Keep my changes</Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
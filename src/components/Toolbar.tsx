@@ -1,5 +1,8 @@
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { CollabPeer, peerColor, peerInitials } from "@/lib/collaboration";
+import { ProjectRole, roleLabel } from "@/lib/sharing";
 import {
   Tooltip,
   TooltipContent,
@@ -25,9 +28,29 @@ import {
   Hand,
   Eraser,
   Settings,
-  Trash2
+  Trash2,
+  Ruler,
+  StickyNote,
+  DraftingCompass,
+  History,
+  GitCompare,
+  WifiOff,
+  AlertTriangle,
+  RefreshCw,
+  CloudUpload,
+  Lock,
+  MessageSquarePlus,
+  Camera,
+  Boxes
 } from "lucide-react";
 
+export interface ConnectionStatus {
+  online: boolean;
+  pending: number; // changes waiting in the local queue
+  syncing: boolean;
+  conflict: boolean;
+}
+
 interface ToolbarProps {
   onToolSelect: (tool: string) => void;
   activeTool: string;
@@ -50,9 +73,30 @@ interface ToolbarProps {
   onSettings?: () => void;
   panModeActive?: boolean;
   onClearAll?: () => void;
-  isReadonly?: boolean;
+  onExport?: () => void;
+  onDrawing?: () => void;
+  exportDisabled?: boolean; // e.g. while the assembly is exploded
+  onHistory?: () => void;
+  onViews?: () => void;
+  onAssembly?: () => void;
+  assemblyActive?: boolean;
+  onCompare?: () => void;
+  connection?: ConnectionStatus;
+  onSyncNow?: () => void;
+  collaborators?: CollabPeer[]; // everyone in the live session, this client included
+  collabClientId?: string | null;
+  isReadonly?: boolean; // disables every action that changes the project
+  canComment?: boolean; // enables the review comment tool
+  role?: ProjectRole; // the current user's access, shown unless they own the project
 }
 
+const connectionLabel = ({ online, pending, syncing, conflict }: ConnectionStatus) => {
+  if (conflict) return 'Sync conflict';
+  if (!online) return pending > 0 ? `Offline · ${pending} pending` : 'Offline';
+  if (syncing) return 'Syncing...';
+  return `${pending} pending`;
+};
+
 export const Toolbar = ({ 
   onToolSelect, 
   activeTool, 
@@ -74,12 +118,34 @@ export const Toolbar = ({
   onSettings,
   panModeActive = false,
   onClearAll,
-  isReadonly = false
+  onExport,
+  onDrawing,
+  exportDisabled = false,
+  onHistory,
+  onViews,
+  onAssembly,
+  assemblyActive = false,
+  onCompare,
+  connection,
+  onSyncNow,
+  collaborators = [],
+  collabClientId = null,
+  isReadonly = false,
+  canComment = false,
+  role
 }: ToolbarProps) => {
+  const showConnection = connection && (connection.conflict || !connection.online || connection.syncing || connection.pending > 0);
+
   return (
     <TooltipProvider>
       <div className="panel-glass px-4 py-3 flex items-center gap-2">
         <h1 className="text-xl font-bold text-gradient mr-4">UnoTEAM's Conveyor Designer</h1>
+        {role && role !== 'owner' && (
+          <Badge variant={isReadonly ? 'secondary' : 'outline'} className="mr-2 gap-1">
+            {isReadonly && <Lock className="h-3 w-3" />}
+            {roleLabel(role)}
+          </Badge>
+        )}
         
         <Separator orientation="vertical" className="h-8" />
         
@@ -202,6 +268,7 @@ export const Toolbar = ({
                 variant={activeTool === 'move' ? 'default' : 'ghost'}
                 size="icon"
                 onClick={() => onToolSelect('move')}
+                disabled={isReadonly}
               >
                 <Move className="h-4 w-4" />
               </Button>
@@ -216,6 +283,7 @@ export const Toolbar = ({
                 variant={activeTool === 'rotate' ? 'default' : 'ghost'}
                 size="icon"
                 onClick={() => onToolSelect('rotate')}
+                disabled={isReadonly}
               >
                 <RotateCw className="h-4 w-4" />
               </Button>
@@ -224,6 +292,50 @@ export const Toolbar = ({
               <p>Rotate (E)</p>
             </TooltipContent>
           </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant={activeTool === 'measure' ? 'default' : 'ghost'}
+                size="icon"
+                onClick={() => onToolSelect('measure')}
+              >
+                <Ruler className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Measure</p>
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant={activeTool === 'annotate' ? 'default' : 'ghost'}
+                size="icon"
+                onClick={() => onToolSelect('annotate')}
+                disabled={isReadonly}
+              >
+                <StickyNote className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Annotate</p>
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant={activeTool === 'comment' ? 'default' : 'ghost'}
+                size="icon"
+                onClick={() => onToolSelect('comment')}
+                disabled={!canComment}
+              >
+                <MessageSquarePlus className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Review comment</p>
+            </TooltipContent>
+          </Tooltip>
         </div>
 
         <Separator orientation="vertical" className="h-8" />
@@ -235,7 +347,7 @@ export const Toolbar = ({
                 variant="ghost" 
                 size="icon"
                 onClick={onUndo}
-                disabled={!canUndo}
+                disabled={!canUndo || isReadonly}
               >
                 <Undo2 className="h-4 w-4" />
               </Button>
@@ -250,7 +362,7 @@ export const Toolbar = ({
                 variant="ghost" 
                 size="icon"
                 onClick={onRedo}
-                disabled={!canRedo}
+                disabled={!canRedo || isReadonly}
               >
                 <Redo2 className="h-4 w-4" />
               </Button>
@@ -314,7 +426,7 @@ export const Toolbar = ({
           </Tooltip>
           <Tooltip>
             <TooltipTrigger asChild>
-              <Button variant="ghost" size="sm">
+              <Button variant="ghost" size="sm" disabled={isReadonly}>
                 <Upload className="h-4 w-4 mr-2" />
                 Import
               </Button>
@@ -325,15 +437,123 @@ export const Toolbar = ({
           </Tooltip>
           <Tooltip>
             <TooltipTrigger asChild>
-              <Button variant="ghost" size="sm">
+              <Button variant="ghost" size="sm" onClick={onExport} disabled={exportDisabled}>
                 <Download className="h-4 w-4 mr-2" />
                 Export
               </Button>
             </TooltipTrigger>
             <TooltipContent>
-              <p>Export Project</p>
+              <p>Export 3D Model (GLB, glTF, STL, OBJ)</p>
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant="ghost" size="sm" onClick={onDrawing} disabled={exportDisabled}>
+                <DraftingCompass className="h-4 w-4 mr-2" />
+                Drawing
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Dimensioned Drawing (SVG, PDF)</p>
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant="ghost" size="sm" onClick={onHistory}>
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Version History (snapshots, restore, fork)</p>
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant="ghost" size="sm" onClick={onViews}>
+                <Camera className="h-4 w-4 mr-2" />
+                Views
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Saved camera views and presentation mode</p>
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant={assemblyActive ? 'default' : 'ghost'} size="sm" onClick={onAssembly}>
+                <Boxes className="h-4 w-4 mr-2" />
+                Assembly
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Exploded view and assembly sequence (playback, step images)</p>
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant="ghost" size="sm" onClick={onCompare}>
+                <GitCompare className="h-4 w-4 mr-2" />
+                Compare
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Compare two versions or projects</p>
             </TooltipContent>
           </Tooltip>
+          {collaborators.length > 1 && (
+            <div className="flex -space-x-2 mr-1">
+              {collaborators.map((peer) => (
+                <Tooltip key={peer.clientId}>
+                  <TooltipTrigger asChild>
+                    <div
+                      className={`h-7 w-7 rounded-full border-2 flex items-center justify-center text-[10px] font-semibold text-white ${peer.clientId === collabClientId ? 'border-foreground' : 'border-background'}`}
+                      style={{ backgroundColor: peerColor(peer.clientId) }}
+                    >
+                      {peerInitials(peer.name)}
+                    </div>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>
+                      {peer.name}
+                      {peer.clientId === collabClientId && ' (you)'}
+                      {peer.readonly ? ' · viewing' : peer.selection.length > 0 ? ` · editing ${peer.selection.length} component${peer.selection.length === 1 ? '' : 's'}` : ''}
+                    </p>
+                  </TooltipContent>
+                </Tooltip>
+              ))}
+            </div>
+          )}
+          {showConnection && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onSyncNow}
+                  className={connection.conflict ? 'border-destructive text-destructive' : !connection.online ? 'border-amber-500 text-amber-500' : ''}
+                >
+                  {connection.conflict ? (
+                    <AlertTriangle className="h-4 w-4 mr-2" />
+                  ) : !connection.online ? (
+                    <WifiOff className="h-4 w-4 mr-2" />
+                  ) : connection.syncing ? (
+                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <CloudUpload className="h-4 w-4 mr-2" />
+                  )}
+                  {connectionLabel(connection)}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>
+                  {connection.conflict
+                    ? 'The project was saved elsewhere — choose which version to keep'
+                    : 'Changes are kept on this device until the server is reachable. Click to sync now'}
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          )}
           <Tooltip>
             <TooltipTrigger asChild>
               <Button 
@@ -341,7 +561,7 @@ export const Toolbar = ({
                 size="sm" 
                 className="glow-primary"
                 onClick={onSave}
-                disabled={saveStatus === 'saving'}
+                disabled={saveStatus === 'saving' || isReadonly}
               >
                 <Save className="h-4 w-4 mr-2" />
                 {saveStatus === 'saving' ? 'Saving...' : saveStatus === 'saved' ? 'Saved!' : saveStatus === 'error' ? 'Error' : 'Save Project'}
@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Upload } from "lucide-react";
+import { ComponentUploadForm, UPLOAD_FORMATS, nameFromFile, validateUploadFile } from "@/lib/componentUpload";
+
+const EMPTY_FORM: ComponentUploadForm = {
+  name: "",
+  category: "",
+  partNumber: "",
+  description: "",
+  material: "",
+  unitCost: 0,
+};
+
+interface UploadComponentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  categories: string[]; // existing library categories, offered as suggestions
+  onUpload: (file: File, form: ComponentUploadForm) => void;
+}
+
+/**
+ * Pick a CAD or mesh file and describe the part for the library and the BOM
+ */
+export function UploadComponentDialog({ open, onOpenChange, categories, onUpload }: UploadComponentDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [form, setForm] = useState<ComponentUploadForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+      setForm(EMPTY_FORM);
+      setError(null);
+    }
+  }, [open]);
+
+  const update = (updates: Partial<ComponentUploadForm>) => setForm((prev) => ({ ...prev, ...updates }));
+
+  const handleFile = (selected: File | null) => {
+    setFile(selected);
+    setError(selected ? validateUploadFile(selected) : null);
+    if (selected && !form.name) update({ name: nameFromFile(selected.name) });
+  };
+
+  const canUpload = !!file && !error && !!form.name.trim() && !!form.category.trim();
+
+  const handleUpload = () => {
+    if (!file || !canUpload) return;
+    onUpload(file, form);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Upload Component</DialogTitle>
+          <DialogDescription>
+            The file is converted to GLB on the server. The part appears in the library when it is ready.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="upload-file">File</Label>
+            <Input
+              id="upload-file"
+              type="file"
+              accept={UPLOAD_FORMATS.join(",")}
+              onChange={(e) => handleFile(e.target.files?.[0] ?? null)}
+            />
+            <p className="text-xs text-muted-foreground">STEP, STL, OBJ or GLB</p>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="upload-name">Name</Label>
+              <Input id="upload-name" value={form.name} onChange={(e) => update({ name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="upload-category">Category</Label>
+              <Input
+                id="upload-category"
+                list="upload-categories"
+                value={form.category}
+                onChange={(e) => update({ category: e.target.value })}
+              />
+              <datalist id="upload-categories">
+                {categories.map((category) => (
+                  <option key={category} value={category} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Bill of materials</Label>
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                placeholder="Part number"
+                value={form.partNumber}
+                onChange={(e) => update({ partNumber: e.target.value })}
+              />
+              <Input
+                placeholder="Material"
+                value={form.material}
+                onChange={(e) => update({ material: e.target.value })}
+              />
+              <Input
+                className="col-span-2"
+                placeholder="Description"
+                value={form.description}
+                onChange={(e) => update({ description: e.target.value })}
+              />
+              <div className="flex items-center gap-2">
+                <Input
+                  id="upload-cost"
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={form.unitCost}
+                  onChange={(e) => update({ unitCost: Math.max(0, Number(e.target.value) || 0) })}
+                />
+                <Label htmlFor="upload-cost" className="text-xs text-muted-foreground whitespace-nowrap">
+                  unit cost
+                </Label>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">Without a part number the BOM falls back to the category.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleUpload} disabled={!canUpload}>
+            <Upload className="h-4 w-4 mr-2" />
+            Upload
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
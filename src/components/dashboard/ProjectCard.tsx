@@ -1,6 +1,6 @@
 import { useState, useRef, useEffect } from "react";
 import { motion } from "framer-motion";
-import { MoreVertical, Edit2, Copy, Trash2, ExternalLink } from "lucide-react";
+import { MoreVertical, Edit2, Copy, Trash2, ExternalLink, Share2, Users } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -13,7 +13,10 @@ import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow } from "date-fns";
 import { useNavigate } from "react-router-dom";
 import { Project, useProjectActions } from "@/hooks/useProjectActions";
+import { useAuth } from "@/hooks/useAuth";
 import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { ShareProjectDialog } from "@/components/dashboard/ShareProjectDialog";
+import { canManage, projectRole, roleLabel } from "@/lib/sharing";
 
 interface ProjectCardProps {
   project: Project;
@@ -24,9 +27,13 @@ export const ProjectCard = ({ project, onOpen }: ProjectCardProps) => {
   const [isRenaming, setIsRenaming] = useState(false);
   const [name, setName] = useState(project.name);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
   const { duplicateProject, deleteProject, renameProject } = useProjectActions();
+  const { user } = useAuth();
+  const role = projectRole(project, user?.username);
+  const isOwner = canManage(role);
 
   useEffect(() => {
     if (isRenaming && inputRef.current) {
@@ -141,9 +148,23 @@ export const ProjectCard = ({ project, onOpen }: ProjectCardProps) => {
         {/* Metadata */}
         <div className="flex items-center justify-between text-sm text-muted-foreground">
           <span>Edited {lastEdited}</span>
-          {project.item_count !== undefined && (
-            <Badge variant="outline">{project.item_count} items</Badge>
-          )}
+          <div className="flex gap-1">
+            {!isOwner && (
+              <Badge variant="secondary" title={project.owner_username ? `Shared by ${project.owner_username}` : undefined}>
+                <Users className="h-3 w-3 mr-1" />
+                {roleLabel(role)}
+              </Badge>
+            )}
+            {isOwner && !!project.member_count && (
+              <Badge variant="outline" title={`Shared with ${project.member_count}`}>
+                <Users className="h-3 w-3 mr-1" />
+                {project.member_count}
+              </Badge>
+            )}
+            {project.item_count !== undefined && (
+              <Badge variant="outline">{project.item_count} items</Badge>
+            )}
+          </div>
         </div>
 
         {/* Chips */}
@@ -187,23 +208,37 @@ export const ProjectCard = ({ project, onOpen }: ProjectCardProps) => {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              <DropdownMenuItem onClick={handleRename}>
-                <Edit2 className="mr-2 h-4 w-4" />
-                Rename
-              </DropdownMenuItem>
+              {isOwner && (
+                <DropdownMenuItem onClick={() => setShowShareDialog(true)}>
+                  <Share2 className="mr-2 h-4 w-4" />
+                  Share
+                </DropdownMenuItem>
+              )}
+              {isOwner && (
+                <DropdownMenuItem onClick={handleRename}>
+                  <Edit2 className="mr-2 h-4 w-4" />
+                  Rename
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem onClick={handleDuplicate}>
                 <Copy className="mr-2 h-4 w-4" />
                 Duplicate
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={handleDelete} className="text-destructive">
-                <Trash2 className="mr-2 h-4 w-4" />
-                Delete
-              </DropdownMenuItem>
+              {isOwner && (
+                <DropdownMenuItem onClick={handleDelete} className="text-destructive">
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </DropdownMenuItem>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
       </div>
 
+      {isOwner && (
+        <ShareProjectDialog project={project} open={showShareDialog} onOpenChange={setShowShareDialog} />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <ConfirmDialog
         open={showDeleteDialog}
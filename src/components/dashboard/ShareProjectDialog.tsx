@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Copy, Link2, Trash2, UserPlus, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { useProjectSharing } from "@/hooks/useProjectSharing";
+import { Project } from "@/hooks/useProjectActions";
+import {
+  MEMBER_ROLES,
+  MemberRole,
+  SHARE_LINK_DURATIONS,
+  isShareLinkExpired,
+  roleLabel,
+  shareLinkUrl,
+} from "@/lib/sharing";
+
+interface ShareProjectDialogProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RoleSelect = ({
+  value,
+  onChange,
+  disabled,
+  className = "w-[130px]",
+}: {
+  value: MemberRole;
+  onChange: (role: MemberRole) => void;
+  disabled?: boolean;
+  className?: string;
+}) => (
+  <Select value={value} onValueChange={(v) => onChange(v as MemberRole)} disabled={disabled}>
+    <SelectTrigger className={className}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {MEMBER_ROLES.map((role) => (
+        <SelectItem key={role.value} value={role.value}>
+          <div>
+            <div>{role.label}</div>
+            <div className="text-xs text-muted-foreground">{role.description}</div>
+          </div>
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+/**
+ * Invite people to a project with a role and hand out expiring read-only links
+ */
+export function ShareProjectDialog({ project, open, onOpenChange }: ShareProjectDialogProps) {
+  const { members, shareLinks, isLoading, loadError, invite, changeRole, remove, createLink, revokeLink } =
+    useProjectSharing(project.id, open);
+  const [identifier, setIdentifier] = useState("");
+  const [inviteRole, setInviteRole] = useState<MemberRole>("viewer");
+  const [linkHours, setLinkHours] = useState(SHARE_LINK_DURATIONS[1].hours);
+
+  useEffect(() => {
+    if (open) {
+      setIdentifier("");
+      setInviteRole("viewer");
+    }
+  }, [open]);
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!identifier.trim()) return;
+    invite.mutate({ identifier, role: inviteRole }, { onSuccess: () => setIdentifier("") });
+  };
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareLinkUrl(token));
+      toast.success("Link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  const handleCreateLink = () => {
+    createLink.mutate({ role: "viewer", expiresInHours: linkHours }, { onSuccess: (link) => copyLink(link.token) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Share "{project.name}"</DialogTitle>
+          <DialogDescription>
+            Members see the project in their list. Share links open it read-only, without an account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleInvite} className="space-y-2">
+          <Label htmlFor="share-identifier">Invite by username or email</Label>
+          <div className="flex gap-2">
+            <Input
+              id="share-identifier"
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+              placeholder="jane or jane@example.com"
+              autoComplete="off"
+            />
+            <RoleSelect value={inviteRole} onChange={setInviteRole} />
+            <Button type="submit" disabled={!identifier.trim() || invite.isPending}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Invite
+            </Button>
+          </div>
+        </form>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">People with access</span>
+            {project.owner_username && (
+              <span className="text-muted-foreground">Owner: {project.owner_username}</span>
+            )}
+          </div>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : loadError ? (
+            <p className="text-sm text-destructive">{loadError.message}</p>
+          ) : members.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Only you have access to this project.</p>
+          ) : (
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+              {members.map((member) => (
+                <li key={member.id} className="flex items-center gap-2 rounded-md px-2 py-1 hover:bg-secondary/50">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm truncate">{member.username}</div>
+                    {member.email && <div className="text-xs text-muted-foreground truncate">{member.email}</div>}
+                  </div>
+                  <RoleSelect
+                    value={member.role}
+                    onChange={(role) => changeRole.mutate({ memberId: member.id, role })}
+                    disabled={changeRole.isPending}
+                    className="w-[120px] h-8"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => remove.mutate(member.id)}
+                    disabled={remove.isPending}
+                    aria-label={`Remove ${member.username}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <Label>Read-only share links</Label>
+          <div className="flex gap-2">
+            <Select value={String(linkHours)} onValueChange={(v) => setLinkHours(Number(v))}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_LINK_DURATIONS.map((d) => (
+                  <SelectItem key={d.hours} value={String(d.hours)}>
+                    {d.hours ? `Expires in ${d.label}` : "Never expires"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleCreateLink} disabled={createLink.isPending}>
+              <Link2 className="h-4 w-4 mr-2" />
+              Create link
+            </Button>
+          </div>
+          {shareLinks.length > 0 && (
+            <ul className="space-y-1 max-h-40 overflow-y-auto">
+              {shareLinks.map((link) => {
+                const expired = isShareLinkExpired(link);
+                return (
+                  <li key={link.token} className="flex items-center gap-2 rounded-md px-2 py-1 hover:bg-secondary/50">
+                    <div className="flex-1 min-w-0 text-sm">
+                      <span className={expired ? "text-muted-foreground line-through" : ""}>
+                        {roleLabel(link.role)} link
+                      </span>
+                      <span className="text-xs text-muted-foreground ml-2">
+                        {link.expires_at
+                          ? `${expired ? "expired" : "expires"} ${formatDistanceToNow(new Date(link.expires_at), { addSuffix: true })}`
+                          : "no expiry"}
+                      </span>
+                    </div>
+                    {expired ? (
+                      <Badge variant="outline">Expired</Badge>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => copyLink(link.token)}
+                        aria-label="Copy link"
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => revokeLink.mutate(link.token)}
+                      disabled={revokeLink.isPending}
+                      aria-label="Revoke link"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,19 @@
+import { useMemo } from "react";
+import { BOMItem } from "@/types/conveyor";
+import { buildBOM, BOMSceneComponent } from "@/lib/bom";
+import { usePlacementStore } from "@/state/store";
+
+/**
+ * Live bill of materials for the current assembly.
+ * Re-derives whenever the scene, the slot placements or the line sections change.
+ */
+export const useBOM = (sceneComponents: BOMSceneComponent[]): BOMItem[] => {
+  const placedComponents = usePlacementStore((state) => state.components);
+  const params = usePlacementStore((state) => state.params);
+  const sections = usePlacementStore((state) => state.sections);
+
+  return useMemo(
+    () => buildBOM({ sceneComponents, placedComponents, params, sections }),
+    [sceneComponents, placedComponents, params, sections]
+  );
+};
@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useRef } from "react";
+import { toast } from "sonner";
+import { useCollabStore } from "@/state/store";
+import { SnapshotComponent } from "@/lib/versionHistory";
+import {
+  COLLAB_MAX_RECONNECT_DELAY,
+  COLLAB_RECONNECT_DELAY,
+  ClientMessage,
+  CollabOp,
+  CollabPeer,
+  ServerMessage,
+  applyOpToKeys,
+  collabUrl,
+  diffScene,
+  sceneKeys,
+} from "@/lib/collaboration";
+
+interface CollaborationOptions {
+  name: string;
+  readonly: boolean;
+  components: SnapshotComponent[]; // the scene as this client has it
+}
+
+interface CollaborationHandlers {
+  onRemoteOp: (op: CollabOp, from: CollabPeer | null) => void;
+  onSelectionDenied: (ids: string[], owner: string) => void;
+}
+
+/**
+ * Joins the live session of a project: shares presence and selection, sends this client's scene edits
+ * to the room and hands edits from others to `onRemoteOp`. `projectId` stays null until the project has loaded.
+ */
+export const useCollaboration = (
+  projectId: number | null,
+  { name, readonly, components }: CollaborationOptions,
+  handlers: CollaborationHandlers
+) => {
+  const { connected, clientId, peers, locks, setConnection, setPresence } = useCollabStore();
+  const socketRef = useRef<WebSocket | null>(null);
+  const seenRef = useRef<Map<string, string> | null>(null); // null until the room has welcomed us
+  const selectionRef = useRef<string[]>([]);
+  const componentsRef = useRef(components);
+  componentsRef.current = components;
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const send = useCallback((message: ClientMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }, []);
+
+  const sendOp = useCallback(
+    (op: CollabOp) => {
+      if (seenRef.current) applyOpToKeys(seenRef.current, op);
+      send({ type: "op", op });
+    },
+    [send]
+  );
+
+  useEffect(() => {
+    if (projectId === null) return;
+    let closed = false;
+    let delay = COLLAB_RECONNECT_DELAY;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleMessage = (message: ServerMessage) => {
+      switch (message.type) {
+        case "welcome":
+          setConnection(true, message.clientId);
+          setPresence(message.peers, message.locks);
+          seenRef.current = sceneKeys(componentsRef.current);
+          if (!readonly && selectionRef.current.length > 0) {
+            send({ type: "select", ids: selectionRef.current });
+          }
+          console.log("🤝 Joined live session:", projectId, "as", message.clientId, "with", message.peers.length - 1, "others");
+          break;
+        case "presence":
+          setPresence(message.peers, message.locks);
+          break;
+        case "op": {
+          if (seenRef.current) applyOpToKeys(seenRef.current, message.op);
+          const from = useCollabStore.getState().peers.find((p) => p.clientId === message.from) ?? null;
+          handlersRef.current.onRemoteOp(message.op, from);
+          break;
+        }
+        case "denied":
+          selectionRef.current = selectionRef.current.filter((id) => !message.ids.includes(id));
+          handlersRef.current.onSelectionDenied(message.ids, message.owner);
+          break;
+        case "rejected":
+          toast.warning(`${message.owner} is editing this component — your change was undone`);
+          break;
+        case "resync": {
+          const ids = new Set(message.ids);
+          const owned = componentsRef.current.filter((c) => ids.has(c.id));
+          if (owned.length > 0) sendOp({ type: "upsert", components: owned });
+          break;
+        }
+      }
+    };
+
+    const connect = () => {
+      const socket = new WebSocket(collabUrl(projectId));
+      socketRef.current = socket;
+      socket.onopen = () => {
+        delay = COLLAB_RECONNECT_DELAY;
+        send({ type: "join", name, readonly });
+      };
+      socket.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data) as ServerMessage);
+        } catch (error) {
+          console.error("❌ Bad live session message:", error);
+        }
+      };
+      socket.onclose = () => {
+        if (socketRef.current === socket) socketRef.current = null;
+        seenRef.current = null;
+        setConnection(false);
+        if (!closed) {
+          reconnectTimer = setTimeout(connect, delay);
+          delay = Math.min(delay * 2, COLLAB_MAX_RECONNECT_DELAY);
+        }
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+      seenRef.current = null;
+      setConnection(false);
+    };
+  }, [projectId, name, readonly, send, sendOp, setConnection, setPresence]);
+
+  // Send this client's edits; edits from the room are already in `seenRef` and are not echoed
+  useEffect(() => {
+    const seen = seenRef.current;
+    if (!seen || readonly) return;
+    diffScene(seen, components).forEach(sendOp);
+  }, [components, readonly, sendOp]);
+
+  /**
+   * Claim the selected components; the server answers with `denied` if someone else has them
+   */
+  const select = useCallback(
+    (ids: string[]) => {
+      selectionRef.current = ids;
+      if (!readonly) send({ type: "select", ids });
+    },
+    [readonly, send]
+  );
+
+  /**
+   * The other peer that has claimed a component, if any
+   */
+  const lockedBy = useCallback(
+    (componentId: string): CollabPeer | null => {
+      const owner = locks[componentId];
+      if (!owner || owner === clientId) return null;
+      return peers.find((p) => p.clientId === owner) ?? null;
+    },
+    [locks, clientId, peers]
+  );
+
+  return { connected, clientId, peers, locks, select, lockedBy };
+};
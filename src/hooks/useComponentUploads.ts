@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useRef } from "react";
+import { toast } from "sonner";
+import { useUploadStore } from "@/state/store";
+import {
+  ComponentUploadForm,
+  LibraryComponent,
+  PROCESSING_POLL_INTERVAL,
+  PROCESSING_TIMEOUT,
+  fetchComponent,
+  isComponentFailed,
+  isComponentReady,
+  uploadComponent,
+} from "@/lib/componentUpload";
+
+/**
+ * Uploads parts to the component library and polls their conversion until the GLB is ready.
+ * `onReady` receives each component as soon as it can be placed.
+ */
+export const useComponentUploads = (onReady: (component: LibraryComponent) => void) => {
+  const { uploads, addUpload, updateUpload, removeUpload } = useUploadStore();
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+  const pollingRef = useRef(false);
+
+  const applyStatus = useCallback(
+    (id: string, component: LibraryComponent) => {
+      if (isComponentReady(component)) {
+        updateUpload(id, { stage: "ready", progress: 1, component });
+        onReadyRef.current(component);
+        toast.success(`${component.name} is ready to use`);
+      } else if (isComponentFailed(component)) {
+        updateUpload(id, { stage: "failed", component, error: component.processing_error || "Processing failed" });
+      } else {
+        updateUpload(id, { stage: "processing", component, progress: (component.processing_progress ?? 0) / 100 });
+      }
+    },
+    [updateUpload]
+  );
+
+  const startUpload = useCallback(
+    async (file: File, form: ComponentUploadForm) => {
+      const id = `upload-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+      addUpload({ id, fileName: file.name, stage: "uploading", progress: 0, startedAt: Date.now() });
+
+      try {
+        const component = await uploadComponent(file, form, (progress) => updateUpload(id, { progress }));
+        console.log("📦 Component uploaded:", component.id, component.processing_status);
+        updateUpload(id, { startedAt: Date.now() });
+        applyStatus(id, component); // GLB uploads may need no conversion
+      } catch (error) {
+        updateUpload(id, { stage: "failed", error: error instanceof Error ? error.message : String(error) });
+      }
+    },
+    [addUpload, updateUpload, applyStatus]
+  );
+
+  /**
+   * Follow a library component that was still processing when the library loaded
+   */
+  const trackComponent = useCallback(
+    (component: LibraryComponent) => {
+      const tracked = useUploadStore.getState().uploads.some((u) => u.component?.id === component.id);
+      if (tracked) return;
+      addUpload({
+        id: `component-${component.id}`,
+        fileName: component.name,
+        stage: "processing",
+        progress: (component.processing_progress ?? 0) / 100,
+        component,
+        startedAt: Date.now(),
+      });
+    },
+    [addUpload]
+  );
+
+  const processingKey = uploads
+    .filter((u) => u.stage === "processing")
+    .map((u) => u.id)
+    .join(",");
+
+  useEffect(() => {
+    if (!processingKey) return;
+
+    const poll = async () => {
+      if (pollingRef.current) return; // previous round still waiting on the server
+      pollingRef.current = true;
+      try {
+        const pending = useUploadStore.getState().uploads.filter((u) => u.stage === "processing" && u.component);
+        for (const upload of pending) {
+          if (Date.now() - upload.startedAt > PROCESSING_TIMEOUT) {
+            updateUpload(upload.id, { stage: "failed", error: "Processing timed out" });
+            continue;
+          }
+          try {
+            applyStatus(upload.id, await fetchComponent(upload.component!.id));
+          } catch (error) {
+            console.warn("Failed to poll component status:", error);
+          }
+        }
+      } finally {
+        pollingRef.current = false;
+      }
+    };
+
+    const timer = window.setInterval(poll, PROCESSING_POLL_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [processingKey, applyStatus, updateUpload]);
+
+  return { uploads, startUpload, trackComponent, dismissUpload: removeUpload };
+};
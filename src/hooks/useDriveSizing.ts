@@ -0,0 +1,50 @@
+import { useCallback, useMemo } from "react";
+import {
+  calculateDriveRequirements,
+  DriveRequirements,
+  getDriveSettings,
+  getMotorSpec,
+  isMotorUndersized,
+  MotorSpec,
+  recommendMotor,
+} from "@/lib/driveSizing";
+import { DriveSettings } from "@/lib/types";
+import { usePlacementStore } from "@/state/store";
+
+export interface DriveSizing {
+  settings: DriveSettings;
+  requirements: DriveRequirements;
+  motor: MotorSpec; // motor fitted on the engine mount
+  recommended: MotorSpec | null;
+  undersized: boolean;
+  updateDrive: (updates: Partial<DriveSettings>) => void;
+}
+
+/**
+ * Drive requirements for the configured conveyor and the motor chosen for its engine mount.
+ * Re-calculates whenever the parameters change.
+ */
+export const useDriveSizing = (): DriveSizing => {
+  const params = usePlacementStore((state) => state.params);
+  const updateParams = usePlacementStore((state) => state.updateParams);
+
+  const sizing = useMemo(() => {
+    const settings = getDriveSettings(params);
+    const requirements = calculateDriveRequirements(params, settings);
+    const motor = getMotorSpec(settings.motorId);
+    return {
+      settings,
+      requirements,
+      motor,
+      recommended: recommendMotor(requirements),
+      undersized: isMotorUndersized(motor, requirements),
+    };
+  }, [params]);
+
+  const updateDrive = useCallback(
+    (updates: Partial<DriveSettings>) => updateParams({ drive: { ...sizing.settings, ...updates } }),
+    [updateParams, sizing.settings]
+  );
+
+  return { ...sizing, updateDrive };
+};
@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useRef } from "react";
+import { toast } from "sonner";
+import { useOfflineStore } from "@/state/store";
+import {
+  LocalAssembly,
+  PendingAdd,
+  PendingDelete,
+  PendingMutation,
+  PendingSave,
+  SYNC_RETRY_INTERVAL,
+  countPendingMutations,
+  discardLocalChanges,
+  enqueueMutation,
+  replayMutations,
+  saveLocalAssembly,
+} from "@/lib/offlineQueue";
+
+interface OfflineSyncHandlers {
+  onIdsMapped: (idMap: Map<string, string>) => void; // components added offline got backend ids
+  onSynced: (serverUpdatedAt: string | null) => void;
+}
+
+type Unqueued<T> = Omit<T, "id" | "projectId" | "createdAt">;
+type NewMutation = Unqueued<PendingAdd> | Unqueued<PendingSave> | Unqueued<PendingDelete>;
+
+/**
+ * Keeps the local save queue of a project and replays it whenever the API can be reached again.
+ * The queue is retried on the browser's `online` event and periodically while anything is pending.
+ */
+export const useOfflineSync = (projectId: number | null, handlers: OfflineSyncHandlers) => {
+  const { online, pending, syncing, conflict, setOnline, setPending, setSyncing, setConflict } = useOfflineStore();
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  // Read through a ref so callers awaiting a project load see the project it switched to
+  const projectIdRef = useRef(projectId);
+  projectIdRef.current = projectId;
+  const syncingRef = useRef(false);
+
+  const refreshPending = useCallback(async () => {
+    const projectId = projectIdRef.current;
+    if (projectId === null) return 0;
+    const count = await countPendingMutations(projectId).catch(() => 0);
+    setPending(count);
+    return count;
+  }, [setPending]);
+
+  const sync = useCallback(
+    async (force = false) => {
+      const projectId = projectIdRef.current;
+      if (projectId === null || syncingRef.current) return;
+      syncingRef.current = true;
+      setSyncing(true);
+      try {
+        const result = await replayMutations(projectId, force);
+        if (result.idMap.size > 0) handlersRef.current.onIdsMapped(result.idMap);
+
+        setOnline(result.status !== "offline");
+        if (result.status === "conflict") {
+          setConflict({ projectId, serverUpdatedAt: result.serverUpdatedAt ?? null });
+        } else if (result.status === "synced") {
+          setConflict(null);
+          handlersRef.current.onSynced(result.serverUpdatedAt ?? null);
+        } else if (result.status === "failed") {
+          console.error("❌ Replaying offline changes failed:", result.error);
+          toast.error(`Could not sync offline changes: ${result.error}`);
+        }
+      } catch (error) {
+        console.error("❌ Offline queue unavailable:", error);
+      } finally {
+        syncingRef.current = false;
+        setSyncing(false);
+        await refreshPending();
+      }
+    },
+    [setOnline, setSyncing, setConflict, refreshPending]
+  );
+
+  /**
+   * Queue a mutation for when the API is back. Resolves to false if the browser has no IndexedDB.
+   */
+  const enqueue = useCallback(
+    async (mutation: NewMutation) => {
+      const projectId = projectIdRef.current;
+      if (projectId === null) return false;
+      try {
+        await enqueueMutation({ ...mutation, projectId, createdAt: Date.now() } as PendingMutation);
+        await refreshPending();
+        return true;
+      } catch (error) {
+        console.error("❌ Could not queue change locally:", error);
+        return false;
+      }
+    },
+    [refreshPending]
+  );
+
+  const persistLocal = useCallback(async (assembly: Omit<LocalAssembly, "savedAt">) => {
+    try {
+      await saveLocalAssembly({ ...assembly, savedAt: Date.now() });
+    } catch (error) {
+      console.warn("⚠️ Could not keep a local copy of the assembly:", error);
+    }
+  }, []);
+
+  /**
+   * Forget the local edits of the project, e.g. to take the version saved elsewhere
+   */
+  const discardLocal = useCallback(async () => {
+    const projectId = projectIdRef.current;
+    if (projectId === null) return;
+    await discardLocalChanges(projectId);
+    setConflict(null);
+    await refreshPending();
+  }, [setConflict, refreshPending]);
+
+  useEffect(() => {
+    refreshPending();
+    setConflict(null);
+  }, [projectId, refreshPending, setConflict]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [setOnline, sync]);
+
+  // Keep trying while offline or while changes are waiting, unless the user has to resolve a conflict
+  useEffect(() => {
+    if (projectId === null || conflict || (online && pending === 0)) return;
+    const interval = setInterval(() => sync(), SYNC_RETRY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [projectId, conflict, online, pending, sync]);
+
+  return { online, pending, syncing, conflict, sync, enqueue, persistLocal, discardLocal };
+};
@@ -2,6 +2,16 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { API_BASE } from "@/lib/config";
 import { apiRequest } from "@/lib/api";
+import {
+  ProjectSnapshot,
+  VERSIONS_METADATA_KEY,
+  addComponentBody,
+  assemblyItemPayload,
+  remapSnapshotComponents,
+} from "@/lib/versionHistory";
+import { PLACEMENT_METADATA_KEY } from "@/lib/placementState";
+import { ANNOTATIONS_METADATA_KEY } from "@/lib/annotations";
+import { ProjectRole } from "@/lib/sharing";
 
 export interface Project {
   id: number;
@@ -14,44 +24,111 @@ export interface Project {
   item_count?: number;
   thumbnail_url?: string;
   metadata?: Record<string, any>;
+  my_role?: ProjectRole | null; // the current user's access; absent on backends without sharing
+  member_count?: number;
 }
 
+/**
+ * Fetch a project and create a private copy of it; `name` and `metadata` override the copied values
+ */
+const copyProject = async (
+  projectId: number,
+  overrides: (project: Project) => Partial<Pick<Project, "name" | "metadata">> = () => ({})
+): Promise<Project> => {
+  // First, get the project data
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error("Failed to fetch project");
+  const project: Project = await response.json();
+
+  // Create a new project with copied data
+  const newProject = {
+    name: `${project.name} (Copy)`,
+    description: project.description,
+    metadata: project.metadata,
+    is_public: false,
+    ...overrides(project),
+  };
+
+  const createResponse = await fetch(`${API_BASE}/api/projects/`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(newProject),
+  });
+
+  if (!createResponse.ok) throw new Error("Failed to duplicate project");
+  return createResponse.json();
+};
+
 export const useProjectActions = () => {
   const queryClient = useQueryClient();
 
   const duplicateProject = useMutation({
-    mutationFn: async (projectId: number) => {
-      // First, get the project data
-      const response = await fetch(`${API_BASE}/api/projects/${projectId}/`, {
-        credentials: "include",
-      });
-      if (!response.ok) throw new Error("Failed to fetch project");
-      const project = await response.json();
-
-      // Create a new project with copied data
-      const newProject = {
-        name: `${project.name} (Copy)`,
-        description: project.description,
-        metadata: project.metadata,
-        is_public: false,
-      };
-
-      const createResponse = await fetch(`${API_BASE}/api/projects/`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify(newProject),
+    mutationFn: (projectId: number) => copyProject(projectId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["projects"] });
+      toast.success("Project duplicated successfully");
+    },
+    onError: () => {
+      toast.error("Failed to duplicate project");
+    },
+  });
+
+  /**
+   * Duplicate a project as it was in one of its snapshots: the configurator and notes
+   * come from the snapshot's metadata, then the snapshot's components are added to the copy
+   */
+  const forkSnapshot = useMutation({
+    mutationFn: async ({ projectId, snapshot }: { projectId: number; snapshot: ProjectSnapshot }) => {
+      const project = await copyProject(projectId, (source) => {
+        // The fork starts a history of its own
+        const { [VERSIONS_METADATA_KEY]: _versions, ...metadata } = source.metadata ?? {};
+        return {
+          name: `${source.name} (${snapshot.name})`,
+          metadata: {
+            ...metadata,
+            [PLACEMENT_METADATA_KEY]: snapshot.placement,
+            [ANNOTATIONS_METADATA_KEY]: snapshot.annotations,
+          },
+        };
       });
 
-      if (!createResponse.ok) throw new Error("Failed to duplicate project");
-      return createResponse.json();
+      const backendIds = new Map<string, number>();
+      for (const component of snapshot.components) {
+        const response = await apiRequest(`/api/projects/${project.id}/add_component/`, {
+          method: "POST",
+          body: JSON.stringify(addComponentBody(component)),
+        });
+        if (!response.ok) throw new Error(`Failed to add ${component.name} to the fork`);
+        const item = await response.json();
+        backendIds.set(component.id, item.id);
+      }
+
+      // Links point at the partner's id in the fork
+      const idMap = new Map(Array.from(backendIds, ([id, backendId]) => [id, `comp-${backendId}`]));
+      const items = remapSnapshotComponents(snapshot.components, idMap).map((component, i) =>
+        assemblyItemPayload(backendIds.get(snapshot.components[i].id)!, component)
+      );
+
+      // add_component only knows the pose; save sizes and groups as well
+      if (items.length > 0) {
+        const saveResponse = await apiRequest(`/api/projects/${project.id}/save/`, {
+          method: "POST",
+          body: JSON.stringify({ assembly_items: items }),
+        });
+        if (!saveResponse.ok) throw new Error("Failed to save the forked assembly");
+      }
+      console.log("🍴 Forked snapshot into project:", project.id, items.length, "components");
+      return project;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["projects"] });
-      toast.success("Project duplicated successfully");
+      toast.success("Version forked into a new project");
     },
     onError: () => {
-      toast.error("Failed to duplicate project");
+      toast.error("Failed to fork version");
     },
   });
 
@@ -112,6 +189,7 @@ export const useProjectActions = () => {
 
   return {
     duplicateProject,
+    forkSnapshot,
     deleteProject,
     renameProject,
     updateThumbnail,
@@ -0,0 +1,103 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  MemberRole,
+  createShareLink,
+  fetchMembers,
+  fetchShareLinks,
+  inviteMember,
+  removeMember,
+  revokeShareLink,
+  updateMemberRole,
+} from "@/lib/sharing";
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+/**
+ * Members and share links of a project, for its owner. Queries only run while `enabled`.
+ */
+export const useProjectSharing = (projectId: number, enabled = true) => {
+  const queryClient = useQueryClient();
+  const membersKey = ["project-members", projectId];
+  const linksKey = ["project-share-links", projectId];
+
+  const members = useQuery({
+    queryKey: membersKey,
+    queryFn: () => fetchMembers(projectId),
+    enabled,
+  });
+
+  const shareLinks = useQuery({
+    queryKey: linksKey,
+    queryFn: () => fetchShareLinks(projectId),
+    enabled,
+  });
+
+  const onMembersChanged = () => {
+    queryClient.invalidateQueries({ queryKey: membersKey });
+    queryClient.invalidateQueries({ queryKey: ["projects"] });
+  };
+
+  const invite = useMutation({
+    mutationFn: ({ identifier, role }: { identifier: string; role: MemberRole }) =>
+      inviteMember(projectId, identifier, role),
+    onSuccess: (member) => {
+      onMembersChanged();
+      toast.success(`Invited ${member.username}`);
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, "Failed to invite"));
+    },
+  });
+
+  const changeRole = useMutation({
+    mutationFn: ({ memberId, role }: { memberId: number; role: MemberRole }) =>
+      updateMemberRole(projectId, memberId, role),
+    onSuccess: onMembersChanged,
+    onError: (error) => {
+      toast.error(errorMessage(error, "Failed to change role"));
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: (memberId: number) => removeMember(projectId, memberId),
+    onSuccess: onMembersChanged,
+    onError: (error) => {
+      toast.error(errorMessage(error, "Failed to remove member"));
+    },
+  });
+
+  const createLink = useMutation({
+    mutationFn: ({ role, expiresInHours }: { role: MemberRole; expiresInHours: number }) =>
+      createShareLink(projectId, role, expiresInHours),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: linksKey });
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, "Failed to create link"));
+    },
+  });
+
+  const revokeLink = useMutation({
+    mutationFn: (token: string) => revokeShareLink(projectId, token),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: linksKey });
+      toast.success("Link revoked");
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, "Failed to revoke link"));
+    },
+  });
+
+  return {
+    members: members.data ?? [],
+    shareLinks: shareLinks.data ?? [],
+    isLoading: members.isLoading || shareLinks.isLoading,
+    loadError: members.error || shareLinks.error,
+    invite,
+    changeRole,
+    remove,
+    createLink,
+    revokeLink,
+  };
+};
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useMemo } from "react";
+import { toast } from "sonner";
+import { useReviewStore } from "@/state/store";
+import { CameraView } from "@/lib/cameraView";
+import {
+  CommentAnchor,
+  REVIEW_POLL_INTERVAL,
+  buildThreads,
+  fetchComments,
+  postComment,
+  setCommentResolved,
+} from "@/lib/reviewComments";
+
+/**
+ * Loads the review comments of a project into the review store, refetches them periodically
+ * and posts new comments, replies and resolutions. `projectId` stays null until the project has loaded.
+ */
+export const useReviewComments = (projectId: number | null, shareToken?: string | null) => {
+  const { comments, setComments, upsertComment, setDraft, setActiveThread } = useReviewStore();
+
+  useEffect(() => {
+    setComments([]);
+    setDraft(null);
+    setActiveThread(null);
+    if (projectId === null) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const loaded = await fetchComments(projectId, shareToken);
+        if (!cancelled) setComments(loaded);
+      } catch (error) {
+        console.warn("💬 Could not load review comments:", error);
+      }
+    };
+    load();
+    const interval = setInterval(load, REVIEW_POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [projectId, shareToken, setComments, setDraft, setActiveThread]);
+
+  const threads = useMemo(() => buildThreads(comments), [comments]);
+
+  /**
+   * Start a thread at `anchor` (or a general one), or reply to thread `parent`
+   */
+  const addComment = useCallback(
+    async (body: string, camera: CameraView | null, { anchor = null, parent = null }: { anchor?: CommentAnchor | null; parent?: number | null } = {}) => {
+      if (projectId === null || !body.trim()) return false;
+      try {
+        const comment = await postComment(projectId, { body, camera, anchor, parent }, shareToken);
+        upsertComment(comment);
+        if (parent === null) setActiveThread(comment.id);
+        console.log("💬 Comment posted:", comment.id, parent ? `in thread ${parent}` : "");
+        return true;
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to post comment");
+        return false;
+      }
+    },
+    [projectId, shareToken, upsertComment, setActiveThread]
+  );
+
+  const setResolved = useCallback(
+    async (threadId: number, resolved: boolean) => {
+      if (projectId === null) return;
+      try {
+        upsertComment(await setCommentResolved(projectId, threadId, resolved, shareToken));
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to update comment");
+      }
+    },
+    [projectId, shareToken, upsertComment]
+  );
+
+  return { threads, addComment, setResolved };
+};
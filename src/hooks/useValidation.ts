@@ -0,0 +1,18 @@
+import { useMemo } from "react";
+import { validateConfiguration, ValidationResult } from "@/lib/validation";
+import { usePlacementStore } from "@/state/store";
+
+/**
+ * Live validation of the slot-placement configuration.
+ * Re-runs whenever parameters, slots or placements change.
+ */
+export const useValidation = (): ValidationResult => {
+  const params = usePlacementStore((state) => state.params);
+  const components = usePlacementStore((state) => state.components);
+  const slots = usePlacementStore((state) => state.slots);
+
+  return useMemo(
+    () => validateConfiguration(params, components, slots),
+    [params, components, slots]
+  );
+};
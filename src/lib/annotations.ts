@@ -0,0 +1,67 @@
+/**
+ * Key under which the scene annotations are stored in the project's metadata
+ */
+export const ANNOTATIONS_METADATA_KEY = "annotations";
+
+const ANNOTATIONS_VERSION = 1;
+
+/**
+ * Label height above its anchor for new annotations, in scene units
+ */
+export const DEFAULT_LABEL_OFFSET: [number, number, number] = [0, 1, 0];
+
+/**
+ * A note pinned to a point in the scene: a leader from the anchor to a text label
+ */
+export interface Annotation {
+  id: string;
+  anchor: [number, number, number]; // scene units
+  offset: [number, number, number]; // label position relative to the anchor
+  text: string;
+  partId?: string; // component the anchor was placed on
+  createdAt: string; // ISO timestamp
+}
+
+export interface SerializedAnnotations {
+  version: number;
+  items: Annotation[];
+}
+
+export function createAnnotation(anchor: [number, number, number], text: string, partId?: string): Annotation {
+  return {
+    id: `note_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    anchor,
+    offset: [...DEFAULT_LABEL_OFFSET],
+    text,
+    partId,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function serializeAnnotations(annotations: Annotation[]): SerializedAnnotations {
+  return { version: ANNOTATIONS_VERSION, items: annotations.map((a) => ({ ...a })) };
+}
+
+function isVector(value: unknown): value is [number, number, number] {
+  return Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === "number");
+}
+
+function isAnnotation(value: unknown): value is Annotation {
+  if (!value || typeof value !== "object") return false;
+  const a = value as Partial<Annotation>;
+  return typeof a.id === "string" && typeof a.text === "string" && isVector(a.anchor);
+}
+
+/**
+ * Read the annotations back from project metadata; unreadable entries are dropped
+ */
+export function deserializeAnnotations(metadata: Record<string, unknown> | null | undefined): Annotation[] {
+  const data = metadata?.[ANNOTATIONS_METADATA_KEY] as Partial<SerializedAnnotations> | undefined;
+  if (!data || !Array.isArray(data.items)) return [];
+
+  return data.items.filter(isAnnotation).map((a) => ({
+    ...a,
+    offset: isVector(a.offset) ? a.offset : [...DEFAULT_LABEL_OFFSET],
+    createdAt: typeof a.createdAt === "string" ? a.createdAt : new Date(0).toISOString(),
+  }));
+}
@@ -0,0 +1,195 @@
+import { BOMItem } from "@/types/conveyor";
+import { API_BASE } from "./config";
+import { buildBOM, parseComponentBOM } from "./bom";
+import { parseConnectors } from "./connectors";
+import { PLACEMENT_METADATA_KEY, SerializedPlacementState, deserializePlacementState } from "./placementState";
+import { ProjectSnapshot, SnapshotComponent, SnapshotDiff, diffSnapshots, parseSnapshots } from "./versionHistory";
+
+/**
+ * One side of a comparison: a project as it is now, or one of its snapshots
+ */
+export interface CompareSide {
+  label: string;
+  components: SnapshotComponent[];
+  placement: SerializedPlacementState;
+}
+
+export interface BOMDeltaLine {
+  partNumber: string;
+  description: string;
+  unitCost: number;
+  before: number; // quantity
+  after: number;
+  costDelta: number;
+}
+
+export interface BOMDelta {
+  lines: BOMDeltaLine[]; // only lines whose quantity changed
+  beforeTotal: number;
+  afterTotal: number;
+  costDelta: number;
+}
+
+export interface AssemblyComparison {
+  diff: SnapshotDiff;
+  bom: BOMDelta;
+}
+
+/**
+ * A project loaded for comparison: its current assembly and its version history
+ */
+export interface LoadedProject {
+  id: number;
+  name: string;
+  components: SnapshotComponent[];
+  placement: SerializedPlacementState | null; // null when the configurator was never saved
+  snapshots: ProjectSnapshot[];
+}
+
+function isConveyorCategory(category: string): boolean {
+  const lower = (category || "").toLowerCase();
+  return lower.includes("belt") || lower.includes("conveyor");
+}
+
+/**
+ * Size of a component in the scene, in scene units along world X, Y and Z.
+ * Conveyors are modelled with their length along X, other parts with their width along X.
+ */
+export function componentExtent(component: Pick<SnapshotComponent, "bounding_box" | "category">): [number, number, number] {
+  const { min = [], max = [] } = component.bounding_box ?? {};
+  const size = [0, 1, 2].map((i) => Math.abs((max[i] ?? 0) - (min[i] ?? 0)) / 100 || 1);
+  const [width, height, length] = size;
+  return isConveyorCategory(component.category) ? [length, height, width] : [width, height, length];
+}
+
+export function bomForSide(side: Pick<CompareSide, "components" | "placement">): BOMItem[] {
+  const placement = deserializePlacementState({ [PLACEMENT_METADATA_KEY]: side.placement });
+  return buildBOM({
+    sceneComponents: side.components,
+    placedComponents: placement?.components ?? [],
+    params: placement?.params,
+    sections: placement?.sections,
+  });
+}
+
+/**
+ * Quantity and cost changes per part number between two bills of materials
+ */
+export function diffBOM(before: BOMItem[], after: BOMItem[]): BOMDelta {
+  const parts = new Map<string, BOMDeltaLine>();
+  const line = (item: BOMItem): BOMDeltaLine => {
+    let entry = parts.get(item.partNumber);
+    if (!entry) {
+      entry = { partNumber: item.partNumber, description: item.description, unitCost: item.unitCost, before: 0, after: 0, costDelta: 0 };
+      parts.set(item.partNumber, entry);
+    }
+    return entry;
+  };
+
+  for (const item of before) {
+    const entry = line(item);
+    entry.before += item.quantity;
+    entry.costDelta -= item.totalCost;
+  }
+  for (const item of after) {
+    const entry = line(item);
+    entry.after += item.quantity;
+    entry.costDelta += item.totalCost;
+    entry.unitCost = item.unitCost;
+  }
+
+  const total = (items: BOMItem[]) => items.reduce((sum, item) => sum + item.totalCost, 0);
+  const beforeTotal = total(before);
+  const afterTotal = total(after);
+  return {
+    lines: Array.from(parts.values())
+      .filter((l) => l.before !== l.after || Math.abs(l.costDelta) > 0.005)
+      .sort((a, b) => Math.abs(b.costDelta) - Math.abs(a.costDelta)),
+    beforeTotal,
+    afterTotal,
+    costDelta: afterTotal - beforeTotal,
+  };
+}
+
+export function compareAssemblies(before: CompareSide, after: CompareSide): AssemblyComparison {
+  return {
+    diff: diffSnapshots(before, after),
+    bom: diffBOM(bomForSide(before), bomForSide(after)),
+  };
+}
+
+/**
+ * The parts of an `/api/assembly-items/` entry a comparison reads
+ */
+interface AssemblyItemResponse {
+  id: number;
+  component_id?: number;
+  custom_name?: string;
+  position_x?: number;
+  position_y?: number;
+  position_z?: number;
+  rotation_x?: number;
+  rotation_y?: number;
+  rotation_z?: number;
+  metadata?: { bounding_box?: SnapshotComponent["bounding_box"]; center?: number[]; groupId?: string | null };
+  component?: {
+    id: number;
+    name?: string;
+    category?: string;
+    category_label?: string;
+    glb_url?: string;
+    glb_file_url?: string;
+    original_url?: string;
+    original_file_url?: string;
+    bounding_box?: SnapshotComponent["bounding_box"];
+    center?: number[];
+    metadata?: Record<string, unknown>;
+  };
+}
+
+function componentFromItem(item: AssemblyItemResponse): SnapshotComponent {
+  const component = item.component;
+  return {
+    id: `comp-${item.id}`,
+    componentId: component?.id ?? item.component_id ?? 0,
+    name: item.custom_name || component?.name || "Unnamed Component",
+    category: component?.category_label || component?.category || "",
+    glb_url: component?.glb_url || component?.glb_file_url || null,
+    original_url: component?.original_url || component?.original_file_url || null,
+    bounding_box: item.metadata?.bounding_box || component?.bounding_box,
+    center: item.metadata?.center || component?.center,
+    position: [item.position_x || 0, item.position_y || 0, item.position_z || 0],
+    rotation: [item.rotation_x || 0, item.rotation_y || 0, item.rotation_z || 0],
+    groupId: item.metadata?.groupId || null,
+    connectors: parseConnectors(component?.metadata),
+    bom: parseComponentBOM(component?.metadata),
+  };
+}
+
+/**
+ * Fetch a project's saved assembly and version history
+ */
+export async function loadProjectAssembly(projectId: number): Promise<LoadedProject> {
+  const projectRes = await fetch(`${API_BASE}/api/projects/${projectId}/`, { credentials: "include" });
+  if (!projectRes.ok) throw new Error(`Failed to load project ${projectId}`);
+  const project = await projectRes.json();
+
+  const itemsRes = await fetch(`${API_BASE}/api/assembly-items/?project_id=${projectId}`, { credentials: "include" });
+  if (!itemsRes.ok) throw new Error(`Failed to load the assembly of ${project.name || projectId}`);
+  const itemsData = await itemsRes.json();
+  const items: AssemblyItemResponse[] = Array.isArray(itemsData) ? itemsData : itemsData.results || [];
+
+  const seen = new Set<number>();
+  const components = items
+    .filter((item) => item.id !== undefined && !seen.has(item.id) && !!seen.add(item.id))
+    .map(componentFromItem);
+
+  const metadata = project.metadata || {};
+  return {
+    id: project.id,
+    name: project.name || `Project ${project.id}`,
+    components,
+    placement: (metadata[PLACEMENT_METADATA_KEY] as SerializedPlacementState | undefined) ?? null,
+    snapshots: parseSnapshots(metadata),
+  };
+}
@@ -0,0 +1,163 @@
+import { ExplodableComponent, explosionClusters } from "./explodedView";
+
+type Vec3 = [number, number, number];
+
+/**
+ * Key under which the assembly sequence is stored in the project's metadata
+ */
+export const ASSEMBLY_SEQUENCE_METADATA_KEY = "assemblySequence";
+
+const ASSEMBLY_SEQUENCE_VERSION = 1;
+
+/**
+ * Playback timing: how long each step is shown (ms), and where its parts fly in from,
+ * relative to their place in the assembly (scene units)
+ */
+export const SEQUENCE_STEP_DURATION = 3000;
+export const STEP_ENTER_FROM: Vec3 = [0, 3, 0];
+
+/**
+ * How long a step is left to settle before it is captured for the manual (ms)
+ */
+export const STEP_CAPTURE_DELAY = 900;
+
+/**
+ * One installation step: the scene components fitted in it, with a title and an instruction
+ */
+export interface AssemblyStep {
+  id: string;
+  title: string;
+  note: string;
+  componentIds: string[];
+}
+
+export interface SerializedAssemblySequence {
+  version: number;
+  items: AssemblyStep[]; // in installation order
+}
+
+export function createAssemblyStep(componentIds: string[], title: string, note = ""): AssemblyStep {
+  return {
+    id: `step_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    title,
+    note,
+    componentIds: [...componentIds],
+  };
+}
+
+export function serializeAssemblySequence(steps: AssemblyStep[]): SerializedAssemblySequence {
+  return { version: ASSEMBLY_SEQUENCE_VERSION, items: steps.map((s) => ({ ...s, componentIds: [...s.componentIds] })) };
+}
+
+/**
+ * Read the sequence back from project metadata; unreadable steps are dropped
+ */
+export function deserializeAssemblySequence(metadata: Record<string, unknown> | null | undefined): AssemblyStep[] {
+  const data = metadata?.[ASSEMBLY_SEQUENCE_METADATA_KEY] as Partial<SerializedAssemblySequence> | undefined;
+  if (!data || !Array.isArray(data.items)) return [];
+
+  return data.items
+    .filter((s): s is AssemblyStep => !!s && typeof s.id === "string" && Array.isArray(s.componentIds))
+    .map((s) => ({
+      id: s.id,
+      title: typeof s.title === "string" ? s.title : "",
+      note: typeof s.note === "string" ? s.note : "",
+      componentIds: s.componentIds.filter((id): id is string => typeof id === "string"),
+    }));
+}
+
+/**
+ * The sequence without components that are no longer in the scene, and without steps left empty
+ */
+export function pruneSequence(steps: AssemblyStep[], componentIds: string[]): AssemblyStep[] {
+  const existing = new Set(componentIds);
+  return steps
+    .map((s) => ({ ...s, componentIds: s.componentIds.filter((id) => existing.has(id)) }))
+    .filter((s) => s.componentIds.length > 0);
+}
+
+/**
+ * Scene components that are not fitted in any step yet, in scene order
+ */
+export function unsequencedComponentIds(steps: AssemblyStep[], componentIds: string[]): string[] {
+  const sequenced = new Set(steps.flatMap((s) => s.componentIds));
+  return componentIds.filter((id) => !sequenced.has(id));
+}
+
+/**
+ * Add components as a new step, taking them out of the steps they were in before
+ */
+export function addAssemblyStep(steps: AssemblyStep[], step: AssemblyStep): AssemblyStep[] {
+  const moved = new Set(step.componentIds);
+  return [
+    ...steps.map((s) => ({ ...s, componentIds: s.componentIds.filter((id) => !moved.has(id)) })).filter((s) => s.componentIds.length > 0),
+    step,
+  ];
+}
+
+/**
+ * A starting point for the sequence: each group or link chain is fitted in one step,
+ * ordered along the line, followed by a step with the loose components
+ */
+export function suggestAssemblySequence(
+  components: (ExplodableComponent & { name?: string })[]
+): AssemblyStep[] {
+  const byId = new Map(components.map((c) => [c.id, c]));
+  const minX = (ids: string[]) => Math.min(...ids.map((id) => byId.get(id)!.position[0]));
+  const clusters = explosionClusters(components).sort((a, b) => minX(a) - minX(b));
+
+  const steps = clusters.map((ids, index) =>
+    createAssemblyStep(ids, `Sub-assembly ${index + 1}`, ids.map((id) => byId.get(id)!.name ?? id).join(", "))
+  );
+  const loose = unsequencedComponentIds(steps, components.map((c) => c.id));
+  if (loose.length > 0) steps.push(createAssemblyStep(loose, steps.length > 0 ? "Remaining parts" : "All parts"));
+  return steps;
+}
+
+/**
+ * What playback shows at step `index`: parts of later steps and parts outside the sequence are hidden,
+ * and the parts of the step itself fly in
+ */
+export function stepVisibility(
+  steps: AssemblyStep[],
+  componentIds: string[],
+  index: number
+): { hidden: Set<string>; entering: Set<string> } {
+  const fitted = new Set(steps.slice(0, index + 1).flatMap((s) => s.componentIds));
+  return {
+    hidden: new Set(componentIds.filter((id) => !fitted.has(id))),
+    entering: new Set(steps[index]?.componentIds ?? []),
+  };
+}
+
+/**
+ * Frame a captured step for the installation manual: step number and title above the picture,
+ * the instruction below it
+ */
+export async function annotateStepImage(image: Blob, number: number, total: number, step: AssemblyStep): Promise<Blob> {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.max(1, bitmap.width / 1200);
+  const header = Math.round(56 * scale);
+  const footer = step.note ? Math.round(44 * scale) : 0;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height + header + footer;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return image;
+
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, header);
+  ctx.fillStyle = "#111827";
+  ctx.textBaseline = "middle";
+  ctx.font = `600 ${Math.round(26 * scale)}px sans-serif`;
+  ctx.fillText(`Step ${number} of ${total}${step.title ? `: ${step.title}` : ""}`, 20 * scale, header / 2);
+  if (step.note) {
+    ctx.font = `${Math.round(18 * scale)}px sans-serif`;
+    ctx.fillText(step.note, 20 * scale, header + bitmap.height + footer / 2, canvas.width - 40 * scale);
+  }
+  bitmap.close();
+
+  return new Promise((resolve) => canvas.toBlob((blob) => resolve(blob ?? image), "image/png"));
+}
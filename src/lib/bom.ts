@@ -0,0 +1,298 @@
+import { BOMItem } from "@/types/conveyor";
+import { ConveyorParams, LineSection, PlacedComponent, SlotType } from "./types";
+import { LibraryKey, getComponentMeta } from "./componentLibrary";
+import { calculateDimensions, validateSideGuideHeight } from "./params";
+import { formatPartTemplate, priceLengthStock } from "./pricing";
+import { getMotorSpec } from "./driveSizing";
+
+/**
+ * Minimal shape of a free-placed scene component needed for BOM generation
+ */
+export interface BOMSceneComponent {
+  id: string;
+  componentId: number;
+  name: string;
+  category: string;
+  bounding_box?: { min?: number[]; max?: number[] } | null;
+  bom?: ComponentBOMFields; // entered when the part was uploaded
+}
+
+/**
+ * BOM fields of an uploaded library part, kept under `bom` in its metadata
+ */
+export interface ComponentBOMFields {
+  partNumber: string;
+  description: string;
+  material: string;
+  unitCost: number;
+}
+
+export const BOM_METADATA_KEY = "bom";
+
+/**
+ * Read an uploaded part's BOM fields from its metadata; parts without a part number have none
+ */
+export function parseComponentBOM(metadata: unknown): ComponentBOMFields | undefined {
+  const bom = (metadata as Record<string, unknown> | null | undefined)?.[BOM_METADATA_KEY] as
+    | Partial<ComponentBOMFields>
+    | undefined;
+  if (!bom || typeof bom.partNumber !== "string" || !bom.partNumber.trim()) return undefined;
+
+  return {
+    partNumber: bom.partNumber.trim(),
+    description: typeof bom.description === "string" ? bom.description : "",
+    material: typeof bom.material === "string" ? bom.material : "",
+    unitCost: Number(bom.unitCost) || 0,
+  };
+}
+
+export interface BOMSource {
+  sceneComponents: BOMSceneComponent[];
+  placedComponents: PlacedComponent[];
+  params?: ConveyorParams;
+  sections?: LineSection[];
+}
+
+/**
+ * Library entries used for each slot type
+ */
+export const SLOT_LIBRARY_KEYS: Record<SlotType, LibraryKey> = {
+  ENGINE_MOUNT: "motor",
+  STOP_BUTTON: "stop-button",
+  SENSOR: "sensor",
+  SIDE_GUIDE_BRACKET: "side-guide-bracket",
+  WHEEL: "wheel",
+  FRAME_LEG: "frame-leg",
+};
+
+/**
+ * Keyword rules for mapping backend category/name strings to library entries.
+ * Order matters: the first matching rule wins.
+ */
+const CATEGORY_RULES: Array<{ key: LibraryKey; keywords: string[] }> = [
+  { key: "drive-unit", keywords: ["drive unit", "drive-unit", "reducer", "redactor", "gearbox"] },
+  { key: "motor", keywords: ["motor", "engine"] },
+  { key: "stop-button", keywords: ["stop button", "stop-button", "e-stop", "emergency stop"] },
+  { key: "sensor", keywords: ["sensor"] },
+  { key: "wheel", keywords: ["wheel", "caster"] },
+  { key: "frame-leg", keywords: ["frame leg", "leg"] },
+  { key: "side-guide-bracket", keywords: ["side guide bracket", "guide bracket"] },
+  { key: "side-guide", keywords: ["side guide", "side-guide", "guide rail"] },
+  { key: "roller", keywords: ["roller"] },
+  { key: "frame", keywords: ["frame"] },
+  { key: "belt", keywords: ["belt"] },
+];
+
+const RULE_PATTERNS = CATEGORY_RULES.map((rule) => ({
+  key: rule.key,
+  patterns: rule.keywords.map((keyword) => new RegExp(`\\b${keyword}s?\\b`)),
+}));
+
+/**
+ * Resolve a backend component category/name to a library entry.
+ * Keywords match whole words (plurals included), so "leg" does not match "legacy".
+ */
+export function resolveLibraryKey(category: string, name: string): LibraryKey | null {
+  const haystack = `${category || ""} ${name || ""}`.toLowerCase();
+  const rule = RULE_PATTERNS.find((r) => r.patterns.some((p) => p.test(haystack)));
+  return rule ? rule.key : null;
+}
+
+type BOMLine = Omit<BOMItem, "id" | "quantity" | "totalCost">;
+
+/**
+ * Library parts that make up the conveyor body and are priced by length
+ */
+const CONVEYOR_LENGTH_KEYS: LibraryKey[] = ["belt", "frame", "side-guide"];
+
+function lineFromLibrary(key: LibraryKey): BOMLine | null {
+  const bom = getComponentMeta(key).bom;
+  if (!bom) return null;
+  return {
+    partNumber: bom.partNumber,
+    description: bom.description,
+    material: bom.material,
+    unitCost: bom.unitCost,
+  };
+}
+
+/**
+ * BOM line for a length-priced part, with part number and cost derived from the parameters
+ */
+export function lengthBasedLine(key: LibraryKey, params: ConveyorParams): BOMLine | null {
+  const bom = getComponentMeta(key).bom;
+  if (!bom) return null;
+  if (!bom.lengthPricing) return lineFromLibrary(key);
+
+  return {
+    partNumber: formatPartTemplate(bom.lengthPricing.partNumber, params),
+    description: formatPartTemplate(bom.lengthPricing.description, params),
+    material: bom.material,
+    unitCost: priceLengthStock(bom.lengthPricing, params),
+  };
+}
+
+/**
+ * Length-priced lines (belt, frame profile, side guides) for one conveyor
+ */
+export function getConveyorLines(params: ConveyorParams): BOMLine[] {
+  const hasSideGuides =
+    params.sideGuideEnabled &&
+    !!params.sideGuideHeight &&
+    validateSideGuideHeight(params.sideGuideHeight).valid;
+
+  return CONVEYOR_LENGTH_KEYS
+    .filter((key) => key !== "side-guide" || hasSideGuides)
+    .map((key) => lengthBasedLine(key, params))
+    .filter((line): line is BOMLine => line !== null);
+}
+
+/**
+ * Conveyor parameters for a free-placed conveyor, taking D/R from its bounding box (mm)
+ * and the model and options from the configurator
+ */
+export function conveyorParamsForComponent(component: BOMSceneComponent, params: ConveyorParams): ConveyorParams {
+  const box = component.bounding_box;
+  if (!box?.min || !box?.max) return params;
+
+  const R = Math.round(Math.abs((box.max[0] || 0) - (box.min[0] || 0)));
+  const D = Math.round(Math.abs((box.max[2] || 0) - (box.min[2] || 0)));
+  if (R <= 0 || D <= 0) return params;
+
+  // Invert D = L + offset and R = N + 67 for the selected model
+  const offsets = calculateDimensions(0, 0, params.model);
+  return { ...params, D, R, L: Math.max(D - offsets.D, 0), N: Math.max(R - offsets.R, 0) };
+}
+
+function lineForSceneComponent(component: BOMSceneComponent): BOMLine {
+  if (component.bom) {
+    return {
+      partNumber: component.bom.partNumber,
+      description: component.bom.description || component.name,
+      material: component.bom.material || component.category || "N/A",
+      unitCost: component.bom.unitCost,
+    };
+  }
+
+  const key = resolveLibraryKey(component.category, component.name);
+  const line = key ? lineFromLibrary(key) : null;
+  if (line) return line;
+
+  // Unknown parts keep a backend-derived part number so they still show up in the BOM, flagged as unpriced
+  return {
+    partNumber: `COMP-${component.componentId}`,
+    description: component.name,
+    material: component.category || "N/A",
+    unitCost: 0,
+    unpriced: true,
+  };
+}
+
+function linesForPlacedComponent(component: PlacedComponent, params?: ConveyorParams): BOMLine[] {
+  const lines: BOMLine[] = [];
+  const motorId = params?.drive?.motorId;
+
+  if (component.type === "ENGINE_MOUNT" && motorId) {
+    // A motor picked by the drive sizing replaces the library default
+    const motor = getMotorSpec(motorId);
+    lines.push({
+      partNumber: motor.id,
+      description: `${motor.name}, ${motor.description}`,
+      material: lineFromLibrary("motor")?.material ?? "N/A",
+      unitCost: motor.unitCost,
+    });
+  } else {
+    const line = lineFromLibrary(SLOT_LIBRARY_KEYS[component.type]);
+    if (line) lines.push(line);
+  }
+
+  // Redactor engines ship with a gear reducer
+  if (component.type === "ENGINE_MOUNT" && params?.engineType === "REDACTOR") {
+    const reducer = lineFromLibrary("drive-unit");
+    if (reducer) lines.push(reducer);
+  }
+
+  return lines;
+}
+
+/**
+ * Merge BOM lines with identical part numbers into quantities
+ */
+export function mergeBOMLines(lines: Array<BOMLine & { quantity?: number }>): BOMItem[] {
+  const merged = new Map<string, BOMItem>();
+
+  for (const line of lines) {
+    const quantity = line.quantity ?? 1;
+    const existing = merged.get(line.partNumber);
+    if (existing) {
+      existing.quantity += quantity;
+      existing.totalCost = existing.unitCost * existing.quantity;
+    } else {
+      merged.set(line.partNumber, {
+        id: line.partNumber,
+        partNumber: line.partNumber,
+        description: line.description,
+        material: line.material,
+        unitCost: line.unitCost,
+        quantity,
+        totalCost: line.unitCost * quantity,
+        ...(line.unpriced ? { unpriced: true } : {}),
+      });
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Lines for every section of a multi-section conveyor line
+ */
+function linesForSections(sections: LineSection[]): BOMLine[] {
+  return sections.flatMap((section) => {
+    const lines = [
+      ...getConveyorLines(section.params),
+      ...section.components.flatMap((c) => linesForPlacedComponent(c, section.params)),
+    ];
+
+    // Transfers bridge the gap to the next conveyor with a dead plate
+    if (section.kind === "TRANSFER") {
+      const plate = lineFromLibrary("transfer");
+      if (plate) lines.push(plate);
+    }
+    return lines;
+  });
+}
+
+/**
+ * Build the bill of materials from the free-placed scene and the slot placements.
+ * A line with several sections is quoted section by section.
+ */
+export function buildBOM({ sceneComponents, placedComponents, params, sections }: BOMSource): BOMItem[] {
+  const lines: BOMLine[] = [];
+  let conveyorCount = 0;
+  const isLine = !!sections && sections.length > 1;
+
+  for (const component of sceneComponents) {
+    const isConveyor = !component.bom && resolveLibraryKey(component.category, component.name) === "belt";
+    if (isConveyor && params) {
+      // Conveyors are quoted from their length-based parts instead of a flat assembly price
+      lines.push(...getConveyorLines(conveyorParamsForComponent(component, params)));
+      conveyorCount++;
+    } else {
+      lines.push(lineForSceneComponent(component));
+    }
+  }
+
+  if (isLine) {
+    lines.push(...linesForSections(sections));
+    return mergeBOMLines(lines);
+  }
+
+  // Slot placements imply the configured conveyor even if it isn't in the scene
+  if (params && placedComponents.length > 0 && conveyorCount === 0) {
+    lines.push(...getConveyorLines(params));
+  }
+
+  lines.push(...placedComponents.flatMap((c) => linesForPlacedComponent(c, params)));
+  return mergeBOMLines(lines);
+}
@@ -0,0 +1,162 @@
+import ExcelJS from "exceljs";
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { BOMItem } from "@/types/conveyor";
+import { downloadBlob, slugify } from "@/lib/utils";
+
+export type BOMExportFormat = "csv" | "xlsx" | "pdf";
+
+export interface BOMExportOptions {
+  projectName: string;
+  date?: Date;
+}
+
+const BOM_COLUMNS = ["Part #", "Description", "Qty", "Material", "Unit Cost", "Total Cost"];
+
+/**
+ * Total cost of all BOM lines
+ */
+export function getBOMTotal(items: BOMItem[]): number {
+  return items.reduce((sum, item) => sum + item.totalCost, 0);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Build a file name like "my-project-bom-2024-01-31.csv"
+ */
+function buildFileName(projectName: string, date: Date, extension: string): string {
+  return `${slugify(projectName)}-bom-${formatDate(date)}.${extension}`;
+}
+
+/**
+ * Build the BOM as rows of cells: header block, item table and total line
+ */
+function buildRows(items: BOMItem[], options: BOMExportOptions): (string | number)[][] {
+  const date = options.date ?? new Date();
+  return [
+    ["Project", options.projectName],
+    ["Date", formatDate(date)],
+    [],
+    BOM_COLUMNS,
+    ...items.map((item) => [
+      item.partNumber,
+      item.description,
+      item.quantity,
+      item.material,
+      Number(item.unitCost.toFixed(2)),
+      Number(item.totalCost.toFixed(2)),
+    ]),
+    [],
+    ["Total Project Cost", "", "", "", "", Number(getBOMTotal(items).toFixed(2))],
+  ];
+}
+
+/**
+ * Escape a single CSV cell (quotes, commas and newlines)
+ */
+function escapeCsvCell(value: string | number | undefined): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Serialize the BOM to CSV text
+ */
+export function bomToCSV(items: BOMItem[], options: BOMExportOptions): string {
+  return buildRows(items, options)
+    .map((row) => row.map(escapeCsvCell).join(","))
+    .join("\r\n");
+}
+
+/**
+ * Download the BOM as a CSV file
+ */
+export function exportBOMToCSV(items: BOMItem[], options: BOMExportOptions) {
+  const date = options.date ?? new Date();
+  // Prefix with a BOM so Excel picks up UTF-8 encoding
+  const blob = new Blob(["\uFEFF" + bomToCSV(items, { ...options, date })], {
+    type: "text/csv;charset=utf-8",
+  });
+  downloadBlob(blob, buildFileName(options.projectName, date, "csv"));
+}
+
+/**
+ * Download the BOM as an XLSX workbook
+ */
+export async function exportBOMToXLSX(items: BOMItem[], options: BOMExportOptions) {
+  const date = options.date ?? new Date();
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("BOM");
+  sheet.addRows(buildRows(items, { ...options, date }));
+  [18, 40, 6, 20, 12, 12].forEach((width, index) => {
+    sheet.getColumn(index + 1).width = width;
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  downloadBlob(blob, buildFileName(options.projectName, date, "xlsx"));
+}
+
+/**
+ * Download the BOM as a printable PDF quote
+ */
+export function exportBOMToPDF(items: BOMItem[], options: BOMExportOptions) {
+  const date = options.date ?? new Date();
+  const doc = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+
+  doc.setFontSize(18);
+  doc.text("Quotation - Bill of Materials", 14, 20);
+  doc.setFontSize(11);
+  doc.text(`Project: ${options.projectName}`, 14, 30);
+  doc.text(`Date: ${formatDate(date)}`, 14, 36);
+
+  autoTable(doc, {
+    startY: 44,
+    head: [BOM_COLUMNS],
+    body: items.map((item) => [
+      item.partNumber,
+      item.description,
+      String(item.quantity),
+      item.material,
+      `$${item.unitCost.toFixed(2)}`,
+      `$${item.totalCost.toFixed(2)}`,
+    ]),
+    foot: [["Total Project Cost", "", "", "", "", `$${getBOMTotal(items).toFixed(2)}`]],
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [0, 180, 216] },
+    footStyles: { fillColor: [240, 240, 240], textColor: 20, fontStyle: "bold" },
+    columnStyles: {
+      2: { halign: "center" },
+      4: { halign: "right" },
+      5: { halign: "right" },
+    },
+  });
+
+  doc.save(buildFileName(options.projectName, date, "pdf"));
+}
+
+/**
+ * Export the BOM in the requested format
+ */
+export async function exportBOM(format: BOMExportFormat, items: BOMItem[], options: BOMExportOptions) {
+  switch (format) {
+    case "csv":
+      exportBOMToCSV(items, options);
+      break;
+    case "xlsx":
+      await exportBOMToXLSX(items, options);
+      break;
+    case "pdf":
+      exportBOMToPDF(items, options);
+      break;
+  }
+}
@@ -0,0 +1,77 @@
+type Vec3 = [number, number, number];
+
+/**
+ * Key under which the saved camera views are stored in the project's metadata
+ */
+export const CAMERA_VIEWS_METADATA_KEY = "cameraViews";
+
+const CAMERA_VIEWS_VERSION = 1;
+
+/**
+ * How long the presentation stays on a view before moving on (ms), and how long the camera takes to get there (s)
+ */
+export const PRESENTATION_HOLD = 6000;
+export const PRESENTATION_FLIGHT = 1.5;
+
+/**
+ * Where the camera is and what it orbits around, in scene units
+ */
+export interface CameraView {
+  position: Vec3;
+  target: Vec3;
+}
+
+/**
+ * A named camera bookmark; the caption is shown while presenting it
+ */
+export interface SavedView {
+  id: string;
+  name: string;
+  caption: string;
+  view: CameraView;
+  createdAt: string; // ISO timestamp
+}
+
+export interface SerializedCameraViews {
+  version: number;
+  items: SavedView[]; // in presentation order
+}
+
+function isVec3(value: unknown): value is Vec3 {
+  return Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === "number" && isFinite(n));
+}
+
+export function isCameraView(value: unknown): value is CameraView {
+  const view = value as CameraView | null;
+  return !!view && typeof view === "object" && isVec3(view.position) && isVec3(view.target);
+}
+
+export function createSavedView(name: string, view: CameraView, caption = ""): SavedView {
+  return {
+    id: `view_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    name,
+    caption,
+    view: { position: [...view.position], target: [...view.target] },
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function serializeCameraViews(views: SavedView[]): SerializedCameraViews {
+  return { version: CAMERA_VIEWS_VERSION, items: views.map((v) => ({ ...v })) };
+}
+
+/**
+ * Read the saved views back from project metadata; unreadable entries are dropped
+ */
+export function deserializeCameraViews(metadata: Record<string, unknown> | null | undefined): SavedView[] {
+  const data = metadata?.[CAMERA_VIEWS_METADATA_KEY] as Partial<SerializedCameraViews> | undefined;
+  if (!data || !Array.isArray(data.items)) return [];
+
+  return data.items
+    .filter((v): v is SavedView => !!v && typeof v.id === "string" && typeof v.name === "string" && isCameraView(v.view))
+    .map((v) => ({
+      ...v,
+      caption: typeof v.caption === "string" ? v.caption : "",
+      createdAt: typeof v.createdAt === "string" ? v.createdAt : new Date(0).toISOString(),
+    }));
+}
@@ -0,0 +1,122 @@
+import { COLLAB_WS_URL } from "./config";
+import { SnapshotComponent, toSnapshotComponent } from "./versionHistory";
+
+/**
+ * Live collaboration protocol, shared with the stand-in server in `scripts/collab-server.mjs`.
+ *
+ * Everyone in a project room sees who else is there and what they have selected. Selecting components
+ * claims them: the server refuses other clients' selections and edits of claimed components and asks the
+ * owner to resend them, so a rejected edit is rolled back. Scene edits travel as whole components
+ * (`upsert`) or ids (`remove`); the REST save stays the source of truth.
+ */
+
+export const COLLAB_RECONNECT_DELAY = 2000; // ms, doubled after each failed attempt
+export const COLLAB_MAX_RECONNECT_DELAY = 30000;
+
+const PEER_COLORS = ["#f97316", "#a855f7", "#14b8a6", "#ec4899", "#eab308", "#6366f1", "#84cc16", "#06b6d4"];
+
+export interface CollabPeer {
+  clientId: string;
+  name: string;
+  selection: string[]; // component ids this peer has claimed
+  readonly?: boolean;
+}
+
+export type CollabOp =
+  | { type: "upsert"; components: SnapshotComponent[] }
+  | { type: "remove"; ids: string[] };
+
+export type ClientMessage =
+  | { type: "join"; name: string; readonly: boolean }
+  | { type: "select"; ids: string[] }
+  | { type: "op"; op: CollabOp };
+
+export type ServerMessage =
+  | { type: "welcome"; clientId: string; peers: CollabPeer[]; locks: Record<string, string> }
+  | { type: "presence"; peers: CollabPeer[]; locks: Record<string, string> }
+  | { type: "op"; from: string; op: CollabOp }
+  | { type: "denied"; ids: string[]; owner: string } // selection refused, `owner` is the peer's name
+  | { type: "rejected"; ids: string[]; owner: string } // edit refused, the owner resends the components
+  | { type: "resync"; ids: string[] }; // send your current version of these components to the room
+
+export function collabUrl(projectId: number): string {
+  const separator = COLLAB_WS_URL.includes("?") ? "&" : "?";
+  return `${COLLAB_WS_URL}${separator}project=${projectId}`;
+}
+
+/**
+ * Stable colour for a peer, used for their presence badge and selection outline
+ */
+export function peerColor(clientId: string): string {
+  let hash = 0;
+  for (let i = 0; i < clientId.length; i++) {
+    hash = (hash * 31 + clientId.charCodeAt(i)) | 0;
+  }
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
+
+export function peerInitials(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return "?";
+  return parts.length === 1 ? parts[0].slice(0, 2).toUpperCase() : (parts[0][0] + parts[1][0]).toUpperCase();
+}
+
+/**
+ * Only components the backend knows are shared; ones added offline follow once they have a backend id
+ */
+export function isShareable(component: SnapshotComponent): boolean {
+  return /^comp-\d+$/.test(component.id);
+}
+
+function componentKey(component: SnapshotComponent): string {
+  return JSON.stringify(toSnapshotComponent(component));
+}
+
+/**
+ * What the room has last seen of each shared component
+ */
+export function sceneKeys(components: SnapshotComponent[]): Map<string, string> {
+  return new Map(components.filter(isShareable).map((c) => [c.id, componentKey(c)]));
+}
+
+/**
+ * Edits since the room last saw the scene
+ */
+export function diffScene(seen: Map<string, string>, components: SnapshotComponent[]): CollabOp[] {
+  const current = sceneKeys(components);
+  const changed = components.filter((c) => current.has(c.id) && seen.get(c.id) !== current.get(c.id));
+  const removed = Array.from(seen.keys()).filter((id) => !current.has(id));
+
+  const ops: CollabOp[] = [];
+  if (changed.length > 0) ops.push({ type: "upsert", components: changed.map(toSnapshotComponent) });
+  if (removed.length > 0) ops.push({ type: "remove", ids: removed });
+  return ops;
+}
+
+export function applyCollabOp<T extends SnapshotComponent>(components: T[], op: CollabOp): T[] {
+  if (op.type === "remove") {
+    const ids = new Set(op.ids);
+    return components.filter((c) => !ids.has(c.id));
+  }
+  // Every shared field is replaced, also the ones the sender has cleared
+  const incoming = new Map(op.components.map((c) => [c.id, toSnapshotComponent(c)]));
+  const updated = components.map((c) => (incoming.has(c.id) ? ({ ...c, ...incoming.get(c.id) } as T) : c));
+  const existing = new Set(components.map((c) => c.id));
+  const added = Array.from(incoming.values()).filter((c) => !existing.has(c.id));
+  return [...updated, ...(added as T[])];
+}
+
+/**
+ * Record an op in the keys the room has seen, so applying it locally is not echoed back
+ */
+export function applyOpToKeys(seen: Map<string, string>, op: CollabOp): void {
+  if (op.type === "remove") {
+    op.ids.forEach((id) => seen.delete(id));
+  } else {
+    op.components.filter(isShareable).forEach((c) => seen.set(c.id, componentKey(c)));
+  }
+}
+
+export function opComponentIds(op: CollabOp): string[] {
+  return op.type === "remove" ? op.ids : op.components.map((c) => c.id);
+}
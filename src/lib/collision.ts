@@ -0,0 +1,253 @@
+import * as THREE from "three";
+import { EXPORT_COMPONENT_KEY, SCENE_TO_MM, isHelperObject } from "./sceneExport";
+
+/**
+ * Two scene components occupying the same space
+ */
+export interface Clash {
+  id: string;
+  a: string; // component ids
+  b: string;
+  depth: number; // overlap along the shallowest axis, mm
+  confirmed: boolean; // meshes checked and found to intersect (otherwise only the bounding boxes overlap)
+}
+
+/**
+ * A part taking part in the check, with the parts it is allowed to overlap (e.g. locked links)
+ */
+export interface CollisionPart {
+  id: string;
+  object: THREE.Object3D;
+  allowed?: string[];
+}
+
+/**
+ * Overlap below this is treated as parts touching, not clashing (scene units, 0.5 mm)
+ */
+export const CLASH_TOLERANCE = 0.005;
+
+/**
+ * Triangle pairs a mesh check may test before it gives up and keeps the bounding box result
+ */
+const MAX_TRIANGLE_PAIRS = 200_000;
+
+/**
+ * Triangles a containment check may cast its ray against before it gives up
+ */
+const MAX_INSIDE_TRIANGLES = 20_000;
+
+/**
+ * Root objects of the free-placed scene components, without descending into them
+ */
+export function findComponentRoots(scene: THREE.Object3D): Map<string, THREE.Object3D> {
+  const roots = new Map<string, THREE.Object3D>();
+  const visit = (object: THREE.Object3D) => {
+    const id = object.userData[EXPORT_COMPONENT_KEY];
+    if (typeof id === "string") {
+      if (object.visible) roots.set(id, object);
+      return;
+    }
+    object.children.forEach(visit);
+  };
+  visit(scene);
+  return roots;
+}
+
+/**
+ * Visible meshes of a part, skipping gizmos, outlines and other helpers
+ */
+export function getPartMeshes(root: THREE.Object3D): THREE.Mesh[] {
+  const meshes: THREE.Mesh[] = [];
+  const visit = (object: THREE.Object3D) => {
+    if (!object.visible || isHelperObject(object)) return;
+    if (object instanceof THREE.Mesh && object.geometry?.getAttribute("position")) {
+      meshes.push(object);
+    }
+    object.children.forEach(visit);
+  };
+  visit(root);
+  return meshes;
+}
+
+function meshBox(mesh: THREE.Mesh): THREE.Box3 {
+  if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+  return mesh.geometry.boundingBox!.clone().applyMatrix4(mesh.matrixWorld);
+}
+
+/**
+ * World-space bounding box of a part's meshes
+ */
+export function computePartBox(root: THREE.Object3D): THREE.Box3 {
+  root.updateWorldMatrix(true, true);
+  const box = new THREE.Box3();
+  getPartMeshes(root).forEach((mesh) => box.union(meshBox(mesh)));
+  return box;
+}
+
+/**
+ * Overlap of two boxes along their shallowest axis; zero or less when they are apart
+ */
+export function overlapDepth(a: THREE.Box3, b: THREE.Box3): number {
+  if (a.isEmpty() || b.isEmpty()) return 0;
+  return Math.min(
+    Math.min(a.max.x, b.max.x) - Math.max(a.min.x, b.min.x),
+    Math.min(a.max.y, b.max.y) - Math.max(a.min.y, b.min.y),
+    Math.min(a.max.z, b.max.z) - Math.max(a.min.z, b.min.z)
+  );
+}
+
+interface WorldTriangle {
+  triangle: THREE.Triangle;
+  box: THREE.Box3;
+}
+
+/**
+ * World-space triangles of the meshes that reach into the region
+ */
+function collectTriangles(meshes: THREE.Mesh[], region: THREE.Box3): WorldTriangle[] {
+  const result: WorldTriangle[] = [];
+  for (const mesh of meshes) {
+    if (!meshBox(mesh).intersectsBox(region)) continue;
+
+    const position = mesh.geometry.getAttribute("position");
+    const index = mesh.geometry.index;
+    const count = index ? index.count : position.count;
+    const vertex = (i: number) =>
+      new THREE.Vector3().fromBufferAttribute(position, index ? index.getX(i) : i).applyMatrix4(mesh.matrixWorld);
+
+    for (let i = 0; i + 2 < count; i += 3) {
+      const triangle = new THREE.Triangle(vertex(i), vertex(i + 1), vertex(i + 2));
+      const box = new THREE.Box3().setFromPoints([triangle.a, triangle.b, triangle.c]);
+      if (box.intersectsBox(region)) result.push({ triangle, box });
+    }
+  }
+  return result;
+}
+
+const ray = new THREE.Ray();
+const hitPoint = new THREE.Vector3();
+
+function segmentHitsTriangle(from: THREE.Vector3, to: THREE.Vector3, triangle: THREE.Triangle): boolean {
+  const length = from.distanceTo(to);
+  if (length === 0) return false;
+  ray.set(from, to.clone().sub(from).divideScalar(length));
+  return !!ray.intersectTriangle(triangle.a, triangle.b, triangle.c, false, hitPoint) && from.distanceTo(hitPoint) <= length;
+}
+
+/**
+ * Two (non-coplanar) triangles intersect when an edge of one passes through the other
+ */
+function trianglesIntersect(t1: THREE.Triangle, t2: THREE.Triangle): boolean {
+  const edges = (t: THREE.Triangle) => [
+    [t.a, t.b],
+    [t.b, t.c],
+    [t.c, t.a],
+  ];
+  return (
+    edges(t1).some(([p, q]) => segmentHitsTriangle(p, q, t2)) ||
+    edges(t2).some(([p, q]) => segmentHitsTriangle(p, q, t1))
+  );
+}
+
+/**
+ * Whether a point lies inside a closed mesh, by counting surface crossings of a ray.
+ * Returns null when the mesh is too detailed to test within budget.
+ */
+function isPointInside(point: THREE.Vector3, triangles: WorldTriangle[]): boolean | null {
+  if (triangles.length > MAX_INSIDE_TRIANGLES) return null;
+  ray.set(point, new THREE.Vector3(1, 0.37, 0.21).normalize()); // skewed to avoid grazing edges
+  const crossings = triangles.filter(({ triangle }) =>
+    ray.intersectTriangle(triangle.a, triangle.b, triangle.c, false, hitPoint)
+  ).length;
+  return crossings % 2 === 1;
+}
+
+/**
+ * Mesh-level check of two parts whose bounding boxes overlap.
+ * Returns null when the meshes are too detailed to compare within budget.
+ */
+export function meshesIntersect(a: THREE.Object3D, b: THREE.Object3D): boolean | null {
+  const meshesA = getPartMeshes(a);
+  const meshesB = getPartMeshes(b);
+  const boxA = computePartBox(a);
+  const boxB = computePartBox(b);
+  const region = boxA.clone().intersect(boxB);
+
+  const trianglesA = collectTriangles(meshesA, region);
+  const trianglesB = collectTriangles(meshesB, region);
+  if (trianglesA.length * trianglesB.length > MAX_TRIANGLE_PAIRS) return null;
+
+  for (const ta of trianglesA) {
+    for (const tb of trianglesB) {
+      if (ta.box.intersectsBox(tb.box) && trianglesIntersect(ta.triangle, tb.triangle)) {
+        return true;
+      }
+    }
+  }
+
+  // No crossing surfaces, but one part may sit entirely inside the other
+  const firstVertex = (meshes: THREE.Mesh[]) => {
+    const mesh = meshes[0];
+    return mesh ? new THREE.Vector3().fromBufferAttribute(mesh.geometry.getAttribute("position"), 0).applyMatrix4(mesh.matrixWorld) : null;
+  };
+  const pointA = firstVertex(meshesA);
+  const pointB = firstVertex(meshesB);
+  const insideB = !!pointA && boxB.containsPoint(pointA) ? isPointInside(pointA, collectTriangles(meshesB, boxB)) : false;
+  if (insideB) return true;
+  const insideA = !!pointB && boxA.containsPoint(pointB) ? isPointInside(pointB, collectTriangles(meshesA, boxA)) : false;
+  if (insideA) return true;
+  return insideA === null || insideB === null ? null : false;
+}
+
+/**
+ * World transform of an object as a string, for telling whether it moved
+ */
+export function transformKey(object: THREE.Object3D): string {
+  return object.matrixWorld.elements.map((n) => n.toFixed(4)).join(",");
+}
+
+/**
+ * Find every pair of parts that clash: bounding boxes first, then meshes for the pairs that overlap.
+ * Mesh results are kept in `cache` until either part moves. At most `maxMeshChecks` new mesh checks
+ * are run per call; pairs beyond that keep the bounding box result and are checked on a later call.
+ */
+export function findClashes(
+  parts: CollisionPart[],
+  cache?: Map<string, boolean | null>,
+  maxMeshChecks = Infinity
+): Clash[] {
+  const boxes = parts.map((part) => computePartBox(part.object));
+  const clashes: Clash[] = [];
+  let meshChecks = 0;
+
+  for (let i = 0; i < parts.length; i++) {
+    for (let j = i + 1; j < parts.length; j++) {
+      const a = parts[i];
+      const b = parts[j];
+      if (a.allowed?.includes(b.id) || b.allowed?.includes(a.id)) continue;
+
+      const depth = overlapDepth(boxes[i], boxes[j]);
+      if (depth <= CLASH_TOLERANCE) continue;
+
+      const key = `${a.id}|${b.id}|${transformKey(a.object)}|${transformKey(b.object)}`;
+      let mesh = cache?.get(key);
+      if (mesh === undefined && meshChecks < maxMeshChecks) {
+        meshChecks++;
+        mesh = meshesIntersect(a.object, b.object);
+        cache?.set(key, mesh);
+      }
+      if (mesh === false) continue;
+
+      clashes.push({ id: `${a.id}|${b.id}`, a: a.id, b: b.id, depth: depth * SCENE_TO_MM, confirmed: mesh === true });
+    }
+  }
+
+  return clashes;
+}
+
+/**
+ * Stable key for telling whether the set of clashes changed
+ */
+export function clashesKey(clashes: Clash[]): string {
+  return clashes.map((c) => `${c.id}:${Math.round(c.depth)}:${c.confirmed}`).join(";");
+}
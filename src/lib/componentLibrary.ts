@@ -1,4 +1,35 @@
-export type LibraryKey = 'belt' | 'motor' | 'roller' | 'frame' | 'sensor' | 'drive-unit';
+import type { ModelStockRate } from './modelCatalogue';
+
+export type LibraryKey =
+  | 'belt'
+  | 'motor'
+  | 'roller'
+  | 'frame'
+  | 'sensor'
+  | 'drive-unit'
+  | 'stop-button'
+  | 'side-guide-bracket'
+  | 'wheel'
+  | 'frame-leg'
+  | 'side-guide'
+  | 'transfer';
+
+/**
+ * Pricing for stock sold by length (belting, frame profiles, guide rails).
+ * Templates use {model}, {L}, {N}, {D}, {R} and {H} (side guide height) placeholders.
+ */
+export interface LengthPricing {
+  length: 'L' | 'D'; // conveyor dimension the stock is cut to
+  lengthMultiplier?: number; // e.g. 2 for a belt loop
+  extraLength?: number; // mm added per piece (belt wrap around drums)
+  pieces?: number; // pieces per conveyor (e.g. 2 side rails)
+  costPerMetre: number | ModelStockRate; // a fixed rate, or the conveyor model's rate for this stock
+  perMetreWidth?: boolean; // cost scales with belt width N (belting is sold per m²)
+  perGuideHeight?: boolean; // cost scales with side guide height per 100 mm
+  cutFee: number; // flat fee per cut piece
+  partNumber: string;
+  description: string;
+}
 
 export interface ComponentMeta {
   type: LibraryKey;
@@ -11,6 +42,7 @@ export interface ComponentMeta {
     description: string;
     material: string;
     unitCost: number;
+    lengthPricing?: LengthPricing;
   };
 }
 
@@ -21,7 +53,22 @@ export const ComponentLibrary: Record<LibraryKey, ComponentMeta> = {
     path: '/models/conveyor.glb',
     scale: 1,
     defaultSize: { length: 6, width: 1.2, height: 0.3 },
-    bom: { partNumber: 'CVB-6x1.2', description: 'Conveyor Belt Assembly 6m x 1.2m', material: 'Industrial Rubber', unitCost: 1800 }
+    bom: {
+      partNumber: 'CVB-6x1.2',
+      description: 'Conveyor Belt Assembly 6m x 1.2m',
+      material: 'Industrial Rubber',
+      unitCost: 1800,
+      lengthPricing: {
+        length: 'L',
+        lengthMultiplier: 2,
+        extraLength: 300,
+        costPerMetre: 'belt',
+        perMetreWidth: true,
+        cutFee: 40,
+        partNumber: 'BLT-{model}-L{L}-N{N}',
+        description: '{model} Belt, endless, {N}mm wide for L={L}mm'
+      }
+    }
   },
   motor: {
     type: 'motor',
@@ -43,7 +90,20 @@ export const ComponentLibrary: Record<LibraryKey, ComponentMeta> = {
     name: 'Frame Section',
     path: '/models/frame.glb',
     scale: 1,
-    bom: { partNumber: 'FRM-3-ALU', description: 'Aluminum Frame Section 3m', material: 'Aluminum Alloy', unitCost: 220 }
+    bom: {
+      partNumber: 'FRM-3-ALU',
+      description: 'Aluminum Frame Section 3m',
+      material: 'Aluminum Alloy',
+      unitCost: 220,
+      lengthPricing: {
+        length: 'D',
+        pieces: 2,
+        costPerMetre: 'frame',
+        cutFee: 12,
+        partNumber: '{model}-L{L}-N{N}',
+        description: '{model} Frame Profile Set {D}mm x {R}mm'
+      }
+    }
   },
   sensor: {
     type: 'sensor',
@@ -58,6 +118,50 @@ export const ComponentLibrary: Record<LibraryKey, ComponentMeta> = {
     path: '/models/drive_unit.glb',
     scale: 1,
     bom: { partNumber: 'DRV-RED-40', description: 'Gear Reducer Assembly', material: 'Steel', unitCost: 560 }
+  },
+  'stop-button': {
+    type: 'stop-button',
+    name: 'Stop Button',
+    bom: { partNumber: 'STP-PB-40', description: 'Emergency Stop Push Button Ø40mm', material: 'Plastic/Metal', unitCost: 45 }
+  },
+  'side-guide-bracket': {
+    type: 'side-guide-bracket',
+    name: 'Side Guide Bracket',
+    bom: { partNumber: 'SGB-U-ALU', description: 'U-Shaped Side Guide Bracket', material: 'Aluminum Alloy', unitCost: 18 }
+  },
+  wheel: {
+    type: 'wheel',
+    name: 'Support Wheel',
+    bom: { partNumber: 'WHL-100-BRK', description: 'Swivel Wheel Ø100mm with Brake', material: 'Polyurethane/Steel', unitCost: 38 }
+  },
+  'frame-leg': {
+    type: 'frame-leg',
+    name: 'Frame Leg',
+    bom: { partNumber: 'LEG-ADJ-ALU', description: 'Adjustable Frame Leg', material: 'Aluminum Alloy', unitCost: 65 }
+  },
+  'side-guide': {
+    type: 'side-guide',
+    name: 'Side Guide Rail',
+    bom: {
+      partNumber: 'SG-RAIL',
+      description: 'Side Guide Rail',
+      material: 'Aluminum Alloy',
+      unitCost: 60,
+      lengthPricing: {
+        length: 'L',
+        pieces: 2,
+        costPerMetre: 22,
+        perGuideHeight: true,
+        cutFee: 8,
+        partNumber: 'SG-H{H}-L{L}',
+        description: 'Side Guide Rail Pair H={H}mm, {L}mm long'
+      }
+    }
+  },
+  transfer: {
+    type: 'transfer',
+    name: 'Transfer Plate',
+    bom: { partNumber: 'TRF-PLT-SS', description: 'Dead Plate Transfer Kit', material: 'Stainless Steel', unitCost: 95 }
   }
 };
 
@@ -0,0 +1,173 @@
+import { API_BASE } from "./config";
+import { getOrFetchCsrfToken } from "./api";
+import { BOM_METADATA_KEY, ComponentBOMFields } from "./bom";
+
+/**
+ * Component as served by the backend library
+ */
+export type LibraryComponent = {
+  id: number;
+  name: string;
+  category_label?: string;
+  category?: string;
+  type?: string;
+  glb_url?: string | null;
+  original_url?: string | null;
+  metadata?: Record<string, unknown>;
+  processing_status?: string; // "pending" | "processing" | "completed" | "failed"
+  processing_error?: string;
+  processing_progress?: number; // 0–100 when the converter reports it
+};
+
+/**
+ * Fields entered alongside an uploaded file
+ */
+export interface ComponentUploadForm extends ComponentBOMFields {
+  name: string;
+  category: string;
+}
+
+/**
+ * CAD and mesh formats the backend converts to GLB
+ */
+export const UPLOAD_FORMATS = [".step", ".stp", ".stl", ".obj", ".glb"];
+
+export const MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+
+/**
+ * How often a processing component is polled, and when to stop waiting (ms)
+ */
+export const PROCESSING_POLL_INTERVAL = 2000;
+export const PROCESSING_TIMEOUT = 10 * 60 * 1000;
+
+function fileExtension(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot >= 0 ? name.slice(dot).toLowerCase() : "";
+}
+
+/**
+ * Why a file cannot be uploaded, or null when it can
+ */
+export function validateUploadFile(file: File): string | null {
+  if (!UPLOAD_FORMATS.includes(fileExtension(file.name))) {
+    return `Unsupported file type. Use ${UPLOAD_FORMATS.join(", ").toUpperCase()}.`;
+  }
+  if (file.size === 0) return "The file is empty.";
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return `The file is larger than ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB.`;
+  }
+  return null;
+}
+
+/**
+ * Readable part name from a file name, e.g. "fixed_leg-700.step" → "fixed leg 700"
+ */
+export function nameFromFile(fileName: string): string {
+  const base = fileName.slice(0, fileName.length - fileExtension(fileName).length);
+  return base.replace(/[_-]+/g, " ").trim();
+}
+
+/**
+ * The converted GLB is available and the part can be placed
+ */
+export function isComponentReady(component: LibraryComponent): boolean {
+  return !!component.glb_url && !isComponentFailed(component);
+}
+
+export function isComponentFailed(component: LibraryComponent): boolean {
+  return component.processing_status === "failed" || !!component.processing_error;
+}
+
+const PROCESSING_STATUSES = ["pending", "queued", "processing"];
+
+/**
+ * Still being converted by the backend (no GLB yet and no error)
+ */
+export function isComponentProcessing(component: LibraryComponent): boolean {
+  return (
+    PROCESSING_STATUSES.includes(component.processing_status ?? "") &&
+    !isComponentReady(component) &&
+    !isComponentFailed(component)
+  );
+}
+
+/**
+ * Make a backend-relative media URL absolute
+ */
+export function resolveAssetUrl(url?: string | null): string | null {
+  if (!url) return null;
+  return url.startsWith("http") ? url : `${API_BASE}${url.startsWith("/") ? url : "/" + url}`;
+}
+
+function readError(xhr: XMLHttpRequest): string {
+  try {
+    const body = JSON.parse(xhr.responseText);
+    const detail = body.detail || body.error || Object.values(body).flat()[0];
+    if (typeof detail === "string") return detail;
+  } catch {
+    // Not JSON, fall back to the status line
+  }
+  return `Upload failed (HTTP ${xhr.status})`;
+}
+
+/**
+ * Upload a file to the component library. Resolves with the created component,
+ * which is usually still processing. `onProgress` receives the uploaded fraction (0–1).
+ */
+export async function uploadComponent(
+  file: File,
+  form: ComponentUploadForm,
+  onProgress?: (fraction: number) => void
+): Promise<LibraryComponent> {
+  const body = new FormData();
+  body.append("original_file", file);
+  body.append("name", form.name.trim() || nameFromFile(file.name));
+  body.append("category", form.category.trim());
+  body.append(
+    "metadata",
+    JSON.stringify({
+      [BOM_METADATA_KEY]: {
+        partNumber: form.partNumber.trim(),
+        description: form.description.trim(),
+        material: form.material.trim(),
+        unitCost: form.unitCost,
+      },
+    })
+  );
+
+  const csrfToken = await getOrFetchCsrfToken();
+
+  // XHR rather than fetch: fetch cannot report upload progress
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `${API_BASE}/api/components/`);
+    xhr.withCredentials = true;
+    if (csrfToken) xhr.setRequestHeader("X-CSRFToken", csrfToken);
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new Error(readError(xhr)));
+        return;
+      }
+      try {
+        resolve(JSON.parse(xhr.responseText));
+      } catch {
+        reject(new Error("Unexpected response from the server"));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Network error while uploading"));
+    xhr.send(body);
+  });
+}
+
+/**
+ * Current state of a library component, used to poll its processing status
+ */
+export async function fetchComponent(id: number): Promise<LibraryComponent> {
+  const response = await fetch(`${API_BASE}/api/components/${id}/`, { credentials: "include" });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.json();
+}
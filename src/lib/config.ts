@@ -58,3 +58,12 @@ if (typeof window !== 'undefined') {
   }
 }
 
+
+/**
+ * WebSocket endpoint for live collaboration.
+ * VITE_COLLAB_URL points at another server, e.g. the local stand-in (`npm run collab-server`, ws://localhost:8787)
+ */
+const envCollabUrl = import.meta.env?.VITE_COLLAB_URL as string | undefined;
+export const COLLAB_WS_URL = envCollabUrl && envCollabUrl.trim() !== ''
+  ? envCollabUrl.trim()
+  : `${API_BASE.replace(/^http/, 'ws')}/ws/collab/`;
@@ -0,0 +1,198 @@
+import * as THREE from "three";
+import { EXPORT_COMPONENT_KEY } from "./sceneExport";
+import { GLOBAL_SCALE_FACTOR } from "./slots";
+
+/**
+ * A typed connection point declared by a library component, in the component's own frame
+ */
+export interface ConnectorSpec {
+  id: string;
+  type: string; // e.g. "leg-mount"
+  position: [number, number, number]; // mm from the component origin
+  direction: [number, number, number]; // outward from the part
+  compatible?: string[]; // connector types this one accepts, on top of CONNECTOR_COMPATIBILITY
+}
+
+/**
+ * A connector placed in the scene
+ */
+export interface WorldConnector {
+  partId: string;
+  connectorId: string;
+  type: string;
+  compatible: string[];
+  position: THREE.Vector3;
+  direction: THREE.Vector3; // unit length, or zero when the connector has no direction
+}
+
+/**
+ * A compatible pair close enough to join, and the move that joins them
+ */
+export interface ConnectorSnap {
+  from: WorldConnector; // on the part being moved
+  to: WorldConnector;
+  offset: THREE.Vector3; // translation that brings `from` onto `to`
+}
+
+/**
+ * Key in the library component's metadata holding its connector list
+ */
+export const CONNECTORS_METADATA_KEY = "connectors";
+
+/**
+ * Default pairings between the standard connector types (both directions apply)
+ */
+export const CONNECTOR_COMPATIBILITY: Record<string, string[]> = {
+  "leg-mount": ["leg-top"],
+  "wheel-mount": ["wheel-top"],
+  "rod-socket": ["rod-end"],
+  "frame-end": ["frame-end"],
+  "motor-flange": ["drive-shaft"],
+};
+
+/**
+ * Connectors further apart than this do not snap (scene units, 30 mm)
+ */
+export const CONNECTOR_SNAP_RADIUS = 0.3;
+
+/**
+ * Named empties in a GLB that act as connectors: "connector_<type>[_<id>]" or "conn_<type>[_<id>]".
+ * The empty's +Z axis points out of the part; glTF extras may list `compatible` types.
+ */
+export const GLB_CONNECTOR_PATTERN = /^(?:connector|conn)[_:.-]([a-z0-9-]+)(?:[_:.-](.+))?$/i;
+
+const MAX_FACING_DOT = -0.5; // directions must point roughly at each other
+
+function isVector(value: unknown): value is [number, number, number] {
+  return Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === "number");
+}
+
+function readCompatible(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((t): t is string => typeof t === "string");
+  if (typeof value === "string") return value.split(",").map((t) => t.trim()).filter(Boolean);
+  return [];
+}
+
+/**
+ * Read the connector list from a library component's metadata; invalid entries are dropped
+ */
+export function parseConnectors(metadata: unknown): ConnectorSpec[] {
+  const list = (metadata as Record<string, unknown> | null | undefined)?.[CONNECTORS_METADATA_KEY];
+  if (!Array.isArray(list)) return [];
+
+  return list
+    .filter((c) => c && typeof c === "object" && typeof c.type === "string" && isVector(c.position))
+    .map((c, index) => ({
+      id: typeof c.id === "string" ? c.id : `${c.type}-${index + 1}`,
+      type: c.type,
+      position: c.position,
+      direction: isVector(c.direction) ? c.direction : [0, 0, 0],
+      compatible: readCompatible(c.compatible),
+    }));
+}
+
+/**
+ * Whether two connectors may be joined
+ */
+export function areCompatible(a: Pick<WorldConnector, "type" | "compatible">, b: Pick<WorldConnector, "type" | "compatible">): boolean {
+  const accepts = (x: typeof a, y: typeof b) =>
+    x.compatible.includes(y.type) || (CONNECTOR_COMPATIBILITY[x.type] ?? []).includes(y.type);
+  return accepts(a, b) || accepts(b, a);
+}
+
+/**
+ * Declared connectors placed with the part's world matrix
+ */
+export function connectorsFromSpecs(partId: string, specs: ConnectorSpec[], matrixWorld: THREE.Matrix4): WorldConnector[] {
+  const rotation = new THREE.Matrix3().getNormalMatrix(matrixWorld);
+  return specs.map((spec) => ({
+    partId,
+    connectorId: spec.id,
+    type: spec.type,
+    compatible: spec.compatible ?? [],
+    position: new THREE.Vector3(...spec.position).multiplyScalar(GLOBAL_SCALE_FACTOR).applyMatrix4(matrixWorld),
+    direction: new THREE.Vector3(...spec.direction).applyMatrix3(rotation).normalize(),
+  }));
+}
+
+/**
+ * Connectors modelled as named empties inside the part's GLB
+ */
+export function connectorsFromModel(partId: string, root: THREE.Object3D): WorldConnector[] {
+  const connectors: WorldConnector[] = [];
+  root.updateWorldMatrix(true, true);
+  root.traverse((object) => {
+    const match = GLB_CONNECTOR_PATTERN.exec(object.name);
+    if (!match || object instanceof THREE.Mesh) return;
+
+    const quaternion = object.getWorldQuaternion(new THREE.Quaternion());
+    connectors.push({
+      partId,
+      connectorId: match[2] ?? object.name,
+      type: match[1].toLowerCase(),
+      compatible: readCompatible(object.userData.compatible),
+      position: object.getWorldPosition(new THREE.Vector3()),
+      direction: new THREE.Vector3(0, 0, 1).applyQuaternion(quaternion),
+    });
+  });
+  return connectors;
+}
+
+/**
+ * All connectors of a part in the scene: declared in metadata and modelled in its GLB
+ */
+export function getPartConnectors(partId: string, root: THREE.Object3D, specs: ConnectorSpec[] = []): WorldConnector[] {
+  root.updateWorldMatrix(true, false);
+  return [...connectorsFromSpecs(partId, specs, root.matrixWorld), ...connectorsFromModel(partId, root)];
+}
+
+/**
+ * Closest compatible, facing pair between the moving part's connectors and everyone else's
+ */
+export function findConnectorSnap(
+  moving: WorldConnector[],
+  targets: WorldConnector[],
+  radius = CONNECTOR_SNAP_RADIUS
+): ConnectorSnap | null {
+  let best: ConnectorSnap | null = null;
+  let bestDistance = radius;
+
+  for (const from of moving) {
+    for (const to of targets) {
+      if (to.partId === from.partId || !areCompatible(from, to)) continue;
+
+      const hasDirections = from.direction.lengthSq() > 0 && to.direction.lengthSq() > 0;
+      if (hasDirections && from.direction.dot(to.direction) > MAX_FACING_DOT) continue;
+
+      const distance = from.position.distanceTo(to.position);
+      if (distance <= bestDistance) {
+        best = { from, to, offset: to.position.clone().sub(from.position) };
+        bestDistance = distance;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Connectors of every free-placed component in the scene except the excluded ones
+ * (the moving part and anything that moves with it)
+ */
+export function collectSceneConnectors(
+  scene: THREE.Object3D,
+  specsById: Map<string, ConnectorSpec[]>,
+  exclude: string[] = []
+): WorldConnector[] {
+  const connectors: WorldConnector[] = [];
+  const visit = (object: THREE.Object3D) => {
+    const id = object.userData[EXPORT_COMPONENT_KEY];
+    if (typeof id === "string") {
+      if (!exclude.includes(id) && object.visible) connectors.push(...getPartConnectors(id, object, specsById.get(id)));
+      return;
+    }
+    object.children.forEach(visit);
+  };
+  visit(scene);
+  return connectors;
+}
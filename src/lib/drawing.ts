@@ -0,0 +1,292 @@
+import { ConveyorParams, PlacedComponent, Slot, SlotType } from "./types";
+import { PROFILE_WALL, beltTopHeight, getModelSpec } from "./modelCatalogue";
+import { SCENE_TO_MM } from "./sceneExport";
+
+/**
+ * Sheet layout, all in paper mm (A3 landscape)
+ */
+export const SHEET = { width: 420, height: 297, margin: 10 };
+const TITLE_BLOCK = { width: 130, height: 40 };
+const VIEW_GAP = 32; // room around each view for dimensions
+const DRAWING_SCALES = [1, 2, 5, 10, 20, 25, 50, 100];
+
+const TEXT_SIZE = 3; // dimension text height
+const ARROW_LENGTH = 2.5;
+const LEG_WIDTH = 40; // mm
+const WHEEL_DIAMETER = 100; // mm
+
+export type LineStyle = "outline" | "thin" | "centre" | "hidden";
+
+/**
+ * Drawing primitives in paper mm with y pointing down (as in SVG and PDF)
+ */
+export type DrawingPrimitive =
+  | { kind: "line"; x1: number; y1: number; x2: number; y2: number; style: LineStyle }
+  | { kind: "rect"; x: number; y: number; width: number; height: number; style: LineStyle; fill?: boolean }
+  | { kind: "circle"; cx: number; cy: number; r: number; style: LineStyle; fill?: boolean }
+  | { kind: "polygon"; points: Array<[number, number]> } // filled, used for arrowheads
+  | { kind: "text"; x: number; y: number; text: string; size: number; anchor: "start" | "middle" | "end"; rotate?: number; bold?: boolean };
+
+export interface ConveyorDrawing {
+  width: number;
+  height: number;
+  scale: number; // 1:scale
+  primitives: DrawingPrimitive[];
+}
+
+export interface DrawingInput {
+  params: ConveyorParams;
+  slots: Slot[];
+  components: PlacedComponent[];
+  projectName: string;
+  date?: Date;
+}
+
+type Point = { x: number; y: number };
+
+function formatMm(value: number): string {
+  return String(Math.round(value));
+}
+
+/**
+ * Collects drawing primitives; all coordinates are paper mm
+ */
+class Sheet {
+  primitives: DrawingPrimitive[] = [];
+
+  line(x1: number, y1: number, x2: number, y2: number, style: LineStyle = "outline") {
+    this.primitives.push({ kind: "line", x1, y1, x2, y2, style });
+  }
+
+  rect(x: number, y: number, width: number, height: number, style: LineStyle = "outline", fill = false) {
+    this.primitives.push({ kind: "rect", x, y, width, height, style, fill });
+  }
+
+  circle(cx: number, cy: number, r: number, style: LineStyle = "outline", fill = false) {
+    this.primitives.push({ kind: "circle", cx, cy, r, style, fill });
+  }
+
+  text(x: number, y: number, text: string, options: { size?: number; anchor?: "start" | "middle" | "end"; rotate?: number; bold?: boolean } = {}) {
+    this.primitives.push({
+      kind: "text",
+      x,
+      y,
+      text,
+      size: options.size ?? TEXT_SIZE,
+      anchor: options.anchor ?? "middle",
+      rotate: options.rotate,
+      bold: options.bold,
+    });
+  }
+
+  arrow(tip: Point, dx: number, dy: number) {
+    // (dx, dy) is the unit direction the arrow points in
+    const back = { x: tip.x - dx * ARROW_LENGTH, y: tip.y - dy * ARROW_LENGTH };
+    const half = ARROW_LENGTH / 3.5;
+    this.primitives.push({
+      kind: "polygon",
+      points: [
+        [tip.x, tip.y],
+        [back.x - dy * half, back.y + dx * half],
+        [back.x + dy * half, back.y - dx * half],
+      ],
+    });
+  }
+
+  /**
+   * Linear dimension between two paper points, measured horizontally or vertically.
+   * offset moves the dimension line away from the points (negative = up/left).
+   */
+  dimension(a: Point, b: Point, direction: "horizontal" | "vertical", offset: number, label: string) {
+    if (direction === "horizontal") {
+      const y = Math.min(a.y, b.y) + (offset < 0 ? offset : Math.max(a.y, b.y) - Math.min(a.y, b.y) + offset);
+      const overshoot = offset < 0 ? -1.5 : 1.5;
+      this.line(a.x, a.y, a.x, y + overshoot, "thin");
+      this.line(b.x, b.y, b.x, y + overshoot, "thin");
+      this.line(a.x, y, b.x, y, "thin");
+      const sign = b.x > a.x ? 1 : -1;
+      this.arrow({ x: a.x, y }, -sign, 0);
+      this.arrow({ x: b.x, y }, sign, 0);
+      this.text((a.x + b.x) / 2, y - 1, label);
+    } else {
+      const x = Math.min(a.x, b.x) + (offset < 0 ? offset : Math.max(a.x, b.x) - Math.min(a.x, b.x) + offset);
+      const overshoot = offset < 0 ? -1.5 : 1.5;
+      this.line(a.x, a.y, x + overshoot, a.y, "thin");
+      this.line(b.x, b.y, x + overshoot, b.y, "thin");
+      this.line(x, a.y, x, b.y, "thin");
+      const sign = b.y > a.y ? 1 : -1;
+      this.arrow({ x, y: a.y }, 0, -sign);
+      this.arrow({ x, y: b.y }, 0, sign);
+      this.text(x - 1, (a.y + b.y) / 2, label, { rotate: 90 });
+    }
+  }
+
+  /**
+   * Ordinate dimensions: distance of each x from a datum, written along short leaders
+   */
+  ordinates(datumX: number, fromY: number, toY: number, xs: number[], scale: number, label: string) {
+    const unique = Array.from(new Set(xs.map((x) => Math.round(x * 100) / 100))).sort((p, q) => p - q);
+    this.line(datumX, fromY, datumX, toY, "thin");
+    for (const x of unique) {
+      this.line(x, fromY, x, toY, "thin");
+      this.text(x + 2.8, toY + 1, formatMm((x - datumX) * scale), { size: 2.5, anchor: "end", rotate: 90 });
+    }
+    this.text(datumX - 2, toY, label, { size: 2.5, anchor: "end" });
+  }
+}
+
+const slotX = (slot: Slot) => slot.position.x * SCENE_TO_MM;
+const slotZ = (slot: Slot) => slot.position.z * SCENE_TO_MM;
+
+function slotsOfType(slots: Slot[], type: SlotType): Slot[] {
+  return slots.filter((slot) => slot.type === type);
+}
+
+/**
+ * Pick the smallest standard scale at which all three views fit on the sheet
+ */
+export function chooseDrawingScale(D: number, R: number, height: number): number {
+  const usableWidth = SHEET.width - 2 * SHEET.margin - 3 * VIEW_GAP;
+  const usableHeight = SHEET.height - 2 * SHEET.margin - TITLE_BLOCK.height - 3 * VIEW_GAP;
+  return (
+    DRAWING_SCALES.find((scale) => (D + R) / scale <= usableWidth && (R + height) / scale <= usableHeight) ??
+    DRAWING_SCALES[DRAWING_SCALES.length - 1]
+  );
+}
+
+/**
+ * Orthographic top, side and end views of the configured conveyor with dimensions and a title block
+ */
+export function createConveyorDrawing({ params, slots, components, projectName, date = new Date() }: DrawingInput): ConveyorDrawing {
+  const { L, N, D, R } = params;
+  const spec = getModelSpec(params.model);
+  const profileHeight = spec.drumDiameter + 2 * PROFILE_WALL;
+  const beltTop = beltTopHeight(params); // mm above the floor
+  const scale = chooseDrawingScale(D, R, beltTop);
+  const s = (mm: number) => mm / scale;
+
+  const occupied = new Set(components.map((c) => c.slotId));
+  const sheet = new Sheet();
+
+  // Border and view origins (top-left corner of each view's bounding box)
+  sheet.rect(SHEET.margin, SHEET.margin, SHEET.width - 2 * SHEET.margin, SHEET.height - 2 * SHEET.margin);
+  const top = { x: SHEET.margin + VIEW_GAP, y: SHEET.margin + VIEW_GAP };
+  const side = { x: top.x, y: top.y + s(R) + VIEW_GAP };
+  const end = { x: top.x + s(D) + VIEW_GAP, y: side.y };
+
+  // Conveyor-local mm to paper: x runs from -D/2, z from -R/2 (motor side at the top)
+  const topX = (x: number) => top.x + s(x + D / 2);
+  const topY = (z: number) => top.y + s(z + R / 2);
+  const sideY = (height: number) => side.y + s(beltTop - height);
+  const endX = (z: number) => end.x + s(z + R / 2);
+
+  // ---- Top view ----
+  sheet.rect(topX(-D / 2), topY(-R / 2), s(D), s(R));
+  sheet.rect(topX(-D / 2), topY(-N / 2), s(D), s(N), "thin");
+  sheet.line(topX(-D / 2) - 4, topY(0), topX(D / 2) + 4, topY(0), "centre");
+  for (const axis of [-L / 2, L / 2]) {
+    sheet.line(topX(axis), topY(-R / 2) - 4, topX(axis), topY(R / 2) + 4, "centre");
+  }
+
+  const stopButtons = slotsOfType(slots, "STOP_BUTTON");
+  const sensors = slotsOfType(slots, "SENSOR");
+  for (const slot of stopButtons) {
+    sheet.circle(topX(slotX(slot)), topY(slotZ(slot)), 1.2, "outline", occupied.has(slot.id));
+  }
+  for (const slot of sensors) {
+    sheet.rect(topX(slotX(slot)) - 1, topY(slotZ(slot)) - 1, 2, 2, "outline", occupied.has(slot.id));
+  }
+  for (const slot of slotsOfType(slots, "ENGINE_MOUNT").filter((slot) => occupied.has(slot.id))) {
+    sheet.rect(topX(slotX(slot)) - s(150), topY(slotZ(slot)) - s(100), s(300), s(200), "outline");
+    sheet.text(topX(slotX(slot)), topY(slotZ(slot)) + 1, "M", { size: 2.5 });
+  }
+
+  sheet.dimension({ x: topX(-L / 2), y: topY(-R / 2) }, { x: topX(L / 2), y: topY(-R / 2) }, "horizontal", -8, `L = ${formatMm(L)}`);
+  sheet.dimension({ x: topX(-D / 2), y: topY(-R / 2) }, { x: topX(D / 2), y: topY(-R / 2) }, "horizontal", -16, `D = ${formatMm(D)}`);
+  sheet.dimension({ x: topX(D / 2), y: topY(-N / 2) }, { x: topX(D / 2), y: topY(N / 2) }, "vertical", 8, `N = ${formatMm(N)}`);
+  sheet.dimension({ x: topX(D / 2), y: topY(-R / 2) }, { x: topX(D / 2), y: topY(R / 2) }, "vertical", 16, `R = ${formatMm(R)}`);
+
+  const features = [...stopButtons, ...sensors];
+  if (features.length > 0) {
+    sheet.ordinates(
+      topX(-D / 2),
+      topY(R / 2) + 2,
+      topY(R / 2) + 10,
+      features.map((slot) => topX(slotX(slot))),
+      scale,
+      "Stops / sensors"
+    );
+  }
+  sheet.text(topX(0), topY(R / 2) + VIEW_GAP - 6, "TOP VIEW", { size: 3.5, bold: true });
+
+  // ---- Side view (looking at the motor side) ----
+  const floorY = sideY(0);
+  sheet.line(topX(-D / 2) - 6, floorY, topX(D / 2) + 6, floorY, "thin");
+  sheet.rect(topX(-D / 2), sideY(beltTop), s(D), s(profileHeight));
+  const drumRadius = spec.drumDiameter / 2;
+  for (const axis of [-L / 2, L / 2]) {
+    sheet.circle(topX(axis), sideY(beltTop - PROFILE_WALL - drumRadius), s(drumRadius), "hidden");
+    sheet.line(topX(axis), sideY(beltTop) - 3, topX(axis), sideY(beltTop - profileHeight) + 3, "centre");
+  }
+
+  if (params.supportingFrame) {
+    const wheelTop = params.frameWheels ? WHEEL_DIAMETER : 0;
+    const legXs = Array.from(new Set(slotsOfType(slots, "FRAME_LEG").map(slotX)));
+    for (const x of legXs) {
+      const clamped = Math.min(Math.max(x, -D / 2 + LEG_WIDTH / 2), D / 2 - LEG_WIDTH / 2);
+      sheet.rect(topX(clamped) - s(LEG_WIDTH / 2), sideY(beltTop - profileHeight), s(LEG_WIDTH), s(beltTop - profileHeight - wheelTop));
+    }
+    if (params.frameWheels) {
+      for (const x of [-D / 2 + LEG_WIDTH / 2, D / 2 - LEG_WIDTH / 2]) {
+        sheet.circle(topX(x), sideY(WHEEL_DIAMETER / 2), s(WHEEL_DIAMETER / 2));
+      }
+    }
+  }
+
+  sheet.dimension({ x: topX(-D / 2), y: sideY(beltTop) }, { x: topX(-D / 2), y: floorY }, "vertical", -10, `H = ${formatMm(beltTop)}`);
+  sheet.dimension({ x: topX(-D / 2), y: floorY }, { x: topX(D / 2), y: floorY }, "horizontal", 8, `D = ${formatMm(D)}`);
+  sheet.text(topX(0), floorY + VIEW_GAP - 6, "SIDE VIEW", { size: 3.5, bold: true });
+
+  // ---- End view (looking from the discharge end) ----
+  sheet.line(endX(-R / 2) - 6, floorY, endX(R / 2) + 6, floorY, "thin");
+  sheet.rect(endX(-R / 2), sideY(beltTop), s(R), s(profileHeight));
+  sheet.line(endX(-N / 2), sideY(beltTop) - 0.8, endX(N / 2), sideY(beltTop) - 0.8, "outline");
+  sheet.line(endX(0), sideY(beltTop) - 4, endX(0), floorY + 4, "centre");
+  if (params.supportingFrame) {
+    const wheelTop = params.frameWheels ? WHEEL_DIAMETER : 0;
+    for (const z of [-R / 2 + LEG_WIDTH / 2, R / 2 - LEG_WIDTH / 2]) {
+      sheet.rect(endX(z) - s(LEG_WIDTH / 2), sideY(beltTop - profileHeight), s(LEG_WIDTH), s(beltTop - profileHeight - wheelTop));
+      if (params.frameWheels) sheet.circle(endX(z), sideY(WHEEL_DIAMETER / 2), s(WHEEL_DIAMETER / 2));
+    }
+  }
+
+  sheet.dimension({ x: endX(-N / 2), y: sideY(beltTop) }, { x: endX(N / 2), y: sideY(beltTop) }, "horizontal", -8, `N = ${formatMm(N)}`);
+  sheet.dimension({ x: endX(-R / 2), y: floorY }, { x: endX(R / 2), y: floorY }, "horizontal", 8, `R = ${formatMm(R)}`);
+  sheet.dimension({ x: endX(R / 2), y: sideY(beltTop) }, { x: endX(R / 2), y: floorY }, "vertical", 10, `H = ${formatMm(beltTop)}`);
+  sheet.text(endX(0), floorY + VIEW_GAP - 6, "END VIEW", { size: 3.5, bold: true });
+
+  // ---- Title block ----
+  const tb = {
+    x: SHEET.width - SHEET.margin - TITLE_BLOCK.width,
+    y: SHEET.height - SHEET.margin - TITLE_BLOCK.height,
+  };
+  sheet.rect(tb.x, tb.y, TITLE_BLOCK.width, TITLE_BLOCK.height);
+  sheet.line(tb.x, tb.y + 12, tb.x + TITLE_BLOCK.width, tb.y + 12);
+  sheet.line(tb.x + TITLE_BLOCK.width / 2, tb.y + 12, tb.x + TITLE_BLOCK.width / 2, tb.y + TITLE_BLOCK.height);
+  sheet.text(tb.x + 3, tb.y + 8, projectName, { size: 5, anchor: "start", bold: true });
+
+  const left = [
+    `Model: ${spec.name}`,
+    `L × N: ${formatMm(L)} × ${formatMm(N)} mm`,
+    `D × R: ${formatMm(D)} × ${formatMm(R)} mm`,
+  ];
+  const right = [
+    `Scale: 1:${scale}`,
+    `Date: ${date.toISOString().slice(0, 10)}`,
+    "Units: mm   Sheet: A3",
+  ];
+  left.forEach((text, i) => sheet.text(tb.x + 3, tb.y + 19 + i * 7, text, { anchor: "start" }));
+  right.forEach((text, i) => sheet.text(tb.x + TITLE_BLOCK.width / 2 + 3, tb.y + 19 + i * 7, text, { anchor: "start" }));
+
+  return { width: SHEET.width, height: SHEET.height, scale, primitives: sheet.primitives };
+}
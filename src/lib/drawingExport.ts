@@ -0,0 +1,119 @@
+import { jsPDF } from "jspdf";
+import { ConveyorDrawing, DrawingPrimitive, LineStyle } from "./drawing";
+import { downloadBlob, slugify } from "@/lib/utils";
+
+export type DrawingExportFormat = "svg" | "pdf";
+
+const LINE_WIDTHS: Record<LineStyle, number> = {
+  outline: 0.5,
+  thin: 0.2,
+  centre: 0.2,
+  hidden: 0.25,
+};
+
+const DASH_PATTERNS: Record<LineStyle, number[]> = {
+  outline: [],
+  thin: [],
+  centre: [6, 1.5, 1, 1.5],
+  hidden: [2, 1],
+};
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function svgStroke(style: LineStyle): string {
+  const dash = DASH_PATTERNS[style];
+  return `stroke="#000" stroke-width="${LINE_WIDTHS[style]}"${dash.length ? ` stroke-dasharray="${dash.join(" ")}"` : ""}`;
+}
+
+function primitiveToSVG(p: DrawingPrimitive): string {
+  switch (p.kind) {
+    case "line":
+      return `<line x1="${p.x1}" y1="${p.y1}" x2="${p.x2}" y2="${p.y2}" ${svgStroke(p.style)}/>`;
+    case "rect":
+      return `<rect x="${p.x}" y="${p.y}" width="${p.width}" height="${p.height}" fill="${p.fill ? "#000" : "none"}" ${svgStroke(p.style)}/>`;
+    case "circle":
+      return `<circle cx="${p.cx}" cy="${p.cy}" r="${p.r}" fill="${p.fill ? "#000" : "none"}" ${svgStroke(p.style)}/>`;
+    case "polygon":
+      return `<polygon points="${p.points.map(([x, y]) => `${x},${y}`).join(" ")}" fill="#000"/>`;
+    case "text": {
+      const rotate = p.rotate ? ` transform="rotate(${-p.rotate} ${p.x} ${p.y})"` : "";
+      const weight = p.bold ? ` font-weight="bold"` : "";
+      return `<text x="${p.x}" y="${p.y}" font-size="${p.size}" text-anchor="${p.anchor}"${weight}${rotate}>${escapeXml(p.text)}</text>`;
+    }
+  }
+}
+
+/**
+ * Serialize a drawing to an SVG document sized in mm
+ */
+export function drawingToSVG(drawing: ConveyorDrawing): string {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${drawing.width}mm" height="${drawing.height}mm" viewBox="0 0 ${drawing.width} ${drawing.height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect width="${drawing.width}" height="${drawing.height}" fill="#fff"/>`,
+    ...drawing.primitives.map(primitiveToSVG),
+    "</svg>",
+  ].join("\n");
+}
+
+/**
+ * Render a drawing onto an A3 landscape PDF page
+ */
+export function drawingToPDF(drawing: ConveyorDrawing): jsPDF {
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: [drawing.width, drawing.height] });
+  doc.setDrawColor("#000000");
+  doc.setFillColor("#000000");
+
+  const applyStyle = (style: LineStyle) => {
+    doc.setLineWidth(LINE_WIDTHS[style]);
+    doc.setLineDashPattern(DASH_PATTERNS[style], 0);
+  };
+
+  for (const p of drawing.primitives) {
+    switch (p.kind) {
+      case "line":
+        applyStyle(p.style);
+        doc.line(p.x1, p.y1, p.x2, p.y2);
+        break;
+      case "rect":
+        applyStyle(p.style);
+        doc.rect(p.x, p.y, p.width, p.height, p.fill ? "FD" : "S");
+        break;
+      case "circle":
+        applyStyle(p.style);
+        doc.circle(p.cx, p.cy, p.r, p.fill ? "FD" : "S");
+        break;
+      case "polygon": {
+        const [[x1, y1], [x2, y2], [x3, y3]] = p.points;
+        doc.triangle(x1, y1, x2, y2, x3, y3, "F");
+        break;
+      }
+      case "text": {
+        doc.setFont("helvetica", p.bold ? "bold" : "normal");
+        doc.setFontSize(p.size / 0.3528); // mm to pt
+
+        // jsPDF only aligns unrotated text, so shift the start point along the text direction
+        const width = doc.getTextWidth(p.text);
+        const shift = p.anchor === "end" ? width : p.anchor === "middle" ? width / 2 : 0;
+        const angle = ((p.rotate ?? 0) * Math.PI) / 180;
+        doc.text(p.text, p.x - shift * Math.cos(angle), p.y + shift * Math.sin(angle), { angle: p.rotate });
+        break;
+      }
+    }
+  }
+
+  return doc;
+}
+
+/**
+ * Download the drawing, e.g. "my-project-drawing-2024-01-31.pdf"
+ */
+export function exportDrawing(format: DrawingExportFormat, drawing: ConveyorDrawing, projectName: string, date = new Date()) {
+  const fileName = `${slugify(projectName)}-drawing-${date.toISOString().slice(0, 10)}.${format}`;
+  if (format === "svg") {
+    downloadBlob(new Blob([drawingToSVG(drawing)], { type: "image/svg+xml" }), fileName);
+  } else {
+    drawingToPDF(drawing).save(fileName);
+  }
+}
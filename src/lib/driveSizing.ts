@@ -0,0 +1,108 @@
+import { ConveyorParams, DriveSettings } from "./types";
+import { getModelSpec } from "./modelCatalogue";
+
+const GRAVITY = 9.81; // m/s²
+const BELT_MASS_PER_M2 = 2.2; // kg/m², typical 2-ply PVC belting
+const DRIVE_EFFICIENCY = 0.85; // gearbox + drum bearings
+export const SERVICE_FACTOR = 1.25; // margin for start-up and uneven loading
+
+export const DEFAULT_DRIVE_SETTINGS: DriveSettings = {
+  loadPerMetre: 20,
+  beltSpeed: 0.5,
+  inclineDeg: 0,
+  frictionCoefficient: 0.33,
+};
+
+/**
+ * A motor that can be fitted on the engine mount
+ */
+export interface MotorSpec {
+  id: string; // part number
+  name: string;
+  powerKw: number;
+  rpm: number | null; // null for variable speed drives
+  description: string;
+  unitCost: number;
+}
+
+export const MOTOR_CATALOGUE: MotorSpec[] = [
+  { id: "MTR-0.37-IE3", name: "Compact Motor 0.37kW", powerKw: 0.37, rpm: 1450, description: "1450 RPM, IE3 Efficiency", unitCost: 380 },
+  { id: "MTR-0.75-IE3", name: "Compact Motor 0.75kW", powerKw: 0.75, rpm: 1450, description: "1450 RPM, IE3 Efficiency", unitCost: 480 },
+  { id: "MTR-1.5-IE2", name: "Standard Motor 1.5kW", powerKw: 1.5, rpm: 1450, description: "1450 RPM, IE2 Efficiency", unitCost: 650 },
+  { id: "MTR-2.2-IE3", name: "Drive Motor 2.2kW", powerKw: 2.2, rpm: 1450, description: "1450 RPM, IE3 Efficiency", unitCost: 850 },
+  { id: "MTR-3.0-IE4", name: "High Power Motor 3.0kW", powerKw: 3.0, rpm: 1450, description: "1450 RPM, IE4 Efficiency", unitCost: 1200 },
+  { id: "MTR-2.2-VFD", name: "Variable Speed Motor 2.2kW", powerKw: 2.2, rpm: null, description: "Variable RPM, VFD Ready", unitCost: 1500 },
+];
+
+// Matches the library's motor entry, which the engine mount uses until another motor is chosen
+export const DEFAULT_MOTOR_ID = "MTR-2.2-IE3";
+
+/**
+ * Look up a motor, falling back to the default motor for unknown ids
+ */
+export function getMotorSpec(id?: string): MotorSpec {
+  return (
+    MOTOR_CATALOGUE.find((m) => m.id === id) ??
+    MOTOR_CATALOGUE.find((m) => m.id === DEFAULT_MOTOR_ID)!
+  );
+}
+
+/**
+ * Drive settings for a conveyor, with defaults for anything not set
+ */
+export function getDriveSettings(params: ConveyorParams): DriveSettings {
+  return { ...DEFAULT_DRIVE_SETTINGS, ...params.drive };
+}
+
+export interface DriveRequirements {
+  effectiveTension: number; // N, pull needed at the drive drum
+  torque: number; // Nm at the drive drum
+  drumSpeed: number; // rpm
+  shaftPower: number; // kW at the drum
+  requiredPower: number; // kW at the motor, including losses and service factor
+}
+
+/**
+ * Tension, torque and power needed to run the conveyor.
+ * Friction acts on the product and both belt runs; the incline lifts the product only,
+ * since the carrying and return runs of the belt balance out.
+ */
+export function calculateDriveRequirements(
+  params: ConveyorParams,
+  settings: DriveSettings = getDriveSettings(params)
+): DriveRequirements {
+  const length = params.L / 1000; // m
+  const beltMass = 2 * (params.N / 1000) * BELT_MASS_PER_M2; // kg per metre of conveyor
+  const incline = (settings.inclineDeg * Math.PI) / 180;
+  const drumDiameter = getModelSpec(params.model).drumDiameter / 1000; // m
+
+  const friction = settings.frictionCoefficient * (settings.loadPerMetre + beltMass) * Math.cos(incline);
+  const lift = settings.loadPerMetre * Math.sin(incline);
+  const effectiveTension = Math.max(GRAVITY * length * (friction + lift), 0);
+
+  const shaftPower = (effectiveTension * settings.beltSpeed) / 1000;
+  return {
+    effectiveTension,
+    torque: effectiveTension * (drumDiameter / 2),
+    drumSpeed: (settings.beltSpeed * 60) / (Math.PI * drumDiameter),
+    shaftPower,
+    requiredPower: (shaftPower / DRIVE_EFFICIENCY) * SERVICE_FACTOR,
+  };
+}
+
+/**
+ * Whether a motor can deliver the required power
+ */
+export function isMotorUndersized(motor: MotorSpec, requirements: DriveRequirements): boolean {
+  return motor.powerKw < requirements.requiredPower;
+}
+
+/**
+ * Cheapest fixed-speed motor that covers the requirement, or null if none is large enough
+ */
+export function recommendMotor(requirements: DriveRequirements): MotorSpec | null {
+  const candidates = MOTOR_CATALOGUE
+    .filter((m) => m.rpm !== null && !isMotorUndersized(m, requirements))
+    .sort((a, b) => a.unitCost - b.unitCost);
+  return candidates[0] ?? null;
+}
@@ -0,0 +1,93 @@
+import { componentExtent } from "./assemblyCompare";
+import { SnapshotComponent } from "./versionHistory";
+
+type Vec3 = [number, number, number];
+
+/**
+ * Upper end of the explosion slider. At 0 the assembly is closed; at 1 every part moves out
+ * by its distance from its cluster's centre plus a clearance gap.
+ */
+export const MAX_EXPLODE_FACTOR = 2;
+
+const EXPLODE_GAP = 0.5; // scene units of clearance added between parts at factor 1
+const COLOCATED = 0.05; // parts closer than this to their cluster centre are stacked instead
+
+export type ExplodableComponent = Pick<SnapshotComponent, "id" | "category" | "bounding_box" | "position" | "groupId" | "linkedTo">;
+
+/**
+ * Components that belong together through a group or a link chain, in scene order.
+ * Loose components are left out: there is nothing to explode them away from.
+ */
+export function explosionClusters(components: ExplodableComponent[]): string[][] {
+  const parent = new Map(components.map((c) => [c.id, c.id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    if (parent.has(a) && parent.has(b)) parent.set(find(a), find(b));
+  };
+
+  const groupLeaders = new Map<string, string>();
+  components.forEach((c) => {
+    if (c.linkedTo) union(c.id, c.linkedTo);
+    if (c.groupId) {
+      const leader = groupLeaders.get(c.groupId);
+      if (leader) union(c.id, leader);
+      else groupLeaders.set(c.groupId, c.id);
+    }
+  });
+
+  const clusters = new Map<string, string[]>();
+  components.forEach((c) => {
+    const root = find(c.id);
+    clusters.set(root, [...(clusters.get(root) ?? []), c.id]);
+  });
+  return [...clusters.values()].filter((ids) => ids.length > 1);
+}
+
+/**
+ * How far each clustered component moves out at `factor`. Parts move along the world axis on
+ * which they sit furthest from their cluster's centre, so a bed lifts off its legs and the legs
+ * spread along the line; parts sharing the centre (locked rod and wheel pairs) are stacked upwards.
+ */
+export function explodeOffsets(components: ExplodableComponent[], factor: number): Map<string, Vec3> {
+  const offsets = new Map<string, Vec3>();
+  if (factor <= 0) return offsets;
+  const byId = new Map(components.map((c) => [c.id, c]));
+
+  explosionClusters(components).forEach((ids) => {
+    const members = ids.map((id) => byId.get(id)!);
+    const center = [0, 1, 2].map((i) => members.reduce((sum, c) => sum + c.position[i], 0) / members.length);
+    let stackHeight = 0;
+
+    [...members]
+      .sort((a, b) => a.position[1] - b.position[1])
+      .forEach((member) => {
+        const delta = member.position.map((v, i) => v - center[i]);
+        const axis = delta.reduce((best, v, i) => (Math.abs(v) > Math.abs(delta[best]) ? i : best), 0);
+        const offset: Vec3 = [0, 0, 0];
+
+        if (Math.abs(delta[axis]) < COLOCATED) {
+          offset[1] = stackHeight * factor;
+          stackHeight += componentExtent(member)[1] + EXPLODE_GAP;
+        } else {
+          offset[axis] = (delta[axis] + Math.sign(delta[axis]) * EXPLODE_GAP) * factor;
+        }
+        if (offset.some((v) => v !== 0)) offsets.set(member.id, offset);
+      });
+  });
+  return offsets;
+}
+
+/**
+ * How the scene shows components that are displaced for an exploded view or assembly playback
+ */
+export interface ExplodedDisplay {
+  offsets: Map<string, Vec3>;
+  hidden?: Set<string>; // not fitted yet
+  entering?: Set<string>; // fly in from `enterFrom` when they appear
+  enterFrom?: Vec3;
+}
@@ -0,0 +1,43 @@
+/**
+ * Favourite and recently used library components, kept per user in local storage
+ */
+export interface LibraryPrefs {
+  favourites: number[]; // component ids
+  recents: number[]; // most recent first
+}
+
+export const MAX_RECENTS = 8;
+
+const STORAGE_PREFIX = "conveyor-library";
+
+function storageKey(user: string | null): string {
+  return `${STORAGE_PREFIX}:${user ?? "guest"}`;
+}
+
+function readIds(value: unknown): number[] {
+  return Array.isArray(value) ? value.filter((id): id is number => typeof id === "number") : [];
+}
+
+export function loadLibraryPrefs(user: string | null): LibraryPrefs {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(user)) || "{}");
+    return { favourites: readIds(stored.favourites), recents: readIds(stored.recents).slice(0, MAX_RECENTS) };
+  } catch {
+    return { favourites: [], recents: [] };
+  }
+}
+
+export function saveLibraryPrefs(user: string | null, prefs: LibraryPrefs): void {
+  try {
+    localStorage.setItem(storageKey(user), JSON.stringify(prefs));
+  } catch (error) {
+    console.warn("Failed to save library preferences:", error);
+  }
+}
+
+/**
+ * Move a component to the front of the recents list
+ */
+export function pushRecent(recents: number[], id: number): number[] {
+  return [id, ...recents.filter((r) => r !== id)].slice(0, MAX_RECENTS);
+}
@@ -0,0 +1,189 @@
+import { parseComponentBOM, resolveLibraryKey } from "./bom";
+import { getComponentMeta } from "./componentLibrary";
+import { listConveyorModels } from "./modelCatalogue";
+import type { LibraryComponent } from "./componentUpload";
+
+/**
+ * What the library search knows about a component, from its upload metadata or the built-in catalogue
+ */
+export interface LibraryFacts {
+  category: string;
+  partNumber?: string;
+  material?: string;
+  unitCost?: number;
+  models: string[]; // compatible conveyor models; every model when the part doesn't say
+  specifications: string; // "key value" pairs flattened for searching
+}
+
+export interface LibraryFilters {
+  categories: string[];
+  materials: string[];
+  price: [number, number] | null;
+  model: string | null;
+}
+
+export interface LibraryFacets {
+  categories: string[];
+  materials: string[];
+  priceRange: [number, number];
+  models: string[];
+}
+
+export const EMPTY_LIBRARY_FILTERS: LibraryFilters = { categories: [], materials: [], price: null, model: null };
+
+export const UNCATEGORIZED = "Uncategorized";
+
+/**
+ * Relative weight of a match in each searched field
+ */
+const FIELD_WEIGHTS = { name: 3, partNumber: 3, category: 2, material: 1, specifications: 1 };
+
+const MAX_GAP_RATIO = 2; // skipped characters per query character in a fuzzy match
+
+export function componentCategory(component: LibraryComponent): string {
+  const category = component.category || component.category_label || component.type || UNCATEGORIZED;
+  return category.trim() || UNCATEGORIZED;
+}
+
+function readSpecifications(value: unknown): string {
+  if (!value || typeof value !== "object") return "";
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => typeof v === "string" || typeof v === "number")
+    .map(([k, v]) => `${k} ${v}`)
+    .join(" ");
+}
+
+export function describeComponent(component: LibraryComponent): LibraryFacts {
+  const category = componentCategory(component);
+  const metadata = component.metadata ?? {};
+  const uploaded = parseComponentBOM(metadata);
+  const key = uploaded ? null : resolveLibraryKey(category, component.name);
+  const bom = uploaded ?? (key ? getComponentMeta(key).bom : undefined);
+
+  const declaredModels = metadata.compatible_models;
+  const models = Array.isArray(declaredModels)
+    ? declaredModels.filter((m): m is string => typeof m === "string")
+    : listConveyorModels().map((m) => m.id);
+
+  return {
+    category,
+    partNumber: bom?.partNumber,
+    material: bom?.material || undefined,
+    unitCost: bom?.unitCost,
+    models,
+    specifications: readSpecifications(metadata.specifications),
+  };
+}
+
+/**
+ * How well a query token matches a text: contiguous matches beat scattered ones,
+ * and matches at the start of a word beat matches inside one. 0 when it doesn't match.
+ */
+export function fuzzyScore(token: string, text: string): number {
+  const haystack = text.toLowerCase();
+  if (!token || !haystack) return 0;
+
+  const index = haystack.indexOf(token);
+  if (index >= 0) {
+    const wordStart = index === 0 || /[\s_\-/.]/.test(haystack[index - 1]);
+    return 1 + (wordStart ? 0.5 : 0) + token.length / haystack.length;
+  }
+
+  // Every character in order, penalised by the gaps between them
+  let position = -1;
+  let gaps = 0;
+  for (const char of token) {
+    const next = haystack.indexOf(char, position + 1);
+    if (next < 0) return 0;
+    if (position >= 0) gaps += next - position - 1;
+    position = next;
+  }
+  if (gaps > token.length * MAX_GAP_RATIO) return 0; // too scattered to be what was meant
+  return 0.5 / (1 + gaps / token.length);
+}
+
+function searchFields(component: LibraryComponent, facts: LibraryFacts): Array<[string, number]> {
+  return [
+    [component.name || "", FIELD_WEIGHTS.name],
+    [facts.partNumber || "", FIELD_WEIGHTS.partNumber],
+    [facts.category, FIELD_WEIGHTS.category],
+    [facts.material || "", FIELD_WEIGHTS.material],
+    [facts.specifications, FIELD_WEIGHTS.specifications],
+  ];
+}
+
+/**
+ * Score of a component for a whole query; every word of the query has to match some field
+ */
+export function scoreComponent(component: LibraryComponent, facts: LibraryFacts, query: string): number {
+  const tokens = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const fields = searchFields(component, facts);
+  let total = 0;
+  for (const token of tokens) {
+    const best = Math.max(...fields.map(([text, weight]) => fuzzyScore(token, text) * weight));
+    if (best === 0) return 0;
+    total += best;
+  }
+  return total;
+}
+
+export function matchesFilters(facts: LibraryFacts, filters: LibraryFilters): boolean {
+  if (filters.categories.length > 0 && !filters.categories.includes(facts.category)) return false;
+  if (filters.materials.length > 0 && (!facts.material || !filters.materials.includes(facts.material))) return false;
+  if (filters.price) {
+    if (facts.unitCost === undefined) return false;
+    if (facts.unitCost < filters.price[0] || facts.unitCost > filters.price[1]) return false;
+  }
+  if (filters.model && !facts.models.includes(filters.model)) return false;
+  return true;
+}
+
+export function countActiveFilters(filters: LibraryFilters): number {
+  return filters.categories.length + filters.materials.length + (filters.price ? 1 : 0) + (filters.model ? 1 : 0);
+}
+
+/**
+ * Components matching the query and filters, best match first (library order without a query)
+ */
+export function searchLibrary<T extends LibraryComponent>(items: T[], query: string, filters: LibraryFilters): T[] {
+  const trimmed = query.trim();
+  return items
+    .map((component, index) => {
+      const facts = describeComponent(component);
+      const score = trimmed ? scoreComponent(component, facts, trimmed) : 1;
+      return { component, index, score: matchesFilters(facts, filters) ? score : 0 };
+    })
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((r) => r.component);
+}
+
+/**
+ * Filter options present in the library
+ */
+export function getLibraryFacets(items: LibraryComponent[]): LibraryFacets {
+  const categories = new Set<string>();
+  const materials = new Set<string>();
+  const models = new Set<string>();
+  let min = Infinity;
+  let max = 0;
+
+  for (const component of items) {
+    const facts = describeComponent(component);
+    categories.add(facts.category);
+    if (facts.material) materials.add(facts.material);
+    facts.models.forEach((m) => models.add(m));
+    if (facts.unitCost !== undefined) {
+      min = Math.min(min, facts.unitCost);
+      max = Math.max(max, facts.unitCost);
+    }
+  }
+
+  const sorted = (set: Set<string>) => Array.from(set).sort((a, b) => a.localeCompare(b));
+  return {
+    categories: sorted(categories),
+    materials: sorted(materials),
+    priceRange: [Number.isFinite(min) ? Math.floor(min) : 0, Math.ceil(max)],
+    models: sorted(models),
+  };
+}
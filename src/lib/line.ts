@@ -0,0 +1,275 @@
+import * as THREE from "three";
+import { ConveyorParams, LineSection, PlacedComponent, SectionKind, SectionPose, Slot, TurnDirection } from "./types";
+import { calculateDimensions } from "./params";
+import { getModelSpec } from "./modelCatalogue";
+import { GLOBAL_SCALE_FACTOR } from "./slots";
+
+export const SNAP_DISTANCE = 150; // mm between a section entry and an exit to snap them together
+export const DEFAULT_CURVE_RADIUS = 800; // mm, curve centreline
+export const TRANSFER_LENGTH = 150; // mm, axis-to-axis length of a transfer unit
+export const DEFAULT_MERGE_OFFSET = 500; // mm from the target section's entry
+
+const SECTION_LABELS: Record<SectionKind, string> = {
+  STRAIGHT: "Straight",
+  CURVE: "90° Curve",
+  TRANSFER: "Transfer",
+  MERGE: "Merge",
+};
+
+/**
+ * Human-readable label for a section, e.g. "90° Curve (left)"
+ */
+export function getSectionLabel(section: LineSection): string {
+  const label = SECTION_LABELS[section.kind];
+  return section.turn ? `${label} (${section.turn.toLowerCase()})` : label;
+}
+
+function turnSign(turn?: TurnDirection): number {
+  return turn === "RIGHT" ? -1 : 1;
+}
+
+/**
+ * Rotate a floor-plane vector about +Y
+ */
+function rotateY(x: number, z: number, angle: number): { x: number; z: number } {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return { x: x * cos + z * sin, z: -x * sin + z * cos };
+}
+
+/**
+ * Unit vector pointing along a heading
+ */
+export function headingVector(heading: number): { x: number; z: number } {
+  return rotateY(1, 0, heading);
+}
+
+/**
+ * World pose of a point given in section-local mm (x along the section from -D/2 to D/2, z across it).
+ * Curves bend the local x axis along a quarter circle.
+ */
+export function sectionPointToWorld(section: LineSection, localX: number, localZ: number): SectionPose {
+  const { entry, params } = section;
+  const D = params.D;
+
+  if (section.kind === "CURVE") {
+    const s = turnSign(section.turn);
+    const r = section.curveRadius ?? DEFAULT_CURVE_RADIUS;
+    const theta = ((localX + D / 2) / D) * (Math.PI / 2);
+
+    // Centre of the turn lies on the inside of the curve
+    const inside = rotateY(0, -1, entry.heading);
+    const cx = entry.x + s * r * inside.x;
+    const cz = entry.z + s * r * inside.z;
+
+    const radius = r + s * localZ;
+    const v = rotateY(-s * inside.x, -s * inside.z, s * theta);
+    return { x: cx + v.x * radius, z: cz + v.z * radius, heading: entry.heading + s * theta };
+  }
+
+  const dir = headingVector(entry.heading);
+  const offset = rotateY(localX, localZ, entry.heading);
+  return {
+    x: entry.x + dir.x * (D / 2) + offset.x,
+    z: entry.z + dir.z * (D / 2) + offset.z,
+    heading: entry.heading,
+  };
+}
+
+/**
+ * Pose at the discharge end of a section
+ */
+export function getSectionExit(section: LineSection): SectionPose {
+  return sectionPointToWorld(section, section.params.D / 2, 0);
+}
+
+/**
+ * Entry pose for a merge section joining the side of the target section
+ */
+function getMergeEntry(section: LineSection, target: LineSection): SectionPose {
+  const offset = Math.min(Math.max(section.mergeOffset ?? DEFAULT_MERGE_OFFSET, 0), target.params.D);
+  const side = section.turn === "RIGHT" ? 1 : -1; // LEFT joins on the target's local -z side
+  const join = sectionPointToWorld(target, offset - target.params.D / 2, (side * target.params.R) / 2);
+
+  // Head into the target, perpendicular to its direction of travel
+  const heading = join.heading + (side < 0 ? -Math.PI / 2 : Math.PI / 2);
+  const dir = headingVector(heading);
+  return {
+    x: join.x - dir.x * section.params.D,
+    z: join.z - dir.z * section.params.D,
+    heading,
+  };
+}
+
+/**
+ * Parameters adjusted for the section kind: curves take their length from the radius,
+ * transfers are fixed-length units
+ */
+export function normalizeSectionParams(section: LineSection): ConveyorParams {
+  const { params } = section;
+  let L = params.L;
+
+  if (section.kind === "CURVE") {
+    const r = section.curveRadius ?? DEFAULT_CURVE_RADIUS;
+    L = Math.max(Math.round((r * Math.PI) / 2 - getModelSpec(params.model).lengthOffset), 1);
+  } else if (section.kind === "TRANSFER") {
+    L = TRANSFER_LENGTH;
+  }
+
+  return { ...params, L, ...calculateDimensions(L, params.N, params.model) };
+}
+
+/**
+ * Resolve entry poses and ride heights for the whole line.
+ * Attached sections start where their target ends (or on its side, for merges)
+ * and ride at the same height as the target.
+ */
+export function layoutLine(sections: LineSection[]): LineSection[] {
+  const laidOut = new Map<string, LineSection>();
+  const pending = sections.map((section) => ({ ...section, params: normalizeSectionParams(section) }));
+
+  // Attachments normally point backwards, but resolve in dependency order to be safe
+  let progressed = true;
+  while (pending.length > 0 && progressed) {
+    progressed = false;
+    for (let i = 0; i < pending.length; i++) {
+      const section = pending[i];
+      const target = section.attachedTo ? laidOut.get(section.attachedTo) : undefined;
+      if (section.attachedTo && !target && pending.some((p) => p.id === section.attachedTo)) {
+        continue; // Target not laid out yet
+      }
+
+      let resolved: LineSection = section;
+      if (target) {
+        resolved = {
+          ...section,
+          params: { ...section.params, frameHeight: target.params.frameHeight },
+        };
+        resolved.entry = section.kind === "MERGE" ? getMergeEntry(resolved, target) : getSectionExit(target);
+      } else if (section.attachedTo) {
+        resolved = { ...section, attachedTo: null }; // Target was removed
+      }
+
+      laidOut.set(resolved.id, resolved);
+      pending.splice(i, 1);
+      i--;
+      progressed = true;
+    }
+  }
+
+  // Break attachment cycles by freeing whatever is left
+  for (const section of pending) {
+    laidOut.set(section.id, { ...section, attachedTo: null });
+  }
+
+  return sections.map((section) => laidOut.get(section.id)!);
+}
+
+/**
+ * Ids of the sections downstream of (attached directly or indirectly to) a section
+ */
+export function getDownstreamIds(sections: LineSection[], sectionId: string): Set<string> {
+  const ids = new Set<string>();
+  const visit = (id: string) => {
+    for (const section of sections) {
+      if (section.attachedTo === id && !ids.has(section.id)) {
+        ids.add(section.id);
+        visit(section.id);
+      }
+    }
+  };
+  visit(sectionId);
+  return ids;
+}
+
+/**
+ * Snap a free section's entry to the nearest open exit within SNAP_DISTANCE.
+ * Returns the section it should attach to, or null to stay free at the given pose.
+ */
+export function findSnapTarget(sections: LineSection[], sectionId: string, entry: SectionPose): LineSection | null {
+  const downstream = getDownstreamIds(sections, sectionId);
+  let best: LineSection | null = null;
+  let bestDistance = SNAP_DISTANCE;
+
+  for (const candidate of sections) {
+    if (candidate.id === sectionId || downstream.has(candidate.id)) continue;
+
+    // An exit feeds at most one section
+    const exitTaken = sections.some(
+      (s) => s.id !== sectionId && s.attachedTo === candidate.id && s.kind !== "MERGE"
+    );
+    if (exitTaken) continue;
+
+    const exit = getSectionExit(candidate);
+    const distance = Math.hypot(exit.x - entry.x, exit.z - entry.z);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = candidate;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Transform a section-local point in scene units into world scene units
+ */
+function localToWorld(section: LineSection, local: THREE.Vector3): { position: THREE.Vector3; heading: number } {
+  const pose = sectionPointToWorld(section, local.x / GLOBAL_SCALE_FACTOR, local.z / GLOBAL_SCALE_FACTOR);
+  return {
+    position: new THREE.Vector3(pose.x * GLOBAL_SCALE_FACTOR, local.y, pose.z * GLOBAL_SCALE_FACTOR),
+    heading: pose.heading,
+  };
+}
+
+/**
+ * Map a section's (locally generated) slots into world space, keeping ids and occupancy
+ */
+export function sectionSlotsToWorld(section: LineSection, slots: Slot[]): Slot[] {
+  return slots.map((slot) => {
+    const { position, heading } = localToWorld(section, slot.position);
+    const rotation = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), heading);
+    return {
+      ...slot,
+      position,
+      normal: slot.normal.clone().applyQuaternion(rotation),
+      up: slot.up.clone().applyQuaternion(rotation),
+    };
+  });
+}
+
+/**
+ * World position and rotation of a component placed on a section
+ */
+export function sectionComponentToWorld(
+  section: LineSection,
+  component: PlacedComponent
+): { position: THREE.Vector3; rotation: THREE.Euler } {
+  const { position, heading } = localToWorld(section, component.position);
+  const quaternion = new THREE.Quaternion()
+    .setFromAxisAngle(new THREE.Vector3(0, 1, 0), heading)
+    .multiply(new THREE.Quaternion().setFromEuler(component.rotation));
+  return { position, rotation: new THREE.Euler().setFromQuaternion(quaternion) };
+}
+
+/**
+ * Create a new section with the given parameters
+ */
+export function createSection(
+  kind: SectionKind,
+  params: ConveyorParams,
+  options: Partial<Pick<LineSection, "attachedTo" | "turn" | "curveRadius" | "mergeOffset" | "entry">> = {}
+): LineSection {
+  const section: LineSection = {
+    id: `section-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    kind,
+    params,
+    components: [],
+    entry: options.entry ?? { x: -params.D / 2, z: 0, heading: 0 },
+    attachedTo: options.attachedTo ?? null,
+    turn: options.turn,
+    curveRadius: kind === "CURVE" ? options.curveRadius ?? DEFAULT_CURVE_RADIUS : undefined,
+    mergeOffset: kind === "MERGE" ? options.mergeOffset ?? DEFAULT_MERGE_OFFSET : undefined,
+  };
+  return { ...section, params: normalizeSectionParams(section) };
+}
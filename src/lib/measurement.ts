@@ -0,0 +1,176 @@
+import * as THREE from "three";
+import { Slot } from "./types";
+import { EXPORT_COMPONENT_KEY, EXPORT_PLACED_KEY, SCENE_TO_MM, isHelperObject } from "./sceneExport";
+
+export type MeasureMode = "distance" | "bbox" | "angle";
+
+export type SnapKind = "vertex" | "edge" | "slot" | "surface";
+
+/**
+ * A picked point after snapping, in world (scene) units
+ */
+export interface SnapPoint {
+  position: THREE.Vector3;
+  kind: SnapKind;
+  partId?: string; // component the point lies on, if any
+}
+
+/**
+ * A finished measurement. Points are in scene units; the value is in mm or degrees.
+ */
+export interface Measurement {
+  id: string;
+  mode: MeasureMode;
+  points: Array<[number, number, number]>;
+  value: number;
+}
+
+/**
+ * Points each measure mode needs before it produces a result
+ */
+export const MEASURE_POINT_COUNT: Record<MeasureMode, number> = {
+  distance: 2,
+  bbox: 2,
+  angle: 3,
+};
+
+/**
+ * Snap radius as a fraction of the camera distance, so snapping feels the same at any zoom
+ */
+export const SNAP_RADIUS_FACTOR = 0.02;
+
+/**
+ * Walk up from a hit object to the root of the part it belongs to
+ */
+export function findPartRoot(object: THREE.Object3D | null): THREE.Object3D | null {
+  for (let current = object; current; current = current.parent) {
+    if (current.userData[EXPORT_COMPONENT_KEY] || current.userData[EXPORT_PLACED_KEY]) {
+      return current;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a ray hit should be ignored for measuring (gizmos, outlines, ground, measurement overlays)
+ */
+export function isPickable(object: THREE.Object3D): boolean {
+  if (!(object instanceof THREE.Mesh)) return false;
+  for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+    if (!current.visible || isHelperObject(current) || current.type.startsWith("TransformControls")) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function closestPointOnSegment(point: THREE.Vector3, a: THREE.Vector3, b: THREE.Vector3): THREE.Vector3 {
+  return new THREE.Line3(a, b).closestPointToPoint(point, true, new THREE.Vector3());
+}
+
+/**
+ * Snap a ray hit to the nearest slot or mesh vertex within the radius, then to the nearest
+ * triangle edge, falling back to the hit point on the surface
+ */
+export function snapIntersection(intersection: THREE.Intersection, slots: Slot[], radius: number): SnapPoint {
+  const hit = intersection.point;
+  const root = findPartRoot(intersection.object);
+  const partId = root ? String(root.userData[EXPORT_COMPONENT_KEY] ?? root.userData[EXPORT_PLACED_KEY]) : undefined;
+
+  const best: { snap: SnapPoint | null; distance: number } = { snap: null, distance: radius };
+  const consider = (position: THREE.Vector3, kind: SnapKind) => {
+    const distance = position.distanceTo(hit);
+    if (distance <= best.distance) {
+      best.snap = { position: position.clone(), kind, partId };
+      best.distance = distance;
+    }
+  };
+
+  slots.forEach((slot) => consider(slot.position, "slot"));
+
+  const mesh = intersection.object as THREE.Mesh;
+  const positions = mesh.geometry?.getAttribute("position");
+  const face = intersection.face;
+  if (face && positions) {
+    const corners = [face.a, face.b, face.c].map((index) =>
+      new THREE.Vector3().fromBufferAttribute(positions, index).applyMatrix4(mesh.matrixWorld)
+    );
+    corners.forEach((corner) => consider(corner, "vertex"));
+
+    if (!best.snap) {
+      for (let i = 0; i < 3; i++) {
+        consider(closestPointOnSegment(hit, corners[i], corners[(i + 1) % 3]), "edge");
+      }
+    }
+  }
+
+  return best.snap ?? { position: hit.clone(), kind: "surface", partId };
+}
+
+/**
+ * Shortest gap between two axis-aligned boxes and the points it runs between.
+ * Overlapping boxes measure 0.
+ */
+export function boxDistance(a: THREE.Box3, b: THREE.Box3): { distance: number; from: THREE.Vector3; to: THREE.Vector3 } {
+  const from = new THREE.Vector3();
+  const to = new THREE.Vector3();
+
+  (["x", "y", "z"] as const).forEach((axis) => {
+    if (a.max[axis] < b.min[axis]) {
+      from[axis] = a.max[axis];
+      to[axis] = b.min[axis];
+    } else if (b.max[axis] < a.min[axis]) {
+      from[axis] = a.min[axis];
+      to[axis] = b.max[axis];
+    } else {
+      // Overlapping on this axis: run the line through the middle of the overlap
+      const mid = (Math.max(a.min[axis], b.min[axis]) + Math.min(a.max[axis], b.max[axis])) / 2;
+      from[axis] = mid;
+      to[axis] = mid;
+    }
+  });
+
+  return { distance: from.distanceTo(to), from, to };
+}
+
+/**
+ * Angle at `vertex` between the rays towards `a` and `b`, in degrees
+ */
+export function measureAngle(a: THREE.Vector3, vertex: THREE.Vector3, b: THREE.Vector3): number {
+  const u = a.clone().sub(vertex);
+  const v = b.clone().sub(vertex);
+  if (u.lengthSq() === 0 || v.lengthSq() === 0) return 0;
+  return THREE.MathUtils.radToDeg(u.angleTo(v));
+}
+
+/**
+ * Build a measurement from the picked points (scene units) of a complete pick sequence
+ */
+export function createMeasurement(
+  mode: MeasureMode,
+  points: THREE.Vector3[],
+  boxes?: [THREE.Box3, THREE.Box3]
+): Measurement | null {
+  if (points.length < MEASURE_POINT_COUNT[mode]) return null;
+  const id = `measure_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+  const toTuple = (p: THREE.Vector3): [number, number, number] => [p.x, p.y, p.z];
+
+  switch (mode) {
+    case "distance":
+      return { id, mode, points: points.slice(0, 2).map(toTuple), value: points[0].distanceTo(points[1]) * SCENE_TO_MM };
+    case "bbox": {
+      if (!boxes) return null;
+      const { distance, from, to } = boxDistance(boxes[0], boxes[1]);
+      return { id, mode, points: [toTuple(from), toTuple(to)], value: distance * SCENE_TO_MM };
+    }
+    case "angle":
+      return { id, mode, points: points.slice(0, 3).map(toTuple), value: measureAngle(points[0], points[1], points[2]) };
+  }
+}
+
+/**
+ * Display text for a measurement value, e.g. "1250 mm" or "90.0°"
+ */
+export function formatMeasurement(measurement: Pick<Measurement, "mode" | "value">): string {
+  return measurement.mode === "angle" ? `${measurement.value.toFixed(1)}°` : `${Math.round(measurement.value)} mm`;
+}
@@ -0,0 +1,117 @@
+import { ConveyorParams, EngineType, SlotType } from "./types";
+
+export const PROFILE_WALL = 15; // mm of frame profile below and above the drums
+
+/**
+ * Data describing one conveyor product line.
+ * Adding a model to MODEL_CATALOGUE is all that's needed to offer it in the configurator.
+ */
+export interface ConveyorModelSpec {
+  id: string; // same as its key in MODEL_CATALOGUE
+  name: string;
+  description?: string;
+  lengthOffset: number; // D = L + lengthOffset (mm)
+  widthOffset: number; // R = N + widthOffset (mm)
+  widthLimits: { min: number; max: number }; // belt width N (mm)
+  stopButtonLimits: { min: number; max: number }; // per side
+  drumDiameter: number; // drive drum diameter (mm), used for drive sizing
+  engineTypes: EngineType[];
+  defaultEngineType?: EngineType;
+  defaultComponents: SlotType[]; // placed automatically when the model is selected
+  ratesPerMetre: { belt: number; frame: number }; // stock prices per metre (belting per m² of width)
+}
+
+/**
+ * Which of a model's per-metre rates length-priced stock is sold at
+ */
+export type ModelStockRate = keyof ConveyorModelSpec["ratesPerMetre"];
+
+export const MODEL_CATALOGUE = {
+  DPS50: {
+    id: "DPS50",
+    name: "DPS50",
+    description: "Light-duty belt conveyor",
+    lengthOffset: 55,
+    widthOffset: 67,
+    widthLimits: { min: 450, max: 500 },
+    drumDiameter: 50,
+    stopButtonLimits: { min: 1, max: 6 },
+    engineTypes: ["NORMAL", "REDACTOR", "CENTRAL"],
+    defaultEngineType: "NORMAL",
+    defaultComponents: ["ENGINE_MOUNT"],
+    ratesPerMetre: { belt: 85, frame: 48 },
+  },
+  DPS60: {
+    id: "DPS60",
+    name: "DPS60",
+    description: "Medium-duty belt conveyor",
+    lengthOffset: 70,
+    widthOffset: 67,
+    widthLimits: { min: 450, max: 500 },
+    drumDiameter: 60,
+    stopButtonLimits: { min: 1, max: 12 },
+    engineTypes: ["NORMAL", "REDACTOR", "CENTRAL"],
+    defaultEngineType: "NORMAL",
+    defaultComponents: ["ENGINE_MOUNT"],
+    ratesPerMetre: { belt: 95, frame: 62 },
+  },
+  DPS96: {
+    id: "DPS96",
+    name: "DPS96",
+    description: "Heavy-duty belt conveyor",
+    lengthOffset: 100,
+    widthOffset: 67,
+    widthLimits: { min: 450, max: 500 },
+    drumDiameter: 96,
+    stopButtonLimits: { min: 1, max: 12 },
+    engineTypes: ["NORMAL", "REDACTOR", "CENTRAL"],
+    defaultEngineType: "NORMAL",
+    defaultComponents: ["ENGINE_MOUNT"],
+    ratesPerMetre: { belt: 120, frame: 95 },
+  },
+} satisfies Record<string, ConveyorModelSpec>;
+
+/**
+ * Ids of the models in the catalogue
+ */
+export type ConveyorModel = keyof typeof MODEL_CATALOGUE;
+
+export const DEFAULT_MODEL: ConveyorModel = "DPS50";
+
+/**
+ * All models in catalogue order
+ */
+export function listConveyorModels(): ConveyorModelSpec[] {
+  return Object.values(MODEL_CATALOGUE);
+}
+
+/**
+ * Whether a stored or user-supplied value is the id of a catalogue model
+ */
+export function isConveyorModel(value: unknown): value is ConveyorModel {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(MODEL_CATALOGUE, value);
+}
+
+/**
+ * Look up a model, falling back to the default model for unknown ids
+ */
+export function getModelSpec(model: ConveyorModel): ConveyorModelSpec {
+  return MODEL_CATALOGUE[isConveyorModel(model) ? model : DEFAULT_MODEL];
+}
+
+/**
+ * Height of the belt surface above the floor (mm): the top of the supporting frame,
+ * or of the bare profile when there is no frame
+ */
+export function beltTopHeight(params: Pick<ConveyorParams, "model" | "supportingFrame" | "frameHeight">): number {
+  const profileHeight = getModelSpec(params.model).drumDiameter + 2 * PROFILE_WALL;
+  const frameHeight = params.supportingFrame ? params.frameHeight ?? 0 : 0;
+  return Math.max(frameHeight, profileHeight);
+}
+
+/**
+ * Whether the model supports the given engine type
+ */
+export function isEngineTypeAllowed(model: ConveyorModel, engineType: EngineType): boolean {
+  return getModelSpec(model).engineTypes.includes(engineType);
+}
@@ -0,0 +1,307 @@
+import { apiRequest } from "./api";
+import { SnapshotComponent, addComponentBody, assemblyItemPayload, remapSnapshotComponents } from "./versionHistory";
+
+/**
+ * Local copy of the working assembly and the mutations waiting for the API, kept in IndexedDB
+ * so edits made while the backend is unreachable survive a reload.
+ */
+const DB_NAME = "conveyor-builder-offline";
+const DB_VERSION = 1;
+const ASSEMBLIES_STORE = "assemblies";
+const MUTATIONS_STORE = "mutations";
+
+/**
+ * Responses that mean the API is down rather than that the request was wrong
+ */
+export const UNREACHABLE_STATUSES = [502, 503, 504];
+
+/**
+ * Time between attempts to reach the API while offline or with pending changes
+ */
+export const SYNC_RETRY_INTERVAL = 15000;
+
+export interface LocalAssembly {
+  projectId: number;
+  name: string;
+  components: SnapshotComponent[];
+  metadata: Record<string, unknown>; // placement, annotations and versions as they would be saved
+  baseUpdatedAt: string | null; // the project's `updated_at` the local edits started from
+  savedAt: number;
+}
+
+interface MutationBase {
+  id?: number; // assigned by IndexedDB, gives the replay order
+  projectId: number;
+  baseUpdatedAt: string | null;
+  createdAt: number;
+}
+
+export interface PendingAdd extends MutationBase {
+  kind: "add";
+  tempId: string;
+  body: ReturnType<typeof addComponentBody>;
+}
+
+export interface PendingSave extends MutationBase {
+  kind: "save";
+  components: SnapshotComponent[];
+  metadata: Record<string, unknown>;
+}
+
+export interface PendingDelete extends MutationBase {
+  kind: "delete";
+  itemId: string; // scene id of the assembly item, `comp-<backend id>`
+}
+
+export type PendingMutation = PendingAdd | PendingSave | PendingDelete;
+
+export interface ReplayResult {
+  status: "synced" | "offline" | "conflict" | "failed";
+  serverUpdatedAt?: string | null;
+  idMap: Map<string, string>; // temporary scene id -> backend scene id
+  error?: string;
+}
+
+/**
+ * Stand-in for the backend id of an assembly item added while offline (its scene id is `comp-<id>`)
+ */
+export function createLocalItemId(): string {
+  return `local-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Whether a failed request means the backend could not be reached (fetch rejects with a TypeError)
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ASSEMBLIES_STORE)) {
+          db.createObjectStore(ASSEMBLIES_STORE, { keyPath: "projectId" });
+        }
+        if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+          const store = db.createObjectStore(MUTATIONS_STORE, { keyPath: "id", autoIncrement: true });
+          store.createIndex("projectId", "projectId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      dbPromise = null; // allow a retry later
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function saveLocalAssembly(assembly: LocalAssembly): Promise<void> {
+  await run(ASSEMBLIES_STORE, "readwrite", (store) => store.put(assembly));
+}
+
+export async function loadLocalAssembly(projectId: number): Promise<LocalAssembly | null> {
+  const assembly = await run<LocalAssembly>(ASSEMBLIES_STORE, "readonly", (store) => store.get(projectId));
+  return assembly ?? null;
+}
+
+export async function getPendingMutations(projectId: number): Promise<PendingMutation[]> {
+  const mutations = await run<PendingMutation[]>(MUTATIONS_STORE, "readonly", (store) =>
+    store.index("projectId").getAll(projectId)
+  );
+  return (mutations ?? []).sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+export async function countPendingMutations(projectId: number): Promise<number> {
+  const count = await run<number>(MUTATIONS_STORE, "readonly", (store) => store.index("projectId").count(projectId));
+  return count ?? 0;
+}
+
+/**
+ * Queue a mutation. A save carries the whole assembly, so it replaces any save queued before it;
+ * deleting a component that was added offline drops its queued add instead.
+ * Everything queued builds on the project version the first queued change started from.
+ */
+export async function enqueueMutation(mutation: PendingMutation): Promise<void> {
+  const queued = await getPendingMutations(mutation.projectId);
+  const previousSaves = mutation.kind === "save" ? queued.filter((m) => m.kind === "save") : [];
+  const queuedAdd =
+    mutation.kind === "delete" ? queued.find((m) => m.kind === "add" && m.tempId === mutation.itemId) : undefined;
+  const baseUpdatedAt = queued.length > 0 ? queued[0].baseUpdatedAt : mutation.baseUpdatedAt;
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(MUTATIONS_STORE, "readwrite");
+    const store = transaction.objectStore(MUTATIONS_STORE);
+    previousSaves.forEach((m) => store.delete(m.id!));
+    if (queuedAdd) store.delete(queuedAdd.id!);
+    else store.add({ ...mutation, baseUpdatedAt });
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function removeMutation(id: number): Promise<void> {
+  await run(MUTATIONS_STORE, "readwrite", (store) => store.delete(id));
+}
+
+/**
+ * Drop the local copy and every pending change of a project (e.g. to take the server's version)
+ */
+export async function discardLocalChanges(projectId: number): Promise<void> {
+  const pending = await getPendingMutations(projectId);
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([MUTATIONS_STORE, ASSEMBLIES_STORE], "readwrite");
+    pending.forEach((m) => transaction.objectStore(MUTATIONS_STORE).delete(m.id!));
+    transaction.objectStore(ASSEMBLIES_STORE).delete(projectId);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * After part of the queue went through: point what is left (and the local copy) at the ids components
+ * added offline were given, and at the project version it now builds on
+ */
+async function rebaseQueue(projectId: number, idMap: Map<string, string>, baseUpdatedAt: string | null): Promise<void> {
+  const remaining = await getPendingMutations(projectId);
+  for (const mutation of remaining) {
+    const rebased: PendingMutation =
+      mutation.kind === "save"
+        ? { ...mutation, baseUpdatedAt, components: remapSnapshotComponents(mutation.components, idMap) }
+        : mutation.kind === "delete"
+          ? { ...mutation, baseUpdatedAt, itemId: idMap.get(mutation.itemId) ?? mutation.itemId }
+          : { ...mutation, baseUpdatedAt };
+    await run(MUTATIONS_STORE, "readwrite", (store) => store.put(rebased));
+  }
+  const local = await loadLocalAssembly(projectId);
+  if (local) {
+    await saveLocalAssembly({ ...local, baseUpdatedAt, components: remapSnapshotComponents(local.components, idMap) });
+  }
+}
+
+/**
+ * The project's current `updated_at`, after a change that does not return it
+ */
+export async function fetchUpdatedAt(projectId: number): Promise<string | null> {
+  const response = await apiRequest(`/api/projects/${projectId}/`);
+  if (!response.ok) return null;
+  const project = await response.json();
+  return project.updated_at ?? null;
+}
+
+function failure(response: Response, idMap: Map<string, string>, what: string): ReplayResult {
+  return UNREACHABLE_STATUSES.includes(response.status)
+    ? { status: "offline", idMap }
+    : { status: "failed", idMap, error: `${what} failed (${response.status})` };
+}
+
+/**
+ * Send the queued mutations of a project in order.
+ * Stops with a conflict when the project was saved elsewhere since the local edits started,
+ * unless `force` is set (keep the local version).
+ */
+export async function replayMutations(projectId: number, force = false): Promise<ReplayResult> {
+  const idMap = new Map<string, string>();
+  const pending = await getPendingMutations(projectId);
+  if (pending.length === 0) return { status: "synced", idMap };
+
+  try {
+    const projectResponse = await apiRequest(`/api/projects/${projectId}/`);
+    if (!projectResponse.ok) return failure(projectResponse, idMap, "Loading the project");
+    const project = await projectResponse.json();
+    let updatedAt: string | null = project.updated_at ?? null;
+
+    const base = pending[0].baseUpdatedAt;
+    if (!force && base && updatedAt && base !== updatedAt) {
+      return { status: "conflict", serverUpdatedAt: updatedAt, idMap };
+    }
+
+    for (const mutation of pending) {
+      if (mutation.kind === "add") {
+        const response = await apiRequest(`/api/projects/${projectId}/add_component/`, {
+          method: "POST",
+          body: JSON.stringify(mutation.body),
+        });
+        if (!response.ok) return failure(response, idMap, `Adding ${mutation.body.custom_name}`);
+        const item = await response.json();
+        idMap.set(mutation.tempId, `comp-${item.id}`);
+        updatedAt = (await fetchUpdatedAt(projectId)) ?? updatedAt;
+        await removeMutation(mutation.id!);
+        await rebaseQueue(projectId, idMap, updatedAt);
+        continue;
+      }
+
+      if (mutation.kind === "delete") {
+        // Re-read the delete: an earlier add may have given its item a backend id
+        const queued = (await getPendingMutations(projectId)).find((m) => m.id === mutation.id) as PendingDelete | undefined;
+        if (!queued) continue;
+        const backendId = parseInt(queued.itemId.replace("comp-", ""), 10);
+        if (!isNaN(backendId)) {
+          const response = await apiRequest(`/api/assembly-items/${backendId}/?project_id=${projectId}`, { method: "DELETE" });
+          // Already gone is as good as deleted
+          if (!response.ok && response.status !== 404) return failure(response, idMap, "Deleting a component");
+          updatedAt = (await fetchUpdatedAt(projectId)) ?? updatedAt;
+        }
+        await removeMutation(queued.id!);
+        await rebaseQueue(projectId, idMap, updatedAt);
+        continue;
+      }
+
+      // Re-read the save: earlier adds have remapped its components
+      const save = (await getPendingMutations(projectId)).find((m) => m.id === mutation.id) as PendingSave | undefined;
+      if (!save) continue;
+      const items = save.components
+        .map((c) => ({ backendId: parseInt(c.id.replace("comp-", ""), 10), component: c }))
+        .filter(({ backendId }) => !isNaN(backendId))
+        .map(({ backendId, component }) => assemblyItemPayload(backendId, component));
+
+      const saveResponse = await apiRequest(`/api/projects/${projectId}/save/`, {
+        method: "POST",
+        body: JSON.stringify({ assembly_items: items }),
+      });
+      if (!saveResponse.ok) return failure(saveResponse, idMap, "Saving the assembly");
+
+      const metadataResponse = await apiRequest(`/api/projects/${projectId}/`, {
+        method: "PATCH",
+        body: JSON.stringify({ metadata: save.metadata }),
+      });
+      if (!metadataResponse.ok) return failure(metadataResponse, idMap, "Saving the project metadata");
+      const saved = await metadataResponse.json().catch(() => ({}));
+      updatedAt = saved.updated_at ?? updatedAt;
+      await removeMutation(save.id!);
+      await rebaseQueue(projectId, idMap, updatedAt);
+    }
+
+    console.log("🔄 Replayed offline changes:", pending.length, "mutations");
+    return { status: "synced", serverUpdatedAt: updatedAt, idMap };
+  } catch (error) {
+    if (isNetworkError(error)) return { status: "offline", idMap };
+    return { status: "failed", idMap, error: error instanceof Error ? error.message : String(error) };
+  }
+}
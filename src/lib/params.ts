@@ -1,4 +1,14 @@
 import { ConveyorParams, ConveyorModel } from "./types";
+import { getModelSpec } from "./modelCatalogue";
+
+/**
+ * Realistic ranges for industrial conveyor dimensions (in mm)
+ */
+export const DIMENSION_LIMITS = {
+  length: { min: 350, max: 4000 },
+  width: { min: 450, max: 500 },
+  height: { min: 300, max: 1500 },
+} as const;
 
 /**
  * Calculate derived dimensions D and R from user inputs L and N
@@ -8,24 +18,8 @@ export function calculateDimensions(
   N: number,
   model: ConveyorModel
 ): { D: number; R: number } {
-  let D = 0;
-  
-  switch (model) {
-    case "DPS50":
-      D = L + 55;
-      break;
-    case "DPS60":
-      D = L + 70;
-      break;
-    case "DPS96":
-      D = L + 100;
-      break;
-  }
-  
-  // R = N + 67 for all models
-  const R = N + 67;
-  
-  return { D, R };
+  const { lengthOffset, widthOffset } = getModelSpec(model);
+  return { D: L + lengthOffset, R: N + widthOffset };
 }
 
 /**
@@ -57,15 +51,7 @@ export function getStopButtonLimits(model: ConveyorModel): {
   min: number;
   max: number;
 } {
-  switch (model) {
-    case "DPS50":
-      return { min: 1, max: 6 };
-    case "DPS60":
-    case "DPS96":
-      return { min: 1, max: 12 };
-    default:
-      return { min: 1, max: 6 };
-  }
+  return { ...getModelSpec(model).stopButtonLimits };
 }
 
 /**
@@ -1,6 +1,6 @@
 import * as THREE from "three";
-import { Slot, SlotType, ConveyorParams, PlacedComponent } from "./types";
-import { validateStopButtonCount, getStopButtonLimits } from "./params";
+import { Slot, SlotType, ConveyorParams, PlacedComponent, ConveyorModel } from "./types";
+import { validateStopButtonCount, getStopButtonLimits, validateSideGuideHeight } from "./params";
 
 /**
  * Get valid slots for a component type based on current rules and state
@@ -71,7 +71,7 @@ function filterStopButtonSlots(
   side?: "MOTOR" | "OPPOSITE" | "BOTH",
   end?: "START" | "END" | "BOTH",
   counts: { motor: number; opposite: number },
-  model: "DPS50" | "DPS60" | "DPS96",
+  model: ConveyorModel,
   placedComponents: PlacedComponent[]
 ): Slot[] {
   if (!side) return [];
@@ -133,7 +133,7 @@ function filterSensorSlots(slots: Slot[], params: ConveyorParams): Slot[] {
 function filterSideGuideSlots(slots: Slot[], params: ConveyorParams): Slot[] {
   if (!params.sideGuideEnabled) return [];
   if (!params.sideGuideHeight) return [];
-  if (params.sideGuideHeight < 15 || params.sideGuideHeight > 250) return [];
+  if (!validateSideGuideHeight(params.sideGuideHeight).valid) return [];
   return slots;
 }
 
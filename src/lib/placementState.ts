@@ -0,0 +1,136 @@
+import * as THREE from "three";
+import { ConveyorParams, LineSection, PlacedComponent, SlotType } from "./types";
+
+/**
+ * Key under which the configurator state is stored in the project's metadata
+ */
+export const PLACEMENT_METADATA_KEY = "placement";
+
+const PLACEMENT_STATE_VERSION = 1;
+
+const SLOT_TYPES: SlotType[] = [
+  "ENGINE_MOUNT",
+  "STOP_BUTTON",
+  "SENSOR",
+  "SIDE_GUIDE_BRACKET",
+  "WHEEL",
+  "FRAME_LEG",
+];
+
+/**
+ * JSON-safe form of a placed component (THREE vectors/eulers as plain arrays)
+ */
+export interface SerializedPlacedComponent {
+  id: string;
+  type: SlotType;
+  slotId: string;
+  position: [number, number, number];
+  rotation: [number, number, number, string];
+  modelUrl?: string;
+  name: string;
+}
+
+export interface SerializedLineSection extends Omit<LineSection, "components"> {
+  components: SerializedPlacedComponent[];
+}
+
+export interface SerializedPlacementState {
+  version: number;
+  params: ConveyorParams;
+  components: SerializedPlacedComponent[];
+  sections?: SerializedLineSection[];
+  activeSectionId?: string;
+}
+
+export function serializePlacedComponent(component: PlacedComponent): SerializedPlacedComponent {
+  const { position, rotation } = component;
+  return {
+    id: component.id,
+    type: component.type,
+    slotId: component.slotId,
+    position: [position.x, position.y, position.z],
+    rotation: [rotation.x, rotation.y, rotation.z, rotation.order],
+    modelUrl: component.modelUrl,
+    name: component.name,
+  };
+}
+
+export function deserializePlacedComponent(data: SerializedPlacedComponent): PlacedComponent {
+  const [px = 0, py = 0, pz = 0] = data.position || [];
+  const [rx = 0, ry = 0, rz = 0, order = "XYZ"] = data.rotation || [];
+  return {
+    id: data.id,
+    type: data.type,
+    slotId: data.slotId,
+    position: new THREE.Vector3(px, py, pz),
+    rotation: new THREE.Euler(rx, ry, rz, order as THREE.EulerOrder),
+    modelUrl: data.modelUrl,
+    name: data.name,
+  };
+}
+
+/**
+ * Serialize the configurator parameters, slot placements and line sections for project metadata
+ */
+export function serializePlacementState(
+  params: ConveyorParams,
+  components: PlacedComponent[],
+  line?: { sections: LineSection[]; activeSectionId: string }
+): SerializedPlacementState {
+  return {
+    version: PLACEMENT_STATE_VERSION,
+    params: { ...params },
+    components: components.map(serializePlacedComponent),
+    sections: line?.sections.map((section) => ({
+      ...section,
+      params: { ...section.params },
+      components: section.components.map(serializePlacedComponent),
+    })),
+    activeSectionId: line?.activeSectionId,
+  };
+}
+
+function isSerializedComponent(value: unknown): value is SerializedPlacedComponent {
+  if (!value || typeof value !== "object") return false;
+  const c = value as Partial<SerializedPlacedComponent>;
+  return (
+    typeof c.id === "string" &&
+    typeof c.slotId === "string" &&
+    SLOT_TYPES.includes(c.type as SlotType) &&
+    Array.isArray(c.position)
+  );
+}
+
+/**
+ * Read the configurator state back from project metadata.
+ * Returns null if the metadata has no (or an unreadable) placement entry.
+ */
+export function deserializePlacementState(
+  metadata: Record<string, unknown> | null | undefined
+): { params: ConveyorParams; components: PlacedComponent[]; sections?: LineSection[]; activeSectionId?: string } | null {
+  const data = metadata?.[PLACEMENT_METADATA_KEY] as Partial<SerializedPlacementState> | undefined;
+  if (!data || typeof data !== "object" || !data.params || typeof data.params !== "object") {
+    return null;
+  }
+
+  const params = data.params as ConveyorParams;
+  if (typeof params.L !== "number" || typeof params.N !== "number" || !params.model) {
+    return null;
+  }
+
+  const readComponents = (list: unknown) =>
+    Array.isArray(list) ? list.filter(isSerializedComponent).map(deserializePlacedComponent) : [];
+
+  const sections = Array.isArray(data.sections)
+    ? data.sections
+        .filter((s) => s && typeof s.id === "string" && s.params && s.entry)
+        .map((s) => ({ ...s, components: readComponents(s.components) }))
+    : undefined;
+
+  return {
+    params,
+    components: readComponents(data.components),
+    sections: sections?.length ? sections : undefined,
+    activeSectionId: typeof data.activeSectionId === "string" ? data.activeSectionId : undefined,
+  };
+}
@@ -0,0 +1,49 @@
+import { ConveyorParams } from "./types";
+import { LengthPricing } from "./componentLibrary";
+import { getModelSpec } from "./modelCatalogue";
+
+/**
+ * Fill a part number / description template from conveyor parameters
+ */
+export function formatPartTemplate(template: string, params: ConveyorParams): string {
+  const values: Record<string, string> = {
+    model: params.model,
+    L: String(Math.round(params.L)),
+    N: String(Math.round(params.N)),
+    D: String(Math.round(params.D)),
+    R: String(Math.round(params.R)),
+    H: String(Math.round(params.sideGuideHeight ?? 0)),
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+}
+
+/**
+ * Cut length in mm of a single piece of length-priced stock
+ */
+export function getCutLength(pricing: LengthPricing, params: ConveyorParams): number {
+  const base = pricing.length === "D" ? params.D : params.L;
+  return base * (pricing.lengthMultiplier ?? 1) + (pricing.extraLength ?? 0);
+}
+
+/**
+ * Unit cost for one conveyor's worth of length-priced stock:
+ * pieces × (cost per metre × cut length + cut fee)
+ */
+export function priceLengthStock(pricing: LengthPricing, params: ConveyorParams): number {
+  const costPerMetre =
+    typeof pricing.costPerMetre === "number"
+      ? pricing.costPerMetre
+      : getModelSpec(params.model).ratesPerMetre[pricing.costPerMetre];
+
+  let factor = 1;
+  if (pricing.perMetreWidth) {
+    factor *= params.N / 1000;
+  }
+  if (pricing.perGuideHeight) {
+    factor *= (params.sideGuideHeight ?? 0) / 100;
+  }
+
+  const cutLengthM = getCutLength(pricing, params) / 1000;
+  const pieceCost = costPerMetre * factor * cutLengthM + pricing.cutFee;
+  return Math.round(pieceCost * (pricing.pieces ?? 1) * 100) / 100;
+}
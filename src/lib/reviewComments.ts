@@ -0,0 +1,110 @@
+import { apiRequest } from "./api";
+import { CameraView } from "./cameraView";
+import { API_BASE } from "./config";
+import { shareTokenQuery } from "./sharing";
+
+type Point = [number, number, number];
+
+/**
+ * How often the comments are refetched, so feedback from other reviewers shows up (ms)
+ */
+export const REVIEW_POLL_INTERVAL = 30000;
+
+/**
+ * Where a comment thread is pinned. Component anchors follow the component: `local` is the
+ * point in the component's own frame, `point` the world position when the pin was placed.
+ */
+export type CommentAnchor =
+  | { kind: "component"; componentId: string; point: Point; local: Point }
+  | { kind: "point"; point: Point };
+
+/**
+ * A review comment as stored by the backend. Replies have a `parent` and no anchor;
+ * every comment keeps the view its author was looking at.
+ */
+export interface ReviewComment {
+  id: number;
+  parent: number | null;
+  author_username: string;
+  body: string;
+  created_at: string;
+  anchor: CommentAnchor | null;
+  camera: CameraView | null;
+  resolved: boolean;
+  resolved_by?: string | null;
+  resolved_at?: string | null;
+}
+
+export interface CommentThread {
+  number: number; // 1 for the project's first thread, shown on its pin
+  root: ReviewComment;
+  replies: ReviewComment[];
+}
+
+export interface NewComment {
+  body: string;
+  parent?: number | null;
+  anchor?: CommentAnchor | null;
+  camera: CameraView | null;
+}
+
+const byDate = (a: ReviewComment, b: ReviewComment) =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+/**
+ * Group the flat comment list into threads: open threads first, newest first; replies oldest first
+ */
+export function buildThreads(comments: ReviewComment[]): CommentThread[] {
+  const replies = new Map<number, ReviewComment[]>();
+  comments.forEach((c) => {
+    if (c.parent !== null) replies.set(c.parent, [...(replies.get(c.parent) ?? []), c]);
+  });
+  return comments
+    .filter((c) => c.parent === null)
+    .sort(byDate)
+    .map((root, index) => ({ number: index + 1, root, replies: (replies.get(root.id) ?? []).sort(byDate) }))
+    .sort((a, b) => Number(a.root.resolved) - Number(b.root.resolved) || byDate(b.root, a.root));
+}
+
+export function anchorLabel(anchor: CommentAnchor | null, componentNames: Record<string, string>): string {
+  if (!anchor) return "General";
+  if (anchor.kind === "component") return componentNames[anchor.componentId] ?? "Removed component";
+  return `Point (${anchor.point.map((n) => (n * 100).toFixed(0)).join(", ")} mm)`;
+}
+
+export async function fetchComments(projectId: number, shareToken?: string | null): Promise<ReviewComment[]> {
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/comments/${shareTokenQuery(shareToken)}`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error(`Failed to load comments (HTTP ${response.status})`);
+  const data = await response.json();
+  return Array.isArray(data) ? data : data.results || [];
+}
+
+export async function postComment(projectId: number, comment: NewComment, shareToken?: string | null): Promise<ReviewComment> {
+  const response = await apiRequest(`/api/projects/${projectId}/comments/${shareTokenQuery(shareToken)}`, {
+    method: "POST",
+    body: JSON.stringify({
+      body: comment.body.trim(),
+      parent: comment.parent ?? null,
+      anchor: comment.anchor ?? null,
+      camera: comment.camera,
+    }),
+  });
+  if (!response.ok) throw new Error(`Failed to post comment (HTTP ${response.status})`);
+  return response.json();
+}
+
+export async function setCommentResolved(
+  projectId: number,
+  commentId: number,
+  resolved: boolean,
+  shareToken?: string | null
+): Promise<ReviewComment> {
+  const response = await apiRequest(`/api/projects/${projectId}/comments/${commentId}/${shareTokenQuery(shareToken)}`, {
+    method: "PATCH",
+    body: JSON.stringify({ resolved }),
+  });
+  if (!response.ok) throw new Error(`Failed to update comment (HTTP ${response.status})`);
+  return response.json();
+}
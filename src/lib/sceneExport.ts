@@ -0,0 +1,238 @@
+import * as THREE from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+import { STLExporter } from "three/examples/jsm/exporters/STLExporter.js";
+import { OBJExporter } from "three/examples/jsm/exporters/OBJExporter.js";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import { downloadBlob, slugify } from "@/lib/utils";
+import { GLOBAL_SCALE_FACTOR } from "./slots";
+
+export type ModelExportFormat = "glb" | "gltf" | "stl" | "obj";
+
+export type ExportUnits = "mm" | "scene";
+
+export interface ModelExportOptions {
+  format: ModelExportFormat;
+  units: ExportUnits;
+  mergeMeshes: boolean;
+}
+
+export const SCENE_TO_MM = 1 / GLOBAL_SCALE_FACTOR; // 1 scene unit = 100 mm
+
+/**
+ * userData keys that mark the root object of an exportable part in the scene
+ */
+export const EXPORT_COMPONENT_KEY = "componentId"; // free-placed scene component
+export const EXPORT_PLACED_KEY = "placedComponentId"; // slot-placed component
+
+/**
+ * What the scene's components are and how they belong together
+ */
+export interface AssemblyStructure {
+  components: Array<{ id: string; name: string; linkedTo?: string; isLocked?: boolean }>;
+  groups: Array<{ id: string; componentIds: string[] }>;
+}
+
+const MIME_TYPES: Record<ModelExportFormat, string> = {
+  glb: "model/gltf-binary",
+  gltf: "model/gltf+json",
+  stl: "model/stl",
+  obj: "model/obj",
+};
+
+/**
+ * Objects that only exist for editing (gizmos, outlines, highlights) and never belong in an export
+ */
+export function isHelperObject(object: THREE.Object3D): boolean {
+  return (
+    !!object.userData.isHelper ||
+    !!object.userData.isGroundPlane ||
+    object instanceof THREE.Line ||
+    object instanceof THREE.Points ||
+    object instanceof THREE.Sprite ||
+    object.type.endsWith("Helper")
+  );
+}
+
+/**
+ * Copy of a part with its world transform baked into its own position/rotation/scale
+ */
+function cloneWithWorldTransform(root: THREE.Object3D, name: string): THREE.Object3D {
+  const clone = root.clone(true);
+  const helpers: THREE.Object3D[] = [];
+  clone.traverse((child) => {
+    if (child !== clone && isHelperObject(child)) helpers.push(child);
+  });
+  helpers.forEach((helper) => helper.removeFromParent());
+
+  // OBJ/STL readers name parts after their meshes
+  clone.traverse((child) => {
+    if (child instanceof THREE.Mesh && !child.name) child.name = name;
+  });
+
+  root.matrixWorld.decompose(clone.position, clone.quaternion, clone.scale);
+  clone.name = name;
+  return clone;
+}
+
+/**
+ * Find the root object of every tagged part, without descending into parts
+ */
+function findPartRoots(scene: THREE.Object3D): Map<string, THREE.Object3D> {
+  const roots = new Map<string, THREE.Object3D>();
+  const visit = (object: THREE.Object3D) => {
+    const id = object.userData[EXPORT_COMPONENT_KEY] ?? object.userData[EXPORT_PLACED_KEY];
+    if (typeof id === "string" && object.visible) {
+      roots.set(id, object);
+      return;
+    }
+    object.children.forEach(visit);
+  };
+  visit(scene);
+  return roots;
+}
+
+/**
+ * Materials that look the same share a key, so parts loaded separately still merge
+ */
+function materialKey(material: THREE.Material): string {
+  const { color, map } = material as THREE.MeshStandardMaterial;
+  return [material.type, color?.getHexString(), material.opacity, map?.uuid].join(":");
+}
+
+/**
+ * Bake all meshes below the root into one mesh per distinct material
+ */
+function mergeByMaterial(root: THREE.Object3D): THREE.Group {
+  root.updateMatrixWorld(true);
+  const buckets = new Map<string, { material: THREE.Material; geometries: THREE.BufferGeometry[] }>();
+
+  root.traverse((object) => {
+    if (!(object instanceof THREE.Mesh) || !object.geometry) return;
+    const material = Array.isArray(object.material) ? object.material[0] : object.material;
+
+    // Merging needs identical attribute sets, so keep position and normals only
+    const source = object.geometry.index ? object.geometry.toNonIndexed() : object.geometry.clone();
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", source.getAttribute("position"));
+    geometry.applyMatrix4(object.matrixWorld);
+    geometry.computeVertexNormals();
+
+    const key = materialKey(material);
+    const bucket = buckets.get(key) ?? { material, geometries: [] };
+    bucket.geometries.push(geometry);
+    buckets.set(key, bucket);
+  });
+
+  const merged = new THREE.Group();
+  merged.name = root.name;
+  buckets.forEach(({ material, geometries }) => {
+    const geometry = mergeGeometries(geometries);
+    if (!geometry) return;
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.name = material.name || `${root.name} ${merged.children.length + 1}`;
+    merged.add(mesh);
+  });
+  return merged;
+}
+
+/**
+ * Build a standalone copy of the assembly for export.
+ * Component groups and locked (linked) parts become nested groups; everything keeps its world placement.
+ */
+export function buildExportAssembly(
+  scene: THREE.Object3D,
+  structure: AssemblyStructure,
+  options: Pick<ModelExportOptions, "units" | "mergeMeshes">,
+  name = "Assembly"
+): THREE.Group {
+  scene.updateMatrixWorld(true);
+  const roots = findPartRoots(scene);
+  const assembly = new THREE.Group();
+  assembly.name = name;
+
+  const names = new Map(structure.components.map((c) => [c.id, c.name]));
+  const parts = new Map<string, THREE.Object3D>();
+  roots.forEach((root, id) => {
+    parts.set(id, cloneWithWorldTransform(root, names.get(id) || root.userData.name || id));
+  });
+
+  // Containers: one per component group, then linked pairs inside whichever container holds them
+  const containerOf = new Map<string, THREE.Object3D>();
+  structure.groups.forEach((group, index) => {
+    const container = new THREE.Group();
+    container.name = `Group ${index + 1}`;
+    assembly.add(container);
+    group.componentIds.forEach((id) => containerOf.set(id, container));
+  });
+
+  const linked = new Set<string>();
+  for (const component of structure.components) {
+    const partner = component.linkedTo;
+    if (!component.isLocked || !partner || linked.has(component.id) || !parts.has(partner)) continue;
+
+    const link = new THREE.Group();
+    link.name = `${names.get(component.id) ?? component.id} + ${names.get(partner) ?? partner}`;
+    (containerOf.get(component.id) ?? assembly).add(link);
+    containerOf.set(component.id, link);
+    containerOf.set(partner, link);
+    linked.add(component.id).add(partner);
+  }
+
+  const placed = new THREE.Group();
+  placed.name = "Slot components";
+  parts.forEach((part, id) => {
+    const container = containerOf.get(id) ?? (roots.get(id)!.userData[EXPORT_PLACED_KEY] ? placed : assembly);
+    container.add(part);
+  });
+  if (placed.children.length > 0) assembly.add(placed);
+
+  let result = assembly;
+  if (options.mergeMeshes) {
+    result = mergeByMaterial(assembly);
+  }
+  if (options.units === "mm") {
+    result.scale.setScalar(SCENE_TO_MM);
+  }
+  return result;
+}
+
+/**
+ * Serialize an assembly to the chosen file format
+ */
+export async function exportAssembly(assembly: THREE.Object3D, format: ModelExportFormat): Promise<Blob> {
+  assembly.updateMatrixWorld(true);
+  const type = MIME_TYPES[format];
+
+  switch (format) {
+    case "glb":
+    case "gltf": {
+      const result = await new GLTFExporter().parseAsync(assembly, { binary: format === "glb" });
+      return result instanceof ArrayBuffer
+        ? new Blob([result], { type })
+        : new Blob([JSON.stringify(result)], { type });
+    }
+    case "stl": {
+      const data = new STLExporter().parse(assembly, { binary: true });
+      return new Blob([data.buffer], { type });
+    }
+    case "obj":
+      return new Blob([new OBJExporter().parse(assembly)], { type });
+  }
+}
+
+/**
+ * Export the assembly from the scene and download it, e.g. "my-project-assembly.glb"
+ */
+export async function downloadAssembly(
+  scene: THREE.Object3D,
+  structure: AssemblyStructure,
+  options: ModelExportOptions,
+  projectName: string
+): Promise<void> {
+  const assembly = buildExportAssembly(scene, structure, options, projectName);
+  if (assembly.children.length === 0) {
+    throw new Error("There is nothing to export");
+  }
+  const blob = await exportAssembly(assembly, options.format);
+  downloadBlob(blob, `${slugify(projectName)}-assembly.${options.format}`);
+}
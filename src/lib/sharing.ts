@@ -0,0 +1,177 @@
+import { apiRequest } from "./api";
+import { API_BASE } from "./config";
+
+/**
+ * Project access. The owner manages members and share links; editors change the assembly;
+ * commenters and viewers only look, commenters can also leave review comments.
+ * The backend enforces the same rules, the UI just stops offering what a role cannot do.
+ */
+export type ProjectRole = "owner" | "editor" | "commenter" | "viewer";
+
+/**
+ * Roles that can be given to a member or a share link
+ */
+export type MemberRole = Exclude<ProjectRole, "owner">;
+
+export const MEMBER_ROLES: { value: MemberRole; label: string; description: string }[] = [
+  { value: "viewer", label: "Viewer", description: "Can open the project read-only" },
+  { value: "commenter", label: "Commenter", description: "Can view and leave review comments" },
+  { value: "editor", label: "Editor", description: "Can change and save the assembly" },
+];
+
+export interface ProjectMember {
+  id: number;
+  username: string;
+  email?: string;
+  role: MemberRole;
+  invited_at?: string;
+}
+
+export interface ShareLink {
+  token: string;
+  role: MemberRole;
+  created_at: string;
+  expires_at: string | null; // null: until revoked
+}
+
+/**
+ * What opening a share link gives access to
+ */
+export interface ResolvedShareLink {
+  project_id: number;
+  role: MemberRole;
+  expires_at: string | null;
+}
+
+/**
+ * How long a new share link stays valid (hours; 0 for no expiry)
+ */
+export const SHARE_LINK_DURATIONS = [
+  { hours: 24, label: "1 day" },
+  { hours: 24 * 7, label: "7 days" },
+  { hours: 24 * 30, label: "30 days" },
+  { hours: 0, label: "Never" },
+];
+
+const ROLE_RANK: Record<ProjectRole, number> = { viewer: 0, commenter: 1, editor: 2, owner: 3 };
+
+export function roleLabel(role: ProjectRole): string {
+  return role === "owner" ? "Owner" : MEMBER_ROLES.find((r) => r.value === role)?.label ?? role;
+}
+
+export function canEdit(role: ProjectRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK.editor;
+}
+
+export function canComment(role: ProjectRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK.commenter;
+}
+
+export function canManage(role: ProjectRole): boolean {
+  return role === "owner";
+}
+
+/**
+ * Role assumed when the backend sends no `my_role`. Backends without membership support only
+ * give their users their own projects, so these are fully theirs; a sharing backend always sends the role.
+ */
+export const ROLE_WITHOUT_MEMBERSHIP: ProjectRole = "owner";
+
+/**
+ * The current user's role on a project as sent by the backend. Without one, a project that
+ * names another owner (e.g. a public one) is only viewed; see `ROLE_WITHOUT_MEMBERSHIP` otherwise.
+ */
+export function projectRole(
+  project: { my_role?: ProjectRole | null; owner_username?: string },
+  username?: string | null
+): ProjectRole {
+  if (project.my_role) return project.my_role;
+  if (project.owner_username && username && project.owner_username !== username) return "viewer";
+  return ROLE_WITHOUT_MEMBERSHIP;
+}
+
+export function isShareLinkExpired(link: { expires_at: string | null }, now = Date.now()): boolean {
+  return link.expires_at !== null && new Date(link.expires_at).getTime() <= now;
+}
+
+export function shareLinkUrl(token: string): string {
+  return `${window.location.origin}/share/${encodeURIComponent(token)}`;
+}
+
+/**
+ * Query string that lets requests made for a share link through the backend's permission checks
+ */
+export function shareTokenQuery(token: string | null | undefined, prefix: "?" | "&" = "?"): string {
+  return token ? `${prefix}share_token=${encodeURIComponent(token)}` : "";
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = await response.json().catch(() => ({}));
+  return data.detail || data.error || data.message || `${fallback} (HTTP ${response.status})`;
+}
+
+async function expectOk<T>(response: Response, fallback: string): Promise<T> {
+  if (!response.ok) throw new Error(await readError(response, fallback));
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+export async function fetchMembers(projectId: number): Promise<ProjectMember[]> {
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/members/`, { credentials: "include" });
+  const data = await expectOk<ProjectMember[] | { results: ProjectMember[] }>(response, "Failed to load members");
+  return Array.isArray(data) ? data : data.results || [];
+}
+
+/**
+ * Invite a user by username or email address
+ */
+export async function inviteMember(projectId: number, identifier: string, role: MemberRole): Promise<ProjectMember> {
+  const response = await apiRequest(`/api/projects/${projectId}/members/`, {
+    method: "POST",
+    body: JSON.stringify({ identifier: identifier.trim(), role }),
+  });
+  return expectOk(response, "Failed to invite");
+}
+
+export async function updateMemberRole(projectId: number, memberId: number, role: MemberRole): Promise<ProjectMember> {
+  const response = await apiRequest(`/api/projects/${projectId}/members/${memberId}/`, {
+    method: "PATCH",
+    body: JSON.stringify({ role }),
+  });
+  return expectOk(response, "Failed to change role");
+}
+
+export async function removeMember(projectId: number, memberId: number): Promise<void> {
+  const response = await apiRequest(`/api/projects/${projectId}/members/${memberId}/`, { method: "DELETE" });
+  return expectOk(response, "Failed to remove member");
+}
+
+export async function fetchShareLinks(projectId: number): Promise<ShareLink[]> {
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/share_links/`, { credentials: "include" });
+  const data = await expectOk<ShareLink[] | { results: ShareLink[] }>(response, "Failed to load share links");
+  return Array.isArray(data) ? data : data.results || [];
+}
+
+export async function createShareLink(projectId: number, role: MemberRole, expiresInHours: number): Promise<ShareLink> {
+  const response = await apiRequest(`/api/projects/${projectId}/share_links/`, {
+    method: "POST",
+    body: JSON.stringify({ role, expires_in_hours: expiresInHours || null }),
+  });
+  return expectOk(response, "Failed to create link");
+}
+
+export async function revokeShareLink(projectId: number, token: string): Promise<void> {
+  const response = await apiRequest(`/api/projects/${projectId}/share_links/${encodeURIComponent(token)}/`, {
+    method: "DELETE",
+  });
+  return expectOk(response, "Failed to revoke link");
+}
+
+/**
+ * Look up the project behind a share link; null when the link is unknown, revoked or expired
+ */
+export async function resolveShareLink(token: string): Promise<ResolvedShareLink | null> {
+  const response = await fetch(`${API_BASE}/api/share/${encodeURIComponent(token)}/`, { credentials: "include" });
+  if (response.status === 404 || response.status === 410) return null;
+  const link = await expectOk<ResolvedShareLink>(response, "Failed to open link");
+  return isShareLinkExpired(link) ? null : link;
+}
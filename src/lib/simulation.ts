@@ -0,0 +1,266 @@
+import { ConveyorParams, PlacedComponent } from "./types";
+import { GLOBAL_SCALE_FACTOR } from "./slots";
+
+const THROUGHPUT_WINDOW = 60; // s, rolling window for measured throughput
+export const MAX_SIMULATED_ITEMS = 200;
+
+export type ProductShape = "BOX" | "CUSTOM";
+
+/**
+ * Product size in mm: length along the belt, width across it
+ */
+export interface ProductFootprint {
+  length: number;
+  width: number;
+  height: number;
+}
+
+export const BOX_FOOTPRINT: ProductFootprint = { length: 300, width: 200, height: 200 };
+
+export interface SimulationSettings {
+  shape: ProductShape;
+  footprint: ProductFootprint; // used when shape is CUSTOM
+  spawnRate: number; // items per minute fed onto the belt
+  minGap: number; // mm kept between items at the infeed
+  pressedStop: string | null; // emergency stop button currently pressed; halts the whole belt
+  timeScale: number; // simulated seconds per real second
+}
+
+export const DEFAULT_SIMULATION_SETTINGS: SimulationSettings = {
+  shape: "BOX",
+  footprint: { ...BOX_FOOTPRINT },
+  spawnRate: 30,
+  minGap: 100,
+  pressedStop: null,
+  timeScale: 1,
+};
+
+/**
+ * Footprint actually simulated for the chosen shape
+ */
+export function getProductFootprint(settings: SimulationSettings): ProductFootprint {
+  return settings.shape === "CUSTOM" ? settings.footprint : BOX_FOOTPRINT;
+}
+
+/**
+ * Where things are along the belt, in mm from the infeed end
+ */
+export interface SimulationLayout {
+  travel: number; // mm from infeed to discharge
+  beltSpeed: number; // m/s
+  beltWidth: number; // mm
+  sensors: Array<{ id: string; x: number }>;
+  stops: Array<{ id: string; x: number }>; // emergency stop buttons
+}
+
+/**
+ * Build the simulation layout from the placed SENSOR and STOP_BUTTON (emergency stop) components
+ */
+export function createSimulationLayout(
+  params: ConveyorParams,
+  components: PlacedComponent[],
+  beltSpeed: number
+): SimulationLayout {
+  const alongBelt = (c: PlacedComponent) => ({
+    id: c.id,
+    x: c.position.x / GLOBAL_SCALE_FACTOR + params.D / 2, // slots run from -D/2 to D/2
+  });
+  const byPosition = (a: { x: number }, b: { x: number }) => a.x - b.x;
+
+  return {
+    travel: params.D,
+    beltSpeed,
+    beltWidth: params.N,
+    sensors: components.filter((c) => c.type === "SENSOR").map(alongBelt).sort(byPosition),
+    stops: components.filter((c) => c.type === "STOP_BUTTON").map(alongBelt).sort(byPosition),
+  };
+}
+
+export interface SimulatedItem {
+  id: number;
+  x: number; // mm, centre of the item from the infeed end
+  length: number;
+  width: number;
+  height: number;
+  waiting: boolean; // held back by the item in front or a halted belt
+}
+
+export interface SimulationState {
+  time: number; // simulated seconds
+  items: SimulatedItem[]; // ordered from discharge end to infeed
+  nextId: number;
+  nextSpawnAt: number;
+  infeedQueue: number; // items that arrived while the infeed was blocked
+  spawned: number;
+  delivered: number;
+  deliveredAt: number[]; // times within the throughput window
+  sensorCounts: Record<string, number>;
+  halted: boolean; // an emergency stop is pressed
+  haltedTime: number; // simulated seconds spent halted
+  maxAccumulation: number;
+}
+
+export function createSimulationState(): SimulationState {
+  return {
+    time: 0,
+    items: [],
+    nextId: 1,
+    nextSpawnAt: 0,
+    infeedQueue: 0,
+    spawned: 0,
+    delivered: 0,
+    deliveredAt: [],
+    sensorCounts: {},
+    halted: false,
+    haltedTime: 0,
+    maxAccumulation: 0,
+  };
+}
+
+/**
+ * Items held at the infeed or waiting on the belt
+ */
+function countAccumulated(state: SimulationState): number {
+  return state.infeedQueue + state.items.filter((item) => item.waiting).length;
+}
+
+/**
+ * Advance the simulation by dt seconds (mutates the state).
+ * Items move at belt speed, queue up behind each other and are counted by every sensor they pass.
+ * While an emergency stop is pressed the belt stands still and arrivals pile up at the infeed.
+ */
+export function stepSimulation(
+  state: SimulationState,
+  layout: SimulationLayout,
+  settings: SimulationSettings,
+  dt: number
+): SimulationState {
+  state.time += dt;
+  const footprint = getProductFootprint(settings);
+
+  // Arrivals at the infeed
+  if (settings.spawnRate > 0) {
+    const interval = 60 / settings.spawnRate;
+    while (state.nextSpawnAt <= state.time) {
+      state.infeedQueue++;
+      state.nextSpawnAt += interval;
+    }
+  }
+
+  // Emergency stop: nothing moves until it is released
+  state.halted = !!settings.pressedStop && layout.stops.some((stop) => stop.id === settings.pressedStop);
+  if (state.halted) {
+    state.haltedTime += dt;
+    state.items.forEach((item) => (item.waiting = true));
+    state.deliveredAt = state.deliveredAt.filter((t) => t > state.time - THROUGHPUT_WINDOW);
+    state.maxAccumulation = Math.max(state.maxAccumulation, countAccumulated(state));
+    return state;
+  }
+
+  // Move items front to back so each one sees where the item ahead ended up
+  const advance = layout.beltSpeed * 1000 * dt;
+  let ahead: SimulatedItem | null = null;
+  for (const item of state.items) {
+    const previousFront = item.x + item.length / 2;
+    let x = item.x + advance;
+
+    if (ahead) {
+      x = Math.min(x, ahead.x - ahead.length / 2 - item.length / 2);
+    }
+
+    x = Math.max(x, item.x);
+    item.waiting = x - item.x < advance * 0.5;
+
+    const front = x + item.length / 2;
+    for (const sensor of layout.sensors) {
+      if (previousFront < sensor.x && front >= sensor.x) {
+        state.sensorCounts[sensor.id] = (state.sensorCounts[sensor.id] ?? 0) + 1;
+      }
+    }
+
+    item.x = x;
+    ahead = item;
+  }
+
+  // Discharge items that have fully left the belt
+  const remaining = state.items.filter((item) => item.x - item.length / 2 < layout.travel);
+  const discharged = state.items.length - remaining.length;
+  for (let i = 0; i < discharged; i++) state.deliveredAt.push(state.time);
+  state.delivered += discharged;
+  state.items = remaining;
+  state.deliveredAt = state.deliveredAt.filter((t) => t > state.time - THROUGHPUT_WINDOW);
+
+  // Feed the next queued item once there's room behind the last one
+  const last = state.items[state.items.length - 1];
+  const hasRoom = !last || last.x - last.length / 2 >= footprint.length + settings.minGap;
+  if (state.infeedQueue > 0 && hasRoom && state.items.length < MAX_SIMULATED_ITEMS) {
+    state.items.push({
+      id: state.nextId++,
+      x: footprint.length / 2,
+      ...footprint,
+      waiting: false,
+    });
+    state.infeedQueue--;
+    state.spawned++;
+  }
+
+  state.maxAccumulation = Math.max(state.maxAccumulation, countAccumulated(state));
+  return state;
+}
+
+/**
+ * Maximum items per minute the belt can carry at the given pitch
+ */
+export function calculateCapacity(beltSpeed: number, itemLength: number, minGap: number): number {
+  const pitch = (itemLength + minGap) / 1000; // m
+  return pitch > 0 ? (beltSpeed / pitch) * 60 : 0;
+}
+
+export interface SimulationStats {
+  elapsed: number; // s
+  spawned: number;
+  delivered: number;
+  onBelt: number;
+  throughput: number; // items/min measured at the discharge
+  capacity: number; // items/min the belt can carry
+  accumulated: number;
+  maxAccumulation: number;
+  averageSpacing: number | null; // mm gap between items on the belt
+  minSpacing: number | null;
+  sensorCounts: Record<string, number>;
+  halted: boolean;
+  haltedTime: number; // s
+}
+
+/**
+ * Throughput, accumulation and spacing figures for the current state
+ */
+export function summarizeSimulation(
+  state: SimulationState,
+  layout: SimulationLayout,
+  settings: SimulationSettings
+): SimulationStats {
+  const gaps: number[] = [];
+  for (let i = 1; i < state.items.length; i++) {
+    const front = state.items[i - 1];
+    const back = state.items[i];
+    gaps.push(front.x - front.length / 2 - (back.x + back.length / 2));
+  }
+
+  const window = Math.min(state.time, THROUGHPUT_WINDOW);
+  return {
+    elapsed: state.time,
+    spawned: state.spawned,
+    delivered: state.delivered,
+    onBelt: state.items.length,
+    throughput: window > 0 ? (state.deliveredAt.length / window) * 60 : 0,
+    capacity: calculateCapacity(layout.beltSpeed, getProductFootprint(settings).length, settings.minGap),
+    accumulated: countAccumulated(state),
+    maxAccumulation: state.maxAccumulation,
+    averageSpacing: gaps.length ? gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length : null,
+    minSpacing: gaps.length ? Math.min(...gaps) : null,
+    sensorCounts: { ...state.sensorCounts },
+    halted: state.halted,
+    haltedTime: state.haltedTime,
+  };
+}
@@ -1,8 +1,9 @@
 import * as THREE from "three";
-import { Slot, SlotType, ConveyorParams, Side } from "./types";
-import { calculateDimensions } from "./params";
+import { Slot, SlotType, ConveyorParams, ConveyorModel, Side } from "./types";
+import { calculateDimensions, validateSideGuideHeight } from "./params";
+import { getModelSpec, isEngineTypeAllowed } from "./modelCatalogue";
 
-const GLOBAL_SCALE_FACTOR = 0.01; // Convert mm to scene units
+export const GLOBAL_SCALE_FACTOR = 0.01; // Convert mm to scene units
 
 /**
  * Generate all slots for a conveyor based on parameters
@@ -22,8 +23,8 @@ export function generateSlots(params: ConveyorParams): Slot[] {
   const railHeight = 0.1 * GLOBAL_SCALE_FACTOR; // 100mm rail height
   const motorSideOffset = 0.2 * GLOBAL_SCALE_FACTOR; // Motor side offset
 
-  // Generate ENGINE_MOUNT slots
-  if (engineType) {
+  // Generate ENGINE_MOUNT slots (only for engine types the model supports)
+  if (engineType && isEngineTypeAllowed(model, engineType)) {
     slots.push(...generateEngineMountSlots(D_scene, R_scene, frameHeight, engineType));
   }
 
@@ -43,7 +44,7 @@ export function generateSlots(params: ConveyorParams): Slot[] {
   slots.push(...generateSensorSlots(D_scene, R_scene, railHeight));
 
   // Generate SIDE_GUIDE_BRACKET slots
-  if (sideGuideEnabled && sideGuideHeight && sideGuideHeight >= 15 && sideGuideHeight <= 250) {
+  if (sideGuideEnabled && sideGuideHeight && validateSideGuideHeight(sideGuideHeight).valid) {
     slots.push(...generateSideGuideBracketSlots(L_scene, R_scene, railHeight));
   }
 
@@ -119,16 +120,17 @@ function generateStopButtonSlots(
   railHeight: number,
   side: "MOTOR" | "OPPOSITE" | "BOTH",
   counts: { motor: number; opposite: number },
-  model: "DPS50" | "DPS60" | "DPS96"
+  model: ConveyorModel
 ): Slot[] {
   const slots: Slot[] = [];
   const railY = railHeight + 0.02;
+  const { max } = getModelSpec(model).stopButtonLimits;
   const motorZ = -R / 2 + 0.05;
   const oppositeZ = R / 2 - 0.05;
 
   // Generate slots for motor side
   if (side === "MOTOR" || side === "BOTH") {
-    const count = counts.motor;
+    const count = Math.min(counts.motor, max);
     if (count > 0) {
       slots.push(...generateLinearSlots(
         L,
@@ -144,7 +146,7 @@ function generateStopButtonSlots(
 
   // Generate slots for opposite side
   if (side === "OPPOSITE" || side === "BOTH") {
-    const count = counts.opposite;
+    const count = Math.min(counts.opposite, max);
     if (count > 0) {
       slots.push(...generateLinearSlots(
         L,
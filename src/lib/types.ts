@@ -1,4 +1,5 @@
 import * as THREE from "three";
+import type { ConveyorModel } from "./modelCatalogue";
 
 export type SlotType = 
   | "ENGINE_MOUNT" 
@@ -8,7 +9,7 @@ export type SlotType =
   | "WHEEL" 
   | "FRAME_LEG";
 
-export type ConveyorModel = "DPS50" | "DPS60" | "DPS96";
+export type { ConveyorModel }; // ids of the catalogue models, see modelCatalogue.ts
 
 export type EngineType = "NORMAL" | "REDACTOR" | "CENTRAL";
 
@@ -43,6 +44,18 @@ export interface ConveyorParams {
   supportingFrame?: boolean;
   frameHeight?: number;
   frameWheels?: boolean;
+  drive?: DriveSettings;
+}
+
+/**
+ * Operating conditions used to size the drive, and the motor chosen for the engine mount
+ */
+export interface DriveSettings {
+  loadPerMetre: number;        // kg of product per metre of belt
+  beltSpeed: number;           // m/s
+  inclineDeg: number;          // degrees, positive = conveying uphill
+  frictionCoefficient: number; // belt on slider bed
+  motorId?: string;            // part number from the motor catalogue (see driveSizing.ts)
 }
 
 export interface PlacedComponent {
@@ -55,3 +68,31 @@ export interface PlacedComponent {
   name: string;
 }
 
+
+export type SectionKind = "STRAIGHT" | "CURVE" | "TRANSFER" | "MERGE";
+
+export type TurnDirection = "LEFT" | "RIGHT";
+
+/**
+ * Position (mm, on the floor plane) and heading (radians about +Y) of a section end
+ */
+export interface SectionPose {
+  x: number;
+  z: number;
+  heading: number;
+}
+
+/**
+ * One conveyor in a multi-section line
+ */
+export interface LineSection {
+  id: string;
+  kind: SectionKind;
+  params: ConveyorParams;
+  components: PlacedComponent[];
+  entry: SectionPose;       // computed for attached sections
+  attachedTo: string | null; // section whose exit (or side, for merges) this section joins
+  turn?: TurnDirection;     // CURVE: turn direction; MERGE: side of the target it joins from
+  curveRadius?: number;     // CURVE: centreline radius (mm)
+  mergeOffset?: number;     // MERGE: distance along the target section (mm)
+}
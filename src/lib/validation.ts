@@ -0,0 +1,283 @@
+import { ConveyorParams, PlacedComponent, Slot, SlotType } from "./types";
+import {
+  DIMENSION_LIMITS,
+  getStopButtonLimits,
+  validateSideGuideHeight,
+  validateStopButtonCount,
+} from "./params";
+import { getModelSpec, isEngineTypeAllowed } from "./modelCatalogue";
+import { calculateDriveRequirements, getMotorSpec, isMotorUndersized, recommendMotor } from "./driveSizing";
+
+export type ValidationSeverity = "error" | "warning";
+
+export type ValidationCode =
+  | "LENGTH_OUT_OF_RANGE"
+  | "WIDTH_OUT_OF_RANGE"
+  | "ENGINE_TYPE_NOT_SUPPORTED"
+  | "ENGINE_MOUNT_MISSING"
+  | "ENGINE_MOUNT_WITHOUT_ENGINE"
+  | "DRIVE_UNDERSIZED"
+  | "STOP_BUTTON_SIDE_MISSING"
+  | "STOP_BUTTON_CONFIG_INVALID"
+  | "STOP_BUTTON_COUNT_LOW"
+  | "STOP_BUTTON_COUNT_HIGH"
+  | "SIDE_GUIDE_HEIGHT_INVALID"
+  | "SIDE_GUIDE_BRACKETS_MISSING"
+  | "FRAME_LEGS_MISSING"
+  | "FRAME_WITHOUT_SUPPORT"
+  | "WHEELS_WITHOUT_FRAME";
+
+/**
+ * A single problem found in the configuration.
+ * slotIds/componentIds point at what should be highlighted in the scene.
+ */
+export interface ValidationIssue {
+  id: string;
+  code: ValidationCode;
+  severity: ValidationSeverity;
+  message: string;
+  slotIds: string[];
+  componentIds: string[];
+}
+
+export interface ValidationResult {
+  issues: ValidationIssue[];
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  isValid: boolean;
+}
+
+interface ValidationContext {
+  params: ConveyorParams;
+  components: PlacedComponent[];
+  slots: Slot[];
+}
+
+type ValidationRule = (ctx: ValidationContext) => ValidationIssue[];
+
+function issue(
+  code: ValidationCode,
+  severity: ValidationSeverity,
+  message: string,
+  targets: { slotIds?: string[]; componentIds?: string[]; key?: string } = {}
+): ValidationIssue {
+  return {
+    id: targets.key ? `${code}:${targets.key}` : code,
+    code,
+    severity,
+    message,
+    slotIds: targets.slotIds ?? [],
+    componentIds: targets.componentIds ?? [],
+  };
+}
+
+const slotIdsOfType = (slots: Slot[], type: SlotType) =>
+  slots.filter((slot) => slot.type === type).map((slot) => slot.id);
+
+const componentsOfType = (components: PlacedComponent[], type: SlotType) =>
+  components.filter((c) => c.type === type);
+
+const dimensionRule: ValidationRule = ({ params }) => {
+  const issues: ValidationIssue[] = [];
+  const { length } = DIMENSION_LIMITS;
+  const width = getModelSpec(params.model).widthLimits;
+
+  if (params.L < length.min || params.L > length.max) {
+    issues.push(issue(
+      "LENGTH_OUT_OF_RANGE",
+      "error",
+      `Length L must be between ${length.min} and ${length.max} mm (is ${params.L} mm)`
+    ));
+  }
+  if (params.N < width.min || params.N > width.max) {
+    issues.push(issue(
+      "WIDTH_OUT_OF_RANGE",
+      "warning",
+      `Belt width N of ${params.N} mm is outside the ${width.min}-${width.max} mm range for ${params.model}`
+    ));
+  }
+
+  return issues;
+};
+
+const engineRule: ValidationRule = ({ params, components, slots }) => {
+  const mounts = componentsOfType(components, "ENGINE_MOUNT");
+
+  if (params.engineType && !isEngineTypeAllowed(params.model, params.engineType)) {
+    return [issue(
+      "ENGINE_TYPE_NOT_SUPPORTED",
+      "error",
+      `${params.model} does not support the ${params.engineType} engine type`
+    )];
+  }
+  if (params.engineType && mounts.length === 0) {
+    return [issue(
+      "ENGINE_MOUNT_MISSING",
+      "error",
+      `Engine type ${params.engineType} is selected but no engine is mounted`,
+      { slotIds: slotIdsOfType(slots, "ENGINE_MOUNT") }
+    )];
+  }
+  if (!params.engineType && mounts.length > 0) {
+    return [issue(
+      "ENGINE_MOUNT_WITHOUT_ENGINE",
+      "warning",
+      "An engine mount is placed but no engine type is selected",
+      { componentIds: mounts.map((c) => c.id) }
+    )];
+  }
+
+  return [];
+};
+
+const driveRule: ValidationRule = ({ params, components }) => {
+  const mounts = componentsOfType(components, "ENGINE_MOUNT");
+  if (mounts.length === 0) return [];
+
+  const requirements = calculateDriveRequirements(params);
+  const motor = getMotorSpec(params.drive?.motorId);
+  if (!isMotorUndersized(motor, requirements)) return [];
+
+  const recommended = recommendMotor(requirements);
+  const hint = recommended ? `, use ${recommended.name} or larger` : ", no catalogue motor is large enough";
+  return [issue(
+    "DRIVE_UNDERSIZED",
+    "error",
+    `${motor.name} is undersized: ${requirements.requiredPower.toFixed(2)} kW required${hint}`,
+    { componentIds: mounts.map((c) => c.id) }
+  )];
+};
+
+const stopButtonRule: ValidationRule = ({ params, components, slots }) => {
+  const issues: ValidationIssue[] = [];
+  const buttons = componentsOfType(components, "STOP_BUTTON");
+
+  if (!params.stopButtonSide) {
+    if (buttons.length > 0) {
+      issues.push(issue(
+        "STOP_BUTTON_SIDE_MISSING",
+        "warning",
+        "Stop buttons are placed but no stop button side is selected",
+        { componentIds: buttons.map((c) => c.id) }
+      ));
+    }
+    return issues;
+  }
+
+  const limits = getStopButtonLimits(params.model);
+  const counts = params.stopButtonCount || { motor: 0, opposite: 0 };
+  const sides: Array<"motor" | "opposite"> = [];
+  if (params.stopButtonSide !== "OPPOSITE") sides.push("motor");
+  if (params.stopButtonSide !== "MOTOR") sides.push("opposite");
+
+  for (const side of sides) {
+    const label = side === "motor" ? "Motor side" : "Opposite side";
+    const configured = validateStopButtonCount(counts[side], params.model, side);
+    if (!configured.valid) {
+      issues.push(issue(
+        "STOP_BUTTON_CONFIG_INVALID",
+        "error",
+        `${label}: ${configured.error}`,
+        { key: side }
+      ));
+      continue;
+    }
+
+    const sideSlots = slots
+      .filter((slot) => slot.type === "STOP_BUTTON" && slot.id.includes(side))
+      .map((slot) => slot.id);
+    const placed = buttons.filter((c) => c.slotId.includes(side));
+
+    if (placed.length < limits.min) {
+      issues.push(issue(
+        "STOP_BUTTON_COUNT_LOW",
+        "error",
+        `${label}: ${placed.length} stop button${placed.length === 1 ? "" : "s"} placed, at least ${limits.min} required for ${params.model}`,
+        { slotIds: sideSlots, key: side }
+      ));
+    } else if (placed.length > limits.max) {
+      issues.push(issue(
+        "STOP_BUTTON_COUNT_HIGH",
+        "error",
+        `${label}: ${placed.length} stop buttons placed, max ${limits.max} allowed for ${params.model}`,
+        { componentIds: placed.map((c) => c.id), key: side }
+      ));
+    }
+  }
+
+  return issues;
+};
+
+const sideGuideRule: ValidationRule = ({ params, components, slots }) => {
+  if (!params.sideGuideEnabled) return [];
+
+  const height = validateSideGuideHeight(params.sideGuideHeight ?? 0);
+  if (!height.valid) {
+    return [issue("SIDE_GUIDE_HEIGHT_INVALID", "error", `Side guide: ${height.error}`)];
+  }
+
+  if (componentsOfType(components, "SIDE_GUIDE_BRACKET").length === 0) {
+    return [issue(
+      "SIDE_GUIDE_BRACKETS_MISSING",
+      "warning",
+      "Side guides are enabled but no side guide brackets are placed",
+      { slotIds: slotIdsOfType(slots, "SIDE_GUIDE_BRACKET") }
+    )];
+  }
+
+  return [];
+};
+
+const frameRule: ValidationRule = ({ params, components, slots }) => {
+  const issues: ValidationIssue[] = [];
+  const legs = componentsOfType(components, "FRAME_LEG");
+  const wheels = componentsOfType(components, "WHEEL");
+
+  if (params.supportingFrame) {
+    if (legs.length === 0) {
+      issues.push(issue(
+        "FRAME_LEGS_MISSING",
+        "error",
+        "Supporting frame is enabled but has no legs",
+        { slotIds: slotIdsOfType(slots, "FRAME_LEG") }
+      ));
+    }
+    return issues;
+  }
+
+  if (legs.length > 0) {
+    issues.push(issue(
+      "FRAME_WITHOUT_SUPPORT",
+      "error",
+      "Frame legs are placed but the supporting frame is disabled",
+      { componentIds: legs.map((c) => c.id) }
+    ));
+  }
+  if (params.frameWheels || wheels.length > 0) {
+    issues.push(issue(
+      "WHEELS_WITHOUT_FRAME",
+      wheels.length > 0 ? "error" : "warning",
+      "Wheels require a supporting frame",
+      { componentIds: wheels.map((c) => c.id) }
+    ));
+  }
+
+  return issues;
+};
+
+const RULES: ValidationRule[] = [dimensionRule, engineRule, driveRule, stopButtonRule, sideGuideRule, frameRule];
+
+/**
+ * Validate conveyor parameters and slot placements against all configuration rules
+ */
+export function validateConfiguration(
+  params: ConveyorParams,
+  components: PlacedComponent[],
+  slots: Slot[] = []
+): ValidationResult {
+  const issues = RULES.flatMap((rule) => rule({ params, components, slots }));
+  const errors = issues.filter((i) => i.severity === "error");
+  const warnings = issues.filter((i) => i.severity === "warning");
+
+  return { issues, errors, warnings, isValid: errors.length === 0 };
+}
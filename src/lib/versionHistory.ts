@@ -0,0 +1,396 @@
+import type { ComponentBOMFields } from "./bom";
+import type { ConnectorSpec } from "./connectors";
+import type { SerializedAnnotations } from "./annotations";
+import type { SerializedPlacementState } from "./placementState";
+import type { ConveyorParams, SlotType } from "./types";
+
+/**
+ * Key under which the version history is stored in the project's metadata
+ */
+export const VERSIONS_METADATA_KEY = "versions";
+
+/**
+ * Automatic snapshots kept per project; named snapshots are never pruned
+ */
+export const MAX_AUTO_SNAPSHOTS = 20;
+
+/**
+ * Minimum time between two automatic snapshots (taken on save)
+ */
+export const AUTO_SNAPSHOT_INTERVAL = 30 * 60 * 1000;
+
+const POSITION_TOLERANCE = 0.01; // scene units (1 mm)
+const ROTATION_TOLERANCE = (0.1 * Math.PI) / 180; // radians
+
+/**
+ * A free-placed scene component as stored in a snapshot
+ */
+export interface SnapshotComponent {
+  id: string;
+  componentId: number;
+  name: string;
+  category: string;
+  glb_url?: string | null;
+  original_url?: string | null;
+  bounding_box?: { min?: number[]; max?: number[] } | null;
+  center?: number[] | null;
+  position: [number, number, number];
+  rotation?: [number, number, number];
+  groupId?: string | null;
+  linkedTo?: string;
+  isLocked?: boolean;
+  connectors?: ConnectorSpec[];
+  bom?: ComponentBOMFields;
+}
+
+export type SnapshotKind = "named" | "auto";
+
+/**
+ * The full assembly at one point in time: scene components (with their groups),
+ * the slot configurator and the scene annotations
+ */
+export interface ProjectSnapshot {
+  id: string;
+  name: string;
+  kind: SnapshotKind;
+  createdAt: string; // ISO timestamp
+  author: string | null;
+  components: SnapshotComponent[];
+  placement: SerializedPlacementState;
+  annotations?: SerializedAnnotations;
+}
+
+export type ComponentChange = "added" | "removed" | "moved" | "changed";
+
+export const CHANGE_COLORS: Record<ComponentChange, string> = {
+  added: "#22c55e",
+  removed: "#ef4444",
+  moved: "#f59e0b",
+  changed: "#3b82f6",
+};
+
+export interface ComponentDiff {
+  id: string;
+  name: string;
+  change: ComponentChange;
+  before?: SnapshotComponent;
+  after?: SnapshotComponent;
+  details: string[];
+}
+
+export interface ParamDiff {
+  key: keyof ConveyorParams;
+  before: unknown;
+  after: unknown;
+}
+
+export interface SnapshotDiff {
+  components: ComponentDiff[];
+  unchanged: number;
+  params: ParamDiff[];
+  slots: Array<{ type: SlotType; before: number; after: number }>;
+}
+
+export function createSnapshot(
+  name: string,
+  kind: SnapshotKind,
+  author: string | null,
+  components: SnapshotComponent[],
+  placement: SerializedPlacementState,
+  annotations?: SerializedAnnotations
+): ProjectSnapshot {
+  return {
+    id: `snap_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    name,
+    kind,
+    createdAt: new Date().toISOString(),
+    author,
+    // Plain copies so later edits to the scene never leak into the snapshot
+    components: JSON.parse(JSON.stringify(components.map(toSnapshotComponent))),
+    placement: JSON.parse(JSON.stringify(placement)),
+    annotations: annotations ? JSON.parse(JSON.stringify(annotations)) : undefined,
+  };
+}
+
+/**
+ * Keep only the fields a snapshot needs (drops processing status and the like)
+ */
+export function toSnapshotComponent(component: SnapshotComponent): SnapshotComponent {
+  return {
+    id: component.id,
+    componentId: component.componentId,
+    name: component.name,
+    category: component.category,
+    glb_url: component.glb_url,
+    original_url: component.original_url,
+    bounding_box: component.bounding_box,
+    center: component.center,
+    position: component.position,
+    rotation: component.rotation,
+    groupId: component.groupId ?? null,
+    linkedTo: component.linkedTo,
+    isLocked: component.isLocked,
+    connectors: component.connectors,
+    bom: component.bom,
+  };
+}
+
+function isSnapshot(value: unknown): value is ProjectSnapshot {
+  if (!value || typeof value !== "object") return false;
+  const s = value as Partial<ProjectSnapshot>;
+  return (
+    typeof s.id === "string" &&
+    typeof s.createdAt === "string" &&
+    Array.isArray(s.components) &&
+    !!s.placement &&
+    typeof s.placement === "object"
+  );
+}
+
+/**
+ * Read the version history from project metadata, newest first
+ */
+export function parseSnapshots(metadata: Record<string, unknown> | null | undefined): ProjectSnapshot[] {
+  const list = metadata?.[VERSIONS_METADATA_KEY];
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter(isSnapshot)
+    .map((s) => ({ ...s, name: s.name || "Untitled version", kind: s.kind === "named" ? "named" : "auto" }) as ProjectSnapshot)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Add a snapshot to the front of the history, dropping the oldest automatic ones past the limit
+ */
+export function addSnapshot(history: ProjectSnapshot[], snapshot: ProjectSnapshot): ProjectSnapshot[] {
+  let autos = 0;
+  return [snapshot, ...history].filter((s) => s.kind === "named" || ++autos <= MAX_AUTO_SNAPSHOTS);
+}
+
+/**
+ * Identity of the assembly a snapshot holds, for spotting snapshots with nothing new in them
+ */
+export function snapshotKey(components: SnapshotComponent[], placement: SerializedPlacementState): string {
+  return JSON.stringify({
+    components: components.map((c) => [c.id, c.componentId, c.position, c.rotation ?? null, c.groupId ?? null]),
+    params: placement.params,
+    slots: placement.components.map((c) => [c.slotId, c.type]),
+    sections: placement.sections?.map((s) => [s.id, s.params, s.components.map((c) => c.slotId)]) ?? null,
+  });
+}
+
+/**
+ * Whether saving should also record an automatic snapshot
+ */
+export function shouldAutoSnapshot(
+  history: ProjectSnapshot[],
+  components: SnapshotComponent[],
+  placement: SerializedPlacementState,
+  now = Date.now()
+): boolean {
+  if (components.length === 0 && placement.components.length === 0) return false;
+  const latest = history[0];
+  if (!latest) return true;
+  if (now - Date.parse(latest.createdAt) < AUTO_SNAPSHOT_INTERVAL) return false;
+  return snapshotKey(latest.components, latest.placement) !== snapshotKey(components, placement);
+}
+
+function vectorsDiffer(a: number[] | undefined, b: number[] | undefined, tolerance: number): boolean {
+  const [a0 = 0, a1 = 0, a2 = 0] = a ?? [];
+  const [b0 = 0, b1 = 0, b2 = 0] = b ?? [];
+  return Math.abs(a0 - b0) > tolerance || Math.abs(a1 - b1) > tolerance || Math.abs(a2 - b2) > tolerance;
+}
+
+function boxSize(component: SnapshotComponent): number[] {
+  const { min = [0, 0, 0], max = [0, 0, 0] } = component.bounding_box ?? {};
+  return [0, 1, 2].map((i) => Math.round(Math.abs((max[i] ?? 0) - (min[i] ?? 0))));
+}
+
+function componentChanges(before: SnapshotComponent, after: SnapshotComponent): string[] {
+  const details: string[] = [];
+  if (before.componentId !== after.componentId) details.push("replaced with a different part");
+  if (before.name !== after.name) details.push(`renamed from "${before.name}"`);
+  if (boxSize(before).join("x") !== boxSize(after).join("x")) {
+    details.push(`resized ${boxSize(before).join("×")} → ${boxSize(after).join("×")} mm`);
+  }
+  if ((before.groupId ?? null) !== (after.groupId ?? null)) details.push(after.groupId ? "grouped" : "ungrouped");
+  if (!!before.isLocked !== !!after.isLocked) details.push(after.isLocked ? "locked" : "unlocked");
+  return details;
+}
+
+function countSlots(placement: SerializedPlacementState): Map<SlotType, number> {
+  const counts = new Map<SlotType, number>();
+  const all = [...placement.components, ...(placement.sections?.flatMap((s) => s.components) ?? [])];
+  // With line sections the main list mirrors the active section; count each slot once
+  const seen = new Set<string>();
+  for (const c of all) {
+    if (seen.has(c.id)) continue;
+    seen.add(c.id);
+    counts.set(c.type, (counts.get(c.type) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * What changed between two assemblies: components added, removed, moved or otherwise changed,
+ * configurator parameters that differ and slot counts per type.
+ * Components are matched by scene id, then by library part for ids that only exist on one side.
+ */
+export function diffSnapshots(
+  before: Pick<ProjectSnapshot, "components" | "placement">,
+  after: Pick<ProjectSnapshot, "components" | "placement">
+): SnapshotDiff {
+  const remaining = new Map(before.components.map((c) => [c.id, c]));
+  const pairs: Array<[SnapshotComponent | undefined, SnapshotComponent | undefined]> = [];
+  const unmatched: SnapshotComponent[] = [];
+
+  for (const component of after.components) {
+    const match = remaining.get(component.id);
+    if (match) {
+      remaining.delete(component.id);
+      pairs.push([match, component]);
+    } else {
+      unmatched.push(component);
+    }
+  }
+  // Restored or re-added parts get new ids; pair them with the nearest removed copy of the same part
+  for (const component of unmatched) {
+    let best: SnapshotComponent | undefined;
+    let bestDistance = Infinity;
+    for (const candidate of remaining.values()) {
+      if (candidate.componentId !== component.componentId) continue;
+      const distance = Math.hypot(...component.position.map((v, i) => v - candidate.position[i]));
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    if (best) remaining.delete(best.id);
+    pairs.push([best, component]);
+  }
+  remaining.forEach((component) => pairs.push([component, undefined]));
+
+  const components: ComponentDiff[] = [];
+  let unchanged = 0;
+  for (const [b, a] of pairs) {
+    const name = (a ?? b)!.name;
+    const id = (a ?? b)!.id;
+    if (!b) {
+      components.push({ id, name, change: "added", after: a, details: [] });
+    } else if (!a) {
+      components.push({ id, name, change: "removed", before: b, details: [] });
+    } else {
+      const details = componentChanges(b, a);
+      const moved =
+        vectorsDiffer(b.position, a.position, POSITION_TOLERANCE) ||
+        vectorsDiffer(b.rotation, a.rotation, ROTATION_TOLERANCE);
+      if (details.length > 0) {
+        if (moved) details.push("moved");
+        components.push({ id, name, change: "changed", before: b, after: a, details });
+      } else if (moved) {
+        components.push({ id, name, change: "moved", before: b, after: a, details: [] });
+      } else {
+        unchanged++;
+      }
+    }
+  }
+
+  const beforeParams = before.placement.params as unknown as Record<string, unknown>;
+  const afterParams = after.placement.params as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(beforeParams ?? {}), ...Object.keys(afterParams ?? {})]);
+  const params: ParamDiff[] = [];
+  keys.forEach((key) => {
+    const b = beforeParams?.[key];
+    const a = afterParams?.[key];
+    if (JSON.stringify(b) !== JSON.stringify(a)) {
+      params.push({ key: key as keyof ConveyorParams, before: b, after: a });
+    }
+  });
+
+  const beforeSlots = countSlots(before.placement);
+  const afterSlots = countSlots(after.placement);
+  const slotTypes = new Set([...beforeSlots.keys(), ...afterSlots.keys()]);
+  const slots = Array.from(slotTypes)
+    .map((type) => ({ type, before: beforeSlots.get(type) ?? 0, after: afterSlots.get(type) ?? 0 }))
+    .filter((s) => s.before !== s.after);
+
+  return { components, unchanged, params, slots };
+}
+
+export function isEmptyDiff(diff: SnapshotDiff): boolean {
+  return diff.components.length === 0 && diff.params.length === 0 && diff.slots.length === 0;
+}
+
+/**
+ * Request body for `/api/projects/:id/add_component/` that re-creates a snapshot component
+ */
+export function addComponentBody(component: SnapshotComponent) {
+  const [rx, ry, rz] = component.rotation ?? [0, 0, 0];
+  return {
+    component_id: component.componentId,
+    custom_name: component.name,
+    position_x: component.position[0],
+    position_y: component.position[1],
+    position_z: component.position[2],
+    rotation_x: rx,
+    rotation_y: ry,
+    rotation_z: rz,
+    rotation_w: 1.0,
+  };
+}
+
+/**
+ * Point links and groups at the ids the components got when they were re-created
+ */
+export function remapSnapshotComponents(
+  components: SnapshotComponent[],
+  idMap: Map<string, string>
+): SnapshotComponent[] {
+  const mapId = (id: string) => idMap.get(id) ?? id;
+  return components.map((c) => ({
+    ...c,
+    id: mapId(c.id),
+    linkedTo: c.linkedTo ? mapId(c.linkedTo) : undefined,
+  }));
+}
+
+/**
+ * Entry of the `/api/projects/:id/save/` payload for a scene component stored under `backendId`
+ */
+export function assemblyItemPayload(backendId: number, c: SnapshotComponent) {
+  // Calculate dimensions from bounding box if available
+  let scale_x = 1, scale_y = 1, scale_z = 1;
+  if (c.bounding_box) {
+    const width = Math.abs((c.bounding_box.max?.[0] || 0) - (c.bounding_box.min?.[0] || 0));
+    const height = Math.abs((c.bounding_box.max?.[1] || 0) - (c.bounding_box.min?.[1] || 0));
+    const length = Math.abs((c.bounding_box.max?.[2] || 0) - (c.bounding_box.min?.[2] || 0));
+
+    scale_x = width || 1;
+    scale_y = height || 1;
+    scale_z = length || 1;
+  }
+
+  return {
+    id: backendId,
+    position_x: c.position[0],
+    position_y: c.position[1],
+    position_z: c.position[2],
+    rotation_x: (c.rotation || [0, 0, 0])[0],
+    rotation_y: (c.rotation || [0, 0, 0])[1],
+    rotation_z: (c.rotation || [0, 0, 0])[2],
+    rotation_w: 1.0,
+    scale_x: scale_x,
+    scale_y: scale_y,
+    scale_z: scale_z,
+    metadata: {
+      componentId: c.componentId,
+      name: c.name,
+      category: c.category,
+      bounding_box: c.bounding_box,
+      center: c.center,
+      groupId: c.groupId || null,
+      linkedTo: c.linkedTo || null,
+      isLocked: !!c.isLocked,
+    },
+  };
+}
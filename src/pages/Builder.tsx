@@ -1,21 +1,88 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { useParams, useSearchParams, useNavigate } from 'react-router-dom';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
 import { Toolbar } from '@/components/Toolbar';
-import { ComponentLibrary } from '@/components/ComponentLibrary';
+import { ComponentLibrary, LibraryDragData } from '@/components/ComponentLibrary';
 import { PropertiesPanel } from '@/components/PropertiesPanel';
 import { BOMPanel } from '@/components/BOMPanel';
+import { ProblemsPanel } from '@/components/ProblemsPanel';
+import { LinePanel } from '@/components/LinePanel';
+import { PlacementConfigPanel } from '@/components/PlacementConfigPanel';
+import { SimulationPanel } from '@/components/SimulationPanel';
+import { ExportModelDialog } from '@/components/ExportModelDialog';
+import { DrawingDialog } from '@/components/DrawingDialog';
+import { MeasurePanel } from '@/components/MeasurePanel';
+import { HistoryPanel } from '@/components/HistoryPanel';
+import { CompareDialog } from '@/components/CompareDialog';
+import { CompareView } from '@/components/CompareView';
+import { SyncConflictDialog } from '@/components/SyncConflictDialog';
+import { ReviewPanel } from '@/components/ReviewPanel';
+import { CameraViewsPanel } from '@/components/CameraViewsPanel';
+import { PresentationOverlay } from '@/components/PresentationOverlay';
+import { AssemblyPanel, AssemblyPlayback } from '@/components/AssemblyPanel';
 import { Scene, SceneControls } from '@/components/3d/Scene';
 import { SettingsDialog } from '@/components/SettingsDialog';
 import { SettingsPanel, SceneSettings, DEFAULT_SETTINGS as DEFAULT_SCENE_SETTINGS } from '@/components/3d/SettingsPanel';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { ChevronLeft, ChevronRight, Lock } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Link2Off, Lock } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 import { ConveyorComponent, BOMItem } from '@/types/conveyor';
 import { useAuth } from '@/hooks/useAuth';
-import { usePlacementStore } from '@/state/store';
+import { useProjectActions } from '@/hooks/useProjectActions';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+import { useCollaboration } from '@/hooks/useCollaboration';
+import { useReviewComments } from '@/hooks/useReviewComments';
+import { usePlacementStore, useMeasureStore, useCollisionStore, useLibraryStore, useOfflineStore, useReviewStore, useViewsStore, useAssemblyStore, PlacementSnapshot, placementSnapshotKey } from '@/state/store';
+import { useBOM } from '@/hooks/useBOM';
+import { useValidation } from '@/hooks/useValidation';
+import { serializePlacementState, deserializePlacementState, PLACEMENT_METADATA_KEY } from '@/lib/placementState';
+import { serializeAnnotations, deserializeAnnotations, ANNOTATIONS_METADATA_KEY } from '@/lib/annotations';
 import { getOrFetchCsrfToken } from '@/lib/api';
+import { CompareSide } from '@/lib/assemblyCompare';
+import { applyCollabOp } from '@/lib/collaboration';
+import { ProjectRole, canComment, canEdit, projectRole, resolveShareLink, roleLabel, shareTokenQuery } from '@/lib/sharing';
+import { CommentThread } from '@/lib/reviewComments';
+import { ExplodedDisplay, explodeOffsets, explosionClusters } from '@/lib/explodedView';
+import {
+  ASSEMBLY_SEQUENCE_METADATA_KEY,
+  STEP_CAPTURE_DELAY,
+  STEP_ENTER_FROM,
+  annotateStepImage,
+  deserializeAssemblySequence,
+  pruneSequence,
+  serializeAssemblySequence,
+  stepVisibility,
+  suggestAssemblySequence,
+  unsequencedComponentIds,
+} from '@/lib/assemblySequence';
+import { downloadBlob, slugify } from '@/lib/utils';
+import { CAMERA_VIEWS_METADATA_KEY, PRESENTATION_FLIGHT, SavedView, deserializeCameraViews, serializeCameraViews } from '@/lib/cameraView';
+import {
+  LocalAssembly,
+  UNREACHABLE_STATUSES,
+  countPendingMutations,
+  createLocalItemId,
+  fetchUpdatedAt,
+  isNetworkError,
+  loadLocalAssembly,
+} from '@/lib/offlineQueue';
 import { API_BASE } from '@/lib/config';
+import { downloadAssembly, ModelExportOptions } from '@/lib/sceneExport';
+import { ConnectorSpec, parseConnectors } from '@/lib/connectors';
+import { BOM_METADATA_KEY, ComponentBOMFields, parseComponentBOM } from '@/lib/bom';
+import {
+  ProjectSnapshot,
+  VERSIONS_METADATA_KEY,
+  addComponentBody,
+  addSnapshot,
+  assemblyItemPayload,
+  createSnapshot,
+  parseSnapshots,
+  remapSnapshotComponents,
+  shouldAutoSnapshot,
+} from '@/lib/versionHistory';
+import { toast } from 'sonner';
 
 type SceneComponent = {
   id: string;
@@ -33,6 +100,8 @@ type SceneComponent = {
   linkedTo?: string; // ID of the component this is linked/merged with
   isLocked?: boolean; // Whether this link is locked (merged)
   groupId?: string | null; // ID of the group this component belongs to
+  connectors?: ConnectorSpec[]; // Typed attach points declared by the library component
+  bom?: ComponentBOMFields; // BOM fields entered when the part was uploaded
 };
 
 type ComponentGroup = {
@@ -40,13 +109,48 @@ type ComponentGroup = {
   componentIds: string[];
 };
 
+// A single undo/redo step covering both the free-placed scene and the slot configurator
+type HistorySnapshot = {
+  scene: SceneComponent[];
+  placement: PlacementSnapshot;
+};
+
+const sceneHistoryKey = (components: SceneComponent[]) =>
+  JSON.stringify(components.map(c => ({ id: c.id, position: c.position, rotation: c.rotation })));
+
+// Groups are stored as a groupId on each member
+const groupsFromComponents = (components: SceneComponent[]): ComponentGroup[] => {
+  const groupMap = new Map<string, string[]>(); // groupId -> componentIds
+  components.forEach(comp => {
+    if (comp.groupId) {
+      if (!groupMap.has(comp.groupId)) {
+        groupMap.set(comp.groupId, []);
+      }
+      groupMap.get(comp.groupId)!.push(comp.id);
+    }
+  });
+
+  return Array.from(groupMap.entries()).map(([groupId, componentIds]) => ({
+    id: groupId,
+    componentIds: componentIds,
+    position: [0, 0, 0] as [number, number, number],
+    rotation: [0, 0, 0] as [number, number, number],
+    scale: [1, 1, 1] as [number, number, number],
+  }));
+};
+
 const Builder = () => {
-  const { id } = useParams<{ id: string }>();
-  const [searchParams] = useSearchParams();
+  const { id, token: shareToken } = useParams<{ id: string; token: string }>();
   const navigate = useNavigate();
-  const { isAuthenticated } = useAuth();
-  const isReadonly = searchParams.get('readonly') === '1' || id === 'demo';
+  const { isAuthenticated, user } = useAuth();
+  const { forkSnapshot } = useProjectActions();
   const isDemo = id === 'demo';
+  // Access comes from the project's membership or the share link it was opened with
+  const [accessRole, setAccessRole] = useState<ProjectRole>(shareToken ? 'viewer' : 'owner');
+  const [shareExpiresAt, setShareExpiresAt] = useState<string | null>(null);
+  const [shareLinkError, setShareLinkError] = useState<'invalid' | 'unreachable' | null>(null);
+  const isReadonly = isDemo || !canEdit(accessRole);
+  const canReview = !isDemo && canComment(accessRole);
   const [activeTool, setActiveTool] = useState('select');
   const [selectedComponent, setSelectedComponent] = useState<ConveyorComponent | null>(null);
   const [leftCollapsed, setLeftCollapsed] = useState(false);
@@ -64,17 +168,34 @@ const Builder = () => {
   const [currentProjectId, setCurrentProjectId] = useState<number | null>(
     id && id !== 'demo' ? parseInt(id, 10) : null
   );
+  const [projectName, setProjectName] = useState<string>(id === 'demo' ? 'Demo Project' : 'Untitled Project');
+  const projectMetadataRef = useRef<Record<string, unknown>>({}); // Last known project metadata (merged on save)
+  const serverUpdatedAtRef = useRef<string | null>(null); // Project `updated_at` our edits are based on, for conflict checks
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]); // Version history, newest first
+  const [showHistory, setShowHistory] = useState(false);
+  const [showCompareDialog, setShowCompareDialog] = useState(false);
+  const [comparison, setComparison] = useState<{ before: CompareSide; after: CompareSide } | null>(null);
   const hasLoadedRef = useRef(false); // Track if initial load has happened
   const isLoadingRef = useRef(false); // Prevent concurrent loads
   const loadedProjectIdRef = useRef<number | null>(null); // Track which project was loaded
+  const [loadedProjectId, setLoadedProjectId] = useState<number | null>(null); // Same, for joining its live session
   const isAddingComponentRef = useRef(false); // Prevent concurrent component additions
   const addedComponentIdsRef = useRef<Set<string>>(new Set()); // Track added component IDs
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastSaveRef = useRef<number>(0);
   
-  // History for undo/redo
-  const [history, setHistory] = useState<SceneComponent[][]>([[]]);
+  // History for undo/redo (scene components + slot placement configuration)
+  const placementParams = usePlacementStore(state => state.params);
+  const placementComponents = usePlacementStore(state => state.components);
+  const placementSections = usePlacementStore(state => state.sections);
+  const annotations = useMeasureStore(state => state.annotations);
+  const cameraViews = useViewsStore(state => state.views);
+  const explodeFactor = useAssemblyStore(state => state.explodeFactor);
+  const assemblySteps = useAssemblyStore(state => state.steps);
+  const [history, setHistory] = useState<HistorySnapshot[]>(() => [
+    { scene: [], placement: usePlacementStore.getState().getSnapshot() },
+  ]);
   const [historyIndex, setHistoryIndex] = useState(0);
   const isUndoRedoRef = useRef(false); // Prevent adding to history during undo/redo
 
@@ -83,46 +204,121 @@ const Builder = () => {
   
   // Settings dialog state
   const [showSettings, setShowSettings] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showDrawingDialog, setShowDrawingDialog] = useState(false);
   const [panModeActive, setPanModeActive] = useState(false);
   
   // 3D Settings panel state
   const [showSettingsPanel, setShowSettingsPanel] = useState(false);
   const [sceneSettings, setSceneSettings] = useState<SceneSettings>(DEFAULT_SCENE_SETTINGS);
 
-  // Save to history whenever components change (except during undo/redo)
+  // Save to history whenever scene or placement state changes (except during undo/redo)
   const prevComponentsRef = useRef<string>('');
+  const prevPlacementRef = useRef<string>(placementSnapshotKey(usePlacementStore.getState().getSnapshot()));
   const historyIndexRef = useRef(0);
   historyIndexRef.current = historyIndex;
+
+  // Reset history to a single entry for the given scene and the current placement state
+  const resetHistory = useCallback((scene: SceneComponent[]) => {
+    const placement = usePlacementStore.getState().getSnapshot();
+    setHistory([{ scene, placement }]);
+    setHistoryIndex(0);
+    prevComponentsRef.current = sceneHistoryKey(scene);
+    prevPlacementRef.current = placementSnapshotKey(placement);
+  }, []);
+
+  // Local save queue: edits made while the backend is unreachable are kept in IndexedDB and replayed later
+  const offline = useOfflineSync(currentProjectId, {
+    onIdsMapped: (idMap) => {
+      // Components added offline now exist on the backend under new ids
+      const remap = (scene: SceneComponent[]) => remapSnapshotComponents(scene, idMap) as SceneComponent[];
+      const remapped = remap(sceneComponents);
+      isUndoRedoRef.current = true;
+      setSceneComponents(remapped);
+      setGroups(prev => prev.map(g => ({ ...g, componentIds: g.componentIds.map(cid => idMap.get(cid) ?? cid) })));
+      setHistory(prev => prev.map(entry => ({ ...entry, scene: remap(entry.scene) })));
+      prevComponentsRef.current = sceneHistoryKey(remapped);
+      addedComponentIdsRef.current = new Set(remapped.map(c => c.id));
+      setSelectedComponent(prev => (prev && idMap.has(prev.id) ? { ...prev, id: idMap.get(prev.id)! } : prev));
+      setTimeout(() => {
+        isUndoRedoRef.current = false;
+      }, 100);
+    },
+    onSynced: (serverUpdatedAt) => {
+      serverUpdatedAtRef.current = serverUpdatedAt;
+    },
+  });
+
+  // Live session: presence, claimed selections and edits from other people on the same project
+  const sceneComponentsRef = useRef(sceneComponents);
+  sceneComponentsRef.current = sceneComponents;
+  const collab = useCollaboration(
+    loadedProjectId,
+    { name: user?.username ?? 'Guest', readonly: isReadonly, components: sceneComponents },
+    {
+      onRemoteOp: (op, from) => {
+        console.log('🤝 Edit from', from?.name ?? 'collaborator', op.type);
+        // Edits by others are not undo steps here and are saved by whoever made them
+        const next = applyCollabOp(sceneComponentsRef.current, op);
+        sceneComponentsRef.current = next;
+        isUndoRedoRef.current = true;
+        setSceneComponents(prev => applyCollabOp(prev, op));
+        setGroups(groupsFromComponents(next));
+        setHistory(prev => prev.map(entry => ({ ...entry, scene: applyCollabOp(entry.scene, op) })));
+        prevComponentsRef.current = sceneHistoryKey(next);
+        addedComponentIdsRef.current = new Set(next.map(c => c.id));
+        setSelectedComponent(prev => (prev && !next.some(c => c.id === prev.id) ? null : prev));
+        setTimeout(() => {
+          isUndoRedoRef.current = false;
+        }, 100);
+      },
+      onSelectionDenied: (_ids, owner) => {
+        toast.info(`${owner} is already editing this component`);
+        sceneControlsRef.current?.clearSelection();
+      },
+    }
+  );
+
+  const canSelectComponent = (componentId: string) => {
+    const owner = collab.lockedBy(componentId);
+    if (!owner) return true;
+    toast.info(`${owner.name} is editing this component`);
+    return false;
+  };
   
   useEffect(() => {
     if (isUndoRedoRef.current || !hasLoadedRef.current) {
       return; // Skip during undo/redo or before initial load
     }
     
-    // Don't save to history if components array is empty (might clear the scene)
-    if (sceneComponents.length === 0) {
+    const placement: PlacementSnapshot = usePlacementStore.getState().getSnapshot();
+    const sceneState = sceneHistoryKey(sceneComponents);
+    const placementState = placementSnapshotKey(placement);
+    const sceneChanged = sceneState !== prevComponentsRef.current;
+    const placementChanged = placementState !== prevPlacementRef.current;
+
+    // Don't save scene-only changes to an empty array (might be a transient clear during loading)
+    if (sceneComponents.length === 0 && !placementChanged) {
       console.log('⏭️ Skipping history save - components array is empty');
       return;
     }
     
-    // Only save to history if components actually changed
-    const currentState = JSON.stringify(sceneComponents.map(c => ({ id: c.id, position: c.position, rotation: c.rotation })));
-    
-    if (currentState !== prevComponentsRef.current) {
-      console.log('📝 Saving to history. Current index:', historyIndexRef.current, 'Components:', sceneComponents.length);
-      prevComponentsRef.current = currentState;
+    // Only save to history if something actually changed
+    if (sceneChanged || placementChanged) {
+      console.log('📝 Saving to history. Current index:', historyIndexRef.current, 'Components:', sceneComponents.length, 'Placed:', placementComponents.length);
+      prevComponentsRef.current = sceneState;
+      prevPlacementRef.current = placementState;
       // Remove any future history if we're not at the end
       setHistory(prev => {
         const newHistory = prev.slice(0, historyIndexRef.current + 1);
-        newHistory.push([...sceneComponents]);
+        newHistory.push({ scene: [...sceneComponents], placement });
         const newIndex = newHistory.length - 1;
         console.log('📝 History updated. New index:', newIndex, 'History length:', newHistory.length);
         setHistoryIndex(newIndex);
         return newHistory;
       });
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [sceneComponents]);
+  }, [sceneComponents, placementParams, placementComponents, placementSections]);
 
   // Load project assembly on mount or when ID changes
   useEffect(() => {
@@ -139,6 +335,7 @@ const Builder = () => {
           hasLoadedRef.current = false;
           isLoadingRef.current = false;
           setCurrentProjectId(urlProjectId);
+          setLoadedProjectId(null);
         }
       }
     }
@@ -158,30 +355,89 @@ const Builder = () => {
       console.log('🔄 Starting project load...');
       console.log('📍 URL project ID:', id);
       isLoadingRef.current = true;
+
+      // Open the copy kept on this device (unsynced edits, or no backend to load from)
+      const applyLocalAssembly = (local: LocalAssembly) => {
+        setCurrentProjectId(local.projectId);
+        setProjectName(local.name);
+        serverUpdatedAtRef.current = local.baseUpdatedAt;
+        projectMetadataRef.current = local.metadata;
+        setSnapshots(parseSnapshots(local.metadata));
+        usePlacementStore.getState().hydrate(deserializePlacementState(local.metadata));
+        useMeasureStore.getState().setAnnotations(deserializeAnnotations(local.metadata));
+        useViewsStore.getState().setViews(deserializeCameraViews(local.metadata));
+        useAssemblyStore.getState().setSteps(deserializeAssemblySequence(local.metadata));
+        const localComponents = local.components as SceneComponent[];
+        setSceneComponents(localComponents);
+        setGroups(groupsFromComponents(localComponents));
+        resetHistory(localComponents);
+        addedComponentIdsRef.current = new Set(localComponents.map(c => c.id));
+        hasLoadedRef.current = true;
+        loadedProjectIdRef.current = local.projectId;
+        setLoadedProjectId(local.projectId);
+        console.log('📴 Loaded local copy of project:', local.projectId, 'saved', new Date(local.savedAt).toLocaleString());
+      };
+
       try {
         let project;
         
         // If we have a project ID from URL, load that specific project
-        const urlProjectId = id && id !== 'demo' ? parseInt(id, 10) : null;
+        let urlProjectId = id && id !== 'demo' ? parseInt(id, 10) : null;
+        let linkRole: ProjectRole | null = null;
+        if (shareToken) {
+          const link = await resolveShareLink(shareToken);
+          if (!link) {
+            console.warn('🔗 Share link is invalid or has expired');
+            setShareLinkError('invalid');
+            hasLoadedRef.current = true;
+            return;
+          }
+          console.log('🔗 Opening shared project:', link.project_id, 'as', link.role);
+          urlProjectId = link.project_id;
+          linkRole = link.role;
+          setShareExpiresAt(link.expires_at);
+        }
         if (urlProjectId && !isNaN(urlProjectId)) {
           console.log('Loading specific project from URL:', urlProjectId);
-          const projectRes = await fetch(`${API_BASE}/api/projects/${urlProjectId}/`, {
-            credentials: 'include',
-            headers: { 'Content-Type': 'application/json' },
-          });
+          let projectRes: Response | null = null;
+          try {
+            projectRes = await fetch(`${API_BASE}/api/projects/${urlProjectId}/${shareTokenQuery(shareToken)}`, {
+              credentials: 'include',
+              headers: { 'Content-Type': 'application/json' },
+            });
+          } catch (error) {
+            if (!isNetworkError(error)) throw error;
+            console.warn('📴 Backend unreachable:', error);
+          }
+
+          const unreachable = !projectRes || UNREACHABLE_STATUSES.includes(projectRes.status);
+          if (unreachable && shareToken) {
+            // Shared projects have no local copy to fall back to
+            setShareLinkError('unreachable');
+            hasLoadedRef.current = true;
+            return;
+          }
+          if (unreachable) {
+            const local = await loadLocalAssembly(urlProjectId).catch(() => null);
+            if (local) {
+              useOfflineStore.getState().setOnline(false);
+              applyLocalAssembly(local);
+              return;
+            }
+          }
           
-          if (projectRes.ok) {
+          if (projectRes?.ok) {
             project = await projectRes.json();
             console.log('✅ Loaded project from URL:', project.id, project.name);
             setCurrentProjectId(project.id);
           } else {
-            console.error('Failed to load project from URL:', projectRes.status);
+            console.error('Failed to load project from URL:', projectRes?.status);
             // Fall through to try loading from list or create new
           }
         }
         
         // If no project loaded yet, try to get first project or create new one
-        if (!project) {
+        if (!project && !shareToken) {
           console.log('Loading projects list...');
           const projectRes = await fetch(`${API_BASE}/api/projects/`, {
             credentials: 'include',
@@ -205,13 +461,38 @@ const Builder = () => {
         }
         
         if (project) {
+          const role = linkRole ?? projectRole(project, user?.username);
+          setAccessRole(role);
           // Ensure currentProjectId is set
           if (!currentProjectId) {
             setCurrentProjectId(project.id);
           }
+          if (project.name) {
+            setProjectName(project.name);
+          }
+          serverUpdatedAtRef.current = project.updated_at ?? null;
+
+          // Edits that never reached the backend take precedence; the queue replays them
+          const [local, pendingCount] = await Promise.all([
+            loadLocalAssembly(project.id).catch(() => null),
+            countPendingMutations(project.id).catch(() => 0),
+          ]);
+          if (local && pendingCount > 0 && canEdit(role)) {
+            applyLocalAssembly({ ...local, name: project.name || local.name });
+            offline.sync();
+            return;
+          }
+
+          // Rehydrate the slot-placement configurator from project metadata
+          projectMetadataRef.current = project.metadata || {};
+          setSnapshots(parseSnapshots(project.metadata));
+          usePlacementStore.getState().hydrate(deserializePlacementState(project.metadata));
+          useMeasureStore.getState().setAnnotations(deserializeAnnotations(project.metadata));
+          useViewsStore.getState().setViews(deserializeCameraViews(project.metadata));
+          useAssemblyStore.getState().setSteps(deserializeAssemblySequence(project.metadata));
           
           // Load assembly items
-          const itemsRes = await fetch(`${API_BASE}/api/assembly-items/?project_id=${project.id}`, {
+          const itemsRes = await fetch(`${API_BASE}/api/assembly-items/?project_id=${project.id}${shareTokenQuery(shareToken, '&')}`, {
             credentials: 'include',
           });
           
@@ -311,6 +592,10 @@ const Builder = () => {
               processing_status: item.component.processing_status,
               processing_error: item.component.processing_error,
               groupId: item.metadata?.groupId || null,
+              linkedTo: item.metadata?.linkedTo || undefined,
+              isLocked: !!item.metadata?.isLocked,
+              connectors: parseConnectors(item.component.metadata),
+              bom: parseComponentBOM(item.component.metadata),
             };
           });
           
@@ -332,23 +617,7 @@ const Builder = () => {
           console.log('Component names:', finalUniqueComponents.map(c => c.name));
           
           // Reconstruct groups from loaded components
-          const groupMap = new Map<string, string[]>(); // groupId -> componentIds
-          finalUniqueComponents.forEach(comp => {
-            if (comp.groupId) {
-              if (!groupMap.has(comp.groupId)) {
-                groupMap.set(comp.groupId, []);
-              }
-              groupMap.get(comp.groupId)!.push(comp.id);
-            }
-          });
-          
-          const reconstructedGroups: ComponentGroup[] = Array.from(groupMap.entries()).map(([groupId, componentIds]) => ({
-            id: groupId,
-            componentIds: componentIds,
-            position: [0, 0, 0] as [number, number, number],
-            rotation: [0, 0, 0] as [number, number, number],
-            scale: [1, 1, 1] as [number, number, number],
-          }));
+          const reconstructedGroups = groupsFromComponents(finalUniqueComponents);
           
           console.log('✅ Reconstructed groups:', reconstructedGroups.length, reconstructedGroups);
           
@@ -356,17 +625,20 @@ const Builder = () => {
           setSceneComponents(finalUniqueComponents);
           setGroups(reconstructedGroups);
           // Initialize history with loaded components
-          setHistory([finalUniqueComponents]);
-          setHistoryIndex(0);
-          prevComponentsRef.current = JSON.stringify(finalUniqueComponents.map(c => ({ id: c.id, position: c.position, rotation: c.rotation })));
+          resetHistory(finalUniqueComponents);
           // Track all loaded component IDs
           addedComponentIdsRef.current = new Set(finalUniqueComponents.map(c => c.id));
           hasLoadedRef.current = true;
           loadedProjectIdRef.current = project.id; // Track which project was loaded
+          setLoadedProjectId(project.id);
           console.log('✅ Project loaded successfully');
           console.log('✅ Loaded components:', finalUniqueComponents.length);
           console.log('✅ Component IDs:', finalUniqueComponents.map(c => c.id));
           console.log('✅ Tracked component IDs:', Array.from(addedComponentIdsRef.current));
+        } else if (shareToken) {
+          // The link resolved but the project did not load: it was revoked or deleted in the meantime
+          setShareLinkError('invalid');
+          hasLoadedRef.current = true;
         } else {
           // Create default project
           console.log('No projects found, creating default project...');
@@ -387,6 +659,13 @@ const Builder = () => {
           const newProject = await createRes.json();
           console.log('Created new project:', newProject.id);
           setCurrentProjectId(newProject.id);
+          setProjectName(newProject.name || 'Default Project');
+          projectMetadataRef.current = newProject.metadata || {};
+          setSnapshots([]);
+          usePlacementStore.getState().hydrate(null);
+          useMeasureStore.getState().setAnnotations([]);
+          useViewsStore.getState().setViews([]);
+          useAssemblyStore.getState().setSteps([]);
           
           // Update URL if we created a new project and we're not in demo mode
           if (id !== 'demo' && id !== newProject.id.toString()) {
@@ -395,12 +674,11 @@ const Builder = () => {
           
           // Initialize with empty components for new project
           setSceneComponents([]);
-          setHistory([[]]);
-          setHistoryIndex(0);
-          prevComponentsRef.current = JSON.stringify([]);
+          resetHistory([]);
           addedComponentIdsRef.current = new Set();
           hasLoadedRef.current = true;
           loadedProjectIdRef.current = newProject.id; // Track which project was loaded
+          setLoadedProjectId(newProject.id);
           console.log('✅ New project created and initialized');
         }
       } catch (error) {
@@ -412,18 +690,166 @@ const Builder = () => {
     
     loadProject();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [id]); // Only depend on id to avoid infinite loops
-
-  // Generate BOM from real components
-  const bomItems: BOMItem[] = sceneComponents.map(comp => ({
-    id: comp.id,
-    partNumber: `COMP-${comp.componentId}`,
-    description: comp.name,
-      quantity: 1,
-    material: comp.category || 'N/A',
-    unitCost: 0,
-    totalCost: 0
-  }));
+  }, [id, shareToken]); // Only reload when the project or the share link changes, to avoid infinite loops
+
+  // Generate BOM from scene contents and slot placements
+  const bomItems: BOMItem[] = useBOM(sceneComponents);
+
+  // Validate the slot-placement configuration
+  const validation = useValidation();
+  const clashes = useCollisionStore(state => state.clashes);
+  const problemCount = validation.issues.length + clashes.length;
+  const componentNames = useMemo(
+    () => Object.fromEntries(sceneComponents.map(c => [c.id, c.name])),
+    [sceneComponents]
+  );
+  const [rightTab, setRightTab] = useState('properties');
+
+  // Review comments: pins in the scene, threads in the Review tab
+  const review = useReviewComments(loadedProjectId, shareToken);
+  const reviewDraft = useReviewStore(state => state.draft);
+  const openThreadCount = review.threads.filter(t => !t.root.resolved).length;
+
+  useEffect(() => {
+    if (reviewDraft) {
+      setRightCollapsed(false);
+      setRightTab('review');
+    }
+  }, [reviewDraft]);
+
+  const handleOpenThread = useCallback((thread: CommentThread) => {
+    useReviewStore.getState().setActiveThread(thread.root.id);
+    setRightCollapsed(false);
+    setRightTab('review');
+    if (thread.root.camera) {
+      sceneControlsRef.current?.flyTo(thread.root.camera);
+    }
+  }, []);
+
+  const handleOpenComment = useCallback((threadId: number) => {
+    const thread = review.threads.find(t => t.root.id === threadId);
+    if (thread) handleOpenThread(thread);
+  }, [review.threads, handleOpenThread]);
+
+  const handlePostDraft = async (body: string) => {
+    const { draft, setDraft } = useReviewStore.getState();
+    const posted = await review.addComment(body, sceneControlsRef.current?.getCameraView() ?? null, { anchor: draft });
+    if (posted) setDraft(null);
+    return posted;
+  };
+
+  const handleReply = (threadId: number, body: string) =>
+    review.addComment(body, sceneControlsRef.current?.getCameraView() ?? null, { parent: threadId });
+
+  // Saved camera views, and presenting them in order as a walkthrough
+  const [showViews, setShowViews] = useState(false);
+  const [presentation, setPresentation] = useState<{ index: number; playing: boolean; hidePanels: boolean } | null>(null);
+  const panelsHidden = !!presentation?.hidePanels;
+
+  const handleGoToView = (view: SavedView) => {
+    sceneControlsRef.current?.flyTo(view.view);
+  };
+
+  const handlePresent = (hidePanels: boolean) => {
+    if (cameraViews.length === 0) return;
+    setShowViews(false);
+    setActiveTool('select');
+    setPresentation({ index: 0, playing: true, hidePanels });
+    console.log('🎬 Presentation started:', cameraViews.length, 'views');
+  };
+
+  const handlePresentationIndex = useCallback((index: number) => {
+    setPresentation(prev => (prev ? { ...prev, index } : prev));
+  }, []);
+
+  const handlePresentationPlaying = useCallback((playing: boolean) => {
+    setPresentation(prev => (prev ? { ...prev, playing } : prev));
+  }, []);
+
+  const handleExitPresentation = useCallback(() => setPresentation(null), []);
+
+  // Fly to the view being presented; end the presentation if its views are gone
+  const isPresenting = presentation !== null;
+  const presentedView = presentation ? cameraViews[presentation.index] : undefined;
+  useEffect(() => {
+    if (!isPresenting) return;
+    if (!presentedView) {
+      setPresentation(null);
+      return;
+    }
+    sceneControlsRef.current?.flyTo(presentedView.view, PRESENTATION_FLIGHT);
+  }, [isPresenting, presentedView]);
+
+  // Exploded view and assembly sequence for installation documentation
+  const [showAssembly, setShowAssembly] = useState(false);
+  const [assemblyPlayback, setAssemblyPlayback] = useState<AssemblyPlayback | null>(null);
+  const [exportingSteps, setExportingSteps] = useState(false);
+  const componentIds = useMemo(() => sceneComponents.map(c => c.id), [sceneComponents]);
+  const sequence = useMemo(() => pruneSequence(assemblySteps, componentIds), [assemblySteps, componentIds]);
+
+  // Recording a step takes the selected part together with its group and the parts linked to it
+  const selectedStepIds = useMemo(() => {
+    const selected = sceneComponents.find(c => c.id === selectedComponent?.id);
+    if (!selected) return [];
+    return explosionClusters(sceneComponents).find(ids => ids.includes(selected.id)) ?? [selected.id];
+  }, [sceneComponents, selectedComponent]);
+
+  const explodedView = useMemo<ExplodedDisplay | undefined>(() => {
+    if (explodeFactor <= 0 && !assemblyPlayback) return undefined;
+    const offsets = explodeOffsets(sceneComponents, explodeFactor);
+    if (!assemblyPlayback) return { offsets };
+    const { hidden, entering } = stepVisibility(sequence, componentIds, assemblyPlayback.index);
+    return { offsets, hidden, entering, enterFrom: exportingSteps ? undefined : STEP_ENTER_FROM };
+  }, [sceneComponents, componentIds, sequence, explodeFactor, assemblyPlayback, exportingSteps]);
+
+  // Tools that change the assembly are not available without edit access or while it is exploded,
+  // commenting needs comment access
+  const isSceneLocked = isReadonly || !!explodedView;
+
+  // Stop playing back steps that were deleted meanwhile
+  useEffect(() => {
+    if (assemblyPlayback && assemblyPlayback.index >= sequence.length) {
+      setAssemblyPlayback(sequence.length > 0 ? { index: sequence.length - 1, playing: false } : null);
+    }
+  }, [assemblyPlayback, sequence.length]);
+
+  const handleCloseAssembly = () => {
+    if (exportingSteps) return; // the export drives playback until it is done
+    setShowAssembly(false);
+    setAssemblyPlayback(null);
+    useAssemblyStore.getState().setExplodeFactor(0);
+  };
+
+  const handleSuggestSequence = () => {
+    const suggested = suggestAssemblySequence(sceneComponents);
+    useAssemblyStore.getState().setSteps(suggested);
+    toast.success(`Suggested ${suggested.length} assembly steps`);
+  };
+
+  // Capture every step as a numbered picture for the installation manual
+  const handleExportSteps = async () => {
+    if (sequence.length === 0 || !sceneControlsRef.current) return;
+    setExportingSteps(true);
+    sceneControlsRef.current.clearSelection();
+    try {
+      for (let i = 0; i < sequence.length; i++) {
+        setAssemblyPlayback({ index: i, playing: false });
+        await new Promise(resolve => setTimeout(resolve, STEP_CAPTURE_DELAY));
+        const image = await sceneControlsRef.current?.captureImage();
+        if (!image) throw new Error('Could not capture the 3D view');
+        const framed = await annotateStepImage(image, i + 1, sequence.length, sequence[i]);
+        downloadBlob(framed, `${slugify(projectName)}-step-${String(i + 1).padStart(2, '0')}.png`);
+      }
+      console.log('🖼️ Exported assembly steps:', sequence.length);
+      toast.success(`Exported ${sequence.length} step images`);
+    } catch (error) {
+      console.error('❌ Assembly step export failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Step export failed');
+    } finally {
+      setExportingSteps(false);
+      setAssemblyPlayback(null);
+    }
+  };
 
   // Find paired component for lock/unlock UI
   const findPairedComponent = useCallback((componentId: string): SceneComponent | null => {
@@ -529,6 +955,7 @@ const Builder = () => {
   const handleSelectComponent = (id: string) => {
     // Find component in scene
     const comp = sceneComponents.find(c => c.id === id);
+    collab.select(comp ? [comp.id] : []);
     if (comp) {
       // If component is already selected, preserve existing dimensions
       // to avoid recalculating from bounding box which might be wrong
@@ -611,7 +1038,36 @@ const Builder = () => {
     }
   };
 
+  // Parts added from the library by keyboard have no drop point: place them beside the assembly
+  const handleAddFromLibrary = (part: LibraryDragData) => {
+    const halfWidth = (c: { bounding_box?: { min?: number[]; max?: number[] } | null }) =>
+      c.bounding_box?.min && c.bounding_box?.max ? Math.abs(c.bounding_box.max[0] - c.bounding_box.min[0]) / 200 : 0.5;
+    const rightEdge = sceneComponents.reduce((edge, c) => Math.max(edge, c.position[0] + halfWidth(c)), -Infinity);
+    const x = sceneComponents.length > 0 ? rightEdge + halfWidth(part) + 0.5 : 0;
+
+    handleAddComponent({
+      componentId: part.id,
+      name: part.name,
+      category: part.category,
+      glb_url: part.glb_url,
+      original_url: part.original_url,
+      bounding_box: part.bounding_box,
+      center: part.center,
+      position: [x, 0, 0],
+      rotation: [0, 0, 0],
+      connectors: part.connectors,
+    });
+  };
+
   const handleAddComponent = async (component: Omit<SceneComponent, 'id'>) => {
+    if (isReadonly) {
+      toast.info(isDemo ? 'The demo is read-only' : `You have ${roleLabel(accessRole).toLowerCase()} access to this project`);
+      return;
+    }
+    if (isSceneLocked) {
+      toast.info('Close the exploded view to add components');
+      return;
+    }
     // Prevent concurrent additions
     if (isAddingComponentRef.current) {
       console.warn('⚠️ handleAddComponent already in progress, skipping duplicate call');
@@ -709,22 +1165,64 @@ const Builder = () => {
         headers['X-CSRFToken'] = csrfToken;
       }
       
-      const response = await fetch(`${API_BASE}/api/projects/${currentProjectId}/add_component/`, {
-        method: 'POST',
-        credentials: 'include',
-        headers,
-        body: JSON.stringify(requestBody),
-      });
-
-      console.log('📥 Response status:', response.status, response.statusText);
-      
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-        console.error('❌ Failed to save component to backend:', errorData);
-        return;
+      // With changes still queued the add waits its turn, so the queue replays edits in the order they were made
+      const { online, pending } = useOfflineStore.getState();
+      let response: Response | null = null;
+      if (online && pending === 0) {
+        try {
+          response = await fetch(`${API_BASE}/api/projects/${currentProjectId}/add_component/`, {
+            method: 'POST',
+            credentials: 'include',
+            headers,
+            body: JSON.stringify(requestBody),
+          });
+          console.log('📥 Response status:', response.status, response.statusText);
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+          useOfflineStore.getState().setOnline(false);
+        }
       }
 
-      const assemblyItem = await response.json();
+      let assemblyItem;
+      if (!response || UNREACHABLE_STATUSES.includes(response.status)) {
+        // Add it locally under a temporary id; the backend id is filled in when the queue replays
+        const localItemId = createLocalItemId();
+        const queued = await offline.enqueue({
+          kind: 'add',
+          tempId: `comp-${localItemId}`,
+          body: requestBody,
+          baseUpdatedAt: serverUpdatedAtRef.current,
+        });
+        if (!queued) {
+          console.error('❌ Backend unreachable and the component could not be queued');
+          return;
+        }
+        console.log('📴 Component added offline:', localItemId);
+        assemblyItem = {
+          id: localItemId,
+          custom_name: component.name,
+          component: {
+            id: component.componentId,
+            name: component.name,
+            category: component.category,
+            glb_url: component.glb_url,
+            original_url: component.original_url,
+            center: component.center,
+            metadata: component.bom ? { [BOM_METADATA_KEY]: component.bom } : {},
+          },
+          rotation_x: requestBody.rotation_x,
+          rotation_y: requestBody.rotation_y,
+          rotation_z: requestBody.rotation_z,
+        };
+      } else {
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+          console.error('❌ Failed to save component to backend:', errorData);
+          return;
+        }
+        assemblyItem = await response.json();
+        serverUpdatedAtRef.current = (await fetchUpdatedAt(currentProjectId)) ?? serverUpdatedAtRef.current;
+      }
       console.log('✅ Backend response:', assemblyItem);
       console.log('✅ Backend response structure check:');
       console.log('  - assemblyItem.id:', assemblyItem.id);
@@ -788,6 +1286,8 @@ const Builder = () => {
         rotation: [assemblyItem.rotation_x || 0, assemblyItem.rotation_y || 0, assemblyItem.rotation_z || 0] as [number, number, number],
         // Preserve linkedTo if it was passed (for auto-grouping)
         ...(component.linkedTo ? { linkedTo: component.linkedTo } : {}),
+        connectors: component.connectors ?? parseConnectors(assemblyItem.component.metadata),
+        bom: parseComponentBOM(assemblyItem.component.metadata),
       };
       
 
@@ -838,6 +1338,7 @@ const Builder = () => {
       
       // Track this component ID to prevent duplicates
       addedComponentIdsRef.current.add(newComponent.id);
+      useLibraryStore.getState().markRecent(newComponent.componentId);
       
       // Auto-group Fixed Legs with frames/beds if they were placed at an attach point
       const componentName = (newComponent.name || '').toLowerCase();
@@ -867,6 +1368,17 @@ const Builder = () => {
         }, 200);
       }
       
+      // Dropped onto a connector: lock both parts to each other
+      if (component.isLocked && component.linkedTo && newComponent.connectors?.length) {
+        const partnerId = component.linkedTo;
+        setSceneComponents(prev => prev.map(c =>
+          c.id === newComponent.id || c.id === partnerId
+            ? { ...c, isLocked: true, linkedTo: c.id === partnerId ? newComponent.id : partnerId }
+            : c
+        ));
+        console.log('🔗 Locked at connector:', newComponent.id, partnerId);
+      }
+      
       // Small delay before allowing auto-save to prevent race conditions
       setTimeout(() => {
         isAddingComponentRef.current = false;
@@ -881,6 +1393,7 @@ const Builder = () => {
   };
 
   const handleUpdateComponent = async (id: string, update: Partial<SceneComponent>) => {
+    if (isReadonly) return;
     // Use functional update to ensure we have the latest state
     setSceneComponents(prev => {
       const component = prev.find(c => c.id === id);
@@ -983,46 +1496,100 @@ const Builder = () => {
     // No need to save individual updates here - the useEffect will trigger auto-save
   };
 
+  // Apply a history snapshot to both the scene and the placement store
+  const applyHistorySnapshot = useCallback((snapshot: HistorySnapshot) => {
+    isUndoRedoRef.current = true;
+    setSceneComponents([...snapshot.scene]);
+    usePlacementStore.getState().restoreSnapshot(snapshot.placement);
+    prevComponentsRef.current = sceneHistoryKey(snapshot.scene);
+    prevPlacementRef.current = placementSnapshotKey(snapshot.placement);
+    setTimeout(() => {
+      isUndoRedoRef.current = false;
+    }, 100);
+  }, []);
+
   // Undo/Redo handlers
   const handleUndo = useCallback(() => {
     console.log('↩️ Undo called. Current historyIndex:', historyIndex, 'History length:', history.length);
     if (historyIndex > 0) {
-      isUndoRedoRef.current = true;
       const newIndex = historyIndex - 1;
-      console.log('↩️ Undoing to index:', newIndex, 'Components:', history[newIndex]?.length);
+      console.log('↩️ Undoing to index:', newIndex, 'Components:', history[newIndex]?.scene.length, 'Placed:', history[newIndex]?.placement.components.length);
       setHistoryIndex(newIndex);
-      setSceneComponents([...history[newIndex]]);
-      prevComponentsRef.current = JSON.stringify(history[newIndex].map(c => ({ id: c.id, position: c.position, rotation: c.rotation })));
+      applyHistorySnapshot(history[newIndex]);
       // Clear selection if deleted component was selected
-      if (selectedComponent && !history[newIndex].find(c => c.id === selectedComponent.id)) {
+      if (selectedComponent && !history[newIndex].scene.find(c => c.id === selectedComponent.id)) {
         setSelectedComponent(null);
       }
-      setTimeout(() => {
-        isUndoRedoRef.current = false;
-      }, 100);
     } else {
       console.warn('⚠️ Cannot undo: already at beginning of history');
     }
-  }, [historyIndex, history, selectedComponent]);
+  }, [historyIndex, history, selectedComponent, applyHistorySnapshot]);
 
   const handleRedo = useCallback(() => {
     console.log('↪️ Redo called. Current historyIndex:', historyIndex, 'History length:', history.length);
     if (historyIndex < history.length - 1) {
-      isUndoRedoRef.current = true;
       const newIndex = historyIndex + 1;
-      console.log('↪️ Redoing to index:', newIndex, 'Components:', history[newIndex]?.length);
+      console.log('↪️ Redoing to index:', newIndex, 'Components:', history[newIndex]?.scene.length, 'Placed:', history[newIndex]?.placement.components.length);
       setHistoryIndex(newIndex);
-      setSceneComponents([...history[newIndex]]);
-      prevComponentsRef.current = JSON.stringify(history[newIndex].map(c => ({ id: c.id, position: c.position, rotation: c.rotation })));
-      setTimeout(() => {
-        isUndoRedoRef.current = false;
-      }, 100);
+      applyHistorySnapshot(history[newIndex]);
+      // Clear selection if the redone step removed the selected component
+      if (selectedComponent && !history[newIndex].scene.find(c => c.id === selectedComponent.id)) {
+        setSelectedComponent(null);
+      }
     } else {
       console.warn('⚠️ Cannot redo: already at end of history');
     }
-  }, [historyIndex, history]);
+  }, [historyIndex, history, selectedComponent, applyHistorySnapshot]);
+
+  // Remove an assembly item from the project. Offline, or with changes still queued, the delete
+  // is queued too so it replays after them
+  const { enqueue } = offline;
+  const deleteAssemblyItem = useCallback(async (id: string) => {
+    if (!currentProjectId) return;
+    const componentId = id.startsWith('comp-') ? id.replace('comp-', '') : id;
+    const isLocal = isNaN(parseInt(componentId, 10)); // added offline, its add is still queued
+
+    const { online, pending } = useOfflineStore.getState();
+    if (online && pending === 0 && !isLocal) {
+      console.log('🗑️ Deleting component:', componentId, 'from project:', currentProjectId);
+      try {
+        const response = await fetch(`${API_BASE}/api/assembly-items/${componentId}/?project_id=${currentProjectId}`, {
+          method: 'DELETE',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+        });
+        if (!UNREACHABLE_STATUSES.includes(response.status)) {
+          if (response.ok) {
+            serverUpdatedAtRef.current = (await fetchUpdatedAt(currentProjectId)) ?? serverUpdatedAtRef.current;
+            console.log('✅ Successfully deleted component from backend');
+          } else {
+            console.error('Failed to delete component from backend:', response.status, await response.text());
+          }
+          return;
+        }
+      } catch (error) {
+        if (!isNetworkError(error)) {
+          console.error('Error deleting component:', error);
+          return;
+        }
+        useOfflineStore.getState().setOnline(false);
+      }
+    }
+
+    const queued = await enqueue({
+      kind: 'delete',
+      itemId: `comp-${componentId}`,
+      baseUpdatedAt: serverUpdatedAtRef.current,
+    });
+    if (queued) {
+      console.log('📴 Component deletion queued:', componentId);
+    } else {
+      console.error('❌ Backend unreachable and the deletion could not be queued');
+    }
+  }, [currentProjectId, enqueue]);
 
   const handleDeleteComponent = useCallback(async (id: string) => {
+    if (isSceneLocked) return;
     if (!currentProjectId) {
       console.error('No project loaded, cannot delete component');
       return;
@@ -1047,31 +1614,11 @@ const Builder = () => {
         }
         
         // Delete all group components from backend
-        groupComponentIds.forEach(compId => {
-          const comp = sceneComponents.find(c => c.id === compId);
-          if (comp) {
-            let componentId: string;
-            if (compId.startsWith('comp-')) {
-              componentId = compId.replace('comp-', '');
-            } else {
-              componentId = compId;
-            }
-            
-            if (!componentId || isNaN(parseInt(componentId, 10))) {
-              console.error('Invalid component ID format:', compId);
-              return;
-            }
-            
-            const url = `${API_BASE}/api/assembly-items/${componentId}/?project_id=${currentProjectId}`;
-            fetch(url, {
-              method: 'DELETE',
-              credentials: 'include',
-              headers: { 'Content-Type': 'application/json' },
-            }).catch(error => {
-              console.error(`Error deleting component ${componentId}:`, error);
-            });
+        for (const compId of groupComponentIds) {
+          if (sceneComponents.some(c => c.id === compId)) {
+            await deleteAssemblyItem(compId);
           }
-        });
+        }
         
         return;
       }
@@ -1086,49 +1633,8 @@ const Builder = () => {
     }
 
     // Delete from backend
-    try {
-      // Extract component ID - handle both 'comp-{id}' format and direct numeric ID
-      let componentId: string;
-      if (id.startsWith('comp-')) {
-        componentId = id.replace('comp-', '');
-      } else {
-        componentId = id;
-      }
-      
-      // Validate that we have a valid numeric ID
-      if (!componentId || isNaN(parseInt(componentId, 10))) {
-        console.error('Invalid component ID format:', id);
-        return;
-      }
-      
-      // Include project_id in query params for better filtering (optional but recommended)
-      const baseUrl = `${API_BASE}/api/assembly-items/${componentId}/`;
-      const url = currentProjectId ? `${baseUrl}?project_id=${currentProjectId}` : baseUrl;
-      
-      console.log('🗑️ Deleting component:', componentId, 'from project:', currentProjectId);
-      
-      const response = await fetch(url, {
-        method: 'DELETE',
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Failed to delete component from backend:', response.status, errorText);
-        // Revert local state change if backend deletion failed
-        // Note: We could reload from backend here, but for now we'll keep the optimistic update
-      } else {
-        console.log('✅ Successfully deleted component from backend');
-      }
-    } catch (error) {
-      console.error('Error deleting component:', error);
-      // Revert local state change on error
-      // Note: We could reload from backend here to sync state
-    }
-  }, [currentProjectId, selectedComponent]);
+    await deleteAssemblyItem(id);
+  }, [currentProjectId, selectedComponent, isSceneLocked, deleteAssemblyItem]);
 
   // Keyboard shortcuts for undo/redo and delete
   useEffect(() => {
@@ -1139,6 +1645,9 @@ const Builder = () => {
         return;
       }
 
+      if (isReadonly && (e.ctrlKey || e.metaKey) && (e.key === 'z' || e.key === 'y')) {
+        return; // nothing to undo when the project cannot be changed
+      }
       if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
         e.preventDefault();
         handleUndo();
@@ -1147,7 +1656,7 @@ const Builder = () => {
         handleRedo();
       } else if (e.key === 'Delete' || e.key === 'Backspace') {
         // Delete selected component when Delete or Backspace is pressed
-        if (selectedComponent && !isReadonly) {
+        if (selectedComponent && !isSceneLocked) {
           e.preventDefault();
           handleDeleteComponent(selectedComponent.id);
         }
@@ -1156,10 +1665,19 @@ const Builder = () => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [historyIndex, history, selectedComponent, isReadonly, handleDeleteComponent, handleUndo, handleRedo]);
+  }, [historyIndex, history, selectedComponent, isReadonly, isSceneLocked, handleDeleteComponent, handleUndo, handleRedo]);
 
   // Comprehensive save function that saves all component states
-  const saveAssembly = async (showStatus = true) => {
+  // `components` overrides the scene state (for saving right after replacing it);
+  // `snapshot` is added to the version history with this save
+  const saveAssembly = async (
+    showStatus = true,
+    { components: sceneToSave = sceneComponents, snapshot }: { components?: SceneComponent[]; snapshot?: ProjectSnapshot } = {}
+  ) => {
+    if (isReadonly) {
+      console.log('🔒 Not saving: no edit access to this project');
+      return false;
+    }
     if (!currentProjectId) {
       console.error('❌ No project to save to');
       if (showStatus) {
@@ -1172,12 +1690,67 @@ const Builder = () => {
     if (showStatus) {
       setSaveStatus('saving');
     }
+
+    // Persist the slot-placement configurator, scene annotations, saved views, assembly sequence and version history alongside the assembly
+    const { params, components, sections, activeSectionId } = usePlacementStore.getState();
+    const placement = serializePlacementState(params, components, { sections, activeSectionId });
+    const savedAnnotations = serializeAnnotations(useMeasureStore.getState().annotations);
+    let versions = parseSnapshots(projectMetadataRef.current);
+    if (snapshot) {
+      versions = addSnapshot(versions, snapshot);
+    }
+    if (shouldAutoSnapshot(versions, sceneToSave, placement)) {
+      versions = addSnapshot(versions, createSnapshot('Auto-save', 'auto', user?.username ?? null, sceneToSave, placement, savedAnnotations));
+      console.log('🕓 Automatic version snapshot taken');
+    }
+    const metadata = {
+      ...projectMetadataRef.current,
+      [PLACEMENT_METADATA_KEY]: placement,
+      [ANNOTATIONS_METADATA_KEY]: savedAnnotations,
+      [CAMERA_VIEWS_METADATA_KEY]: serializeCameraViews(useViewsStore.getState().views),
+      [ASSEMBLY_SEQUENCE_METADATA_KEY]: serializeAssemblySequence(pruneSequence(useAssemblyStore.getState().steps, sceneToSave.map(c => c.id))),
+      [VERSIONS_METADATA_KEY]: versions,
+    };
+
+    // Backend unreachable: keep the save in the local queue instead of losing it
+    const queueSave = async () => {
+      const queued = await offline.enqueue({
+        kind: 'save',
+        components: sceneToSave,
+        metadata,
+        baseUpdatedAt: serverUpdatedAtRef.current,
+      });
+      if (!queued) {
+        if (showStatus) {
+          setSaveStatus('error');
+          setTimeout(() => setSaveStatus('idle'), 3000);
+        }
+        return false;
+      }
+      projectMetadataRef.current = metadata;
+      setSnapshots(versions);
+      lastSaveRef.current = Date.now();
+      console.log('📴 Save queued until the backend is reachable');
+      if (showStatus) {
+        setSaveStatus('idle');
+        toast.info('Offline — changes are kept on this device and will sync when the connection is back');
+      }
+      return true;
+    };
+
+    // Queued changes go first, so this save waits behind them
+    const { online, pending } = useOfflineStore.getState();
+    if (!online || pending > 0) {
+      const queued = await queueSave();
+      if (online) offline.sync();
+      return queued;
+    }
     
     try {
       // Deduplicate components before saving (by backend ID)
       const uniqueComponents = new Map<number, SceneComponent>();
       
-      for (const c of sceneComponents) {
+      for (const c of sceneToSave) {
         const backendId = parseInt(c.id.replace('comp-', ''), 10);
         if (isNaN(backendId)) {
           console.warn('⚠️ Component has invalid ID format:', c.id);
@@ -1195,45 +1768,11 @@ const Builder = () => {
       
       // Map all unique components with their backend IDs
       const payload = {
-        assembly_items: Array.from(uniqueComponents.entries()).map(([backendId, c]) => {
-          // Calculate dimensions from bounding box if available
-          let scale_x = 1, scale_y = 1, scale_z = 1;
-          if (c.bounding_box) {
-            const width = Math.abs((c.bounding_box.max?.[0] || 0) - (c.bounding_box.min?.[0] || 0));
-            const height = Math.abs((c.bounding_box.max?.[1] || 0) - (c.bounding_box.min?.[1] || 0));
-            const length = Math.abs((c.bounding_box.max?.[2] || 0) - (c.bounding_box.min?.[2] || 0));
-            
-            scale_x = width || 1;
-            scale_y = height || 1;
-            scale_z = length || 1;
-          }
-          
-          return {
-            id: backendId,
-            position_x: c.position[0],
-            position_y: c.position[1],
-            position_z: c.position[2],
-            rotation_x: (c.rotation || [0, 0, 0])[0],
-            rotation_y: (c.rotation || [0, 0, 0])[1],
-            rotation_z: (c.rotation || [0, 0, 0])[2],
-            rotation_w: 1.0,
-            scale_x: scale_x,
-            scale_y: scale_y,
-            scale_z: scale_z,
-            metadata: {
-              componentId: c.componentId,
-              name: c.name,
-              category: c.category,
-              bounding_box: c.bounding_box,
-              center: c.center,
-              groupId: c.groupId || null,
-            },
-          };
-        })
+        assembly_items: Array.from(uniqueComponents.entries()).map(([backendId, c]) => assemblyItemPayload(backendId, c)),
       };
       
       console.log('💾 Saving assembly:', {
-        totalComponents: sceneComponents.length,
+        totalComponents: sceneToSave.length,
         uniqueComponents: payload.assembly_items.length,
         componentIds: payload.assembly_items.map(i => i.id)
       });
@@ -1251,6 +1790,11 @@ const Builder = () => {
         credentials: 'include',
         body: JSON.stringify(payload)
       });
+
+      if (UNREACHABLE_STATUSES.includes(response.status)) {
+        useOfflineStore.getState().setOnline(false);
+        return queueSave();
+      }
       
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
@@ -1263,6 +1807,32 @@ const Builder = () => {
       }
       
       const result = await response.json();
+
+      const metadataResponse = await fetch(`${API_BASE}/api/projects/${currentProjectId}/`, {
+        method: 'PATCH',
+        headers,
+        credentials: 'include',
+        body: JSON.stringify({ metadata }),
+      });
+
+      if (UNREACHABLE_STATUSES.includes(metadataResponse.status)) {
+        useOfflineStore.getState().setOnline(false);
+        return queueSave();
+      }
+
+      if (!metadataResponse.ok) {
+        console.error('❌ Saving placement configuration failed:', metadataResponse.status);
+        if (showStatus) {
+          setSaveStatus('error');
+          setTimeout(() => setSaveStatus('idle'), 3000);
+        }
+        return false;
+      }
+      const savedProject = await metadataResponse.json().catch(() => null);
+      serverUpdatedAtRef.current = savedProject?.updated_at ?? serverUpdatedAtRef.current;
+      projectMetadataRef.current = metadata;
+      setSnapshots(versions);
+
       console.log('✅ Assembly saved successfully:', {
         updated: result.updated || 0,
         deleted: result.deleted || 0,
@@ -1287,6 +1857,10 @@ const Builder = () => {
       }
       return true;
     } catch (e) {
+      if (isNetworkError(e)) {
+        useOfflineStore.getState().setOnline(false);
+        return queueSave();
+      }
       console.error('❌ Save failed with exception:', e);
       if (showStatus) {
         setSaveStatus('error');
@@ -1324,13 +1898,21 @@ const Builder = () => {
   }, [currentProjectId]);
   
   // Auto-save when components change (debounced)
+  const lastSavedMetadataRef = useRef({ annotations, cameraViews, assemblySteps });
   useEffect(() => {
+    // Annotations, views and the assembly sequence are saved even when the scene is empty
+    const metadataChanged =
+      lastSavedMetadataRef.current.annotations !== annotations ||
+      lastSavedMetadataRef.current.cameraViews !== cameraViews ||
+      lastSavedMetadataRef.current.assemblySteps !== assemblySteps;
+    lastSavedMetadataRef.current = { annotations, cameraViews, assemblySteps };
+
     if (!hasLoadedRef.current || isUndoRedoRef.current || isAddingComponentRef.current) {
       return; // Don't auto-save during initial load, undo/redo, or component addition
     }
-    
-    // Don't auto-save if components array is empty (might be a loading state)
-    if (sceneComponents.length === 0) {
+
+    // Don't auto-save if the scene and the configurator are both empty (might be a loading state)
+    if (sceneComponents.length === 0 && placementComponents.length === 0 && !metadataChanged) {
       console.log('⏭️ Skipping auto-save - components array is empty');
       return;
     }
@@ -1342,7 +1924,58 @@ const Builder = () => {
         clearTimeout(autoSaveTimeoutRef.current);
       }
     };
-  }, [sceneComponents, triggerAutoSave]);
+  }, [sceneComponents, placementParams, placementComponents, placementSections, annotations, cameraViews, assemblySteps, triggerAutoSave]);
+  
+  // Offline edits collided with a save made elsewhere: ask which version wins
+  const [showConflict, setShowConflict] = useState(false);
+  useEffect(() => {
+    setShowConflict(!!offline.conflict);
+  }, [offline.conflict]);
+
+  const handleKeepLocalChanges = () => {
+    setShowConflict(false);
+    offline.sync(true);
+  };
+
+  const handleDiscardLocalChanges = async () => {
+    setShowConflict(false);
+    await offline.discardLocal();
+    console.log('🗑️ Discarded offline changes, reloading the saved project');
+    window.location.reload();
+  };
+
+  const handleSyncNow = () => {
+    if (offline.conflict) {
+      setShowConflict(true);
+    } else {
+      offline.sync();
+    }
+  };
+
+  // Keep a copy of the working assembly on this device so edits made offline survive a reload
+  const { persistLocal } = offline;
+  useEffect(() => {
+    if (!currentProjectId || !hasLoadedRef.current || isReadonly) {
+      return;
+    }
+    const timeout = setTimeout(() => {
+      const { params, components, sections, activeSectionId } = usePlacementStore.getState();
+      persistLocal({
+        projectId: currentProjectId,
+        name: projectName,
+        components: sceneComponents,
+        metadata: {
+          ...projectMetadataRef.current,
+          [PLACEMENT_METADATA_KEY]: serializePlacementState(params, components, { sections, activeSectionId }),
+          [ANNOTATIONS_METADATA_KEY]: serializeAnnotations(annotations),
+          [CAMERA_VIEWS_METADATA_KEY]: serializeCameraViews(cameraViews),
+          [ASSEMBLY_SEQUENCE_METADATA_KEY]: serializeAssemblySequence(pruneSequence(assemblySteps, sceneComponents.map(c => c.id))),
+        },
+        baseUpdatedAt: serverUpdatedAtRef.current,
+      });
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [currentProjectId, projectName, sceneComponents, placementParams, placementComponents, placementSections, annotations, cameraViews, assemblySteps, persistLocal, isReadonly]);
   
   // Periodic save every 30 seconds as backup
   useEffect(() => {
@@ -1408,7 +2041,179 @@ const Builder = () => {
     setShowSettingsPanel(!showSettingsPanel);
   }, [showSettingsPanel]);
 
+  const handleExportModel = useCallback(async (options: ModelExportOptions) => {
+    // The scene holds the displaced parts while exploded
+    if (explodedView) {
+      toast.info('Close the exploded view to export the assembly');
+      return;
+    }
+    const scene = sceneControlsRef.current?.getScene();
+    if (!scene) {
+      toast.error('The 3D view is not ready yet');
+      return;
+    }
+    try {
+      await downloadAssembly(scene, { components: sceneComponents, groups }, options, projectName);
+      console.log('📦 Exported assembly:', options);
+      toast.success(`Exported ${options.format.toUpperCase()}`);
+    } catch (error) {
+      console.error('❌ Model export failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Model export failed');
+    }
+  }, [sceneComponents, groups, projectName, explodedView]);
+
+  const currentAssembly = useMemo(() => ({
+    components: sceneComponents,
+    placement: serializePlacementState(placementParams, placementComponents, {
+      sections: placementSections,
+      activeSectionId: usePlacementStore.getState().activeSectionId,
+    }),
+  }), [sceneComponents, placementParams, placementComponents, placementSections]);
+
+  const handleSaveVersion = async (name: string) => {
+    const snapshot = createSnapshot(
+      name,
+      'named',
+      user?.username ?? null,
+      sceneComponents,
+      currentAssembly.placement,
+      serializeAnnotations(useMeasureStore.getState().annotations)
+    );
+    if (await saveAssembly(true, { snapshot })) {
+      toast.success(`Saved version "${name}"`);
+    } else {
+      toast.error('Failed to save version');
+    }
+  };
+
+  // Put the assembly back the way it was in a snapshot; the current state is kept as a version first
+  const handleRestoreSnapshot = async (snapshot: ProjectSnapshot) => {
+    if (!currentProjectId || isReadonly) return;
+    const before = createSnapshot(
+      `Before restoring "${snapshot.name}"`,
+      'auto',
+      user?.username ?? null,
+      sceneComponents,
+      currentAssembly.placement,
+      serializeAnnotations(useMeasureStore.getState().annotations)
+    );
+
+    const csrfToken = await getOrFetchCsrfToken();
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (csrfToken) {
+      headers['X-CSRFToken'] = csrfToken;
+    }
+    const deleteItem = async (id: string) => {
+      const backendId = id.replace('comp-', '');
+      if (isNaN(parseInt(backendId, 10))) return false;
+      const response = await fetch(`${API_BASE}/api/assembly-items/${backendId}/?project_id=${currentProjectId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+        headers,
+      }).catch(() => null);
+      return !!response && (response.ok || response.status === 404);
+    };
+
+    // Components deleted since the snapshot have to be added to the project again
+    const snapshotIds = new Set(snapshot.components.map(c => c.id));
+    const existingIds = new Set(sceneComponents.map(c => c.id));
+    const idMap = new Map<string, string>();
+    try {
+      for (const component of snapshot.components) {
+        if (existingIds.has(component.id)) continue;
+        const response = await fetch(`${API_BASE}/api/projects/${currentProjectId}/add_component/`, {
+          method: 'POST',
+          credentials: 'include',
+          headers,
+          body: JSON.stringify(addComponentBody(component)),
+        });
+        if (!response.ok) throw new Error(`Failed to re-add ${component.name}`);
+        const assemblyItem = await response.json();
+        idMap.set(component.id, `comp-${assemblyItem.id}`);
+      }
+    } catch (error) {
+      // Take the re-added components out again so the project stays as it was
+      await Promise.all(Array.from(idMap.values()).map(deleteItem));
+      console.error('❌ Restore failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Restore failed', {
+        description: 'The assembly was left unchanged.',
+      });
+      return;
+    }
+
+    // Components added since the snapshot are removed from the project
+    const extras = sceneComponents.filter(c => !snapshotIds.has(c.id));
+    const deleted = await Promise.all(extras.map(c => deleteItem(c.id)));
+    // Whatever could not be removed stays in the scene, so it matches what the project holds
+    const kept = extras.filter((_, i) => !deleted[i]);
+
+    const restored = [
+      ...(remapSnapshotComponents(snapshot.components, idMap) as SceneComponent[]),
+      ...kept,
+    ];
+    isUndoRedoRef.current = true; // saved explicitly below
+    usePlacementStore.getState().hydrate(deserializePlacementState({ [PLACEMENT_METADATA_KEY]: snapshot.placement }));
+    useMeasureStore.getState().setAnnotations(deserializeAnnotations({ [ANNOTATIONS_METADATA_KEY]: snapshot.annotations }));
+    setSceneComponents(restored);
+    setGroups(groupsFromComponents(restored));
+    setSelectedComponent(null);
+    addedComponentIdsRef.current = new Set(restored.map(c => c.id));
+    resetHistory(restored);
+    setTimeout(() => {
+      isUndoRedoRef.current = false;
+    }, 100);
+
+    console.log('⏪ Restored version:', snapshot.name, restored.length, 'components,', idMap.size, 're-added,', extras.length - kept.length, 'removed');
+    if (await saveAssembly(true, { components: restored, snapshot: before })) {
+      if (kept.length > 0) {
+        toast.warning(`Restored "${snapshot.name}", but ${kept.length} newer component${kept.length === 1 ? '' : 's'} could not be removed`);
+      } else {
+        toast.success(`Restored "${snapshot.name}"`);
+      }
+    } else {
+      toast.error('Restored locally, but saving failed');
+    }
+  };
+
+  const handleForkSnapshot = (snapshot: ProjectSnapshot) => {
+    if (!currentProjectId) return;
+    forkSnapshot.mutate({ projectId: currentProjectId, snapshot }, {
+      onSuccess: (project) => {
+        setShowHistory(false);
+        navigate(`/builder/${project.id}`);
+      },
+    });
+  };
+
+  // "What changed since this version" - the snapshot against the assembly as it is now
+  const handleCompareSnapshot = (snapshot: ProjectSnapshot) => {
+    setShowHistory(false);
+    setComparison({
+      before: { label: snapshot.name, components: snapshot.components, placement: snapshot.placement },
+      after: { label: `${projectName} (current)`, ...currentAssembly },
+    });
+  };
+
+  // Saving goes ahead with clashes, but points them out so they can be reviewed
+  const handleSave = () => {
+    const { clashes } = useCollisionStore.getState();
+    if (clashes.length > 0) {
+      toast.warning(`${clashes.length} component clash${clashes.length === 1 ? '' : 'es'} in the assembly`, {
+        description: 'Saved anyway. Review them under Problems.',
+        action: {
+          label: 'Review',
+          onClick: () => {
+            setRightCollapsed(false);
+            setRightTab('problems');
+          },
+        },
+      });
+    }
+    saveAssembly(true);
+  };
+
   const handleClearAll = useCallback(async () => {
+    if (isSceneLocked) return;
     if (!currentProjectId) {
       console.error('No project loaded, cannot clear components');
       return;
@@ -1420,51 +2225,26 @@ const Builder = () => {
     }
 
     try {
-      // Delete all components from backend
-      const componentIds = sceneComponents.map(c => {
-        const id = c.id.startsWith('comp-') ? c.id.replace('comp-', '') : c.id;
-        return parseInt(id, 10);
-      }).filter(id => !isNaN(id));
-
-      console.log('🗑️ Clearing all components:', componentIds.length);
-
-      // Delete each component from backend
-      const deletePromises = componentIds.map(async (componentId) => {
-        try {
-          const url = `${API_BASE}/api/assembly-items/${componentId}/?project_id=${currentProjectId}`;
-          const response = await fetch(url, {
-            method: 'DELETE',
-            credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-          });
-
-          if (!response.ok) {
-            console.error(`Failed to delete component ${componentId}:`, response.status);
-          }
-        } catch (error) {
-          console.error(`Error deleting component ${componentId}:`, error);
-        }
-      });
+      console.log('🗑️ Clearing all components:', sceneComponents.length);
 
-      await Promise.all(deletePromises);
+      // Delete each component from backend, one after the other so queued deletes keep their order
+      for (const component of sceneComponents) {
+        await deleteAssemblyItem(component.id);
+      }
 
       // Clear local state
       setSceneComponents([]);
       setSelectedComponent(null);
       
       // Reset history
-      setHistory([[]]);
-      setHistoryIndex(0);
-      prevComponentsRef.current = JSON.stringify([]);
+      resetHistory([]);
       addedComponentIdsRef.current = new Set();
 
       console.log('✅ All components cleared');
     } catch (error) {
       console.error('Error clearing components:', error);
     }
-  }, [currentProjectId, sceneComponents]);
+  }, [currentProjectId, sceneComponents, resetHistory, isSceneLocked, deleteAssemblyItem]);
   
   const handleSceneSettingsChange = useCallback((settings: SceneSettings) => {
     setSceneSettings(settings);
@@ -1527,16 +2307,61 @@ const Builder = () => {
     }
   }, [panModeActive, activeTool]);
 
+  useEffect(() => {
+    if ((isSceneLocked && ['move', 'rotate', 'annotate'].includes(activeTool)) || (!canReview && activeTool === 'comment')) {
+      setActiveTool('select');
+    }
+  }, [isSceneLocked, canReview, activeTool]);
+
+  const readonlyMessage = isDemo
+    ? 'Demo Mode. Sign in to save your work.'
+    : shareToken
+      ? `Shared read-only view${shareExpiresAt ? `, link expires ${formatDistanceToNow(new Date(shareExpiresAt), { addSuffix: true })}` : ''}.`
+      : `You have ${roleLabel(accessRole).toLowerCase()} access to this project. Changes are not saved.`;
+
+  if (shareLinkError) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-background">
+        <div className="text-center space-y-4 max-w-sm px-4">
+          <Link2Off className="h-10 w-10 mx-auto text-muted-foreground" />
+          {shareLinkError === 'invalid' ? (
+            <>
+              <h1 className="text-2xl font-bold">This link is no longer valid</h1>
+              <p className="text-muted-foreground">
+                The share link has expired or was revoked. Ask the project owner for a new one.
+              </p>
+            </>
+          ) : (
+            <>
+              <h1 className="text-2xl font-bold">The shared project could not be opened</h1>
+              <p className="text-muted-foreground">
+                The server cannot be reached right now. Check your connection and try again.
+              </p>
+            </>
+          )}
+          <div className="flex justify-center gap-2">
+            {shareLinkError === 'unreachable' && (
+              <Button variant="outline" onClick={() => window.location.reload()}>
+                Try again
+              </Button>
+            )}
+            <Button onClick={() => navigate(isAuthenticated ? '/projects' : '/')}>
+              {isAuthenticated ? 'Go to my projects' : 'Go to home'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="h-screen flex flex-col bg-background overflow-hidden">
       {/* Readonly/Demo Banner */}
-      {isReadonly && (
+      {isReadonly && !panelsHidden && (
         <Alert className="m-4 mb-0 border-accent/50 bg-accent/10">
           <Lock className="h-4 w-4" />
           <AlertDescription className="flex items-center justify-between">
-            <span>
-              {isDemo ? 'Demo Mode' : 'Read-only Mode'}. Sign in to save your work.
-            </span>
+            <span>{readonlyMessage}</span>
             {!isAuthenticated && (
               <Button
                 size="sm"
@@ -1551,44 +2376,65 @@ const Builder = () => {
       )}
 
       {/* Top Toolbar */}
-      <Toolbar 
-        onToolSelect={setActiveTool}
-        activeTool={activeTool} 
-        viewMode={viewMode}
-        onViewModeChange={setViewMode}
-        showGrid={showGrid}
-        onToggleGrid={() => setShowGrid(!showGrid)}
-        onUndo={handleUndo}
-        onRedo={handleRedo}
-        canUndo={historyIndex > 0}
-        canRedo={historyIndex < history.length - 1}
-        onSave={() => saveAssembly(true)}
-        saveStatus={saveStatus}
-        onCenterView={handleCenterView}
-        onZoomIn={handleZoomIn}
-        onZoomOut={handleZoomOut}
-        onPanMode={handlePanMode}
-        onErase={handleErase}
-        onSettings={handleSettings}
-        panModeActive={panModeActive}
-        onClearAll={handleClearAll}
-        isReadonly={isReadonly}
-      />
+      {!panelsHidden && (
+        <Toolbar 
+          onToolSelect={setActiveTool}
+          activeTool={activeTool} 
+          viewMode={viewMode}
+          onViewModeChange={setViewMode}
+          showGrid={showGrid}
+          onToggleGrid={() => setShowGrid(!showGrid)}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          canUndo={historyIndex > 0}
+          canRedo={historyIndex < history.length - 1}
+          onSave={handleSave}
+          saveStatus={saveStatus}
+          onCenterView={handleCenterView}
+          onZoomIn={handleZoomIn}
+          onZoomOut={handleZoomOut}
+          onPanMode={handlePanMode}
+          onErase={handleErase}
+          onSettings={handleSettings}
+          panModeActive={panModeActive}
+          onClearAll={handleClearAll}
+          onExport={() => setShowExportDialog(true)}
+          onDrawing={() => setShowDrawingDialog(true)}
+          exportDisabled={!!explodedView}
+          onHistory={() => setShowHistory(true)}
+          onCompare={() => setShowCompareDialog(true)}
+          connection={{ online: offline.online, pending: offline.pending, syncing: offline.syncing, conflict: !!offline.conflict }}
+          onSyncNow={handleSyncNow}
+          collaborators={collab.connected ? collab.peers : []}
+          collabClientId={collab.clientId}
+          isReadonly={isReadonly}
+          canComment={canReview}
+          role={isDemo ? undefined : accessRole}
+          onViews={() => setShowViews(true)}
+          onAssembly={() => (showAssembly ? handleCloseAssembly() : setShowAssembly(true))}
+          assemblyActive={showAssembly}
+        />
+      )}
 
       {/* Main Content Area */}
-      <div className="flex-1 flex gap-4 p-4 overflow-hidden">
+      <div className="flex-1 flex gap-4 p-4 overflow-hidden relative">
+        {comparison && (
+          <CompareView before={comparison.before} after={comparison.after} onClose={() => setComparison(null)} />
+        )}
+
         {/* Left Sidebar - Component Library */}
-        <div className={`shrink-0 transition-all ${leftCollapsed ? 'w-12' : 'w-80'}`}>
+        <div className={`shrink-0 transition-all ${leftCollapsed ? 'w-12' : 'w-80'} ${panelsHidden ? 'hidden' : ''}`}>
           <ComponentLibrary 
             collapsed={leftCollapsed} 
             onToggleCollapse={() => setLeftCollapsed(!leftCollapsed)} 
+            onAddComponent={handleAddFromLibrary}
           />
         </div>
 
         {/* Center - 3D Viewport */}
         <div className="flex-1 min-w-0 relative">
           {/* Debug overlay - remove after fixing */}
-          <div className="absolute top-2 left-2 z-50 bg-black/70 text-white p-2 rounded text-xs">
+          <div className={`absolute top-2 left-2 z-50 bg-black/70 text-white p-2 rounded text-xs ${panelsHidden ? 'hidden' : ''}`}>
             Components: {sceneComponents.length}
             {sceneComponents.length > 0 && (
               <div className="mt-1">
@@ -1603,19 +2449,52 @@ const Builder = () => {
             components={sceneComponents}
             groups={groups}
             onAddComponent={handleAddComponent}
-            onUpdateComponent={handleUpdateComponent}
-            onLockComponents={handleLockComponents}
-            onUnlockComponents={handleUnlockComponents}
+            onUpdateComponent={isSceneLocked ? undefined : handleUpdateComponent}
+            onLockComponents={isSceneLocked ? undefined : handleLockComponents}
+            onUnlockComponents={isSceneLocked ? undefined : handleUnlockComponents}
             onFindPairedComponent={findPairedComponent}
             activeTool={activeTool}
             controlsRef={sceneControlsRef}
             sceneSettings={sceneSettings}
+            canSelectComponent={canSelectComponent}
+            onOpenComment={handleOpenComment}
+            explodedView={explodedView}
           />
+          <div className="absolute top-2 right-2 z-50 flex flex-col items-end gap-2">
+            {(activeTool === 'measure' || activeTool === 'annotate') && (
+              <MeasurePanel tool={activeTool} />
+            )}
+            {showAssembly && !panelsHidden && (
+              <AssemblyPanel
+                steps={sequence}
+                componentNames={componentNames}
+                selectedIds={selectedStepIds}
+                unsequencedIds={unsequencedComponentIds(sequence, componentIds)}
+                playback={assemblyPlayback}
+                onPlaybackChange={setAssemblyPlayback}
+                onSuggest={handleSuggestSequence}
+                onExportImages={handleExportSteps}
+                exporting={exportingSteps}
+                isReadonly={isReadonly}
+                onClose={handleCloseAssembly}
+              />
+            )}
+          </div>
+          {presentation && (
+            <PresentationOverlay
+              views={cameraViews}
+              index={presentation.index}
+              playing={presentation.playing}
+              onIndexChange={handlePresentationIndex}
+              onPlayingChange={handlePresentationPlaying}
+              onExit={handleExitPresentation}
+            />
+          )}
         {/* Save button removed - now in Toolbar */}
         </div>
 
         {/* Right Sidebar - Properties & BOM */}
-        <div className={`shrink-0 flex flex-col gap-4 transition-all ${rightCollapsed ? 'w-12' : 'w-96'}`}>
+        <div className={`shrink-0 flex flex-col gap-4 transition-all ${rightCollapsed ? 'w-12' : 'w-96'} ${panelsHidden ? 'hidden' : ''}`}>
           <div className="flex-1 min-h-0 panel-glass flex flex-col">
             <div className="p-4 border-b border-border flex items-center justify-between shrink-0">
               <div className={rightCollapsed ? 'hidden' : ''}>
@@ -1630,14 +2509,33 @@ const Builder = () => {
                 {rightCollapsed ? <ChevronLeft className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
               </Button>
             </div>
-            <Tabs defaultValue="properties" className={`flex-1 flex flex-col min-h-0 ${rightCollapsed ? 'hidden' : ''}`}>
-              <TabsList className="grid w-full grid-cols-2 bg-secondary mx-4 mt-2 flex-shrink-0">
+            <Tabs value={rightTab} onValueChange={setRightTab} className={`flex-1 flex flex-col min-h-0 ${rightCollapsed ? 'hidden' : ''}`}>
+              <TabsList className="grid w-full grid-cols-6 bg-secondary mx-4 mt-2 flex-shrink-0">
                 <TabsTrigger value="properties">Properties</TabsTrigger>
+                <TabsTrigger value="line">Line</TabsTrigger>
                 <TabsTrigger value="bom">BOM</TabsTrigger>
+                <TabsTrigger value="simulation">Sim</TabsTrigger>
+                <TabsTrigger value="problems">
+                  Problems
+                  {problemCount > 0 && (
+                    <span className={`ml-1.5 rounded-full px-1.5 text-xs ${validation.errors.length > 0 || clashes.length > 0 ? 'bg-destructive text-destructive-foreground' : 'bg-yellow-500 text-black'}`}>
+                      {problemCount}
+                    </span>
+                  )}
+                </TabsTrigger>
+                <TabsTrigger value="review">
+                  Review
+                  {openThreadCount > 0 && (
+                    <span className="ml-1.5 rounded-full px-1.5 text-xs bg-amber-500 text-white">
+                      {openThreadCount}
+                    </span>
+                  )}
+                </TabsTrigger>
               </TabsList>
               <TabsContent value="properties" className="flex-1 mt-4 overflow-y-auto custom-scrollbar min-h-0">
                 <PropertiesPanel 
                   selectedComponent={selectedComponent}
+                  readonly={isReadonly}
                   onDeleteComponent={handleDeleteComponent}
                   onUpdateComponent={(component) => {
                     // Check if component is locked - if so, prevent dimension changes
@@ -1864,7 +2762,30 @@ const Builder = () => {
                 />
               </TabsContent>
               <TabsContent value="bom" className="flex-1 mt-4 overflow-hidden min-h-0">
-                <BOMPanel items={bomItems} />
+                <BOMPanel items={bomItems} projectName={projectName} />
+              </TabsContent>
+              <TabsContent value="line" className="flex-1 mt-4 overflow-y-auto custom-scrollbar min-h-0 px-4 space-y-4">
+                <fieldset disabled={isReadonly} className="space-y-4 min-w-0">
+                  <LinePanel />
+                  <PlacementConfigPanel />
+                </fieldset>
+              </TabsContent>
+              <TabsContent value="simulation" className="flex-1 mt-4 overflow-y-auto custom-scrollbar min-h-0 px-4">
+                <SimulationPanel />
+              </TabsContent>
+              <TabsContent value="problems" className="flex-1 mt-4 overflow-hidden min-h-0">
+                <ProblemsPanel validation={validation} componentNames={componentNames} />
+              </TabsContent>
+              <TabsContent value="review" className="flex-1 mt-4 overflow-hidden min-h-0">
+                <ReviewPanel
+                  threads={review.threads}
+                  componentNames={componentNames}
+                  canComment={canReview}
+                  onOpenThread={handleOpenThread}
+                  onSubmitDraft={handlePostDraft}
+                  onReply={handleReply}
+                  onSetResolved={review.setResolved}
+                />
               </TabsContent>
             </Tabs>
           </div>
@@ -1881,6 +2802,65 @@ const Builder = () => {
         onViewModeChange={setViewMode}
       />
       
+      {/* 3D Model Export Dialog */}
+      <ExportModelDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        onExport={handleExportModel}
+      />
+
+      {/* Dimensioned Drawing Dialog */}
+      <DrawingDialog
+        open={showDrawingDialog}
+        onOpenChange={setShowDrawingDialog}
+        projectName={projectName}
+      />
+
+      {/* Offline changes vs. a save made elsewhere */}
+      <SyncConflictDialog
+        open={showConflict}
+        onOpenChange={setShowConflict}
+        pending={offline.pending}
+        serverUpdatedAt={offline.conflict?.serverUpdatedAt ?? null}
+        onKeepLocal={handleKeepLocalChanges}
+        onUseServer={handleDiscardLocalChanges}
+      />
+
+      {/* Version History */}
+      <HistoryPanel
+        open={showHistory}
+        onOpenChange={setShowHistory}
+        snapshots={snapshots}
+        current={currentAssembly}
+        onSaveVersion={handleSaveVersion}
+        onRestore={handleRestoreSnapshot}
+        onFork={handleForkSnapshot}
+        onCompare={handleCompareSnapshot}
+        isReadonly={isReadonly}
+        isForking={forkSnapshot.isPending}
+      />
+
+      {/* Saved camera views and presentation */}
+      <CameraViewsPanel
+        open={showViews}
+        onOpenChange={setShowViews}
+        getCameraView={() => sceneControlsRef.current?.getCameraView() ?? null}
+        onGoTo={handleGoToView}
+        onPresent={handlePresent}
+        isReadonly={isReadonly}
+      />
+
+      {/* Compare two assemblies */}
+      <CompareDialog
+        open={showCompareDialog}
+        onOpenChange={setShowCompareDialog}
+        projectId={currentProjectId}
+        projectName={projectName}
+        snapshots={snapshots}
+        current={currentAssembly}
+        onCompare={(before, after) => setComparison({ before, after })}
+      />
+
       {/* 3D Settings Panel */}
       <SettingsPanel
         open={showSettingsPanel}
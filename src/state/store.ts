@@ -1,41 +1,109 @@
 import { create } from "zustand";
 import * as THREE from "three";
-import { Slot, ConveyorParams, PlacedComponent, SlotType, ConveyorModel } from "@/lib/types";
+import {
+  Slot,
+  ConveyorParams,
+  PlacedComponent,
+  SlotType,
+  ConveyorModel,
+  LineSection,
+  SectionKind,
+  SectionPose,
+  TurnDirection,
+} from "@/lib/types";
 import { generateSlots } from "@/lib/slots";
 import { calculateDimensions } from "@/lib/params";
-import { calculateOrientation } from "@/lib/placement";
+import { calculateOrientation, getValidSlots } from "@/lib/placement";
+import { DEFAULT_MODEL, getModelSpec, isConveyorModel, isEngineTypeAllowed } from "@/lib/modelCatalogue";
+import { getComponentMeta } from "@/lib/componentLibrary";
+import { SLOT_LIBRARY_KEYS } from "@/lib/bom";
+import { createSection, findSnapTarget, headingVector, layoutLine } from "@/lib/line";
+import { DEFAULT_SIMULATION_SETTINGS, SimulationSettings, SimulationStats } from "@/lib/simulation";
+import { MeasureMode, Measurement } from "@/lib/measurement";
+import { Annotation } from "@/lib/annotations";
+import { Clash } from "@/lib/collision";
+import { LibraryComponent } from "@/lib/componentUpload";
+import { loadLibraryPrefs, pushRecent, saveLibraryPrefs } from "@/lib/libraryPrefs";
+import { CollabPeer } from "@/lib/collaboration";
+import { CommentAnchor, ReviewComment } from "@/lib/reviewComments";
+import { SavedView } from "@/lib/cameraView";
+import { AssemblyStep, addAssemblyStep } from "@/lib/assemblySequence";
+
+/**
+ * Configurator state captured for undo/redo
+ */
+export interface PlacementSnapshot {
+  params: ConveyorParams;
+  components: PlacedComponent[];
+  sections?: LineSection[];
+  activeSectionId?: string;
+}
+
+/**
+ * Stable key for detecting placement changes between snapshots
+ */
+export function placementSnapshotKey(snapshot: PlacementSnapshot): string {
+  return JSON.stringify({
+    params: snapshot.params,
+    components: snapshot.components.map((c) => ({ id: c.id, slotId: c.slotId })),
+    activeSectionId: snapshot.activeSectionId,
+    sections: (snapshot.sections ?? []).map(({ components, ...section }) => ({
+      ...section,
+      components: components.map((c) => c.slotId),
+    })),
+  });
+}
 
 interface PlacementState {
-  // Conveyor parameters
+  // Conveyor line: every section with resolved poses. The active section's
+  // params/components are edited through `params`/`components` below.
+  sections: LineSection[];
+  activeSectionId: string;
+
+  // Conveyor parameters (active section)
   params: ConveyorParams;
   
   // Slots
   slots: Slot[];
   
-  // Placed components
+  // Placed components (active section)
   components: PlacedComponent[];
   
   // UI state
   draggingType: SlotType | null;
   selectedComponentId: string | null;
   hoveredSlotId: string | null;
+
+  // Slots/components highlighted from the problems panel
+  highlightedSlotIds: string[];
+  highlightedComponentIds: string[];
   
   // Actions
   updateParams: (updates: Partial<ConveyorParams>) => void;
+  selectModel: (model: ConveyorModel) => void;
   regenerateSlots: () => void;
   placeComponent: (type: SlotType, slotId: string, name: string, modelUrl?: string) => void;
   removeComponent: (componentId: string) => void;
   setDraggingType: (type: SlotType | null) => void;
   setSelectedComponent: (id: string | null) => void;
   setHoveredSlot: (id: string | null) => void;
+  getSnapshot: () => PlacementSnapshot;
+  restoreSnapshot: (snapshot: PlacementSnapshot) => void;
+  hydrate: (snapshot: PlacementSnapshot | null) => void;
+  setHighlight: (target: { slotIds?: string[]; componentIds?: string[] } | null) => void;
+  addSection: (kind: SectionKind, options?: { turn?: TurnDirection }) => void;
+  removeSection: (id: string) => void;
+  setActiveSection: (id: string) => void;
+  moveSection: (id: string, entry: SectionPose) => void;
+  updateSection: (id: string, updates: Partial<Pick<LineSection, "turn" | "curveRadius" | "mergeOffset">>) => void;
 }
 
-const defaultParams: ConveyorParams = {
+export const defaultParams: ConveyorParams = {
   L: 1000, // 1000mm default
   N: 500,  // 500mm default
   D: 1055, // Will be recalculated
   R: 567,  // Will be recalculated
-  model: "DPS50",
+  model: DEFAULT_MODEL,
   engineType: undefined,
   sideGuideEnabled: false,
   sideGuideHeight: 100,
@@ -53,14 +121,66 @@ export const usePlacementStore = create<PlacementState>((set, get) => {
   
   // Generate initial slots
   const initialSlots = generateSlots(initialParams);
+
+  // A line starts out as a single straight conveyor centred on the origin
+  const initialSection: LineSection = { ...createSection("STRAIGHT", initialParams), id: "section-1" };
+
+  /**
+   * Write the active section back into the line and re-resolve poses and ride heights
+   */
+  const syncLine = () => {
+    const { sections, activeSectionId, params, components } = get();
+    const laidOut = layoutLine(
+      sections.map((s) => {
+        if (s.id !== activeSectionId) return s;
+
+        // Free sections keep their centre when their length changes
+        let entry = s.entry;
+        if (!s.attachedTo && s.kind !== "CURVE" && s.params.D !== params.D) {
+          const dir = headingVector(s.entry.heading);
+          const shift = (s.params.D - params.D) / 2;
+          entry = { ...s.entry, x: s.entry.x + dir.x * shift, z: s.entry.z + dir.z * shift };
+        }
+        return { ...s, params, components, entry };
+      })
+    );
+    const active = laidOut.find((s) => s.id === activeSectionId);
+    const paramsChanged = !!active && JSON.stringify(active.params) !== JSON.stringify(params);
+
+    set({ sections: laidOut, ...(paramsChanged && active ? { params: active.params } : {}) });
+    if (paramsChanged) {
+      get().regenerateSlots();
+    }
+  };
+
+  /**
+   * Load a section into the configurator fields
+   */
+  const activate = (section: LineSection) => {
+    set({
+      activeSectionId: section.id,
+      params: section.params,
+      components: section.components,
+      draggingType: null,
+      selectedComponentId: null,
+      hoveredSlotId: null,
+      highlightedSlotIds: [],
+      highlightedComponentIds: [],
+    });
+    get().regenerateSlots();
+  };
   
   return {
+    sections: [initialSection],
+    activeSectionId: initialSection.id,
     params: initialParams,
     slots: initialSlots,
     components: [],
     draggingType: null,
     selectedComponentId: null,
     hoveredSlotId: null,
+    highlightedSlotIds: [],
+    highlightedComponentIds: [],
 
   updateParams: (updates) => {
     set((state) => {
@@ -77,11 +197,34 @@ export const usePlacementStore = create<PlacementState>((set, get) => {
         newParams.R = R;
       }
 
-      return { params: newParams };
+      // Drop components whose slot no longer exists under the new parameters
+      const slotIds = new Set(generateSlots(newParams).map((slot) => slot.id));
+      const components = state.components.filter((c) => slotIds.has(c.slotId));
+      const selectedComponentId = components.some((c) => c.id === state.selectedComponentId)
+        ? state.selectedComponentId
+        : null;
+
+      // Ride height is shared by connected sections, so set it on the root of the chain
+      let sections = state.sections;
+      if (updates.frameHeight !== undefined) {
+        let root = sections.find((s) => s.id === state.activeSectionId);
+        while (root?.attachedTo) {
+          root = sections.find((s) => s.id === root!.attachedTo);
+        }
+        if (root && root.id !== state.activeSectionId) {
+          const rootId = root.id;
+          sections = sections.map((s) =>
+            s.id === rootId ? { ...s, params: { ...s.params, frameHeight: updates.frameHeight } } : s
+          );
+        }
+      }
+
+      return { params: newParams, components, selectedComponentId, sections };
     });
     
     // Regenerate slots when params change
     get().regenerateSlots();
+    syncLine();
   },
 
   regenerateSlots: () => {
@@ -97,6 +240,29 @@ export const usePlacementStore = create<PlacementState>((set, get) => {
     set({ slots: updatedSlots });
   },
 
+  selectModel: (selected) => {
+    const model = isConveyorModel(selected) ? selected : DEFAULT_MODEL;
+    const spec = getModelSpec(model);
+    const { engineType } = get().params;
+
+    // Keep the current engine type if the new model supports it
+    get().updateParams({
+      model,
+      engineType: engineType && isEngineTypeAllowed(model, engineType) ? engineType : spec.defaultEngineType,
+    });
+
+    // Place the model's default components into the first free valid slot
+    for (const type of spec.defaultComponents) {
+      const { slots, params, components } = get();
+      if (components.some((c) => c.type === type)) continue;
+
+      const [slot] = getValidSlots(type, slots, params, components);
+      if (slot) {
+        get().placeComponent(type, slot.id, getComponentMeta(SLOT_LIBRARY_KEYS[type]).name);
+      }
+    }
+  },
+
   placeComponent: (type, slotId, name, modelUrl) => {
     const { slots, components } = get();
     const slot = slots.find((s) => s.id === slotId);
@@ -128,6 +294,7 @@ export const usePlacementStore = create<PlacementState>((set, get) => {
       slots: updatedSlots,
       draggingType: null,
     });
+    syncLine();
   },
 
   removeComponent: (componentId) => {
@@ -146,6 +313,7 @@ export const usePlacementStore = create<PlacementState>((set, get) => {
       slots: updatedSlots,
       selectedComponentId: get().selectedComponentId === componentId ? null : get().selectedComponentId,
     });
+    syncLine();
   },
 
   setDraggingType: (type) => {
@@ -159,6 +327,513 @@ export const usePlacementStore = create<PlacementState>((set, get) => {
   setHoveredSlot: (id) => {
     set({ hoveredSlotId: id });
   },
+
+  getSnapshot: () => {
+    const { params, components, sections, activeSectionId } = get();
+    return { params, components, sections, activeSectionId };
+  },
+
+  restoreSnapshot: (snapshot) => {
+    const { selectedComponentId, sections, activeSectionId } = get();
+    set({
+      params: snapshot.params,
+      components: snapshot.components,
+      sections: snapshot.sections ?? sections,
+      activeSectionId: snapshot.activeSectionId ?? activeSectionId,
+      selectedComponentId: snapshot.components.some((c) => c.id === selectedComponentId)
+        ? selectedComponentId
+        : null,
+    });
+
+    // Rebuild slots and occupancy for the restored configuration
+    get().regenerateSlots();
+  },
+
+  hydrate: (snapshot) => {
+    // Fall back to the default configuration when the project has no saved state
+    const source = snapshot ?? { params: defaultParams, components: [] };
+
+    const sanitize = (sourceParams: ConveyorParams, sourceComponents: PlacedComponent[]) => {
+      const params = {
+        ...defaultParams,
+        ...sourceParams,
+        ...calculateDimensions(sourceParams.L, sourceParams.N, sourceParams.model),
+      };
+
+      // Keep only components whose slot still exists for these parameters
+      const slotIds = new Set(generateSlots(params).map((slot) => slot.id));
+      return { params, components: sourceComponents.filter((c) => slotIds.has(c.slotId)) };
+    };
+
+    // Projects saved before lines existed hold a single conveyor
+    const single = sanitize(source.params, source.components);
+    const sections = source.sections?.length
+      ? layoutLine(source.sections.map((s) => ({ ...s, ...sanitize(s.params, s.components) })))
+      : [{ ...createSection("STRAIGHT", single.params), id: "section-1", components: single.components }];
+    const active = sections.find((s) => s.id === source.activeSectionId) ?? sections[0];
+
+    set({ sections });
+    activate(active);
+  },
+
+  setHighlight: (target) => {
+    set({
+      highlightedSlotIds: target?.slotIds ?? [],
+      highlightedComponentIds: target?.componentIds ?? [],
+    });
+  },
+
+  addSection: (kind, options = {}) => {
+    syncLine();
+    const { sections, activeSectionId, params } = get();
+    const target = sections.find((s) => s.id === activeSectionId);
+    if (!target) return;
+
+    // New sections continue the active one: same model, width and ride height, no accessories
+    const sectionParams: ConveyorParams = {
+      ...defaultParams,
+      L: params.L,
+      N: params.N,
+      model: params.model,
+      frameHeight: params.frameHeight,
+      supportingFrame: params.supportingFrame,
+      ...calculateDimensions(params.L, params.N, params.model),
+    };
+
+    // Continuing from an exit that already feeds a section would overlap it, so start a free section
+    const exitTaken = kind !== "MERGE" && sections.some((s) => s.attachedTo === target.id && s.kind !== "MERGE");
+    const section = createSection(kind, sectionParams, {
+      attachedTo: exitTaken ? null : target.id,
+      turn: kind === "CURVE" || kind === "MERGE" ? options.turn ?? "LEFT" : undefined,
+    });
+
+    set({ sections: layoutLine([...sections, section]) });
+    activate(get().sections.find((s) => s.id === section.id)!);
+  },
+
+  removeSection: (id) => {
+    syncLine();
+    const { sections, activeSectionId } = get();
+    if (sections.length <= 1) return;
+
+    // Sections that joined the removed one stay where they are, but become free
+    const remaining = layoutLine(
+      sections
+        .filter((s) => s.id !== id)
+        .map((s) => (s.attachedTo === id ? { ...s, attachedTo: null } : s))
+    );
+
+    set({ sections: remaining });
+    if (id === activeSectionId) {
+      activate(remaining[0]);
+    } else {
+      syncLine();
+    }
+  },
+
+  setActiveSection: (id) => {
+    if (id === get().activeSectionId) return;
+    syncLine();
+    const section = get().sections.find((s) => s.id === id);
+    if (section) {
+      activate(section);
+    }
+  },
+
+  moveSection: (id, entry) => {
+    syncLine();
+    const { sections } = get();
+    const section = sections.find((s) => s.id === id);
+    if (!section || section.kind === "MERGE") return;
+
+    // Snap onto a nearby open exit, otherwise leave the section free at the new pose
+    const target = findSnapTarget(sections, id, entry);
+    set({
+      sections: sections.map((s) =>
+        s.id === id ? { ...s, entry, attachedTo: target ? target.id : null } : s
+      ),
+    });
+    syncLine();
+  },
+
+  updateSection: (id, updates) => {
+    syncLine();
+    set({ sections: get().sections.map((s) => (s.id === id ? { ...s, ...updates } : s)) });
+
+    // Curves take their length from the radius, so reload the active section's params
+    const { sections, activeSectionId } = get();
+    const laidOut = layoutLine(sections);
+    set({ sections: laidOut });
+    if (id === activeSectionId) {
+      const active = laidOut.find((s) => s.id === id)!;
+      get().updateParams({ L: active.params.L });
+    }
+  },
+  };
+});
+
+interface SimulationStoreState {
+  running: boolean;
+  settings: SimulationSettings;
+  stats: SimulationStats | null;
+  resetCount: number; // bumped to restart the simulation from an empty belt
+
+  setRunning: (running: boolean) => void;
+  updateSimulationSettings: (updates: Partial<SimulationSettings>) => void;
+  resetSimulation: () => void;
+  setSimulationStats: (stats: SimulationStats | null) => void;
+}
+
+/**
+ * Throughput simulation controls (set by the panel) and the latest figures (reported by the scene)
+ */
+export const useSimulationStore = create<SimulationStoreState>((set) => ({
+  running: false,
+  settings: DEFAULT_SIMULATION_SETTINGS,
+  stats: null,
+  resetCount: 0,
+
+  setRunning: (running) => set({ running }),
+
+  updateSimulationSettings: (updates) =>
+    set((state) => ({ settings: { ...state.settings, ...updates } })),
+
+  resetSimulation: () =>
+    set((state) => ({
+      running: false,
+      stats: null,
+      resetCount: state.resetCount + 1,
+      settings: { ...state.settings, pressedStop: null },
+    })),
+
+  setSimulationStats: (stats) => set({ stats }),
+}));
+
+interface MeasureStoreState {
+  mode: MeasureMode;
+  measurements: Measurement[]; // session only
+  annotations: Annotation[]; // saved with the project
+
+  setMeasureMode: (mode: MeasureMode) => void;
+  addMeasurement: (measurement: Measurement) => void;
+  removeMeasurement: (id: string) => void;
+  clearMeasurements: () => void;
+  setAnnotations: (annotations: Annotation[]) => void;
+  addAnnotation: (annotation: Annotation) => void;
+  updateAnnotation: (id: string, updates: Partial<Pick<Annotation, "text" | "offset">>) => void;
+  removeAnnotation: (id: string) => void;
+}
+
+/**
+ * Measure tool results and the annotations pinned in the scene
+ */
+export const useMeasureStore = create<MeasureStoreState>((set) => ({
+  mode: "distance",
+  measurements: [],
+  annotations: [],
+
+  setMeasureMode: (mode) => set({ mode }),
+
+  addMeasurement: (measurement) =>
+    set((state) => ({ measurements: [...state.measurements, measurement] })),
+
+  removeMeasurement: (id) =>
+    set((state) => ({ measurements: state.measurements.filter((m) => m.id !== id) })),
+
+  clearMeasurements: () => set({ measurements: [] }),
+
+  setAnnotations: (annotations) => set({ annotations }),
+
+  addAnnotation: (annotation) =>
+    set((state) => ({ annotations: [...state.annotations, annotation] })),
+
+  updateAnnotation: (id, updates) =>
+    set((state) => ({
+      annotations: state.annotations.map((a) => (a.id === id ? { ...a, ...updates } : a)),
+    })),
+
+  removeAnnotation: (id) =>
+    set((state) => ({ annotations: state.annotations.filter((a) => a.id !== id) })),
+}));
+
+interface CollisionStoreState {
+  enabled: boolean;
+  clashes: Clash[]; // reported by the scene
+  activeClashId: string | null; // clash picked in the problems panel
+
+  setCollisionEnabled: (enabled: boolean) => void;
+  setClashes: (clashes: Clash[]) => void;
+  setActiveClash: (id: string | null) => void;
+}
+
+/**
+ * Interference between free-placed scene components
+ */
+export const useCollisionStore = create<CollisionStoreState>((set) => ({
+  enabled: true,
+  clashes: [],
+  activeClashId: null,
+
+  setCollisionEnabled: (enabled) => set(enabled ? { enabled } : { enabled, clashes: [], activeClashId: null }),
+
+  setClashes: (clashes) =>
+    set((state) => ({
+      clashes,
+      activeClashId: clashes.some((c) => c.id === state.activeClashId) ? state.activeClashId : null,
+    })),
+
+  setActiveClash: (activeClashId) => set({ activeClashId }),
+}));
+
+/**
+ * A file uploaded to the component library in this session, from upload through conversion
+ */
+export interface ComponentUpload {
+  id: string;
+  fileName: string;
+  stage: "uploading" | "processing" | "ready" | "failed";
+  progress: number; // 0–1: upload progress, then conversion progress when the backend reports it
+  error?: string;
+  component?: LibraryComponent; // once the backend has created it
+  startedAt: number; // ms, for the processing timeout
+}
+
+interface UploadStoreState {
+  uploads: ComponentUpload[];
+
+  addUpload: (upload: ComponentUpload) => void;
+  updateUpload: (id: string, updates: Partial<ComponentUpload>) => void;
+  removeUpload: (id: string) => void;
+}
+
+/**
+ * Component library uploads and their processing status
+ */
+export const useUploadStore = create<UploadStoreState>((set) => ({
+  uploads: [],
+
+  addUpload: (upload) => set((state) => ({ uploads: [upload, ...state.uploads] })),
+
+  updateUpload: (id, updates) =>
+    set((state) => ({
+      uploads: state.uploads.map((u) => (u.id === id ? { ...u, ...updates } : u)),
+    })),
+
+  removeUpload: (id) => set((state) => ({ uploads: state.uploads.filter((u) => u.id !== id) })),
+}));
+
+interface LibraryStoreState {
+  user: string | null; // whose favourites and recents are loaded
+  favourites: number[];
+  recents: number[];
+
+  loadPrefs: (user: string | null) => void;
+  toggleFavourite: (componentId: number) => void;
+  markRecent: (componentId: number) => void;
+}
+
+/**
+ * Favourite and recently used library components, saved per user
+ */
+export const useLibraryStore = create<LibraryStoreState>((set, get) => {
+  const save = () => {
+    const { user, favourites, recents } = get();
+    saveLibraryPrefs(user, { favourites, recents });
+  };
+
+  return {
+    user: null,
+    ...loadLibraryPrefs(null),
+
+    loadPrefs: (user) => set({ user, ...loadLibraryPrefs(user) }),
+
+    toggleFavourite: (componentId) => {
+      set((state) => ({
+        favourites: state.favourites.includes(componentId)
+          ? state.favourites.filter((id) => id !== componentId)
+          : [...state.favourites, componentId],
+      }));
+      save();
+    },
+
+    markRecent: (componentId) => {
+      set((state) => ({ recents: pushRecent(state.recents, componentId) }));
+      save();
+    },
   };
 });
 
+/**
+ * A sync stopped because the project was saved elsewhere since the local edits started
+ */
+export interface SyncConflict {
+  projectId: number;
+  serverUpdatedAt: string | null;
+}
+
+interface OfflineStoreState {
+  online: boolean; // whether the API could be reached last time it was tried
+  pending: number; // queued mutations of the open project
+  syncing: boolean;
+  conflict: SyncConflict | null;
+
+  setOnline: (online: boolean) => void;
+  setPending: (pending: number) => void;
+  setSyncing: (syncing: boolean) => void;
+  setConflict: (conflict: SyncConflict | null) => void;
+}
+
+/**
+ * Connection state and the local save queue of the open project
+ */
+export const useOfflineStore = create<OfflineStoreState>((set) => ({
+  online: typeof navigator === "undefined" ? true : navigator.onLine,
+  pending: 0,
+  syncing: false,
+  conflict: null,
+
+  setOnline: (online) => set({ online }),
+  setPending: (pending) => set({ pending }),
+  setSyncing: (syncing) => set({ syncing }),
+  setConflict: (conflict) => set({ conflict }),
+}));
+
+interface CollabStoreState {
+  connected: boolean;
+  clientId: string | null;
+  peers: CollabPeer[]; // everyone in the project room, this client included
+  locks: Record<string, string>; // component id -> client id that has it selected
+
+  setConnection: (connected: boolean, clientId?: string | null) => void;
+  setPresence: (peers: CollabPeer[], locks: Record<string, string>) => void;
+}
+
+/**
+ * Who else is editing the open project, and which components they have claimed
+ */
+export const useCollabStore = create<CollabStoreState>((set) => ({
+  connected: false,
+  clientId: null,
+  peers: [],
+  locks: {},
+
+  setConnection: (connected, clientId = null) =>
+    set(connected ? { connected, clientId } : { connected, clientId: null, peers: [], locks: {} }),
+
+  setPresence: (peers, locks) => set({ peers, locks }),
+}));
+
+interface ReviewStoreState {
+  comments: ReviewComment[]; // flat, replies included
+  draft: CommentAnchor | null; // pin placed with the comment tool, waiting for its text
+  activeThreadId: number | null;
+  showResolved: boolean;
+
+  setComments: (comments: ReviewComment[]) => void;
+  upsertComment: (comment: ReviewComment) => void;
+  setDraft: (draft: CommentAnchor | null) => void;
+  setActiveThread: (id: number | null) => void;
+  setShowResolved: (show: boolean) => void;
+}
+
+/**
+ * Review comments of the open project, shared by the comment pins and the review panel
+ */
+export const useReviewStore = create<ReviewStoreState>((set) => ({
+  comments: [],
+  draft: null,
+  activeThreadId: null,
+  showResolved: false,
+
+  setComments: (comments) => set({ comments }),
+
+  upsertComment: (comment) =>
+    set((state) => ({
+      comments: state.comments.some((c) => c.id === comment.id)
+        ? state.comments.map((c) => (c.id === comment.id ? comment : c))
+        : [...state.comments, comment],
+    })),
+
+  setDraft: (draft) => set({ draft }),
+  setActiveThread: (activeThreadId) => set({ activeThreadId }),
+  setShowResolved: (showResolved) => set({ showResolved }),
+}));
+
+interface ViewsStoreState {
+  views: SavedView[]; // saved with the project, in presentation order
+
+  setViews: (views: SavedView[]) => void;
+  addView: (view: SavedView) => void;
+  updateView: (id: string, updates: Partial<Pick<SavedView, "name" | "caption" | "view">>) => void;
+  removeView: (id: string) => void;
+  moveView: (id: string, offset: number) => void;
+}
+
+/**
+ * Named camera bookmarks of the open project, also the slides of the presentation
+ */
+export const useViewsStore = create<ViewsStoreState>((set) => ({
+  views: [],
+
+  setViews: (views) => set({ views }),
+
+  addView: (view) => set((state) => ({ views: [...state.views, view] })),
+
+  updateView: (id, updates) =>
+    set((state) => ({ views: state.views.map((v) => (v.id === id ? { ...v, ...updates } : v)) })),
+
+  removeView: (id) => set((state) => ({ views: state.views.filter((v) => v.id !== id) })),
+
+  moveView: (id, offset) =>
+    set((state) => {
+      const from = state.views.findIndex((v) => v.id === id);
+      const to = from + offset;
+      if (from < 0 || to < 0 || to >= state.views.length) return state;
+      const views = [...state.views];
+      const [moved] = views.splice(from, 1);
+      views.splice(to, 0, moved);
+      return { views };
+    }),
+}));
+
+interface AssemblyStoreState {
+  explodeFactor: number; // 0 = assembled
+  steps: AssemblyStep[]; // installation sequence, saved with the project
+
+  setExplodeFactor: (factor: number) => void;
+  setSteps: (steps: AssemblyStep[]) => void;
+  addStep: (step: AssemblyStep) => void;
+  updateStep: (id: string, updates: Partial<Pick<AssemblyStep, "title" | "note">>) => void;
+  removeStep: (id: string) => void;
+  moveStep: (id: string, offset: number) => void;
+}
+
+/**
+ * Exploded view and recorded assembly sequence of the open project
+ */
+export const useAssemblyStore = create<AssemblyStoreState>((set) => ({
+  explodeFactor: 0,
+  steps: [],
+
+  setExplodeFactor: (factor) => set({ explodeFactor: factor }),
+
+  setSteps: (steps) => set({ steps }),
+
+  addStep: (step) => set((state) => ({ steps: addAssemblyStep(state.steps, step) })),
+
+  updateStep: (id, updates) =>
+    set((state) => ({ steps: state.steps.map((s) => (s.id === id ? { ...s, ...updates } : s)) })),
+
+  removeStep: (id) => set((state) => ({ steps: state.steps.filter((s) => s.id !== id) })),
+
+  moveStep: (id, offset) =>
+    set((state) => {
+      const from = state.steps.findIndex((s) => s.id === id);
+      const to = from + offset;
+      if (from < 0 || to < 0 || to >= state.steps.length) return state;
+      const steps = [...state.steps];
+      const [moved] = steps.splice(from, 1);
+      steps.splice(to, 0, moved);
+      return { steps };
+    }),
+}));
@@ -39,6 +39,7 @@ export interface BOMItem {
   material: string;
   unitCost: number;
   totalCost: number;
+  unpriced?: boolean; // no price known for the part, quoted at 0
 }
 
 export interface ConveyorSystem {